@@ -0,0 +1,540 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import semver from "semver";
+import { readJsonFile, statMtime } from "./cache.js";
+import { readLockedVersions } from "./lockfileDiff.js";
+
+// Overrides the shared store location (`~/.bridge/advisories`), e.g. for CI images with a baked-in dump.
+export const ADVISORY_DB_DIR_ENV = "BRIDGE_ADVISORY_DB_DIR";
+export const OFFLINE_MODE_ENV = "BRIDGE_OFFLINE";
+const ADVISORY_DB_FILE = "osv-advisories.json";
+const ADVISORY_DB_VERSION = 1;
+
+export const ADVISORY_ECOSYSTEMS = ["npm", "PyPI", "RubyGems", "Hex"] as const;
+export type AdvisoryEcosystem = (typeof ADVISORY_ECOSYSTEMS)[number];
+export type AdvisorySeverity = "critical" | "high" | "medium" | "low";
+
+interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+interface StoredRange {
+  type: string;
+  events: OsvEvent[];
+}
+
+interface StoredAffected {
+  ecosystem: AdvisoryEcosystem;
+  name: string;
+  ranges: StoredRange[];
+  versions: string[];
+}
+
+interface StoredAdvisory {
+  id: string;
+  aliases: string[];
+  summary: string;
+  modified: string;
+  severity: AdvisorySeverity;
+  affected: StoredAffected[];
+}
+
+interface AdvisoryDb {
+  version: number;
+  importedAt: string;
+  sources: string[];
+  advisories: Record<string, StoredAdvisory>;
+}
+
+export interface AdvisoryDbInfo {
+  path: string;
+  importedAt: string | null;
+  newestModified: string | null;
+  total: number;
+  byEcosystem: Record<AdvisoryEcosystem, number>;
+  sources: string[];
+}
+
+export interface AdvisoryImportResult {
+  imported: number;
+  skipped: number;
+  info: AdvisoryDbInfo;
+}
+
+export interface LockedPackage {
+  ecosystem: AdvisoryEcosystem;
+  name: string;
+  version: string;
+  lockfile: string;
+}
+
+export interface AdvisoryMatch {
+  id: string;
+  aliases: string[];
+  summary: string;
+  severity: AdvisorySeverity;
+  ecosystem: AdvisoryEcosystem;
+  name: string;
+  version: string;
+  lockfile: string;
+  fixed?: string;
+}
+
+export interface OfflineAuditSource {
+  ecosystems: AdvisoryEcosystem[];
+  importedAt: string | null;
+  newestModified: string | null;
+}
+
+export interface OfflineAuditResult {
+  summary: { critical: number; high: number; medium: number; low: number; total: number };
+  matches: AdvisoryMatch[];
+  source: OfflineAuditSource;
+}
+
+export function advisoryDbDir(): string {
+  return process.env[ADVISORY_DB_DIR_ENV] || path.join(os.homedir(), ".bridge", "advisories");
+}
+
+export function isOfflineModeRequested(): boolean {
+  return /^(1|true)$/i.test(process.env[OFFLINE_MODE_ENV] || "");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function recordList(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function nestedField(record: Record<string, unknown>, key: string, field: string): unknown {
+  const nested = record[key];
+  return isRecord(nested) ? nested[field] : undefined;
+}
+
+function normalizePackageName(ecosystem: AdvisoryEcosystem, name: string): string {
+  return ecosystem === "PyPI" ? name.toLowerCase().replace(/[-_.]+/g, "-") : name.toLowerCase();
+}
+
+// --- Versions ---------------------------------------------------------------------------------
+
+const PRE_RELEASE_RANK: Record<string, number> = { dev: 0, a: 1, alpha: 1, b: 2, beta: 2, c: 3, rc: 3, pre: 3, preview: 3 };
+
+function versionTokenRank(token: string): number {
+  if (token === "post") return 5;
+  return PRE_RELEASE_RANK[token] ?? 4;
+}
+
+// PEP 440 and RubyGems orderings, close enough for range checks: numeric segments compare as
+// numbers, and pre-release tags (dev, a, b, rc, ...) sort before the release they precede.
+function compareLooseVersions(a: string, b: string): number {
+  const parts = (version: string) => (version.toLowerCase().replace(/^v/, "").match(/\d+|[a-z]+/g) || [])
+    .map(token => (/^\d/.test(token) ? Number(token) : token));
+  const left = parts(a);
+  const right = parts(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i += 1) {
+    const x = left[i];
+    const y = right[i];
+    if (x === y) continue;
+    if (x === undefined) {
+      if (y === 0) continue;
+      return typeof y === "string" && versionTokenRank(y) < 4 ? 1 : -1;
+    }
+    if (y === undefined) {
+      if (x === 0) continue;
+      return typeof x === "string" && versionTokenRank(x) < 4 ? -1 : 1;
+    }
+    if (typeof x === "number" && typeof y === "number") return x < y ? -1 : 1;
+    if (typeof x === "number") return 1;
+    if (typeof y === "number") return -1;
+    const rank = versionTokenRank(x) - versionTokenRank(y);
+    if (rank !== 0) return rank;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+function compareVersions(ecosystem: AdvisoryEcosystem, a: string, b: string): number {
+  if ((ecosystem === "npm" || ecosystem === "Hex") && semver.valid(a) && semver.valid(b)) {
+    return semver.compare(a, b);
+  }
+  return compareLooseVersions(a, b);
+}
+
+const eventVersion = (event: OsvEvent): string =>
+  event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? "0";
+
+function matchRange(
+  ecosystem: AdvisoryEcosystem,
+  version: string,
+  range: StoredRange,
+): { affected: boolean; fixed?: string } {
+  if (range.type === "GIT") {
+    return { affected: false };
+  }
+  const compare = (a: string, b: string) => (a === "0" ? (b === "0" ? 0 : -1) : b === "0" ? 1 : compareVersions(ecosystem, a, b));
+  const events = [...range.events].sort((a, b) => compare(eventVersion(a), eventVersion(b)));
+  let affected = false;
+  events.forEach(event => {
+    if (event.introduced !== undefined) {
+      if (compare(version, event.introduced) >= 0) affected = true;
+    } else if (event.fixed !== undefined) {
+      if (compare(version, event.fixed) >= 0) affected = false;
+    } else if (event.last_affected !== undefined) {
+      if (compare(version, event.last_affected) > 0) affected = false;
+    }
+  });
+  const fixed = affected
+    ? events.find(event => event.fixed !== undefined && compare(event.fixed, version) > 0)?.fixed
+    : undefined;
+  return { affected, fixed };
+}
+
+const CVSS3_WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+};
+
+export function cvss3BaseScore(vector: string): number | null {
+  if (!/^CVSS:3\.[01]\//.test(vector)) return null;
+  const metrics = Object.fromEntries(vector.split("/").slice(1).map(part => part.split(":") as [string, string]));
+  const changed = metrics.S === "C";
+  const privileges = { N: 0.85, L: changed ? 0.68 : 0.62, H: changed ? 0.5 : 0.27 }[metrics.PR as "N" | "L" | "H"];
+  const weight = (metric: string) => CVSS3_WEIGHTS[metric][metrics[metric]];
+  const values = ["AV", "AC", "UI", "C", "I", "A"].map(weight);
+  if (privileges === undefined || values.some(value => value === undefined)) return null;
+  const [attackVector, complexity, interaction, confidentiality, integrity, availability] = values;
+  const iss = 1 - (1 - confidentiality) * (1 - integrity) * (1 - availability);
+  const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+  if (impact <= 0) return 0;
+  const exploitability = 8.22 * attackVector * complexity * privileges * interaction;
+  const roundUp = (value: number) => Math.ceil(Math.round(value * 100000) / 10000) / 10;
+  return roundUp(Math.min(changed ? 1.08 * (impact + exploitability) : impact + exploitability, 10));
+}
+
+function severityFromLabel(label: unknown): AdvisorySeverity | null {
+  const value = String(label || "").toLowerCase();
+  if (value === "critical" || value === "high" || value === "low") return value;
+  if (value === "moderate" || value === "medium") return "medium";
+  return null;
+}
+
+function severityFromScore(score: number): AdvisorySeverity {
+  if (score >= 9) return "critical";
+  if (score >= 7) return "high";
+  if (score >= 4) return "medium";
+  return "low";
+}
+
+function advisorySeverity(raw: Record<string, unknown>): AdvisorySeverity {
+  const labelled = severityFromLabel(nestedField(raw, "database_specific", "severity"))
+    ?? recordList(raw.affected)
+      .map(entry => severityFromLabel(nestedField(entry, "ecosystem_specific", "severity") ?? nestedField(entry, "database_specific", "severity")))
+      .find(Boolean);
+  if (labelled) return labelled;
+  const scores = recordList(raw.severity)
+    .map(entry => {
+      const score = String(entry.score || "");
+      return /^\d+(\.\d+)?$/.test(score) ? Number(score) : cvss3BaseScore(score);
+    })
+    .filter((score): score is number => score !== null);
+  if (scores.length > 0) return severityFromScore(Math.max(...scores));
+  return String(raw.id).startsWith("MAL-") ? "critical" : "medium";
+}
+
+function normalizeAdvisory(raw: unknown): StoredAdvisory | null {
+  if (!isRecord(raw) || typeof raw.id !== "string" || raw.withdrawn) return null;
+  const affected: StoredAffected[] = recordList(raw.affected).flatMap((entry): StoredAffected[] => {
+    const ecosystem = ADVISORY_ECOSYSTEMS.find(name => name === nestedField(entry, "package", "ecosystem"));
+    const name = nestedField(entry, "package", "name");
+    if (!ecosystem || typeof name !== "string") return [];
+    const ranges: StoredRange[] = recordList(entry.ranges)
+      .filter(range => range.type !== "GIT" && Array.isArray(range.events))
+      .map(range => ({
+        type: String(range.type),
+        events: recordList(range.events).map(event => {
+          const [key, value] = Object.entries(event)[0] || [];
+          return key ? { [key]: String(value) } : {};
+        }),
+      }));
+    const versions = Array.isArray(entry.versions) ? entry.versions.map(String) : [];
+    return ranges.length > 0 || versions.length > 0 ? [{ ecosystem, name, ranges, versions }] : [];
+  });
+  if (affected.length === 0) return null;
+  return {
+    id: raw.id,
+    aliases: Array.isArray(raw.aliases) ? raw.aliases.map(String) : [],
+    summary: String(raw.summary || raw.details || "").split(/\r?\n/)[0].slice(0, 300),
+    modified: String(raw.modified || raw.published || ""),
+    severity: advisorySeverity(raw),
+    affected,
+  };
+}
+
+function advisoryEntries(payload: unknown): unknown[] {
+  if (Array.isArray(payload)) return payload;
+  if (isRecord(payload) && Array.isArray(payload.vulns)) return payload.vulns;
+  return [payload];
+}
+
+async function collectJsonFiles(target: string): Promise<string[]> {
+  const stat = await fs.stat(target).catch(() => null);
+  if (!stat) return [];
+  if (stat.isFile()) return target.toLowerCase().endsWith(".json") ? [target] : [];
+  if (!stat.isDirectory()) return [];
+  const entries = await fs.readdir(target, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map(entry => (entry.isDirectory() || entry.name.toLowerCase().endsWith(".json")
+      ? collectJsonFiles(path.join(target, entry.name))
+      : Promise.resolve([]))),
+  );
+  return nested.flat();
+}
+
+function emptyDb(): AdvisoryDb {
+  return { version: ADVISORY_DB_VERSION, importedAt: "", sources: [], advisories: {} };
+}
+
+interface LoadedDb {
+  mtime: number;
+  db: AdvisoryDb;
+  byPackage: Map<string, StoredAdvisory[]>;
+}
+
+let loaded: { file: string } & LoadedDb | null = null;
+
+async function loadDb(dir: string): Promise<LoadedDb | null> {
+  const file = path.join(dir, ADVISORY_DB_FILE);
+  const mtime = await statMtime(file);
+  if (mtime === null) return null;
+  if (loaded && loaded.file === file && loaded.mtime === mtime) return loaded;
+  const db = await readJsonFile<AdvisoryDb>(file);
+  if (!db || db.version !== ADVISORY_DB_VERSION || !isRecord(db.advisories)) return null;
+  const byPackage = new Map<string, StoredAdvisory[]>();
+  Object.values(db.advisories).forEach(advisory => {
+    advisory.affected.forEach(entry => {
+      const key = `${entry.ecosystem}:${normalizePackageName(entry.ecosystem, entry.name)}`;
+      const list = byPackage.get(key) || [];
+      if (!list.includes(advisory)) list.push(advisory);
+      byPackage.set(key, list);
+    });
+  });
+  loaded = { file, mtime, db, byPackage };
+  return loaded;
+}
+
+function describeDb(dir: string, db: AdvisoryDb | null): AdvisoryDbInfo {
+  const byEcosystem = Object.fromEntries(ADVISORY_ECOSYSTEMS.map(name => [name, 0])) as Record<AdvisoryEcosystem, number>;
+  let newestModified: string | null = null;
+  const advisories = Object.values(db?.advisories || {});
+  advisories.forEach(advisory => {
+    new Set(advisory.affected.map(entry => entry.ecosystem)).forEach(ecosystem => {
+      byEcosystem[ecosystem] += 1;
+    });
+    if (advisory.modified && (!newestModified || advisory.modified > newestModified)) {
+      newestModified = advisory.modified;
+    }
+  });
+  return {
+    path: path.join(dir, ADVISORY_DB_FILE),
+    importedAt: db?.importedAt || null,
+    newestModified,
+    total: advisories.length,
+    byEcosystem,
+    sources: db?.sources || [],
+  };
+}
+
+export async function readAdvisoryDbInfo(dir = advisoryDbDir()): Promise<AdvisoryDbInfo> {
+  return describeDb(dir, (await loadDb(dir))?.db ?? null);
+}
+
+export async function importOsvAdvisories(paths: string[], dir = advisoryDbDir()): Promise<AdvisoryImportResult> {
+  const db = (await loadDb(dir))?.db ?? emptyDb();
+  let imported = 0;
+  let skipped = 0;
+  for (const source of paths) {
+    const files = await collectJsonFiles(path.resolve(source));
+    if (files.length === 0) {
+      throw new Error(`No OSV JSON files found at ${source}. Unzip downloaded dumps before importing.`);
+    }
+    for (const file of files) {
+      const payload = await readJsonFile<unknown>(file);
+      if (payload === null) {
+        skipped += 1;
+        continue;
+      }
+      advisoryEntries(payload).forEach(entry => {
+        const advisory = normalizeAdvisory(entry);
+        if (!advisory) {
+          skipped += 1;
+          return;
+        }
+        const existing = db.advisories[advisory.id];
+        if (!existing || advisory.modified >= existing.modified) {
+          db.advisories[advisory.id] = advisory;
+          imported += 1;
+        }
+      });
+    }
+    db.sources = Array.from(new Set([...db.sources, path.resolve(source)]));
+  }
+  db.importedAt = new Date().toISOString();
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, ADVISORY_DB_FILE), JSON.stringify(db), "utf8");
+  loaded = null;
+  return { imported, skipped, info: describeDb(dir, db) };
+}
+
+export async function clearAdvisoryDb(dir = advisoryDbDir()): Promise<AdvisoryDbInfo> {
+  await fs.rm(path.join(dir, ADVISORY_DB_FILE), { force: true });
+  loaded = null;
+  return describeDb(dir, null);
+}
+
+async function readText(repoPath: string, file: string): Promise<string | null> {
+  return fs.readFile(path.join(repoPath, file), "utf8").catch(() => null);
+}
+
+async function readPythonPackages(repoPath: string): Promise<LockedPackage[]> {
+  const poetry = await readText(repoPath, "poetry.lock");
+  if (poetry !== null) {
+    return poetry.split(/^\[\[package\]\]\s*$/m).slice(1).flatMap((block): LockedPackage[] => {
+      const name = /^name\s*=\s*"([^"]+)"/m.exec(block)?.[1];
+      const version = /^version\s*=\s*"([^"]+)"/m.exec(block)?.[1];
+      return name && version ? [{ ecosystem: "PyPI", name, version, lockfile: "poetry.lock" }] : [];
+    });
+  }
+  const files = (await fs.readdir(repoPath).catch(() => [] as string[])).filter(file => /^requirements[\w.-]*\.txt$/i.test(file));
+  const packages: LockedPackage[] = [];
+  for (const file of files.sort()) {
+    (await readText(repoPath, file) || "").split(/\r?\n/).forEach(line => {
+      const pin = /^\s*([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*===?\s*([^\s;#,]+)/.exec(line);
+      if (pin) packages.push({ ecosystem: "PyPI", name: pin[1], version: pin[2], lockfile: file });
+    });
+  }
+  return packages;
+}
+
+async function readRubyPackages(repoPath: string): Promise<LockedPackage[]> {
+  const content = await readText(repoPath, "Gemfile.lock");
+  if (content === null) return [];
+  const packages: LockedPackage[] = [];
+  let section = "";
+  content.split(/\r?\n/).forEach(line => {
+    if (/^\S/.test(line)) {
+      section = line.trim();
+      return;
+    }
+    const spec = section === "GEM" ? /^ {4}([^\s(]+) \(([^)]+)\)\s*$/.exec(line) : null;
+    if (spec) {
+      packages.push({ ecosystem: "RubyGems", name: spec[1], version: spec[2].replace(/-.*$/, ""), lockfile: "Gemfile.lock" });
+    }
+  });
+  return packages;
+}
+
+async function readHexPackages(repoPath: string): Promise<LockedPackage[]> {
+  const content = await readText(repoPath, "mix.lock");
+  if (content === null) return [];
+  const packages: LockedPackage[] = [];
+  const pattern = /"[^"]+":\s*\{:hex,\s*:"?([\w-]+)"?,\s*"([^"]+)"/g;
+  for (let match = pattern.exec(content); match; match = pattern.exec(content)) {
+    packages.push({ ecosystem: "Hex", name: match[1], version: match[2], lockfile: "mix.lock" });
+  }
+  return packages;
+}
+
+export async function readLockedPackages(
+  repoPath: string,
+  ecosystems: readonly AdvisoryEcosystem[] = ADVISORY_ECOSYSTEMS,
+): Promise<LockedPackage[]> {
+  const packages: LockedPackage[] = [];
+  if (ecosystems.includes("npm")) {
+    const locked = await readLockedVersions(repoPath);
+    locked?.versions.forEach((versions, name) => {
+      versions.forEach(version => packages.push({ ecosystem: "npm", name, version, lockfile: locked.lockfile }));
+    });
+  }
+  if (ecosystems.includes("PyPI")) packages.push(...await readPythonPackages(repoPath));
+  if (ecosystems.includes("RubyGems")) packages.push(...await readRubyPackages(repoPath));
+  if (ecosystems.includes("Hex")) packages.push(...await readHexPackages(repoPath));
+  return packages;
+}
+
+function matchPackage(pkg: LockedPackage, advisory: StoredAdvisory): AdvisoryMatch | null {
+  const key = normalizePackageName(pkg.ecosystem, pkg.name);
+  for (const entry of advisory.affected) {
+    if (entry.ecosystem !== pkg.ecosystem || normalizePackageName(entry.ecosystem, entry.name) !== key) continue;
+    const ranges = entry.ranges.map(range => matchRange(pkg.ecosystem, pkg.version, range));
+    const hit = ranges.find(range => range.affected);
+    if (hit || entry.versions.includes(pkg.version)) {
+      return {
+        id: advisory.id,
+        aliases: advisory.aliases,
+        summary: advisory.summary,
+        severity: advisory.severity,
+        ecosystem: pkg.ecosystem,
+        name: pkg.name,
+        version: pkg.version,
+        lockfile: pkg.lockfile,
+        ...(hit?.fixed ? { fixed: hit.fixed } : {}),
+      };
+    }
+  }
+  return null;
+}
+
+const SEVERITY_ORDER: AdvisorySeverity[] = ["critical", "high", "medium", "low"];
+
+export async function runOfflineAudit(
+  repoPath: string,
+  options: { ecosystems?: readonly AdvisoryEcosystem[]; dir?: string } = {},
+): Promise<OfflineAuditResult | null> {
+  const dir = options.dir ?? advisoryDbDir();
+  const store = await loadDb(dir);
+  if (!store) return null;
+  const ecosystems = options.ecosystems ?? ADVISORY_ECOSYSTEMS;
+  const packages = await readLockedPackages(repoPath, ecosystems);
+  const matches: AdvisoryMatch[] = [];
+  packages.forEach(pkg => {
+    (store.byPackage.get(`${pkg.ecosystem}:${normalizePackageName(pkg.ecosystem, pkg.name)}`) || []).forEach(advisory => {
+      const match = matchPackage(pkg, advisory);
+      if (match) matches.push(match);
+    });
+  });
+
+  const worst = new Map<string, AdvisorySeverity>();
+  matches.forEach(match => {
+    const key = `${match.ecosystem}:${match.name}`;
+    const current = worst.get(key);
+    if (!current || SEVERITY_ORDER.indexOf(match.severity) < SEVERITY_ORDER.indexOf(current)) {
+      worst.set(key, match.severity);
+    }
+  });
+  const summary = { critical: 0, high: 0, medium: 0, low: 0, total: worst.size };
+  worst.forEach(severity => {
+    summary[severity] += 1;
+  });
+
+  const info = describeDb(dir, store.db);
+  return {
+    summary,
+    matches: matches.sort((a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.name.localeCompare(b.name) || a.id.localeCompare(b.id)),
+    source: {
+      ecosystems: Array.from(new Set(packages.map(pkg => pkg.ecosystem))),
+      importedAt: info.importedAt,
+      newestModified: info.newestModified,
+    },
+  };
+}
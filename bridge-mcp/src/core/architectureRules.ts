@@ -0,0 +1,77 @@
+import { builtinModules } from "node:module";
+import type { ArchitectureRule } from "./bridgeConfig.js";
+import type { ImportGraph, ImportKind } from "./importGraph.js";
+import { globToRegExpSource } from "./pathFilter.js";
+
+export interface ArchitectureViolation {
+  rule: string;
+  severity: "error" | "warning";
+  from: string;
+  to: string;
+  kind: ImportKind;
+  external: boolean;
+}
+
+interface CompiledPattern {
+  negate: boolean;
+  regex: RegExp;
+}
+
+const NODE_BUILTINS = new Set(builtinModules);
+
+function compilePatterns(patterns: string[]): CompiledPattern[] {
+  return patterns.map((pattern) => {
+    const negate = pattern.startsWith("!");
+    const body = (negate ? pattern.slice(1) : pattern).replace(/^\/+|\/+$/g, "");
+    return { negate, regex: new RegExp(`^${globToRegExpSource(body)}(?:/.*)?$`) };
+  });
+}
+
+// Last matching pattern wins, so `!` entries can carve exceptions out of broader ones.
+function matches(patterns: CompiledPattern[], value: string): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    if (pattern.regex.test(value)) {
+      matched = !pattern.negate;
+    }
+  }
+  return matched;
+}
+
+function externalTarget(specifier: string): string {
+  const name = specifier.replace(/^node:/, "");
+  return specifier.startsWith("node:") || NODE_BUILTINS.has(name.split("/")[0]) ? `node:${name}` : specifier;
+}
+
+export function evaluateArchitectureRules(graph: ImportGraph, rules: ArchitectureRule[]): ArchitectureViolation[] {
+  const imports = [
+    ...graph.edges.map((edge) => ({ from: edge.from, to: edge.to, kind: edge.kind, external: false })),
+    ...graph.externals.map((entry) => ({
+      from: entry.from,
+      to: externalTarget(entry.specifier),
+      kind: entry.kind,
+      external: true,
+    })),
+  ];
+
+  const violations: ArchitectureViolation[] = [];
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    const from = compilePatterns(rule.from);
+    const to = compilePatterns(rule.to);
+
+    for (const entry of imports) {
+      if (entry.kind === "type" && !rule.includeTypeImports) continue;
+      if (!matches(from, entry.from)) continue;
+
+      const violated = rule.type === "allow" ? !entry.external && !matches(to, entry.to) : matches(to, entry.to);
+      const key = `${rule.name}\n${entry.from}\n${entry.to}`;
+      if (!violated || seen.has(key)) continue;
+
+      seen.add(key);
+      violations.push({ rule: rule.name, severity: rule.severity, ...entry });
+    }
+  }
+
+  return violations.sort((a, b) => a.rule.localeCompare(b.rule) || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+}
@@ -0,0 +1,240 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { BRIDGE_CONFIG_FILE, loadBridgeConfig, type BridgeConfig } from "./bridgeConfig.js";
+import { bridgeDir, ensureBridgeDir, readJsonFile, writeJsonFile } from "./cache.js";
+import { pathFilterFromConfig } from "./pathFilter.js";
+import {
+  architectureViolationFingerprint,
+  cycleFingerprint,
+  deadFileFingerprint,
+  securityFindingFingerprint,
+  unusedExportFingerprint,
+} from "./fingerprints.js";
+import type { RepoAnalysis } from "./repoAnalyzer.js";
+import { collectSecurityFindings, type SecurityPatternFinding } from "./securityPatterns.js";
+import { createSuppressionMatcher } from "./suppressions.js";
+
+export const BASELINES_DIR_NAME = "baselines";
+
+const execFileAsync = promisify(execFile);
+
+export interface BaselineFindings {
+  circularDependencies: string[];
+  deadFiles: string[];
+  unusedExports: string[];
+  securityFindings: string[];
+  architectureViolations?: string[];
+}
+
+export interface ScanBaseline {
+  version: 1;
+  branch: string;
+  commit?: string;
+  generatedAt: string;
+  findings: BaselineFindings;
+}
+
+export interface BaselineComparison {
+  branch: string;
+  commit?: string;
+  generatedAt: string;
+  newFindings: Partial<BaselineFindings>;
+  resolvedCount: number;
+}
+
+const FINDING_KEYS: Array<keyof BaselineFindings> = [
+  "circularDependencies",
+  "deadFiles",
+  "unusedExports",
+  "securityFindings",
+  "architectureViolations",
+];
+
+function countOccurrences(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return counts;
+}
+
+// Multiset difference: identical findings only count as new beyond the baseline's count.
+function newEntries(current: string[], baseline: string[]): string[] {
+  const remaining = countOccurrences(baseline);
+  const added: string[] = [];
+  for (const value of current) {
+    const count = remaining.get(value) || 0;
+    if (count > 0) {
+      remaining.set(value, count - 1);
+    } else {
+      added.push(value);
+    }
+  }
+  return added;
+}
+
+export interface BaselineFindingSources {
+  circularCycles?: string[][] | null;
+  deadCode?: { deadFiles: string[]; unusedExports: Array<{ file: string; exportName: string }> } | null;
+  architectureViolations?: Array<{ rule: string; from: string; to: string; severity: string }> | null;
+  securityFindings?: SecurityPatternFinding[] | null;
+}
+
+export function fingerprintBaselineFindings(
+  config: BridgeConfig,
+  sources: BaselineFindingSources,
+): Partial<BaselineFindings> {
+  const features = config.scan.features;
+  const findings: Partial<BaselineFindings> = {};
+
+  if (sources.circularCycles && features.circularDeps !== false) {
+    findings.circularDependencies = sources.circularCycles.map(cycleFingerprint).filter(Boolean);
+  }
+
+  if (sources.deadCode && features.deadCode !== false) {
+    findings.deadFiles = sources.deadCode.deadFiles.map(deadFileFingerprint);
+    findings.unusedExports = sources.deadCode.unusedExports.map((entry) =>
+      unusedExportFingerprint(entry.file, entry.exportName),
+    );
+  }
+
+  if (sources.architectureViolations) {
+    findings.architectureViolations = sources.architectureViolations
+      .filter((violation) => violation.severity === "error")
+      .map(architectureViolationFingerprint);
+  }
+
+  if (sources.securityFindings && features.security !== false) {
+    findings.securityFindings = sources.securityFindings.map(securityFindingFingerprint);
+  }
+
+  return findings;
+}
+
+export function compareWithBaseline(
+  baseline: ScanBaseline,
+  current: Partial<BaselineFindings>,
+): BaselineComparison {
+  const newFindings: Partial<BaselineFindings> = {};
+  let resolvedCount = 0;
+
+  for (const key of FINDING_KEYS) {
+    const currentValues = current[key];
+    const baselineValues = baseline.findings[key];
+    if (!currentValues || !baselineValues) {
+      continue;
+    }
+    newFindings[key] = newEntries(currentValues, baselineValues);
+    resolvedCount += newEntries(baselineValues, currentValues).length;
+  }
+
+  return {
+    branch: baseline.branch,
+    commit: baseline.commit,
+    generatedAt: baseline.generatedAt,
+    newFindings,
+    resolvedCount,
+  };
+}
+
+function branchFileName(branch: string): string {
+  return `${branch.replace(/[^A-Za-z0-9._-]+/g, "__")}.json`;
+}
+
+export function baselinePath(repoPath: string, branch: string): string {
+  return path.join(bridgeDir(repoPath), BASELINES_DIR_NAME, branchFileName(branch));
+}
+
+export async function loadBaseline(repoPath: string, branch: string): Promise<ScanBaseline | null> {
+  const baseline = await readJsonFile<ScanBaseline>(baselinePath(repoPath, branch));
+  if (!baseline || baseline.version !== 1 || !baseline.findings) {
+    return null;
+  }
+  return baseline;
+}
+
+export async function writeBaseline(repoPath: string, baseline: ScanBaseline): Promise<string> {
+  await ensureBridgeDir(repoPath);
+  const target = baselinePath(repoPath, baseline.branch);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await writeJsonFile(target, baseline);
+  return target;
+}
+
+async function gitValue(repoPath: string, args: string[]): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd: repoPath, timeout: 30000 });
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function configuredBaseBranch(raw: { baseBranch?: unknown; patch?: { baseBranch?: unknown } } | null): string | undefined {
+  for (const value of [raw?.patch?.baseBranch, raw?.baseBranch]) {
+    if (typeof value === "string" && /^[A-Za-z0-9._/-]+$/.test(value.trim())) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+// Configured baseBranch, then origin/HEAD, then whichever of main/master exists.
+export async function resolveBaseBranch(repoPath: string): Promise<string> {
+  const configured = configuredBaseBranch(await readJsonFile(path.join(repoPath, BRIDGE_CONFIG_FILE)));
+  if (configured) {
+    return configured;
+  }
+
+  const originHead = await gitValue(repoPath, ["symbolic-ref", "--short", "refs/remotes/origin/HEAD"]);
+  if (originHead) {
+    return originHead.replace(/^origin\//, "");
+  }
+
+  for (const candidate of ["main", "master"]) {
+    if (await gitValue(repoPath, ["rev-parse", "--verify", "--quiet", candidate])) {
+      return candidate;
+    }
+  }
+
+  return "main";
+}
+
+export async function currentBranch(repoPath: string): Promise<string | undefined> {
+  return gitValue(repoPath, ["rev-parse", "--abbrev-ref", "HEAD"]);
+}
+
+export async function compareAnalysisWithBaseline(
+  repoPath: string,
+  analysis: RepoAnalysis,
+): Promise<BaselineComparison | null> {
+  // The base branch itself is held to the absolute limits, not to its own previous scan.
+  const baseBranch = await resolveBaseBranch(repoPath);
+  if ((await currentBranch(repoPath)) === baseBranch) {
+    return null;
+  }
+  const baseline = await loadBaseline(repoPath, baseBranch);
+  if (!baseline) {
+    return null;
+  }
+  const config = await loadBridgeConfig(repoPath);
+  const securityFindings = config.scan.features.security !== false
+    ? await collectSecurityFindings(repoPath, {
+      pathFilter: pathFilterFromConfig(repoPath, config.scan),
+      suppressions: createSuppressionMatcher(config.suppressions),
+      maxFindings: 300,
+    }).catch(() => null)
+    : null;
+  const current = fingerprintBaselineFindings(config, {
+    circularCycles: analysis.circularCycles,
+    deadCode: analysis.deadCodeItems,
+    architectureViolations: analysis.architectureViolations,
+    securityFindings,
+  });
+  if (Object.keys(current).length === 0) {
+    return null;
+  }
+  return compareWithBaseline(baseline, current);
+}
@@ -1,5 +1,8 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import semver from "semver";
+import { matchesPackagePattern } from "./dependencyGroups.js";
+import { createPathFilter, pathFilterFromConfig, type PathFilter } from "./pathFilter.js";
 
 export type BridgePrimaryLanguage =
   | "javascript"
@@ -26,6 +29,51 @@ export type BridgePackageManager =
   | "bun"
   | "pipenv";
 
+export interface ArchitectureRule {
+  name: string;
+  description?: string;
+  type: "forbid" | "allow";
+  from: string[];
+  to: string[];
+  severity: "error" | "warning";
+  includeTypeImports?: boolean;
+}
+
+export type DependencyUpdateType = "patch" | "minor" | "major";
+export type UpdatePolicyValue = "auto" | "review" | "ignore";
+export type DependencyKind = "dependencies" | "devDependencies" | "peerDependencies" | "optionalDependencies";
+
+export interface UpdatePolicy {
+  patch: "auto" | "review" | "ignore";
+  minor: "auto" | "review" | "ignore";
+  major: "review" | "ignore";
+}
+
+export interface UpdatePolicyOverrides {
+  dependencyTypes?: Partial<Record<DependencyKind, Partial<UpdatePolicy>>>;
+  packages?: Record<string, Partial<UpdatePolicy>>;
+}
+
+export interface DependencyGroup {
+  name: string;
+  packages: string[];
+  updateTypes: DependencyUpdateType[];
+  schedule?: "hourly" | "daily" | "weekly" | "monthly";
+}
+
+export interface RequiredPackage {
+  name: string;
+  version?: string;
+  type?: "dependencies" | "devDependencies";
+}
+
+export interface FindingSuppression {
+  fingerprint: string;
+  reason: string;
+  owner?: string;
+  expires?: string;
+}
+
 export interface BridgeConfig {
   version: 1;
   project: {
@@ -37,19 +85,20 @@ export interface BridgeConfig {
     workspacePatterns?: string[];
   };
   dependencies: {
-    updatePolicy: {
-      patch: "auto" | "review" | "ignore";
-      minor: "auto" | "review" | "ignore";
-      major: "review" | "ignore";
-    };
+    updatePolicy: UpdatePolicy;
+    updatePolicyOverrides?: UpdatePolicyOverrides;
     bannedPackages: string[];
-    requiredPackages: string[];
+    requiredPackages: Array<string | RequiredPackage>;
     pinnedPackages?: Record<string, string>;
+    migrations?: Record<string, string>;
     maxAge?: {
       patch: number;
       minor: number;
       major: number;
     };
+    minReleaseAgeDays?: number;
+    minReleaseAgeOverrides?: Record<string, number>;
+    groups?: DependencyGroup[];
     securityPolicy: {
       autoFixCritical: boolean;
       autoFixHigh: boolean;
@@ -64,8 +113,13 @@ export interface BridgeConfig {
     bundleSize?: { maxBytes?: number; maxDeltaPercent?: number };
     circularDependencies: { maxAllowed: number; failOnNew: boolean };
     deadCode: { maxDeadFiles: number; maxUnusedExports: number; failOnNew: boolean };
+    architecture: { maxViolations: number; failOnNew: boolean };
+    securityPatterns: { failOnNew: boolean };
     documentation: { requireReadme: boolean; requireChangelog: boolean; maxDaysSinceReadmeUpdate?: number };
   };
+  architecture: {
+    rules: ArchitectureRule[];
+  };
   agent: {
     context: string;
     conventions: string[];
@@ -88,13 +142,24 @@ export interface BridgeConfig {
       maxDeadFiles?: number;
       minTestCoverage?: number;
       maxOversizedFiles?: number;
+      maxFunctionComplexity?: number;
+      maxDuplicationPercent?: number;
       maxDebtScore?: number;
     };
+    trend?: {
+      window: number;
+      threshold: number;
+    };
   };
   scan: {
     schedule?: "hourly" | "daily" | "weekly" | "monthly" | "manual";
     exclude: string[];
     include?: string[];
+    gitignore?: boolean;
+    entries?: string[];
+    duplication?: {
+      minTokens: number;
+    };
     features: Record<string, boolean>;
   };
   console?: {
@@ -102,6 +167,7 @@ export interface BridgeConfig {
     autoUpload: boolean;
     uploadOn?: Array<"scan" | "update" | "schedule">;
   };
+  suppressions?: FindingSuppression[];
 }
 
 export interface BridgeConfigValidationResult {
@@ -111,6 +177,52 @@ export interface BridgeConfigValidationResult {
 
 export const BRIDGE_CONFIG_FILE = ".bridge.json";
 
+export interface EffectiveUpdatePolicy {
+  policy: UpdatePolicy;
+  source: string;
+}
+
+export function resolveUpdatePolicy(
+  dependencies: BridgeConfig["dependencies"],
+  pkg: { name: string; dependencyType?: string },
+): EffectiveUpdatePolicy {
+  const overrides = dependencies.updatePolicyOverrides || {};
+  let policy: UpdatePolicy = { ...dependencies.updatePolicy };
+  let source = "updatePolicy";
+
+  const typeOverride = pkg.dependencyType ? overrides.dependencyTypes?.[pkg.dependencyType as DependencyKind] : undefined;
+  if (typeOverride && Object.keys(typeOverride).length > 0) {
+    policy = { ...policy, ...typeOverride };
+    source = `dependencyTypes.${pkg.dependencyType}`;
+  }
+
+  const packageEntry = Object.entries(overrides.packages || {}).find(([pattern]) => matchesPackagePattern(pkg.name, pattern));
+  if (packageEntry && Object.keys(packageEntry[1]).length > 0) {
+    policy = { ...policy, ...packageEntry[1] };
+    source = `packages["${packageEntry[0]}"]`;
+  }
+
+  return { policy, source };
+}
+
+export function getUpdatePolicy(
+  dependencies: BridgeConfig["dependencies"],
+  pkg: { name: string; dependencyType?: string; updateType: string },
+): { level: UpdatePolicyValue; source: string } | null {
+  if (pkg.updateType !== "patch" && pkg.updateType !== "minor" && pkg.updateType !== "major") {
+    return null;
+  }
+  const { policy, source } = resolveUpdatePolicy(dependencies, pkg);
+  return { level: policy[pkg.updateType], source };
+}
+
+export function resolveMinReleaseAgeDays(dependencies: BridgeConfig["dependencies"], packageName: string): number {
+  const override = Object.entries(dependencies.minReleaseAgeOverrides || {}).find(([pattern]) =>
+    matchesPackagePattern(packageName, pattern),
+  );
+  return override ? override[1] : dependencies.minReleaseAgeDays ?? 0;
+}
+
 export const DEFAULT_BRIDGE_CONFIG: BridgeConfig = {
   version: 1,
   project: {
@@ -125,6 +237,7 @@ export const DEFAULT_BRIDGE_CONFIG: BridgeConfig = {
       minor: "review",
       major: "review",
     },
+    updatePolicyOverrides: {},
     bannedPackages: [],
     requiredPackages: [],
     pinnedPackages: {},
@@ -133,6 +246,9 @@ export const DEFAULT_BRIDGE_CONFIG: BridgeConfig = {
       minor: 30,
       major: 90,
     },
+    minReleaseAgeDays: 0,
+    minReleaseAgeOverrides: {},
+    groups: [],
     securityPolicy: {
       autoFixCritical: true,
       autoFixHigh: true,
@@ -164,12 +280,22 @@ export const DEFAULT_BRIDGE_CONFIG: BridgeConfig = {
       maxUnusedExports: 10,
       failOnNew: false,
     },
+    architecture: {
+      maxViolations: 0,
+      failOnNew: false,
+    },
+    securityPatterns: {
+      failOnNew: false,
+    },
     documentation: {
       requireReadme: true,
       requireChangelog: false,
       maxDaysSinceReadmeUpdate: 90,
     },
   },
+  architecture: {
+    rules: [],
+  },
   agent: {
     context: "Repository managed by Bridge. Follow existing project conventions and keep changes safe and test-backed.",
     conventions: [],
@@ -199,13 +325,37 @@ export const DEFAULT_BRIDGE_CONFIG: BridgeConfig = {
       maxDeadFiles: 5,
       minTestCoverage: 80,
       maxOversizedFiles: 10,
+      maxFunctionComplexity: 15,
+      maxDuplicationPercent: 5,
       maxDebtScore: 70,
     },
+    trend: {
+      window: 5,
+      threshold: 2,
+    },
   },
   scan: {
     schedule: "manual",
-    exclude: ["node_modules", ".git", "dist", "build", ".next", "coverage", ".bridge"],
+    exclude: [
+      "node_modules",
+      ".git",
+      "dist",
+      "build",
+      ".next",
+      "coverage",
+      ".bridge",
+      "vendor",
+      "__pycache__",
+      ".venv",
+      "venv",
+      "_build",
+      "deps",
+    ],
     include: [],
+    gitignore: true,
+    duplication: {
+      minTokens: 50,
+    },
     features: {
       dependencies: true,
       security: true,
@@ -295,6 +445,98 @@ function normalizePrimaryLanguage(language: string | undefined): BridgePrimaryLa
   return "multi";
 }
 
+function normalizeArchitectureRule(rule: ArchitectureRule): ArchitectureRule {
+  const toList = (value: unknown): string[] =>
+    uniqueStrings(Array.isArray(value) ? value.map(String) : typeof value === "string" ? [value] : []);
+  return {
+    name: String(rule.name || "").trim(),
+    description: rule.description?.trim() || undefined,
+    type: rule.type === "allow" ? "allow" : "forbid",
+    from: toList(rule.from),
+    to: toList(rule.to),
+    severity: rule.severity === "warning" ? "warning" : "error",
+    includeTypeImports: rule.includeTypeImports ? true : undefined,
+  };
+}
+
+const DEPENDENCY_UPDATE_TYPES: DependencyUpdateType[] = ["patch", "minor", "major"];
+const GROUP_SCHEDULES = ["hourly", "daily", "weekly", "monthly"];
+
+function normalizeDependencyGroup(group: DependencyGroup): DependencyGroup {
+  const packages = Array.isArray(group.packages) ? group.packages.map(String) : typeof group.packages === "string" ? [group.packages] : [];
+  const updateTypes = (Array.isArray(group.updateTypes) ? group.updateTypes : []).filter(type =>
+    DEPENDENCY_UPDATE_TYPES.includes(type),
+  );
+  return {
+    name: String(group.name || "").trim(),
+    packages: uniqueStrings(packages),
+    updateTypes: updateTypes.length > 0 ? Array.from(new Set(updateTypes)) : ["patch", "minor"],
+    schedule: GROUP_SCHEDULES.includes(String(group.schedule)) ? group.schedule : undefined,
+  };
+}
+
+export function parseRequiredPackage(entry: string | RequiredPackage): RequiredPackage | null {
+  if (typeof entry === "string") {
+    const match = /^(@?[^@\s]+)(?:@(.*))?$/.exec(entry.trim());
+    if (!match) return null;
+    return { name: match[1], version: match[2]?.trim() || undefined };
+  }
+  if (!isRecord(entry) || typeof entry.name !== "string" || !entry.name.trim()) return null;
+  return {
+    name: entry.name.trim(),
+    version: typeof entry.version === "string" && entry.version.trim() ? entry.version.trim() : undefined,
+    type: entry.type === "dependencies" || entry.type === "devDependencies" ? entry.type : undefined,
+  };
+}
+
+// Entries keep the form they were written in, so rewriting .bridge.json does not expand strings.
+function normalizeRequiredPackages(entries: Array<string | RequiredPackage> | undefined): Array<string | RequiredPackage> {
+  const seen = new Set<string>();
+  return (Array.isArray(entries) ? entries : []).flatMap((entry): Array<string | RequiredPackage> => {
+    const parsed = parseRequiredPackage(entry);
+    if (!parsed || seen.has(parsed.name.toLowerCase())) return [];
+    seen.add(parsed.name.toLowerCase());
+    if (typeof entry === "string") return [entry.trim()];
+    return [{ name: parsed.name, ...(parsed.version ? { version: parsed.version } : {}), ...(entry.type ? { type: entry.type } : {}) }];
+  });
+}
+
+const DEPENDENCY_KINDS: DependencyKind[] = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+
+function normalizeSuppression(entry: FindingSuppression): FindingSuppression {
+  return {
+    fingerprint: String(entry.fingerprint ?? "").trim(),
+    reason: String(entry.reason ?? "").trim(),
+    owner: entry.owner?.toString().trim() || undefined,
+    expires: entry.expires?.toString().trim() || undefined,
+  };
+}
+
+function normalizePolicyOverride(override: unknown): Partial<UpdatePolicy> {
+  const normalized: Partial<UpdatePolicy> = {};
+  if (!isRecord(override)) return normalized;
+  (["patch", "minor"] as const).forEach(level => {
+    const value = override[level];
+    if (value === "auto" || value === "review" || value === "ignore") normalized[level] = value;
+  });
+  if (override.major === "review" || override.major === "ignore") normalized.major = override.major;
+  return normalized;
+}
+
+function normalizePolicyOverrides(overrides: UpdatePolicyOverrides | undefined): UpdatePolicyOverrides {
+  const dependencyTypes: UpdatePolicyOverrides["dependencyTypes"] = {};
+  Object.entries(overrides?.dependencyTypes || {}).forEach(([kind, override]) => {
+    if (DEPENDENCY_KINDS.includes(kind as DependencyKind)) {
+      dependencyTypes[kind as DependencyKind] = normalizePolicyOverride(override);
+    }
+  });
+  const packages: Record<string, Partial<UpdatePolicy>> = {};
+  Object.entries(overrides?.packages || {}).forEach(([pattern, override]) => {
+    if (pattern.trim()) packages[pattern.trim()] = normalizePolicyOverride(override);
+  });
+  return { dependencyTypes, packages };
+}
+
 function normalizeConfig(config: BridgeConfig): BridgeConfig {
   return {
     ...config,
@@ -309,18 +551,31 @@ function normalizeConfig(config: BridgeConfig): BridgeConfig {
     },
     dependencies: {
       ...config.dependencies,
+      updatePolicyOverrides: normalizePolicyOverrides(config.dependencies.updatePolicyOverrides),
       bannedPackages: uniqueStrings(config.dependencies.bannedPackages),
-      requiredPackages: uniqueStrings(config.dependencies.requiredPackages),
+      requiredPackages: normalizeRequiredPackages(config.dependencies.requiredPackages),
       pinnedPackages: Object.fromEntries(
         Object.entries(config.dependencies.pinnedPackages || {}).filter(
           ([pkg, version]) => pkg.trim().length > 0 && typeof version === "string" && version.trim().length > 0,
         ),
       ),
+      migrations: Object.fromEntries(
+        Object.entries(config.dependencies.migrations || {})
+          .filter(([from, to]) => from.trim().length > 0 && typeof to === "string" && to.trim().length > 0)
+          .map(([from, to]) => [from.trim(), to.trim()]),
+      ),
       maxAge: {
         patch: Math.max(0, Number(config.dependencies.maxAge?.patch ?? DEFAULT_BRIDGE_CONFIG.dependencies.maxAge?.patch ?? 7)),
         minor: Math.max(0, Number(config.dependencies.maxAge?.minor ?? DEFAULT_BRIDGE_CONFIG.dependencies.maxAge?.minor ?? 30)),
         major: Math.max(0, Number(config.dependencies.maxAge?.major ?? DEFAULT_BRIDGE_CONFIG.dependencies.maxAge?.major ?? 90)),
       },
+      minReleaseAgeDays: Math.max(0, Number(config.dependencies.minReleaseAgeDays) || 0),
+      minReleaseAgeOverrides: Object.fromEntries(
+        Object.entries(config.dependencies.minReleaseAgeOverrides || {})
+          .filter(([pattern, days]) => pattern.trim().length > 0 && Number.isFinite(Number(days)))
+          .map(([pattern, days]) => [pattern.trim(), Math.max(0, Number(days))]),
+      ),
+      groups: (config.dependencies.groups || []).map(normalizeDependencyGroup),
     },
     gates: {
       ...config.gates,
@@ -350,12 +605,22 @@ function normalizeConfig(config: BridgeConfig): BridgeConfig {
         maxUnusedExports: Math.max(0, Number(config.gates.deadCode.maxUnusedExports ?? 0)),
         failOnNew: Boolean(config.gates.deadCode.failOnNew),
       },
+      architecture: {
+        maxViolations: Math.max(0, Number(config.gates.architecture?.maxViolations ?? 0)),
+        failOnNew: Boolean(config.gates.architecture?.failOnNew),
+      },
+      securityPatterns: {
+        failOnNew: Boolean(config.gates.securityPatterns?.failOnNew),
+      },
       documentation: {
         requireReadme: Boolean(config.gates.documentation.requireReadme),
         requireChangelog: Boolean(config.gates.documentation.requireChangelog),
         maxDaysSinceReadmeUpdate: config.gates.documentation.maxDaysSinceReadmeUpdate,
       },
     },
+    architecture: {
+      rules: (config.architecture?.rules || []).map(normalizeArchitectureRule),
+    },
     agent: {
       ...config.agent,
       context: config.agent.context.trim(),
@@ -381,11 +646,20 @@ function normalizeConfig(config: BridgeConfig): BridgeConfig {
       thresholds: {
         ...(config.scoring.thresholds || {}),
       },
+      trend: {
+        window: Math.max(1, Math.floor(Number(config.scoring.trend?.window ?? DEFAULT_BRIDGE_CONFIG.scoring.trend?.window ?? 5))),
+        threshold: Math.max(0, Number(config.scoring.trend?.threshold ?? DEFAULT_BRIDGE_CONFIG.scoring.trend?.threshold ?? 2)),
+      },
     },
     scan: {
       ...config.scan,
       exclude: uniqueStrings(config.scan.exclude),
       include: uniqueStrings(config.scan.include),
+      gitignore: config.scan.gitignore !== false,
+      entries: config.scan.entries ? uniqueStrings(config.scan.entries) : undefined,
+      duplication: {
+        minTokens: Math.floor(Number(config.scan.duplication?.minTokens ?? DEFAULT_BRIDGE_CONFIG.scan.duplication?.minTokens ?? 50)),
+      },
       features: Object.fromEntries(
         Object.entries(config.scan.features || {}).map(([key, value]) => [key, Boolean(value)]),
       ),
@@ -397,6 +671,9 @@ function normalizeConfig(config: BridgeConfig): BridgeConfig {
           uploadOn: config.console.uploadOn || ["scan"],
         }
       : undefined,
+    suppressions: Array.isArray(config.suppressions)
+      ? config.suppressions.filter((entry) => isRecord(entry)).map(normalizeSuppression)
+      : undefined,
   };
 }
 
@@ -416,7 +693,7 @@ function packageManagerRunCommand(packageManager: string | undefined, scriptName
 async function detectLanguage(repoPath: string): Promise<BridgePrimaryLanguage> {
   const extensionCount = new Map<string, number>();
   const maxDepth = 5;
-  const ignoredDirs = new Set([".git", "node_modules", "dist", "build", ".next", "coverage", ".bridge"]);
+  const pathFilter = createPathFilter(repoPath, { exclude: DEFAULT_BRIDGE_CONFIG.scan.exclude });
 
   const walk = async (dir: string, depth: number): Promise<void> => {
     if (depth > maxDepth) return;
@@ -429,11 +706,13 @@ async function detectLanguage(repoPath: string): Promise<BridgePrimaryLanguage>
     }
 
     for (const entry of entries) {
+      const relativePath = path.relative(repoPath, path.join(dir, entry.name));
       if (entry.isDirectory()) {
-        if (ignoredDirs.has(entry.name)) continue;
+        if (pathFilter.ignoresDirectory(relativePath)) continue;
         await walk(path.join(dir, entry.name), depth + 1);
         continue;
       }
+      if (!pathFilter.includesFile(relativePath)) continue;
 
       const ext = path.extname(entry.name).toLowerCase();
       if (!ext) continue;
@@ -689,17 +968,143 @@ export function validateConfig(config: Partial<BridgeConfig>): BridgeConfigValid
     errors.push("gates.deadCode thresholds cannot be negative.");
   }
 
+  const ruleNames = new Set<string>();
+  merged.architecture.rules.forEach((rule, index) => {
+    const label = rule.name ? `architecture.rules "${rule.name}"` : `architecture.rules[${index}]`;
+    if (!rule.name) {
+      errors.push(`${label} needs a name.`);
+    } else if (ruleNames.has(rule.name)) {
+      warnings.push(`${label} is defined more than once; violations will be merged.`);
+    }
+    ruleNames.add(rule.name);
+    if (rule.from.length === 0) {
+      errors.push(`${label} needs at least one "from" pattern.`);
+    }
+    if (rule.type === "forbid" && rule.to.length === 0) {
+      errors.push(`${label} forbids imports but has no "to" pattern.`);
+    }
+  });
+
   const maxDebtScore = merged.scoring.thresholds?.maxDebtScore;
   if (maxDebtScore !== undefined && (maxDebtScore < 0 || maxDebtScore > 100)) {
     errors.push("scoring.thresholds.maxDebtScore must be between 0 and 100.");
   }
 
+  const maxFunctionComplexity = merged.scoring.thresholds?.maxFunctionComplexity;
+  if (maxFunctionComplexity !== undefined && maxFunctionComplexity < 1) {
+    errors.push("scoring.thresholds.maxFunctionComplexity must be at least 1.");
+  }
+
+  const maxDuplicationPercent = merged.scoring.thresholds?.maxDuplicationPercent;
+  if (maxDuplicationPercent !== undefined && (maxDuplicationPercent < 0 || maxDuplicationPercent > 100)) {
+    errors.push("scoring.thresholds.maxDuplicationPercent must be between 0 and 100.");
+  }
+
+  const minCloneTokens = merged.scan.duplication?.minTokens;
+  if (minCloneTokens !== undefined && !(minCloneTokens >= 10)) {
+    errors.push("scan.duplication.minTokens must be at least 10.");
+  }
+
+  // Checked on the raw input: normalization coerces and clamps these values.
+  const trend: { window?: unknown; threshold?: unknown } | undefined = config.scoring?.trend;
+  if (trend !== undefined) {
+    const trendWindow = trend?.window;
+    const trendThreshold = trend?.threshold;
+    if (trendWindow !== undefined && (typeof trendWindow !== "number" || !Number.isFinite(trendWindow) || trendWindow < 1)) {
+      errors.push("scoring.trend.window must be a number of at least 1.");
+    }
+    if (trendThreshold !== undefined && (typeof trendThreshold !== "number" || !Number.isFinite(trendThreshold) || trendThreshold < 0)) {
+      errors.push("scoring.trend.threshold must be a non-negative number.");
+    }
+  }
+
   if (merged.dependencies.maxAge) {
     if (merged.dependencies.maxAge.patch < 0 || merged.dependencies.maxAge.minor < 0 || merged.dependencies.maxAge.major < 0) {
       errors.push("dependencies.maxAge values cannot be negative.");
     }
   }
 
+  const releaseAges: Array<[string, unknown]> = [
+    ["dependencies.minReleaseAgeDays", config.dependencies?.minReleaseAgeDays ?? 0],
+    ...Object.entries(config.dependencies?.minReleaseAgeOverrides || {}).map(
+      ([pattern, days]): [string, unknown] => [`dependencies.minReleaseAgeOverrides["${pattern}"]`, days],
+    ),
+  ];
+  releaseAges.forEach(([label, days]) => {
+    if (typeof days !== "number" || !Number.isFinite(days) || days < 0) {
+      errors.push(`${label} must be a non-negative number of days.`);
+    }
+  });
+
+  Object.keys(config.dependencies?.updatePolicyOverrides?.dependencyTypes || {}).forEach(kind => {
+    if (!DEPENDENCY_KINDS.includes(kind as DependencyKind)) {
+      warnings.push(`dependencies.updatePolicyOverrides.dependencyTypes "${kind}" is not a dependency type; use ${DEPENDENCY_KINDS.join(", ")}.`);
+    }
+  });
+
+  const bannedPackages = new Set(merged.dependencies.bannedPackages.map(name => name.toLowerCase()));
+  merged.dependencies.requiredPackages.forEach(entry => {
+    const required = parseRequiredPackage(entry);
+    if (!required) return;
+    const label = `dependencies.requiredPackages "${required.name}"`;
+    if (required.version && !semver.validRange(required.version)) {
+      errors.push(`${label} has an invalid version range "${required.version}".`);
+    }
+    if (typeof entry !== "string" && entry.type && entry.type !== "dependencies" && entry.type !== "devDependencies") {
+      errors.push(`${label} type must be "dependencies" or "devDependencies".`);
+    }
+    if (bannedPackages.has(required.name.toLowerCase())) {
+      errors.push(`${label} is also listed in dependencies.bannedPackages.`);
+    }
+  });
+  Object.entries(merged.dependencies.migrations || {}).forEach(([from, to]) => {
+    const label = `dependencies.migrations["${from}"]`;
+    if (from.toLowerCase() === to.toLowerCase()) {
+      errors.push(`${label} cannot migrate a package to itself.`);
+    } else if (bannedPackages.has(to.toLowerCase())) {
+      errors.push(`${label} targets "${to}", which is itself in dependencies.bannedPackages.`);
+    }
+    if (!bannedPackages.has(from.toLowerCase())) {
+      warnings.push(`${label} migrates a package that is not in dependencies.bannedPackages.`);
+    }
+  });
+
+  const groupNames = new Set<string>();
+  (merged.dependencies.groups || []).forEach((group, index) => {
+    const label = group.name ? `dependencies.groups "${group.name}"` : `dependencies.groups[${index}]`;
+    if (!group.name) {
+      errors.push(`${label} needs a name.`);
+    } else if (groupNames.has(group.name.toLowerCase())) {
+      errors.push(`${label} is defined more than once.`);
+    }
+    groupNames.add(group.name.toLowerCase());
+    if (group.packages.length === 0) {
+      errors.push(`${label} needs at least one package pattern.`);
+    }
+  });
+
+  const suppressed = new Set<string>();
+  const today = new Date().toISOString().slice(0, 10);
+  (merged.suppressions || []).forEach((suppression, index) => {
+    const label = `suppressions[${index}]`;
+    if (!suppression.fingerprint) {
+      errors.push(`${label} needs a fingerprint.`);
+    } else if (suppressed.has(suppression.fingerprint)) {
+      warnings.push(`${label} repeats the fingerprint "${suppression.fingerprint}".`);
+    }
+    suppressed.add(suppression.fingerprint);
+    if (!suppression.reason) {
+      errors.push(`${label} needs a reason.`);
+    }
+    if (suppression.expires !== undefined) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(suppression.expires) || Number.isNaN(Date.parse(suppression.expires))) {
+        errors.push(`${label} expires must be a YYYY-MM-DD date.`);
+      } else if (suppression.expires < today) {
+        warnings.push(`${label} expired on ${suppression.expires}; its finding counts again.`);
+      }
+    }
+  });
+
   if (merged.agent.context.trim().length < 20) {
     warnings.push("agent.context is very short; add project-specific instructions.");
   }
@@ -807,3 +1212,8 @@ export async function loadBridgeConfig(repoPath: string): Promise<BridgeConfig>
 
   return merged;
 }
+
+export async function loadScanPathFilter(repoPath: string): Promise<PathFilter> {
+  const config = await loadBridgeConfig(repoPath);
+  return pathFilterFromConfig(repoPath, config.scan);
+}
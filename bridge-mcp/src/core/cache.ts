@@ -5,6 +5,7 @@ export const BRIDGE_DIR_NAME = ".bridge";
 export const LATEST_SCAN_FILE = "latest-scan.json";
 export const LATEST_SCORE_FILE = "latest-score.json";
 export const LATEST_CONTEXT_FILE = "latest-context.json";
+export const SCORE_HISTORY_FILE = "score-history.json";
 
 export function bridgeDir(repoPath: string): string {
   return path.join(repoPath, BRIDGE_DIR_NAME);
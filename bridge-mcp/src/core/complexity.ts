@@ -0,0 +1,635 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { SOURCE_EXTENSIONS, tokenizeSource } from "./importGraph.js";
+import { createPathFilter, type PathFilter } from "./pathFilter.js";
+
+export type ComplexityLanguage = "javascript" | "python" | "ruby";
+
+export interface FunctionComplexity {
+  file: string;
+  name: string;
+  line: number;
+  language: ComplexityLanguage;
+  cyclomatic: number;
+  cognitive: number;
+}
+
+export interface ComplexityReport {
+  filesAnalyzed: number;
+  functionCount: number;
+  averageCyclomatic: number;
+  averageCognitive: number;
+  avgFileComplexity: number;
+  maxCyclomatic: number;
+  maxCognitive: number;
+  threshold: number;
+  overThreshold: number;
+  worstOffenders: FunctionComplexity[];
+}
+
+export interface ComplexityOptions {
+  pathFilter?: PathFilter;
+  threshold?: number;
+  limit?: number;
+}
+
+type MeasuredFunction = Omit<FunctionComplexity, "file" | "language">;
+
+export const DEFAULT_FUNCTION_COMPLEXITY_THRESHOLD = 15;
+
+const MAX_FILE_BYTES = 512 * 1024;
+
+const LANGUAGES: Record<string, ComplexityLanguage> = {
+  ...Object.fromEntries(SOURCE_EXTENSIONS.map((extension) => [extension, "javascript" as const])),
+  ".py": "python",
+  ".rb": "ruby",
+};
+
+const NOT_FUNCTION_NAMES = new Set([
+  "if", "for", "while", "switch", "catch", "with", "return", "typeof", "await", "new",
+  "do", "else", "try", "finally", "yield", "void", "delete", "in", "of", "instanceof", "case", "throw",
+]);
+
+const PARAMS = "(?:\\([^()]*(?:\\([^()]*\\)[^()]*)*\\)|[\\w$]+)";
+const ARROW = `(?:async\\s*)?(?:<[^;{}=]*>\\s*)?${PARAMS}\\s*(?::[^;{}=]*)?=>\\s*$`;
+const ASSIGNED_ARROW = new RegExp(`(?:^|[^\\w$.])([\\w$]+)\\s*(?::[^;{}=\\n]*)?=\\s*${ARROW}`);
+const PROPERTY_ARROW = new RegExp(`(?:^|[^\\w$.])([\\w$]+)\\s*:\\s*${ARROW}`);
+const CALLBACK_ARROW = new RegExp(`([\\w$][\\w$.]*)\\s*\\(\\s*(?:[^();]*,\\s*)?${ARROW}`);
+const TYPE_ARGUMENTS = "(?:<[^<>;{}]*(?:<[^<>;{}]*>[^<>;{}]*)*>)?";
+const FUNCTION_KEYWORD = new RegExp(`(?:^|[^\\w$.])function\\s*\\*?\\s*([\\w$]*)\\s*${TYPE_ARGUMENTS}\\s*$`);
+const ASSIGNED_FUNCTION = /(?:^|[^\w$.])([\w$]+)\s*(?::[^;{}=]*)?[=:]\s*(?:async\s*)?function\b[^(]*$/;
+const METHOD = new RegExp(`(?:^|[^\\w$.])([\\w$]+)\\s*${TYPE_ARGUMENTS}\\s*$`);
+const JS_TOKEN = /[A-Za-z_$][\w$]*|"\d*"|\d[\w.]*|\?\?=?|\?\.(?!\d)|&&=?|\|\|=?|=>|[?{}()[\];:,.]/g;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function lineLocator(code: string): (index: number) => number {
+  const starts = [0];
+  for (let index = 0; index < code.length; index += 1) {
+    if (code[index] === "\n") starts.push(index + 1);
+  }
+  return (index) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (starts[mid] <= index) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
+
+function matchBraces(code: string): Map<number, number> {
+  const pairs = new Map<number, number>();
+  const open: number[] = [];
+  for (let index = 0; index < code.length; index += 1) {
+    if (code[index] === "{") open.push(index);
+    else if (code[index] === "}" && open.length > 0) pairs.set(open.pop()!, index);
+  }
+  return pairs;
+}
+
+function previousNonSpace(code: string, index: number): number {
+  let cursor = index;
+  while (cursor >= 0 && /\s/.test(code[cursor])) cursor -= 1;
+  return cursor;
+}
+
+function parameterListEnd(code: string, brace: number): number {
+  const first = previousNonSpace(code, brace - 1);
+  if (code[first] === ")") return first;
+  // `): { ok: boolean } {` - the first brace is the return type, not the body.
+  if (code[first] === ":") return -1;
+
+  let depth = 0;
+  for (let index = first, stop = Math.max(0, brace - 400); index >= stop; index -= 1) {
+    const char = code[index];
+    if (char === ">" && code[index - 1] === "=") {
+      index -= 1;
+      continue;
+    }
+    if (")]}>".includes(char)) {
+      depth += 1;
+    } else if ("([{<".includes(char)) {
+      depth -= 1;
+      if (depth < 0) return -1;
+    } else if (depth === 0) {
+      if (char === ":") {
+        const close = previousNonSpace(code, index - 1);
+        return code[close] === ")" ? close : -1;
+      }
+      if (char === ";" || char === "=") return -1;
+    }
+  }
+  return -1;
+}
+
+function matchingParen(code: string, close: number): number {
+  let depth = 0;
+  for (let index = close; index >= 0; index -= 1) {
+    if (code[index] === ")") depth += 1;
+    else if (code[index] === "(") {
+      depth -= 1;
+      if (depth === 0) return index;
+    }
+  }
+  return -1;
+}
+
+function arrowHead(code: string, body: number): { name: string; start: number } {
+  const offset = Math.max(0, body - 300);
+  const head = code.slice(offset, body);
+  for (const pattern of [ASSIGNED_ARROW, PROPERTY_ARROW]) {
+    const match = pattern.exec(head);
+    if (match) return { name: match[1], start: offset + match.index + match[0].indexOf(match[1]) };
+  }
+  const callback = CALLBACK_ARROW.exec(head);
+  if (callback) return { name: `${callback[1]} callback`, start: offset + callback.index };
+  return { name: "<anonymous>", start: body };
+}
+
+function functionHead(code: string, brace: number): { name: string; start: number } | null {
+  const arrowEnd = previousNonSpace(code, brace - 1);
+  if (code[arrowEnd] === ">" && code[arrowEnd - 1] === "=") {
+    return arrowHead(code, brace);
+  }
+
+  const close = parameterListEnd(code, brace);
+  const open = close === -1 ? -1 : matchingParen(code, close);
+  if (open === -1) return null;
+
+  const offset = Math.max(0, open - 200);
+  const head = code.slice(offset, open);
+  const declared = FUNCTION_KEYWORD.exec(head);
+  if (declared) {
+    if (declared[1]) return { name: declared[1], start: offset + declared.index + declared[0].indexOf("function") };
+    const assigned = ASSIGNED_FUNCTION.exec(head);
+    return { name: assigned ? assigned[1] : "<anonymous>", start: open };
+  }
+
+  const method = METHOD.exec(head);
+  if (!method || NOT_FUNCTION_NAMES.has(method[1])) return null;
+  return { name: method[1], start: offset + method.index + method[0].indexOf(method[1]) };
+}
+
+function enclosingOpener(code: string, index: number): number {
+  let depth = 0;
+  for (let cursor = index - 1; cursor >= 0; cursor -= 1) {
+    const char = code[cursor];
+    if (")]}".includes(char)) depth += 1;
+    else if ("([{".includes(char)) {
+      if (depth === 0) return cursor;
+      depth -= 1;
+    }
+  }
+  return -1;
+}
+
+function arrowParamsStart(code: string, arrow: number): number {
+  const last = previousNonSpace(code, arrow - 1);
+  // `(x): Promise<T> =>` - step back over the return type to the parameter list.
+  let depth = 0;
+  for (let index = last, stop = Math.max(0, arrow - 200); index >= stop; index -= 1) {
+    const char = code[index];
+    if (")]}>".includes(char) && !(char === ">" && code[index - 1] === "=")) {
+      if (depth === 0 && char === ")" && index === last) break;
+      depth += 1;
+    } else if ("([{<".includes(char)) {
+      if (depth === 0) break;
+      depth -= 1;
+    } else if (depth === 0 && char === ":") {
+      const close = previousNonSpace(code, index - 1);
+      if (code[close] === ")") return matchingParen(code, close);
+      break;
+    } else if (depth === 0 && ";=,".includes(char)) {
+      break;
+    }
+  }
+  if (code[last] === ")") return matchingParen(code, last);
+  let cursor = last;
+  while (cursor >= 0 && /[\w$]/.test(code[cursor])) cursor -= 1;
+  return cursor + 1;
+}
+
+// `(x: number) => string` in a type alias, annotation or interface member is a type, not a function.
+function isFunctionType(code: string, arrow: number): boolean {
+  const start = arrowParamsStart(code, arrow);
+  if (start === -1) return false;
+  let before = previousNonSpace(code, start - 1);
+  if (code[before] === ">") {
+    const open = code.lastIndexOf("<", before);
+    before = previousNonSpace(code, open - 1);
+  }
+  if (code.slice(before - 4, before + 1) === "async") before = previousNonSpace(code, before - 5);
+  if ("<|&".includes(code[before])) return true;
+  if (code[before] === "=") return /\btype\s+[\w$]+\s*(?:<[^=]*>)?\s*=$/.test(code.slice(Math.max(0, before - 200), before + 1));
+  if (code[before] !== ":") return false;
+  const opener = enclosingOpener(code, before);
+  if (opener === -1 || code[opener] !== "{") return true;
+  return /(?:\binterface\s+[^{;]*|\btype\s+[\w$]+\s*(?:<[^=]*>)?\s*=|:)\s*$/.test(code.slice(Math.max(0, opener - 200), opener));
+}
+
+// End of a concise arrow body: the first top-level delimiter, or a line break that does not continue the expression.
+function conciseBodyEnd(code: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < code.length; index += 1) {
+    const char = code[index];
+    if ("([{".includes(char)) depth += 1;
+    else if (")]}".includes(char)) {
+      if (depth === 0) return index;
+      depth -= 1;
+    } else if (depth === 0 && (char === "," || char === ";")) {
+      return index;
+    } else if (depth === 0 && char === "\n") {
+      const previous = code[previousNonSpace(code, index)];
+      let next = index;
+      while (next < code.length && /\s/.test(code[next])) next += 1;
+      if (next >= code.length) return index;
+      if (!"?:=&|+-*/%<>(,[!.".includes(previous) && !"?:.&|+-*/%<>=".includes(code[next])) return index;
+    }
+  }
+  return code.length;
+}
+
+function scoreJsTokens(tokens: string[], name: string): { cyclomatic: number; cognitive: number } {
+  let cyclomatic = 1;
+  let cognitive = 0;
+  let nesting = 0;
+  let parenDepth = 0;
+  let pending: { depth: number; kind: "control" | "do" } | null = null;
+  const blocks: Array<"control" | "do" | "plain"> = [];
+  let closedDo = false;
+  let lastLogical = "";
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    const previous = tokens[index - 1];
+    const afterDo = closedDo;
+    closedDo = false;
+
+    if (previous === "." && /^[\w$]/.test(token)) {
+      if (token === name && tokens[index + 1] === "(" && tokens[index - 2] === "this") cognitive += 1;
+      continue;
+    }
+
+    switch (token) {
+      case "if":
+        cyclomatic += 1;
+        cognitive += previous === "else" ? 1 : 1 + nesting;
+        pending = { depth: parenDepth, kind: "control" };
+        break;
+      case "else":
+        if (tokens[index + 1] !== "if") cognitive += 1;
+        pending = { depth: parenDepth, kind: "control" };
+        break;
+      case "while":
+        cyclomatic += 1;
+        if (!afterDo) {
+          cognitive += 1 + nesting;
+          pending = { depth: parenDepth, kind: "control" };
+        }
+        break;
+      case "for":
+        cyclomatic += 1;
+        cognitive += 1 + nesting;
+        pending = { depth: parenDepth, kind: "control" };
+        break;
+      case "do":
+        cognitive += 1 + nesting;
+        pending = { depth: parenDepth, kind: "do" };
+        break;
+      case "switch":
+        cognitive += 1 + nesting;
+        pending = { depth: parenDepth, kind: "control" };
+        break;
+      case "catch":
+        cyclomatic += 1;
+        cognitive += 1 + nesting;
+        pending = { depth: parenDepth, kind: "control" };
+        break;
+      case "case":
+        cyclomatic += 1;
+        break;
+      case "?":
+        // `x?: T` and `(x?) =>` are optional markers, not ternaries.
+        if (![":", ")", ",", "="].includes(tokens[index + 1])) {
+          cyclomatic += 1;
+          cognitive += 1 + nesting;
+        }
+        lastLogical = "";
+        break;
+      case "&&":
+      case "||":
+      case "??":
+        cyclomatic += 1;
+        if (token !== lastLogical) cognitive += 1;
+        lastLogical = token;
+        break;
+      case "(":
+        parenDepth += 1;
+        lastLogical = "";
+        break;
+      case ")":
+        parenDepth -= 1;
+        lastLogical = "";
+        break;
+      case "{": {
+        const kind = pending && pending.depth === parenDepth ? pending.kind : "plain";
+        if (kind !== "plain") nesting += 1;
+        blocks.push(kind);
+        pending = null;
+        lastLogical = "";
+        break;
+      }
+      case "}": {
+        const kind = blocks.pop();
+        if (kind && kind !== "plain") nesting -= 1;
+        closedDo = kind === "do";
+        lastLogical = "";
+        break;
+      }
+      case ";":
+        if (pending && pending.depth === parenDepth) pending = null;
+        lastLogical = "";
+        break;
+      case ",":
+      case ":":
+        lastLogical = "";
+        break;
+      default:
+        if (token === name && tokens[index + 1] === "(") cognitive += 1;
+    }
+  }
+
+  return { cyclomatic, cognitive };
+}
+
+export function measureJavaScriptComplexity(source: string): MeasuredFunction[] {
+  const { code } = tokenizeSource(source);
+  const pairs = matchBraces(code);
+  const lineOf = lineLocator(code);
+
+  // `close` is exclusive; `resume` skips the closing brace of block bodies.
+  const functions: Array<{ name: string; start: number; open: number; close: number; resume: number }> = [];
+  pairs.forEach((close, open) => {
+    const head = functionHead(code, open);
+    if (head) functions.push({ ...head, open, close, resume: close + 1 });
+  });
+  for (const match of Array.from(code.matchAll(/=>/g))) {
+    const arrow = match.index!;
+    const body = arrow + 2;
+    let first = body;
+    while (first < code.length && /\s/.test(code[first])) first += 1;
+    if (code[first] === "{" || isFunctionType(code, arrow)) continue;
+    const close = conciseBodyEnd(code, body);
+    functions.push({ ...arrowHead(code, body), open: arrow + 1, close, resume: close });
+  }
+  functions.sort((a, b) => a.open - b.open);
+
+  return functions.map((fn) => {
+    let body = "";
+    let cursor = fn.open + 1;
+    for (const inner of functions) {
+      if (inner.open < cursor || inner.close > fn.close) continue;
+      body += `${code.slice(cursor, inner.open)} {} `;
+      cursor = inner.resume;
+    }
+    body += code.slice(cursor, fn.close);
+
+    const tokens = body.match(JS_TOKEN) || [];
+    const name = fn.name.startsWith("<") || fn.name.endsWith(" callback") ? "" : fn.name;
+    return { name: fn.name, line: lineOf(fn.start), ...scoreJsTokens(tokens, name) };
+  });
+}
+
+function countLogical(line: string, pattern: RegExp): { count: number; sequences: number } {
+  const operators = line.match(pattern) || [];
+  let sequences = 0;
+  operators.forEach((operator, index) => {
+    if (operator !== operators[index - 1]) sequences += 1;
+  });
+  return { count: operators.length, sequences };
+}
+
+function indentOf(line: string): number {
+  return (/^\s*/.exec(line.replace(/\t/g, "    ")) || [""])[0].length;
+}
+
+export function measurePythonComplexity(source: string): MeasuredFunction[] {
+  const lines = source
+    .replace(/("""|''')[\s\S]*?\1/g, (block) => block.replace(/[^\n]/g, ""))
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(["'])(?:\\.|(?!\1).)*\1/g, '""').replace(/#.*$/, ""));
+
+  const defs: Array<{ name: string; line: number; indent: number; end: number }> = [];
+  lines.forEach((line, index) => {
+    const match = /^(\s*)(?:async\s+)?def\s+([A-Za-z_]\w*)/.exec(line);
+    if (!match) return;
+    const indent = indentOf(line);
+    let end = index + 1;
+    while (end < lines.length && (!lines[end].trim() || indentOf(lines[end]) > indent)) end += 1;
+    defs.push({ name: match[2], line: index + 1, indent, end });
+  });
+
+  return defs.map((def) => {
+    const nested = defs.filter((inner) => inner.line > def.line && inner.line <= def.end);
+    let cyclomatic = 1;
+    let cognitive = 0;
+    const blocks: Array<{ indent: number; nests: boolean }> = [];
+
+    for (let index = def.line; index < def.end; index += 1) {
+      if (nested.some((inner) => inner.line - 1 <= index && index < inner.end)) continue;
+      const trimmed = lines[index].trim();
+      if (!trimmed) continue;
+
+      const indent = indentOf(lines[index]);
+      while (blocks.length > 0 && blocks[blocks.length - 1].indent >= indent) blocks.pop();
+      const nesting = blocks.filter((block) => block.nests).length;
+
+      const keyword = /^(if|elif|else|for|async\s+for|while|except|try|finally|with|async\s+with|match|case)\b/.exec(trimmed)?.[1];
+      if (keyword === "if" || keyword === "for" || keyword === "while" || keyword === "except" || keyword?.startsWith("async for")) {
+        cyclomatic += 1;
+        cognitive += 1 + nesting;
+      } else if (keyword === "elif") {
+        cyclomatic += 1;
+        cognitive += 1;
+      } else if (keyword === "else") {
+        cognitive += 1;
+      } else if (keyword === "match") {
+        cognitive += 1 + nesting;
+      } else if (keyword === "case") {
+        cyclomatic += 1;
+      }
+      if (keyword && trimmed.endsWith(":")) {
+        blocks.push({ indent, nests: !/^(try|finally|with|async\s+with|case)$/.test(keyword) });
+      }
+
+      const rest = keyword ? trimmed.slice(keyword.length) : trimmed;
+      const inlineIfs = (rest.match(/\bif\b/g) || []).length;
+      cyclomatic += inlineIfs + (rest.match(/\bfor\b/g) || []).length;
+      cognitive += inlineIfs * (1 + nesting);
+
+      const logical = countLogical(trimmed, /\b(?:and|or)\b/g);
+      cyclomatic += logical.count;
+      cognitive += logical.sequences;
+
+      cognitive += (trimmed.match(new RegExp(`(?:^|[^\\w.]|\\bself\\.)${def.name}\\s*\\(`, "g")) || []).length;
+    }
+
+    return { name: def.name, line: def.line, cyclomatic, cognitive };
+  });
+}
+
+export function measureRubyComplexity(source: string): MeasuredFunction[] {
+  const lines = source
+    .replace(/^=begin[\s\S]*?^=end.*$/gm, (block) => block.replace(/[^\n]/g, ""))
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(["'])(?:\\.|(?!\1).)*\1/g, '""').replace(/#.*$/, ""));
+
+  const results: MeasuredFunction[] = [];
+  const stack: Array<{ kind: "def" | "structure" | "block" | "plain"; fn?: MeasuredFunction }> = [];
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let current: MeasuredFunction | undefined;
+    let nesting = 0;
+    for (let cursor = stack.length - 1; cursor >= 0; cursor -= 1) {
+      if (stack[cursor].kind === "def") {
+        current = stack[cursor].fn;
+        break;
+      }
+      if (stack[cursor].kind !== "plain") nesting += 1;
+    }
+
+    const keyword = /^(if|unless|elsif|else|while|until|for|case|when|rescue|begin|class|module|def)\b/.exec(trimmed)?.[1];
+    if (current) {
+      if (keyword === "if" || keyword === "unless" || keyword === "while" || keyword === "until" || keyword === "for" || keyword === "rescue") {
+        current.cyclomatic += 1;
+        current.cognitive += 1 + nesting;
+      } else if (keyword === "elsif") {
+        current.cyclomatic += 1;
+        current.cognitive += 1;
+      } else if (keyword === "else") {
+        current.cognitive += 1;
+      } else if (keyword === "case") {
+        current.cognitive += 1 + nesting;
+      } else if (keyword === "when") {
+        current.cyclomatic += 1;
+      }
+
+      const rest = keyword ? trimmed.slice(keyword.length) : trimmed;
+      const modifiers = (rest.match(/\s(?:if|unless|while|until|rescue)\s/g) || []).length;
+      const ternaries = (rest.match(/\s\?\s[^:]*\s:\s/g) || []).length;
+      current.cyclomatic += modifiers + ternaries;
+      current.cognitive += (modifiers + ternaries) * (1 + nesting);
+
+      const logical = countLogical(trimmed, /&&|\|\||\b(?:and|or)\b/g);
+      current.cyclomatic += logical.count;
+      current.cognitive += logical.sequences;
+
+      if (keyword !== "def") {
+        current.cognitive += (trimmed.match(new RegExp(`(?:^|[^\\w.:]|\\bself\\.)${current.name.replace(/[?!]/g, "\\$&")}(?![\\w?!])`, "g")) || []).length;
+      }
+    }
+
+    const def = /^def\s+(?:self\.)?([\w?!=\[\]<>+\-*/%]+)/.exec(trimmed);
+    if (def && !/^def\s+[^\s(]+(?:\([^)]*\))?\s*=(?!=)/.test(trimmed)) {
+      const fn = { name: def[1], line: index + 1, cyclomatic: 1, cognitive: 0 };
+      results.push(fn);
+      stack.push({ kind: "def", fn });
+    } else if (keyword && ["if", "unless", "while", "until", "for", "case"].includes(keyword)) {
+      stack.push({ kind: "structure" });
+    } else if (keyword === "begin" || keyword === "class" || keyword === "module") {
+      stack.push({ kind: "plain" });
+    } else if (/(?:=|\breturn)\s*(?:if|unless|case|while|until)\b/.test(trimmed)) {
+      stack.push({ kind: "structure" });
+    } else if (/(?:=|\breturn)\s*begin\b/.test(trimmed)) {
+      stack.push({ kind: "plain" });
+    } else if (/\bdo\s*(?:\|[^|]*\|)?\s*$/.test(trimmed)) {
+      stack.push({ kind: "block" });
+    }
+
+    const ends = (trimmed.match(/(?<![\w.])end(?![\w?!:])/g) || []).length;
+    for (let count = 0; count < ends && stack.length > 0; count += 1) stack.pop();
+  });
+
+  return results;
+}
+
+export function measureSourceComplexity(source: string, language: ComplexityLanguage): MeasuredFunction[] {
+  if (language === "python") return measurePythonComplexity(source);
+  if (language === "ruby") return measureRubyComplexity(source);
+  return measureJavaScriptComplexity(source);
+}
+
+async function collectFiles(root: string, pathFilter: PathFilter): Promise<string[]> {
+  const files: string[] = [];
+  const queue = [""];
+
+  while (queue.length > 0) {
+    const dir = queue.pop()!;
+    const entries = await fs.readdir(path.join(root, dir), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!pathFilter.ignoresDirectory(relativePath)) queue.push(relativePath);
+        continue;
+      }
+      if (!entry.isFile() || !pathFilter.includesFile(relativePath)) continue;
+      if (LANGUAGES[path.extname(entry.name)] && !/\.d\.[cm]?ts$|\.min\.[cm]?js$/.test(entry.name)) {
+        files.push(relativePath);
+      }
+    }
+  }
+
+  return files.sort();
+}
+
+export async function analyzeComplexity(repoPath: string, options: ComplexityOptions = {}): Promise<ComplexityReport> {
+  const root = path.resolve(repoPath);
+  const pathFilter = options.pathFilter ?? createPathFilter(root);
+  const threshold = options.threshold ?? DEFAULT_FUNCTION_COMPLEXITY_THRESHOLD;
+  const files = await collectFiles(root, pathFilter);
+
+  const functions: FunctionComplexity[] = [];
+  const fileTotals: number[] = [];
+  let filesAnalyzed = 0;
+  for (const file of files) {
+    const fullPath = path.join(root, file);
+    const stats = await fs.stat(fullPath).catch(() => null);
+    if (!stats || stats.size > MAX_FILE_BYTES) continue;
+    const source = await fs.readFile(fullPath, "utf-8").catch(() => null);
+    if (source === null) continue;
+
+    const language = LANGUAGES[path.extname(file)];
+    const measured = measureSourceComplexity(source, language);
+    filesAnalyzed += 1;
+    if (measured.length === 0) continue;
+    fileTotals.push(measured.reduce((sum, fn) => sum + fn.cyclomatic, 0));
+    functions.push(...measured.map((fn) => ({ file, language, ...fn })));
+  }
+
+  const average = (values: number[]) =>
+    values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+  const worstOffenders = [...functions]
+    .sort((a, b) => b.cognitive - a.cognitive || b.cyclomatic - a.cyclomatic || a.file.localeCompare(b.file) || a.line - b.line)
+    .slice(0, options.limit ?? 20);
+
+  return {
+    filesAnalyzed,
+    functionCount: functions.length,
+    averageCyclomatic: average(functions.map((fn) => fn.cyclomatic)),
+    averageCognitive: average(functions.map((fn) => fn.cognitive)),
+    avgFileComplexity: average(fileTotals),
+    maxCyclomatic: functions.reduce((max, fn) => Math.max(max, fn.cyclomatic), 0),
+    maxCognitive: functions.reduce((max, fn) => Math.max(max, fn.cognitive), 0),
+    threshold,
+    overThreshold: functions.filter((fn) => fn.cognitive > threshold).length,
+    worstOffenders,
+  };
+}
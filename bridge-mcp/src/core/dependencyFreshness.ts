@@ -0,0 +1,114 @@
+import semver from "semver";
+import type { BridgeConfig } from "./bridgeConfig.js";
+import { loadRegistryMetadata, type PackageRegistryMetadata } from "./releaseAge.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FreshnessUpdateType = "patch" | "minor" | "major";
+
+export interface DependencyLag {
+  updateType: FreshnessUpdateType;
+  firstVersion: string;
+  behindSince: string;
+  newestVersion: string;
+  daysBehind: number;
+  maxAgeDays: number;
+  overdue: boolean;
+}
+
+export interface DependencyFreshness {
+  name: string;
+  current: string;
+  lags: DependencyLag[];
+  daysOverdue: number;
+}
+
+function lagKind(current: semver.SemVer, version: semver.SemVer): FreshnessUpdateType {
+  if (version.major !== current.major) return "major";
+  if (version.minor !== current.minor) return "minor";
+  return "patch";
+}
+
+export function measureDependencyFreshness(
+  pkg: { name: string; current: string },
+  metadata: PackageRegistryMetadata,
+  maxAge: NonNullable<BridgeConfig["dependencies"]["maxAge"]>,
+  now = Date.now(),
+): DependencyFreshness | null {
+  const current = semver.parse(semver.valid(pkg.current) ? pkg.current : semver.coerce(pkg.current));
+  if (!current) {
+    return null;
+  }
+
+  const releases = new Map<FreshnessUpdateType, Array<{ version: semver.SemVer; published: number }>>();
+  metadata.versions.forEach(raw => {
+    const version = semver.parse(raw);
+    const published = Date.parse(metadata.time[raw] ?? "");
+    if (!version || version.prerelease.length > 0 || !Number.isFinite(published) || semver.lte(version, current)) {
+      return;
+    }
+    const kind = lagKind(current, version);
+    const list = releases.get(kind) || [];
+    list.push({ version, published });
+    releases.set(kind, list);
+  });
+
+  const lags: DependencyLag[] = [];
+  (["patch", "minor", "major"] as const).forEach(updateType => {
+    const candidates = (releases.get(updateType) || []).sort((a, b) => semver.compare(a.version, b.version));
+    if (candidates.length === 0) {
+      return;
+    }
+    const first = candidates[0];
+    const daysBehind = Math.max(0, Math.floor((now - first.published) / DAY_MS));
+    lags.push({
+      updateType,
+      firstVersion: first.version.version,
+      behindSince: new Date(first.published).toISOString(),
+      newestVersion: candidates[candidates.length - 1].version.version,
+      daysBehind,
+      maxAgeDays: maxAge[updateType],
+      overdue: daysBehind > maxAge[updateType],
+    });
+  });
+
+  const overdue = lags.filter(lag => lag.overdue);
+  return {
+    name: pkg.name,
+    current: pkg.current,
+    lags,
+    daysOverdue: overdue.reduce((max, lag) => Math.max(max, lag.daysBehind - lag.maxAgeDays), 0),
+  };
+}
+
+export async function analyzeDependencyFreshness(
+  repoPath: string,
+  dependencies: BridgeConfig["dependencies"],
+  packages: Array<{ name: string; current: string }>,
+  now = Date.now(),
+): Promise<DependencyFreshness[] | null> {
+  const maxAge = dependencies.maxAge;
+  if (!maxAge || packages.length === 0) {
+    return maxAge ? [] : null;
+  }
+  const metadata = await loadRegistryMetadata(
+    repoPath,
+    packages.map(pkg => pkg.name),
+    now,
+  );
+  if (metadata.size === 0) {
+    return null;
+  }
+  return packages
+    .map(pkg => {
+      const entry = metadata.get(pkg.name);
+      return entry ? measureDependencyFreshness(pkg, entry, maxAge, now) : null;
+    })
+    .filter((item): item is DependencyFreshness => Boolean(item));
+}
+
+export function overdueDependencies(freshness: DependencyFreshness[]): DependencyFreshness[] {
+  return freshness
+    .filter(pkg => pkg.lags.some(lag => lag.overdue))
+    .sort((a, b) => b.daysOverdue - a.daysOverdue || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,44 @@
+import type { DependencyGroup, DependencyUpdateType } from "./bridgeConfig.js";
+import { globToRegExpSource } from "./pathFilter.js";
+
+export interface GroupCandidate {
+  name: string;
+  updateType: DependencyUpdateType | "unknown";
+}
+
+const patternCache = new Map<string, RegExp>();
+
+export function matchesPackagePattern(packageName: string, pattern: string): boolean {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(`^${globToRegExpSource(pattern)}$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex.test(packageName);
+}
+
+export function findDependencyGroup(groups: DependencyGroup[], packageName: string): DependencyGroup | undefined {
+  return groups.find(group => group.packages.some(pattern => matchesPackagePattern(packageName, pattern)));
+}
+
+export function selectGroupCandidates<T extends GroupCandidate & { isNonBreaking: boolean }>(
+  packages: T[],
+  groups: DependencyGroup[],
+  groupName: string | null,
+): T[] {
+  return packages.filter(pkg => {
+    const owner = findDependencyGroup(groups, pkg.name);
+    if (groupName === null) {
+      return !owner && pkg.isNonBreaking;
+    }
+    return owner?.name === groupName && pkg.updateType !== "unknown" && owner.updateTypes.includes(pkg.updateType);
+  });
+}
+
+export function groupBranchPrefix(branchPrefix: string, groupName: string): string {
+  const slug = groupName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug ? `${branchPrefix}-${slug}` : branchPrefix;
+}
@@ -0,0 +1,1559 @@
+import { exec, execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { newInstallScripts, readLockfileDiff, summarizeLockfileDiff, type LockfileDiff } from "./lockfileDiff.js";
+import { bisectFailingUpdates, formatHeldBackPackages, type BisectionCulprit } from "./updateBisection.js";
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+export const DEFAULT_TEST_TIMEOUT_MS = 300000;
+export const DEFAULT_MAX_BUFFER = 20 * 1024 * 1024;
+
+export function formatError(error: unknown, fallback: string): string {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  if (typeof error === "string" && error.trim().length > 0) {
+    return error;
+  }
+  return fallback;
+}
+
+export function splitOutputLines(output: string): string[] {
+  return output
+    .split(/\r?\n/)
+    .map(line => line.trimEnd())
+    .filter(line => line.length > 0);
+}
+
+export function commandErrorOutput(error: unknown): string {
+  const execError = error as (NodeJS.ErrnoException & { stdout?: string; stderr?: string }) | null | undefined;
+  return `${execError?.stdout || ""}${execError?.stderr || ""}`.trim() || String(execError?.message || error || "");
+}
+
+export function extractFailureSummary(output: string): string | null {
+  const lines = splitOutputLines(output);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const prioritizedPatterns = [
+    /(^|\s)FAIL(\s|$)/i,
+    /(^|\s)error[:\s]/i,
+    /(^|\s)failed(\s|$)/i,
+    /timed out/i,
+  ];
+
+  for (const pattern of prioritizedPatterns) {
+    const match = lines.find(line => pattern.test(line));
+    if (match) {
+      return match.slice(0, 220);
+    }
+  }
+
+  return lines[lines.length - 1].slice(0, 220);
+}
+
+export function detectValidationEnvironmentIssue(output: string): string | null {
+  const checks: Array<{ pattern: RegExp; reason: string }> = [
+    {
+      pattern: /spawn pnpm ENOENT/i,
+      reason: "test script requires pnpm but pnpm is not installed or not available in PATH",
+    },
+    {
+      pattern: /spawn yarn ENOENT/i,
+      reason: "test script requires yarn but yarn is not installed or not available in PATH",
+    },
+    {
+      pattern: /spawn npm ENOENT/i,
+      reason: "test script requires npm but npm is not available in PATH",
+    },
+    {
+      pattern: /command not found:\s*pnpm/i,
+      reason: "pnpm is not installed or not available in PATH",
+    },
+    {
+      pattern: /command not found:\s*yarn/i,
+      reason: "yarn is not installed or not available in PATH",
+    },
+  ];
+
+  for (const check of checks) {
+    if (check.pattern.test(output)) {
+      return check.reason;
+    }
+  }
+
+  return null;
+}
+
+export function extractFailureFingerprints(output: string): Set<string> {
+  const lines = splitOutputLines(output);
+  const fingerprints = new Set<string>();
+
+  const normalize = (line: string) => line
+    .replace(/\d+ms\b/g, "<ms>")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  for (const line of lines) {
+    if (/^\s*(FAIL|×)\s+/i.test(line)) {
+      fingerprints.add(normalize(line));
+      continue;
+    }
+    if (/^Error:\s+/i.test(line)) {
+      fingerprints.add(normalize(line));
+      continue;
+    }
+    if (/^\s*✗\s+/i.test(line)) {
+      fingerprints.add(normalize(line));
+    }
+  }
+
+  return fingerprints;
+}
+
+function countFailedTests(output: string): number | null {
+  const match = output.match(/Tests?\s+(\d+)\s+failed/i);
+  if (!match) return null;
+  return Number.parseInt(match[1], 10);
+}
+
+export function isValidationRegression(
+  baselineOutput: string,
+  postOutput: string,
+): { regressed: boolean; reason?: string } {
+  const baselineFailedTests = countFailedTests(baselineOutput);
+  const postFailedTests = countFailedTests(postOutput);
+
+  if (baselineFailedTests !== null && postFailedTests !== null) {
+    if (postFailedTests > baselineFailedTests) {
+      return {
+        regressed: true,
+        reason: `failed test count increased (${baselineFailedTests} -> ${postFailedTests})`,
+      };
+    }
+  }
+
+  const baselineFingerprints = extractFailureFingerprints(baselineOutput);
+  const postFingerprints = extractFailureFingerprints(postOutput);
+  if (postFingerprints.size === 0) {
+    return { regressed: false };
+  }
+
+  if (baselineFingerprints.size === 0) {
+    return { regressed: true, reason: "post-update validation introduced new failures" };
+  }
+
+  for (const line of Array.from(postFingerprints)) {
+    if (!baselineFingerprints.has(line)) {
+      return { regressed: true, reason: `new failure detected: ${line}` };
+    }
+  }
+
+  return { regressed: false };
+}
+
+export async function fileExists(targetPath: string): Promise<boolean> {
+  try {
+    await fs.access(targetPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function getPackageManagerEnv(repoPath: string): Promise<NodeJS.ProcessEnv> {
+  const env: NodeJS.ProcessEnv = { ...process.env, INIT_CWD: repoPath, PWD: repoPath };
+  const localNpmrc = path.join(repoPath, ".npmrc");
+  if (await fileExists(localNpmrc)) {
+    env.NPM_CONFIG_USERCONFIG = localNpmrc;
+    env.npm_config_userconfig = localNpmrc;
+  }
+  return env;
+}
+
+export async function runCommand(
+  command: string,
+  cwd: string,
+  options: { timeout?: number; maxBuffer?: number } = {},
+) {
+  const env = await getPackageManagerEnv(cwd);
+  return execAsync(command, {
+    cwd,
+    env,
+    timeout: options.timeout ?? DEFAULT_TEST_TIMEOUT_MS,
+    maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+  });
+}
+
+export type PackageManager = "npm" | "yarn" | "pnpm";
+export type ValidationStage = "test" | "lint" | "build";
+type TestFramework = "vitest" | "jest" | "mocha" | "ava" | "playwright";
+
+export interface ValidationStep {
+  command: string;
+  relativeCwd: string;
+  stage: ValidationStage;
+  label: string;
+}
+
+export function normalizeConfiguredTimeoutMs(rawTimeout: unknown): number | null {
+  if (typeof rawTimeout !== "number" || !Number.isFinite(rawTimeout) || rawTimeout <= 0) {
+    return null;
+  }
+
+  // `.bridge.json` uses human-friendly values (default: 300), which represent seconds.
+  // If the value is very small, interpret it as seconds; otherwise treat as milliseconds.
+  if (rawTimeout <= 600) {
+    return Math.round(rawTimeout * 1000);
+  }
+
+  return Math.round(rawTimeout);
+}
+
+export async function detectNodePackageManager(repoPath: string): Promise<PackageManager> {
+  const declared = await readDeclaredPackageManager(repoPath);
+  if (declared) {
+    return declared;
+  }
+
+  const hasNpmLock = await fileExists(path.join(repoPath, "package-lock.json"));
+  const hasPnpmLock = await fileExists(path.join(repoPath, "pnpm-lock.yaml"));
+  const hasYarnLock = await fileExists(path.join(repoPath, "yarn.lock"));
+
+  if (hasPnpmLock) {
+    return "pnpm";
+  }
+  if (hasYarnLock) {
+    return "yarn";
+  }
+  if (hasNpmLock) {
+    return "npm";
+  }
+
+  return "npm";
+}
+
+async function readDeclaredPackageManager(repoPath: string): Promise<PackageManager | null> {
+  const packageJsonPath = path.join(repoPath, "package.json");
+  if (!(await fileExists(packageJsonPath))) {
+    return null;
+  }
+  try {
+    const packageJson = JSON.parse(await fs.readFile(packageJsonPath, "utf-8"));
+    const value = String(packageJson?.packageManager || "").trim().toLowerCase();
+    if (!value) return null;
+    if (value.startsWith("pnpm@")) return "pnpm";
+    if (value.startsWith("yarn@")) return "yarn";
+    if (value.startsWith("npm@")) return "npm";
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+async function isCommandAvailable(command: string, cwd: string): Promise<boolean> {
+  try {
+    await execAsync(`command -v ${command}`, {
+      cwd,
+      timeout: 15000,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function resolvePackageManagerCommand(repoPath: string, manager: PackageManager): Promise<string> {
+  if (manager === "npm") {
+    return "npm";
+  }
+
+  if (await isCommandAvailable(manager, repoPath)) {
+    return manager;
+  }
+
+  if (await isCommandAvailable("corepack", repoPath)) {
+    return `corepack ${manager}`;
+  }
+
+  throw new Error(
+    `Repository uses ${manager}, but '${manager}' is not installed and 'corepack' is unavailable. Install ${manager} (or enable corepack) and retry.`,
+  );
+}
+
+export async function normalizeConfiguredValidationCommand(repoPath: string, command: string | undefined): Promise<string | undefined> {
+  const trimmed = command?.trim();
+  if (!trimmed) return undefined;
+
+  const tokens = trimmed.split(/\s+/);
+  const runner = tokens[0];
+  if (runner !== "pnpm" && runner !== "yarn") {
+    return trimmed;
+  }
+
+  const available = await isCommandAvailable(runner, repoPath);
+  if (available) {
+    return trimmed;
+  }
+
+  const hasCorepack = await isCommandAvailable("corepack", repoPath);
+  if (hasCorepack) {
+    const rest = tokens.slice(1).join(" ");
+    return `corepack ${runner}${rest ? ` ${rest}` : ""}`.trim();
+  }
+
+  const subcommand = tokens[1] || "";
+  const rest = tokens.slice(2).join(" ");
+
+  if (subcommand === "run") {
+    return `npm run ${rest}`.trim();
+  }
+  if (subcommand === "test") {
+    return `npm test${rest ? ` ${rest}` : ""}`.trim();
+  }
+  if (!subcommand) {
+    return "npm test";
+  }
+  return `npm run ${[subcommand, ...tokens.slice(2)].join(" ")}`.trim();
+}
+
+function isMissingCommandOutput(output: string): boolean {
+  return (
+    /command not found/i.test(output) ||
+    /is not recognized as an internal or external command/i.test(output) ||
+    /missing script/i.test(output) ||
+    /npm ERR! Missing script/i.test(output) ||
+    /ERR_PNPM_NO_SCRIPT/i.test(output) ||
+    /Couldn't find a script named/i.test(output)
+  );
+}
+
+function getScriptCommand(packageManager: PackageManager, managerCommand: string, scriptName: string): string {
+  if (packageManager === "yarn") {
+    return scriptName === "test" ? `${managerCommand} test` : `${managerCommand} ${scriptName}`;
+  }
+  if (packageManager === "pnpm") {
+    return scriptName === "test" ? `${managerCommand} test` : `${managerCommand} run ${scriptName}`;
+  }
+  return scriptName === "test" ? `${managerCommand} test` : `${managerCommand} run ${scriptName}`;
+}
+
+function getNonBreakingUpdateCommand(packageManager: PackageManager, managerCommand: string): string {
+  if (packageManager === "pnpm") {
+    return `${managerCommand} update`;
+  }
+  if (packageManager === "yarn") {
+    return `${managerCommand} upgrade`;
+  }
+  return `${managerCommand} update`;
+}
+
+export function getManagerInstallCommand(packageManager: PackageManager, managerCommand: string): string {
+  if (packageManager === "pnpm") return `${managerCommand} install`;
+  if (packageManager === "yarn") return `${managerCommand} install`;
+  return `${managerCommand} install`;
+}
+
+function getManagerLockfile(packageManager: PackageManager): string {
+  if (packageManager === "pnpm") return "pnpm-lock.yaml";
+  if (packageManager === "yarn") return "yarn.lock";
+  return "package-lock.json";
+}
+
+export function getPinnedInstallCommand(
+  packageManager: PackageManager,
+  managerCommand: string,
+  specs: string[],
+  dev: boolean,
+): string {
+  const verb = packageManager === "npm" ? "install" : "add";
+  return `${managerCommand} ${verb}${dev ? " -D" : ""} ${specs.join(" ")}`;
+}
+
+export function getRemoveCommand(
+  packageManager: PackageManager,
+  managerCommand: string,
+  packages: string[],
+  manifestDir = "",
+): string {
+  const verb = packageManager === "npm" ? "uninstall" : "remove";
+  const command = `${managerCommand} ${verb} ${packages.join(" ")}`;
+  return manifestDir ? `(cd ${manifestDir} && ${command})` : command;
+}
+
+export function getCleanUpdateSequenceCommand(packageManager: PackageManager, managerCommand: string): string {
+  const installCommand = getManagerInstallCommand(packageManager, managerCommand);
+  const lockfile = getManagerLockfile(packageManager);
+  const updateCommand = getNonBreakingUpdateCommand(packageManager, managerCommand);
+  return `rm -rf node_modules ${lockfile}; ${installCommand}; ${updateCommand}; rm -rf node_modules ${lockfile}; ${installCommand};`;
+}
+
+const TEST_SCRIPT_CANDIDATES = ["test", "test:ci", "test:unit", "test:integration", "test:all", "verify", "check"];
+const LINT_SCRIPT_CANDIDATES = ["lint", "lint:ci"];
+const BUILD_SCRIPT_CANDIDATES = ["build", "build:ci"];
+const TEST_FILE_PATTERN = /\.(test|spec)\.[cm]?[jt]sx?$/;
+const TEST_DIR_NAMES = new Set(["test", "tests", "__tests__", "__mocks__"]);
+const TEST_FRAMEWORK_PACKAGE_MAP: Record<string, TestFramework> = {
+  vitest: "vitest",
+  jest: "jest",
+  mocha: "mocha",
+  ava: "ava",
+  playwright: "playwright",
+  "@playwright/test": "playwright",
+};
+const TEST_FRAMEWORK_CONFIG_FILES: Record<TestFramework, string[]> = {
+  vitest: ["vitest.config.ts", "vitest.config.js", "vitest.config.mts", "vitest.config.mjs", "vitest.config.cts", "vitest.config.cjs"],
+  jest: ["jest.config.ts", "jest.config.js", "jest.config.mts", "jest.config.mjs", "jest.config.cjs", "jest.config.json"],
+  mocha: [".mocharc", ".mocharc.json", ".mocharc.yml", ".mocharc.yaml", ".mocharc.js", ".mocharc.cjs"],
+  ava: ["ava.config.ts", "ava.config.js", "ava.config.mts", "ava.config.mjs", "ava.config.cjs"],
+  playwright: ["playwright.config.ts", "playwright.config.js", "playwright.config.mts", "playwright.config.mjs", "playwright.config.cjs"],
+};
+const TEST_FRAMEWORK_PRIORITY: TestFramework[] = ["vitest", "jest", "mocha", "playwright", "ava"];
+
+function pickScriptForStage(scripts: Record<string, unknown>, stage: ValidationStage): string | null {
+  const candidates = stage === "test"
+    ? TEST_SCRIPT_CANDIDATES
+    : stage === "lint"
+      ? LINT_SCRIPT_CANDIDATES
+      : BUILD_SCRIPT_CANDIDATES;
+
+  for (const candidate of candidates) {
+    if (typeof scripts[candidate] === "string" && scripts[candidate].trim().length > 0) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function detectFrameworksFromDependencies(packageJson: any): Set<TestFramework> {
+  const frameworks = new Set<TestFramework>();
+  const sections = [
+    packageJson?.dependencies || {},
+    packageJson?.devDependencies || {},
+    packageJson?.peerDependencies || {},
+  ];
+
+  for (const section of sections) {
+    for (const depName of Object.keys(section)) {
+      const framework = TEST_FRAMEWORK_PACKAGE_MAP[depName];
+      if (framework) {
+        frameworks.add(framework);
+      }
+    }
+  }
+
+  return frameworks;
+}
+
+async function detectFrameworksFromConfigs(repoPath: string, packageDirs: string[]): Promise<Set<TestFramework>> {
+  const frameworks = new Set<TestFramework>();
+  const directories = [".", ...packageDirs];
+
+  for (const relativeDir of directories) {
+    const basePath = relativeDir === "." ? repoPath : path.join(repoPath, relativeDir);
+
+    for (const framework of Object.keys(TEST_FRAMEWORK_CONFIG_FILES) as TestFramework[]) {
+      for (const fileName of TEST_FRAMEWORK_CONFIG_FILES[framework]) {
+        if (await fileExists(path.join(basePath, fileName))) {
+          frameworks.add(framework);
+          break;
+        }
+      }
+    }
+  }
+
+  return frameworks;
+}
+
+async function hasTestArtifacts(repoPath: string, maxDepth = 7): Promise<boolean> {
+  const skipDirs = new Set([".git", "node_modules", "dist", "build", "coverage", ".next", "out", ".turbo"]);
+
+  const walk = async (absoluteDir: string, depth: number): Promise<boolean> => {
+    if (depth > maxDepth) return false;
+
+    let entries: import("fs").Dirent[];
+    try {
+      entries = await fs.readdir(absoluteDir, { withFileTypes: true });
+    } catch {
+      return false;
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        if (skipDirs.has(entry.name)) continue;
+        if (TEST_DIR_NAMES.has(entry.name)) {
+          return true;
+        }
+        if (await walk(path.join(absoluteDir, entry.name), depth + 1)) {
+          return true;
+        }
+      } else if (entry.isFile()) {
+        if (TEST_FILE_PATTERN.test(entry.name)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  };
+
+  return walk(repoPath, 0);
+}
+
+function getFrameworkTestCommand(
+  framework: TestFramework,
+  packageManager: PackageManager,
+  managerCommand: string,
+): string {
+  const frameworkCommand = framework === "vitest"
+    ? "vitest run"
+    : framework === "jest"
+      ? "jest --runInBand"
+      : framework === "mocha"
+        ? "mocha"
+        : framework === "playwright"
+          ? "playwright test"
+          : "ava";
+
+  if (packageManager === "npm") {
+    return `npx --no-install ${frameworkCommand}`;
+  }
+  if (packageManager === "pnpm") {
+    return `${managerCommand} exec ${frameworkCommand}`;
+  }
+  return `${managerCommand} ${frameworkCommand}`;
+}
+
+function normalizePathForMatch(value: string): string {
+  return value.replace(/\\/g, "/").replace(/\/+$/, "");
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*/g, "__DOUBLE_STAR__")
+    .replace(/\*/g, "[^/]+")
+    .replace(/__DOUBLE_STAR__/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+async function collectPackageJsonDirectories(
+  repoPath: string,
+  maxDepth = 6,
+): Promise<string[]> {
+  const results: string[] = [];
+  const skipDirs = new Set([".git", "node_modules", "dist", "build", "coverage", ".next", "out"]);
+
+  const walk = async (absoluteDir: string, relativeDir: string, depth: number): Promise<void> => {
+    if (depth > maxDepth) return;
+
+    const packageJsonPath = path.join(absoluteDir, "package.json");
+    if (relativeDir !== "." && await fileExists(packageJsonPath)) {
+      results.push(relativeDir);
+    }
+
+    if (depth === maxDepth) return;
+
+    let entries: import("fs").Dirent[];
+    try {
+      entries = await fs.readdir(absoluteDir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      if (skipDirs.has(entry.name)) continue;
+      const nextAbsolute = path.join(absoluteDir, entry.name);
+      const nextRelative = relativeDir === "." ? entry.name : path.join(relativeDir, entry.name);
+      await walk(nextAbsolute, normalizePathForMatch(nextRelative), depth + 1);
+    }
+  };
+
+  await walk(repoPath, ".", 0);
+  return results;
+}
+
+async function getWorkspacePatterns(repoPath: string, packageJson: any): Promise<string[]> {
+  const patterns = new Set<string>();
+  const rawWorkspaces = packageJson?.workspaces;
+
+  if (Array.isArray(rawWorkspaces)) {
+    rawWorkspaces.forEach(value => {
+      if (typeof value === "string" && value.trim()) {
+        patterns.add(normalizePathForMatch(value.trim()));
+      }
+    });
+  } else if (rawWorkspaces && Array.isArray(rawWorkspaces.packages)) {
+    rawWorkspaces.packages.forEach((value: unknown) => {
+      if (typeof value === "string" && value.trim()) {
+        patterns.add(normalizePathForMatch(value.trim()));
+      }
+    });
+  }
+
+  const pnpmWorkspacePath = path.join(repoPath, "pnpm-workspace.yaml");
+  if (await fileExists(pnpmWorkspacePath)) {
+    try {
+      const yaml = await fs.readFile(pnpmWorkspacePath, "utf-8");
+      for (const line of yaml.split(/\r?\n/)) {
+        const match = line.match(/^\s*-\s*['"]?([^'"]+)['"]?\s*$/);
+        if (match?.[1]) {
+          patterns.add(normalizePathForMatch(match[1]));
+        }
+      }
+    } catch {
+      // Ignore malformed workspace yaml; fallback to package.json workspaces.
+    }
+  }
+
+  return Array.from(patterns);
+}
+
+async function resolveWorkspaceValidationSteps(
+  repoPath: string,
+  packageManager: PackageManager,
+  managerCommand: string,
+  workspacePatterns: string[],
+  rootHasStage: Record<ValidationStage, boolean>,
+): Promise<ValidationStep[]> {
+  if (workspacePatterns.length === 0) {
+    return [];
+  }
+
+  const patternMatchers = workspacePatterns.map(pattern => globToRegExp(pattern));
+  const allPackageDirs = await collectPackageJsonDirectories(repoPath);
+  const matchedPackageDirs = allPackageDirs
+    .map(normalizePathForMatch)
+    .filter(relativeDir => patternMatchers.some(pattern => pattern.test(relativeDir)));
+
+  const stages: ValidationStage[] = ["test", "lint", "build"];
+  const byStage: Record<ValidationStage, ValidationStep[]> = {
+    test: [],
+    lint: [],
+    build: [],
+  };
+  const seen = new Set<string>();
+
+  for (const relativeDir of matchedPackageDirs) {
+    const packageJsonPath = path.join(repoPath, relativeDir, "package.json");
+    let workspaceJson: any;
+    try {
+      workspaceJson = JSON.parse(await fs.readFile(packageJsonPath, "utf-8"));
+    } catch {
+      continue;
+    }
+    const scripts = (workspaceJson?.scripts || {}) as Record<string, unknown>;
+
+    for (const stage of stages) {
+      if (rootHasStage[stage]) {
+        continue;
+      }
+      const scriptName = pickScriptForStage(scripts, stage);
+      if (!scriptName) {
+        continue;
+      }
+      const command = getScriptCommand(packageManager, managerCommand, scriptName);
+      const step: ValidationStep = {
+        command,
+        relativeCwd: relativeDir,
+        stage,
+        label: `${relativeDir} (${scriptName})`,
+      };
+      const dedupeKey = `${step.relativeCwd}::${step.command}`;
+      if (seen.has(dedupeKey)) {
+        continue;
+      }
+      seen.add(dedupeKey);
+      byStage[stage].push(step);
+    }
+  }
+
+  return [...byStage.test, ...byStage.lint, ...byStage.build];
+}
+
+async function resolveNestedValidationSteps(
+  repoPath: string,
+  packageManager: PackageManager,
+  managerCommand: string,
+  rootHasStage: Record<ValidationStage, boolean>,
+): Promise<ValidationStep[]> {
+  const packageDirs = await collectPackageJsonDirectories(repoPath);
+  const stages: ValidationStage[] = ["test", "lint", "build"];
+  const byStage: Record<ValidationStage, ValidationStep[]> = { test: [], lint: [], build: [] };
+  const seen = new Set<string>();
+
+  for (const relativeDir of packageDirs) {
+    const packageJsonPath = path.join(repoPath, relativeDir, "package.json");
+    let workspaceJson: any;
+    try {
+      workspaceJson = JSON.parse(await fs.readFile(packageJsonPath, "utf-8"));
+    } catch {
+      continue;
+    }
+    const scripts = (workspaceJson?.scripts || {}) as Record<string, unknown>;
+
+    for (const stage of stages) {
+      if (rootHasStage[stage]) continue;
+      const scriptName = pickScriptForStage(scripts, stage);
+      if (!scriptName) continue;
+      const command = getScriptCommand(packageManager, managerCommand, scriptName);
+      const step: ValidationStep = {
+        command,
+        relativeCwd: relativeDir,
+        stage,
+        label: `${relativeDir} (${scriptName})`,
+      };
+      const dedupeKey = `${step.relativeCwd}::${step.command}`;
+      if (seen.has(dedupeKey)) continue;
+      seen.add(dedupeKey);
+      byStage[stage].push(step);
+    }
+  }
+
+  return [...byStage.test, ...byStage.lint, ...byStage.build];
+}
+
+export async function resolveJavascriptValidationCommands(
+  repoPath: string,
+  overrideCommand?: string,
+): Promise<ValidationStep[]> {
+  if (overrideCommand?.trim()) {
+    return [{
+      command: overrideCommand.trim(),
+      relativeCwd: ".",
+      stage: "test",
+      label: "custom",
+    }];
+  }
+
+  const packageManager = await detectNodePackageManager(repoPath);
+  const managerCommand = await resolvePackageManagerCommand(repoPath, packageManager);
+  const packageJsonPath = path.join(repoPath, "package.json");
+  if (!(await fileExists(packageJsonPath))) {
+    return [];
+  }
+
+  const packageJsonRaw = await fs.readFile(packageJsonPath, "utf-8");
+  const packageJson = JSON.parse(packageJsonRaw);
+  const scripts = (packageJson?.scripts || {}) as Record<string, unknown>;
+  const packageDirs = await collectPackageJsonDirectories(repoPath);
+
+  const stages: ValidationStage[] = ["test", "lint", "build"];
+  const rootScriptNames: Record<ValidationStage, string | null> = {
+    test: pickScriptForStage(scripts, "test"),
+    lint: pickScriptForStage(scripts, "lint"),
+    build: pickScriptForStage(scripts, "build"),
+  };
+  const rootHasStage: Record<ValidationStage, boolean> = {
+    test: Boolean(rootScriptNames.test),
+    lint: Boolean(rootScriptNames.lint),
+    build: Boolean(rootScriptNames.build),
+  };
+
+  const rootSteps: ValidationStep[] = stages
+    .filter(stage => rootHasStage[stage])
+    .map(stage => ({
+      command: getScriptCommand(packageManager, managerCommand, rootScriptNames[stage]!),
+      relativeCwd: ".",
+      stage,
+      label: `root (${rootScriptNames[stage]})`,
+    }));
+
+  const workspacePatterns = await getWorkspacePatterns(repoPath, packageJson);
+  const workspaceSteps = workspacePatterns.length > 0
+    ? await resolveWorkspaceValidationSteps(
+      repoPath,
+      packageManager,
+      managerCommand,
+      workspacePatterns,
+      rootHasStage,
+    )
+    : await resolveNestedValidationSteps(
+      repoPath,
+      packageManager,
+      managerCommand,
+      rootHasStage,
+    );
+  const resolvedSteps = [...rootSteps, ...workspaceSteps];
+  const hasTestStep = resolvedSteps.some(step => step.stage === "test");
+
+  if (!hasTestStep) {
+    const frameworkSignals = detectFrameworksFromDependencies(packageJson);
+    for (const relativeDir of packageDirs) {
+      const nestedPackageJsonPath = path.join(repoPath, relativeDir, "package.json");
+      if (!(await fileExists(nestedPackageJsonPath))) {
+        continue;
+      }
+      try {
+        const nestedPackageJson = JSON.parse(await fs.readFile(nestedPackageJsonPath, "utf-8"));
+        detectFrameworksFromDependencies(nestedPackageJson).forEach(framework => frameworkSignals.add(framework));
+      } catch {
+        // Ignore invalid nested package.json files.
+      }
+    }
+
+    const configSignals = await detectFrameworksFromConfigs(repoPath, packageDirs);
+    configSignals.forEach(framework => frameworkSignals.add(framework));
+
+    const hasArtifacts = await hasTestArtifacts(repoPath);
+    const selectedFramework = TEST_FRAMEWORK_PRIORITY.find(framework => frameworkSignals.has(framework));
+
+    if (selectedFramework) {
+      resolvedSteps.unshift({
+        command: getFrameworkTestCommand(selectedFramework, packageManager, managerCommand),
+        relativeCwd: ".",
+        stage: "test",
+        label: `detected-${selectedFramework}`,
+      });
+    } else if (hasArtifacts) {
+      resolvedSteps.unshift({
+        command: "node --test",
+        relativeCwd: ".",
+        stage: "test",
+        label: "detected-node-test-artifacts",
+      });
+    }
+  }
+
+  return resolvedSteps;
+}
+
+export async function runValidationSteps(
+  steps: ValidationStep[],
+  repoRoot: string,
+  onLog: (message: string) => void,
+  onWarning: (warning: { message: string; output: string }) => void,
+  options: { timeoutMs: number; stageLabel: string },
+): Promise<{ success: boolean; output: string; executedCount: number; skippedMissingCount: number; attemptedCount: number; failedCommand?: string }> {
+  const allOutput: string[] = [];
+  let executedCount = 0;
+  let skippedMissingCount = 0;
+  let attemptedCount = 0;
+
+  for (const step of steps) {
+    const command = step.command;
+    const stepCwd = step.relativeCwd === "."
+      ? repoRoot
+      : path.join(repoRoot, step.relativeCwd);
+    attemptedCount += 1;
+    onLog(`${step.relativeCwd === "." ? "[root]" : `[${step.relativeCwd}]`} > ${command}`);
+    try {
+      const { stdout, stderr } = await runCommand(command, stepCwd, {
+        timeout: options.timeoutMs,
+        maxBuffer: DEFAULT_MAX_BUFFER,
+      });
+      executedCount += 1;
+      const output = `${stdout}${stderr}`.trim();
+      if (output) {
+        splitOutputLines(output).forEach(line => onLog(line));
+        allOutput.push(output);
+      }
+    } catch (error: any) {
+      const output = `${error?.stdout || ""}${error?.stderr || ""}`.trim() || String(error?.message || "");
+      if (output) {
+        splitOutputLines(output).forEach(line => onLog(line));
+        allOutput.push(output);
+      }
+
+      if (isMissingCommandOutput(output)) {
+        skippedMissingCount += 1;
+        onWarning({
+          message: `${options.stageLabel}: command not found, skipping '${command}' in ${step.relativeCwd}`,
+          output,
+        });
+        continue;
+      }
+
+      return {
+        success: false,
+        output: allOutput.join("\n\n"),
+        executedCount,
+        skippedMissingCount,
+        attemptedCount,
+        failedCommand: `${step.relativeCwd === "." ? "root" : step.relativeCwd}: ${command}`,
+      };
+    }
+  }
+
+  return {
+    success: true,
+    output: allOutput.join("\n\n"),
+    executedCount,
+    skippedMissingCount,
+    attemptedCount,
+  };
+}
+
+export async function installDependenciesForValidation(
+  repoPath: string,
+  onLog: (message: string) => void,
+  validationSteps: ValidationStep[] = [],
+): Promise<void> {
+  const installTargets = new Set<string>(["."]);
+  for (const step of validationSteps) {
+    if (step.relativeCwd && step.relativeCwd !== ".") {
+      installTargets.add(step.relativeCwd);
+    }
+  }
+
+  for (const relativeDir of Array.from(installTargets)) {
+    const targetPath = relativeDir === "."
+      ? repoPath
+      : path.join(repoPath, relativeDir);
+    const packageJsonPath = path.join(targetPath, "package.json");
+    if (!(await fileExists(packageJsonPath))) {
+      continue;
+    }
+
+    const manager = await detectNodePackageManager(targetPath);
+    const managerCommand = await resolvePackageManagerCommand(targetPath, manager);
+    const installCommand = manager === "npm" && await fileExists(path.join(targetPath, "package-lock.json"))
+      ? `${managerCommand} ci`
+      : getManagerInstallCommand(manager, managerCommand);
+
+    onLog(`Installing baseline dependencies${relativeDir === "." ? "" : ` in ${relativeDir}`}: ${installCommand}`);
+    const { stdout, stderr } = await runCommand(installCommand, targetPath, {
+      timeout: 15 * 60 * 1000,
+      maxBuffer: 50 * 1024 * 1024,
+    });
+    const output = `${stdout}${stderr}`.trim();
+    if (output) {
+      splitOutputLines(output).forEach(line => onLog(line));
+    }
+  }
+}
+
+function sanitizeGitRef(value: string): string | null {
+  const normalized = value.trim();
+  if (!normalized) return null;
+  if (!/^[A-Za-z0-9._/-]+$/.test(normalized)) {
+    return null;
+  }
+  return normalized;
+}
+
+async function gitRefExists(repoPath: string, ref: string): Promise<boolean> {
+  const safeRef = sanitizeGitRef(ref);
+  if (!safeRef) return false;
+  try {
+    await execAsync(`git rev-parse --verify --quiet "${safeRef}"`, {
+      cwd: repoPath,
+      timeout: 30000,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function resolveBaseRef(
+  repoPath: string,
+  preferredBaseBranch?: string,
+  onLog?: (message: string) => void,
+): Promise<string> {
+  try {
+    onLog?.("Fetching latest refs from origin...");
+    await execAsync("git fetch origin --prune", {
+      cwd: repoPath,
+      timeout: 120000,
+      maxBuffer: DEFAULT_MAX_BUFFER,
+    });
+    onLog?.("Fetched latest refs from origin.");
+  } catch (error) {
+    onLog?.(`WARN: Unable to fetch origin before update. Falling back to local refs (${formatError(error, "fetch failed")}).`);
+  }
+
+  const candidates: string[] = [];
+  const preferred = sanitizeGitRef(preferredBaseBranch || "");
+  if (preferred) {
+    candidates.push(`origin/${preferred}`, preferred);
+  }
+
+  try {
+    const { stdout } = await execAsync("git symbolic-ref --short refs/remotes/origin/HEAD", {
+      cwd: repoPath,
+      timeout: 30000,
+    });
+    const originHead = stdout.trim();
+    if (originHead) {
+      candidates.push(originHead);
+      if (originHead.startsWith("origin/")) {
+        candidates.push(originHead.slice("origin/".length));
+      }
+    }
+  } catch {}
+
+  candidates.push("origin/main", "origin/master", "main", "master");
+  const uniqueCandidates = Array.from(new Set(candidates.map(candidate => candidate.trim()).filter(Boolean)));
+
+  for (const candidate of uniqueCandidates) {
+    if (await gitRefExists(repoPath, candidate)) {
+      try {
+        const { stdout } = await execAsync(`git rev-parse --short "${candidate}"`, {
+          cwd: repoPath,
+          timeout: 30000,
+        });
+        const sha = stdout.trim();
+        if (sha) {
+          onLog?.(`Using base ref ${candidate} @ ${sha}.`);
+        }
+      } catch {}
+      return candidate;
+    }
+  }
+
+  return "HEAD";
+}
+
+export async function createIsolatedWorkspace(
+  repoPath: string,
+  branchName: string,
+  options: { baseBranch?: string; remoteFirst?: boolean; onLog?: (message: string) => void } = {},
+): Promise<string> {
+  const worktreeRoot = await fs.mkdtemp(path.join(os.tmpdir(), "bridge-worktree-"));
+  const useRemoteFirst = options.remoteFirst !== false;
+  const baseRef = useRemoteFirst
+    ? await resolveBaseRef(repoPath, options.baseBranch, options.onLog)
+    : "HEAD";
+  options.onLog?.(`Creating branch '${branchName}' from ${baseRef}.`);
+
+  await execAsync(`git worktree add -b "${branchName}" "${worktreeRoot}" "${baseRef}"`, {
+    cwd: repoPath,
+    timeout: DEFAULT_TEST_TIMEOUT_MS,
+    maxBuffer: DEFAULT_MAX_BUFFER,
+  });
+  return worktreeRoot;
+}
+
+export async function cleanupIsolatedWorkspace(
+  repoPath: string,
+  worktreePath: string,
+  branchName: string,
+  options: { deleteBranch?: boolean } = {},
+): Promise<void> {
+  try {
+    await execAsync(`git worktree remove --force "${worktreePath}"`, {
+      cwd: repoPath,
+      timeout: DEFAULT_TEST_TIMEOUT_MS,
+    });
+  } catch {}
+
+  if (options.deleteBranch) {
+    try {
+      await execAsync(`git branch -D ${branchName}`, {
+        cwd: repoPath,
+        timeout: 30000,
+      });
+    } catch {}
+  }
+}
+
+// The worktree has no commits of its own yet, so HEAD is the base the update started from.
+export async function resetIsolatedWorkspace(workspacePath: string): Promise<void> {
+  await execAsync("git reset --hard HEAD && git clean -fd", {
+    cwd: workspacePath,
+    timeout: 60000,
+    maxBuffer: DEFAULT_MAX_BUFFER,
+  });
+}
+
+export interface BridgeUpdateLogEntry {
+  timestamp: string;
+  workflow: "patch-batch" | "non-breaking" | "security" | "migration" | "required-packages" | "mcp";
+  branchName: string;
+  updatedPackages: string[];
+  failedPackages?: string[];
+  createPR: boolean;
+  prUrl?: string | null;
+  testsPassed?: boolean;
+  gatesPassed?: boolean;
+  culprits?: string[];
+  group?: string;
+  lockfileDiff?: LockfileDiff;
+}
+
+export async function appendBridgeUpdateLog(repoPath: string, entry: BridgeUpdateLogEntry): Promise<void> {
+  const bridgeDir = path.join(repoPath, ".bridge");
+  const logPath = path.join(bridgeDir, "update-log.json");
+  await fs.mkdir(bridgeDir, { recursive: true });
+
+  let existing: BridgeUpdateLogEntry[] = [];
+  try {
+    const raw = await fs.readFile(logPath, "utf-8");
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) {
+      existing = parsed as BridgeUpdateLogEntry[];
+    }
+  } catch {
+    existing = [];
+  }
+
+  existing.unshift(entry);
+  if (existing.length > 200) {
+    existing = existing.slice(0, 200);
+  }
+
+  await fs.writeFile(logPath, JSON.stringify(existing, null, 2) + "\n", "utf-8");
+}
+
+export function normalizeBranchName(branchName: string): string {
+  const normalized = branchName.trim().replace(/[^a-zA-Z0-9/_-]+/g, "-");
+  if (!normalized) {
+    return `bridge-update-${Date.now()}`;
+  }
+  return normalized;
+}
+
+export async function hasGitChanges(repoPath: string): Promise<boolean> {
+  try {
+    const { stdout } = await execAsync("git status --porcelain", { cwd: repoPath, timeout: 30000 });
+    return stdout.trim().length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export async function analyzeLockfileChanges(
+  workspacePath: string,
+  repoPath: string,
+  onLog: (message: string) => void,
+  onWarning: (warning: { message: string; output: string }) => void,
+): Promise<LockfileDiff | null> {
+  const diff = await readLockfileDiff(workspacePath, { measure: true, cacheRepoPath: repoPath }).catch(() => null);
+  if (!diff) {
+    return null;
+  }
+  summarizeLockfileDiff(diff).forEach(line => onLog(line));
+  const scripts = newInstallScripts(diff);
+  if (scripts.length > 0) {
+    onWarning({
+      message: `${scripts.length} package(s) introduce install scripts: ${scripts.join(", ")}`,
+      output: "Install scripts run arbitrary code on every install. Review these packages before merging.",
+    });
+  }
+  return diff;
+}
+
+export interface DependencyUpdateTarget {
+  name: string;
+  version: string;
+  dev?: boolean;
+}
+
+export interface IsolatedUpdateCommit {
+  workspacePath: string;
+  branchName: string;
+  updatedPackages: string[];
+  culprits: BisectionCulprit[];
+  lockfileDiff: LockfileDiff | null;
+  testsPassed?: boolean;
+  // Call right after the push so a later PR or gate failure still reports the branch as published.
+  markPushed: () => void;
+}
+
+export interface IsolatedUpdatePublication {
+  branchPushed?: boolean;
+  prUrl?: string | null;
+  gatesPassed?: boolean;
+}
+
+export interface IsolatedUpdateHooks {
+  onWorkspaceReady?: (workspacePath: string) => Promise<void> | void;
+  resolveScriptUpdates?: (workspacePath: string) => Promise<string[]>;
+  afterCommit?: (commit: IsolatedUpdateCommit) => Promise<IsolatedUpdatePublication>;
+}
+
+export interface IsolatedUpdateOptions {
+  repoPath: string;
+  branchName: string;
+  packages: DependencyUpdateTarget[];
+  updateScript?: { expected: DependencyUpdateTarget[] };
+  runTests: boolean;
+  testCommand?: string;
+  timeoutMs?: number;
+  baseBranch?: string;
+  remoteFirst?: boolean;
+  workflow: BridgeUpdateLogEntry["workflow"];
+  group?: string;
+  commitTitle?: string;
+  bisectOnFailure?: boolean;
+  priorityPackages?: string[];
+  hooks?: IsolatedUpdateHooks;
+  onProgress?: (message: string) => void;
+  onLog?: (message: string) => void;
+  onWarning?: (warning: { message: string; output: string }) => void;
+}
+
+export interface IsolatedUpdateResult {
+  success: boolean;
+  branchName: string;
+  committed: boolean;
+  branchPushed?: boolean;
+  prUrl?: string | null;
+  updatedPackages: string[];
+  failedPackages: string[];
+  culprits: BisectionCulprit[];
+  testsPassed?: boolean;
+  testOutput?: string;
+  validationChecks: number;
+  error?: string;
+  lockfileDiff?: LockfileDiff;
+}
+
+const INSTALL_COMMAND_OPTIONS = { timeout: 15 * 60 * 1000, maxBuffer: 50 * 1024 * 1024 };
+
+async function commitWorkspaceChanges(workspacePath: string, message: string, files: string[]): Promise<void> {
+  for (const file of files) {
+    if (await fileExists(path.join(workspacePath, file))) {
+      await execFileAsync("git", ["add", "--", file], { cwd: workspacePath, timeout: 30000 });
+    }
+  }
+  await execFileAsync("git", ["commit", "--no-verify", "-m", message], {
+    cwd: workspacePath,
+    timeout: 60000,
+    maxBuffer: DEFAULT_MAX_BUFFER,
+  });
+}
+
+async function installPinnedTargets(
+  workspacePath: string,
+  packageManager: PackageManager,
+  managerCommand: string,
+  targets: DependencyUpdateTarget[],
+  onLog: (message: string) => void,
+): Promise<{ command: string; output: string } | null> {
+  for (const dev of [false, true]) {
+    const specs = targets.filter(target => Boolean(target.dev) === dev).map(target => `${target.name}@${target.version}`);
+    if (specs.length === 0) continue;
+    const command = getPinnedInstallCommand(packageManager, managerCommand, specs, dev);
+    onLog(`> ${command}`);
+    try {
+      const { stdout, stderr } = await runCommand(command, workspacePath, INSTALL_COMMAND_OPTIONS);
+      splitOutputLines(`${stdout}${stderr}`).forEach(line => onLog(line));
+    } catch (error) {
+      const output = commandErrorOutput(error);
+      splitOutputLines(output).forEach(line => onLog(line));
+      return { command, output };
+    }
+  }
+  return null;
+}
+
+export async function runIsolatedDependencyUpdate(options: IsolatedUpdateOptions): Promise<IsolatedUpdateResult> {
+  const { repoPath, packages, updateScript, runTests } = options;
+  const hooks = options.hooks || {};
+  const onProgress = options.onProgress || (() => {});
+  const onLog = options.onLog || (() => {});
+  const onWarning = options.onWarning || (() => {});
+  const branchName = normalizeBranchName(options.branchName);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TEST_TIMEOUT_MS;
+  const priorityPackages = options.priorityPackages || [];
+  let updatedPackages: string[] = [];
+  const failedPackages: string[] = [];
+  const culprits: BisectionCulprit[] = [];
+  const validationOutput: string[] = [];
+  let validationChecks = 0;
+
+  const fail = (error: string, extra: Partial<IsolatedUpdateResult> = {}): IsolatedUpdateResult => {
+    onLog(`✗ ${error}`);
+    return {
+      success: false,
+      branchName,
+      committed: false,
+      updatedPackages,
+      failedPackages,
+      culprits,
+      validationChecks,
+      error,
+      ...extra,
+    };
+  };
+
+  if (packages.length === 0 && !updateScript) {
+    return fail("No packages to update.");
+  }
+  if (!(await fileExists(path.join(repoPath, ".git"))) || !(await fileExists(path.join(repoPath, "package.json")))) {
+    return fail("Git and package.json are required for dependency updates.");
+  }
+
+  let validationCommands: ValidationStep[] = [];
+  if (runTests) {
+    const testCommand = await normalizeConfiguredValidationCommand(repoPath, options.testCommand);
+    validationCommands = await resolveJavascriptValidationCommands(repoPath, testCommand);
+    if (validationCommands.length === 0) {
+      return fail("No validation commands detected. Add test/lint/build scripts or set gates.tests.command in .bridge.json.");
+    }
+  }
+
+  let workspacePath = "";
+  let committed = false;
+  let branchPushed = false;
+  try {
+    onProgress("Preparing isolated update workspace...");
+    workspacePath = await createIsolatedWorkspace(repoPath, branchName, {
+      baseBranch: options.baseBranch,
+      remoteFirst: options.remoteFirst,
+      onLog,
+    });
+    onLog(`Using isolated workspace: ${workspacePath}`);
+    onLog("Local repository changes are left untouched.");
+    await hooks.onWorkspaceReady?.(workspacePath);
+
+    let baselineFailed = false;
+    let baselineOutput = "";
+    if (runTests) {
+      onProgress("Installing baseline dependencies...");
+      try {
+        await installDependenciesForValidation(workspacePath, onLog, validationCommands);
+      } catch (error) {
+        return fail(`Baseline dependency install failed: ${formatError(error, "Install failed")}`);
+      }
+
+      onProgress("Running pre-update validation...");
+      const baseline = await runValidationSteps(validationCommands, workspacePath, onLog, onWarning, {
+        timeoutMs,
+        stageLabel: "Pre-update validation",
+      });
+      validationOutput.push(baseline.output);
+      if (!baseline.success) {
+        const environmentIssue = detectValidationEnvironmentIssue(baseline.output);
+        if (environmentIssue) {
+          return fail(`Baseline validation could not run due to repository/tooling setup: ${environmentIssue}. Bridge stopped before applying updates.`, {
+            testsPassed: false,
+            testOutput: baseline.output,
+          });
+        }
+        baselineFailed = true;
+        baselineOutput = baseline.output;
+        const summary = extractFailureSummary(baseline.output) || "unknown failure";
+        onWarning({
+          message: `Baseline validation failed at ${baseline.failedCommand || "unknown step"} (${summary}). Updates must not introduce new failures.`,
+          output: "",
+        });
+      }
+      if (baseline.attemptedCount > 0 && baseline.attemptedCount === baseline.skippedMissingCount) {
+        return fail("Pre-update validation skipped every command. Ensure required test tools are installed in the repository.");
+      }
+      if (!baselineFailed) {
+        onLog(`✓ Pre-update validation passed (${baseline.executedCount} checks)`);
+      }
+    }
+
+    onProgress("Applying dependency updates...");
+    const packageManager = await detectNodePackageManager(workspacePath);
+    const managerCommand = await resolvePackageManagerCommand(workspacePath, packageManager);
+    if (updateScript) {
+      onLog(`Detected package manager: ${packageManager} (${managerCommand}).`);
+      const updateSequence = getCleanUpdateSequenceCommand(packageManager, managerCommand);
+      onLog(`> ${updateSequence}`);
+      try {
+        const { stdout, stderr } = await runCommand(updateSequence, workspacePath, INSTALL_COMMAND_OPTIONS);
+        splitOutputLines(`${stdout}${stderr}`).forEach(line => onLog(line));
+      } catch (error) {
+        splitOutputLines(commandErrorOutput(error)).forEach(line => onLog(line));
+        return fail("Update script failed. Check the package manager output.");
+      }
+      const expectedNames = updateScript.expected.map(target => target.name);
+      updatedPackages = hooks.resolveScriptUpdates
+        ? (await hooks.resolveScriptUpdates(workspacePath)).filter(name => expectedNames.includes(name))
+        : expectedNames;
+    }
+
+    if (packages.length > 0) {
+      const batchFailure = await installPinnedTargets(workspacePath, packageManager, managerCommand, packages, onLog);
+      if (!batchFailure) {
+        updatedPackages.push(...packages.map(pkg => pkg.name).filter(name => !updatedPackages.includes(name)));
+      } else {
+        // One bad release should not hold back the rest, so retry the targets one at a time.
+        onWarning({ message: `Batch install failed at '${batchFailure.command}'; installing packages one at a time.`, output: "" });
+        for (const pkg of packages) {
+          if (await installPinnedTargets(workspacePath, packageManager, managerCommand, [pkg], onLog)) {
+            failedPackages.push(pkg.name);
+          } else if (!updatedPackages.includes(pkg.name)) {
+            updatedPackages.push(pkg.name);
+          }
+        }
+      }
+    }
+
+    onProgress("Evaluating changes...");
+    if (!(await hasGitChanges(workspacePath)) || (!updateScript && updatedPackages.length === 0)) {
+      onLog("Likely causes: the lockfile is already at the newest allowed versions, or every install failed.");
+      return fail("No dependency changes were produced by the update process.");
+    }
+    let lockfileDiff = await analyzeLockfileChanges(workspacePath, repoPath, onLog, onWarning);
+
+    if (runTests) {
+      onProgress("Running post-update validation...");
+      const post = await runValidationSteps(validationCommands, workspacePath, onLog, onWarning, {
+        timeoutMs,
+        stageLabel: "Post-update validation",
+      });
+      validationOutput.push(post.output);
+      validationChecks = post.attemptedCount - post.skippedMissingCount;
+      if (post.attemptedCount > 0 && post.attemptedCount === post.skippedMissingCount) {
+        return fail("Post-update validation skipped every command. Aborting to avoid unverified updates.", {
+          testsPassed: false,
+          testOutput: post.output,
+        });
+      }
+
+      let postFailure: string | null = null;
+      if (!post.success) {
+        const summary = extractFailureSummary(post.output);
+        const regression = baselineFailed ? isValidationRegression(baselineOutput, post.output) : { regressed: true };
+        if (!baselineFailed) {
+          postFailure = `Post-update validation failed at ${post.failedCommand || "unknown step"}${summary ? ` (${summary})` : ""}.`;
+        } else if (regression.regressed) {
+          postFailure = `Post-update validation regressed (${regression.reason || "new failures detected"})${summary ? ` (${summary})` : ""}.`;
+        } else {
+          onWarning({
+            message: "Post-update validation still failing, but no regression detected versus baseline. Proceeding with commit.",
+            output: "",
+          });
+        }
+      }
+
+      if (postFailure && (!options.bisectOnFailure || updatedPackages.length === 0)) {
+        return fail(`${postFailure} No commit was created.`, {
+          testsPassed: false,
+          testOutput: post.output,
+        });
+      }
+      if (postFailure) {
+        onProgress("Bisecting failing updates...");
+        onLog(`${postFailure} Bisecting ${updatedPackages.length} updated package(s) to find the culprits...`);
+        const targets = new Map([...(updateScript?.expected || []), ...packages].map(target => [target.name, target]));
+        const bisectionOrder = [
+          ...updatedPackages.filter(name => priorityPackages.includes(name)),
+          ...updatedPackages.filter(name => !priorityPackages.includes(name)),
+        ];
+        const bisection = await bisectFailingUpdates(
+          bisectionOrder,
+          { output: post.output, failedCommand: post.failedCommand },
+          async subset => {
+            await resetIsolatedWorkspace(workspacePath);
+            const subsetTargets = subset.map(name => targets.get(name) ?? { name, version: "latest" });
+            const installFailure = await installPinnedTargets(workspacePath, packageManager, managerCommand, subsetTargets, onLog);
+            if (installFailure) {
+              return { passed: false, output: installFailure.output, failedCommand: installFailure.command };
+            }
+            const trial = await runValidationSteps(validationCommands, workspacePath, onLog, onWarning, {
+              timeoutMs,
+              stageLabel: "Bisection validation",
+            });
+            const passed = trial.executedCount > 0 && (
+              trial.success ||
+              (baselineFailed && !isValidationRegression(baselineOutput, trial.output).regressed)
+            );
+            return { passed, output: trial.output, failedCommand: trial.failedCommand };
+          },
+          onLog,
+        );
+        culprits.push(...bisection.culprits);
+        failedPackages.push(...culprits.map(culprit => culprit.name).filter(name => !failedPackages.includes(name)));
+        onLog(`Culprits: ${culprits.map(culprit => culprit.name).join(", ")}`);
+
+        if (!bisection.verified) {
+          return fail(`${postFailure} Bisection could not verify a passing subset of packages. No commit was created.`, {
+            testsPassed: false,
+            testOutput: post.output,
+          });
+        }
+
+        updatedPackages = bisection.passing;
+        validationOutput.push(bisection.output);
+        onLog(`✓ Validation passes without the culprits; continuing with ${updatedPackages.length} package(s).`);
+        lockfileDiff = await analyzeLockfileChanges(workspacePath, repoPath, onLog, onWarning);
+      } else if (post.success) {
+        onLog(`✓ Post-update validation passed (${post.executedCount} checks)`);
+      }
+    }
+
+    onProgress("Committing changes...");
+    const title = options.commitTitle || `chore(deps): update ${updatedPackages.length} dependencies`;
+    const updatedList = updatedPackages.map(name => `- ${name}`).join("\n") || "- lockfile/package graph changes";
+    const heldBack = culprits.length > 0 ? `\n\nHeld back after failing validation:\n${formatHeldBackPackages(culprits)}` : "";
+    await commitWorkspaceChanges(
+      workspacePath,
+      `${title}\n\nUpdated packages:\n${updatedList}${heldBack}`,
+      ["package.json", getManagerLockfile(packageManager)],
+    );
+    committed = true;
+    onLog(`✓ Changes committed on '${branchName}'`);
+
+    const testsPassed = runTests ? !baselineFailed : undefined;
+    let publication: IsolatedUpdatePublication = {};
+    let publicationError: unknown = null;
+    try {
+      publication = hooks.afterCommit
+        ? await hooks.afterCommit({
+          workspacePath,
+          branchName,
+          updatedPackages,
+          culprits,
+          lockfileDiff,
+          testsPassed,
+          markPushed: () => {
+            branchPushed = true;
+          },
+        })
+        : {};
+    } catch (error) {
+      if (!branchPushed) throw error;
+      publicationError = error;
+    }
+    branchPushed = branchPushed || Boolean(publication.branchPushed);
+
+    await appendBridgeUpdateLog(repoPath, {
+      timestamp: new Date().toISOString(),
+      workflow: options.workflow,
+      branchName,
+      updatedPackages,
+      failedPackages: failedPackages.length > 0 ? failedPackages : undefined,
+      createPR: publication.prUrl !== undefined,
+      prUrl: publication.prUrl,
+      testsPassed,
+      gatesPassed: publication.gatesPassed,
+      culprits: culprits.length > 0 ? culprits.map(culprit => culprit.name) : undefined,
+      group: options.group,
+      lockfileDiff: lockfileDiff ?? undefined,
+    });
+
+    if (publicationError) {
+      return fail(`Branch '${branchName}' was pushed, but publishing failed: ${formatError(publicationError, "unknown error")}`, {
+        committed,
+        branchPushed,
+        updatedPackages,
+        testsPassed,
+        lockfileDiff: lockfileDiff ?? undefined,
+      });
+    }
+
+    return {
+      success: true,
+      branchName,
+      committed,
+      branchPushed,
+      prUrl: publication.prUrl,
+      updatedPackages,
+      failedPackages,
+      culprits,
+      testsPassed,
+      testOutput: validationOutput.filter(Boolean).join("\n\n"),
+      validationChecks,
+      lockfileDiff: lockfileDiff ?? undefined,
+    };
+  } catch (error) {
+    return fail(formatError(error, "Dependency update failed."), { committed, branchPushed });
+  } finally {
+    if (workspacePath) {
+      await cleanupIsolatedWorkspace(repoPath, workspacePath, branchName, { deleteBranch: !committed || branchPushed });
+    }
+  }
+}
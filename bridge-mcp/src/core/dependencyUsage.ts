@@ -0,0 +1,254 @@
+import fs from "node:fs/promises";
+import { builtinModules } from "node:module";
+import path from "node:path";
+import { packageName, type ImportGraph, type ImportKind } from "./importGraph.js";
+
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"] as const;
+// Peers are supplied by the consumer and optional packages may be missing, so neither is flagged as unused.
+const CHECKED_FIELDS = new Set<string>(["dependencies", "devDependencies"]);
+const CONFIG_FILE = /^(?:\.[\w.-]*rc(?:\.json|\.ya?ml|\.[cm]?[jt]s)?|[\w.-]+\.config\.(?:json|ya?ml|[cm]?[jt]s)|[jt]sconfig[\w.-]*\.json)$/i;
+const NODE_BUILTINS = new Set(builtinModules);
+const NPM_PACKAGE_NAME = /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/;
+
+export type DependencyField = (typeof DEPENDENCY_FIELDS)[number];
+
+export interface DependencyImportSite {
+  file: string;
+  line: number;
+  specifier: string;
+  kind: ImportKind;
+  names: string[];
+}
+
+export interface DependencyUsage {
+  name: string;
+  manifest: string;
+  field: DependencyField;
+  sites: DependencyImportSite[];
+  files: string[];
+  symbols: string[];
+  implicitUse?: "script" | "config" | "types";
+  unused: boolean;
+}
+
+export interface UndeclaredDependency {
+  name: string;
+  manifest: string;
+  sites: DependencyImportSite[];
+  files: string[];
+}
+
+export interface DependencyUsageReport {
+  dependencies: DependencyUsage[];
+  undeclared: UndeclaredDependency[];
+}
+
+interface Manifest {
+  dir: string;
+  json: Record<string, unknown>;
+  declared: Map<string, DependencyField>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+async function readManifest(root: string, dir: string): Promise<Manifest | null> {
+  try {
+    const json = JSON.parse(await fs.readFile(path.join(root, dir, "package.json"), "utf8")) as unknown;
+    if (!isRecord(json)) return null;
+    const declared = new Map<string, DependencyField>();
+    for (const field of DEPENDENCY_FIELDS) {
+      const deps = json[field];
+      if (isRecord(deps)) {
+        Object.keys(deps).forEach((name) => {
+          if (!declared.has(name)) declared.set(name, field);
+        });
+      }
+    }
+    return { dir, json, declared };
+  } catch {
+    return null;
+  }
+}
+
+function typesPackageName(name: string): string {
+  return `@types/${name.startsWith("@") ? name.slice(1).replace("/", "__") : name}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// ESLint resolves plugins and shareable configs from short names: `plugin:react/...` or `"prettier"`.
+function eslintShortNames(name: string): string[] {
+  const match = /^(?:(@[^/]+)\/)?eslint-(plugin|config)(?:-(.+))?$/.exec(name);
+  if (!match) return [];
+  const [, scope, kind, rest] = match;
+  const short = scope ? (rest ? `${scope}/${rest}` : scope) : rest;
+  if (!short) return [];
+  return kind === "plugin" ? [`plugin:${short}/`, `"${short}"`, `'${short}'`] : [`"${short}"`, `'${short}'`];
+}
+
+async function binNames(root: string, manifest: Manifest, name: string): Promise<string[]> {
+  for (const dir of [manifest.dir, ""]) {
+    try {
+      const json = JSON.parse(await fs.readFile(path.join(root, dir, "node_modules", name, "package.json"), "utf8")) as unknown;
+      if (!isRecord(json)) continue;
+      if (typeof json.bin === "string") return [name.split("/").pop() as string];
+      return isRecord(json.bin) ? Object.keys(json.bin) : [];
+    } catch {
+      // Not installed here; try the root node_modules.
+    }
+  }
+  return [];
+}
+
+function scriptTokens(manifest: Manifest): Set<string> {
+  const scripts = isRecord(manifest.json.scripts) ? Object.values(manifest.json.scripts).map(String) : [];
+  const tokens = new Set<string>();
+  scripts
+    .join("\n")
+    .split(/[\s;&|()<>'"`=]+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      const bare = token.replace(/(?!^)@[^/]*$/, "");
+      tokens.add(bare);
+      tokens.add(bare.split("/").pop() as string);
+    });
+  return tokens;
+}
+
+async function configText(root: string, manifest: Manifest): Promise<{ all: string; eslint: string }> {
+  const rest = { ...manifest.json };
+  ["scripts", ...DEPENDENCY_FIELDS].forEach((field) => delete rest[field]);
+  const chunks = [{ file: "package.json", text: JSON.stringify(rest) }];
+  const entries = await fs.readdir(path.join(root, manifest.dir), { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (entry.isFile() && CONFIG_FILE.test(entry.name)) {
+      chunks.push({ file: entry.name, text: await fs.readFile(path.join(root, manifest.dir, entry.name), "utf8").catch(() => "") });
+    }
+  }
+  return {
+    all: chunks.map((chunk) => chunk.text).join("\n"),
+    eslint: chunks
+      .filter((chunk) => chunk.file === "package.json" || chunk.file.includes("eslint"))
+      .map((chunk) => chunk.text)
+      .join("\n"),
+  };
+}
+
+function uniqueSorted(values: string[]): string[] {
+  return Array.from(new Set(values)).sort();
+}
+
+export async function analyzeDependencyUsage(repoPath: string, graph: ImportGraph): Promise<DependencyUsageReport> {
+  const root = path.resolve(repoPath);
+  const manifestsByDir = new Map<string, Manifest | null>();
+  const loadManifest = async (dir: string): Promise<Manifest | null> => {
+    if (!manifestsByDir.has(dir)) manifestsByDir.set(dir, await readManifest(root, dir));
+    return manifestsByDir.get(dir) ?? null;
+  };
+
+  const chains = new Map<string, Manifest[]>();
+  const manifestChain = async (file: string): Promise<Manifest[]> => {
+    const start = path.posix.dirname(file) === "." ? "" : path.posix.dirname(file);
+    if (chains.has(start)) return chains.get(start)!;
+    const chain: Manifest[] = [];
+    for (let dir = start; ; dir = path.posix.dirname(dir) === "." ? "" : path.posix.dirname(dir)) {
+      const manifest = await loadManifest(dir);
+      if (manifest) chain.push(manifest);
+      if (dir === "") break;
+    }
+    chains.set(start, chain);
+    return chain;
+  };
+
+  await loadManifest("");
+  for (const module of graph.modules) {
+    await manifestChain(module.id);
+  }
+
+  const usedSites = new Map<string, DependencyImportSite[]>();
+  const undeclaredSites = new Map<string, DependencyImportSite[]>();
+  const key = (dir: string, name: string) => `${dir}\0${name}`;
+  const push = (target: Map<string, DependencyImportSite[]>, id: string, site: DependencyImportSite) => {
+    const sites = target.get(id) || [];
+    sites.push(site);
+    target.set(id, sites);
+  };
+
+  for (const entry of graph.externals) {
+    if (/^[a-z]+:/i.test(entry.specifier)) continue;
+    const name = packageName(entry.specifier);
+    const chain = await manifestChain(entry.from);
+    const site: DependencyImportSite = {
+      file: entry.from,
+      line: entry.line,
+      specifier: entry.specifier,
+      kind: entry.kind,
+      names: entry.names,
+    };
+    const declaring = chain.find((manifest) => manifest.declared.has(name));
+    if (declaring) {
+      push(usedSites, key(declaring.dir, name), site);
+      continue;
+    }
+    const typesName = typesPackageName(name);
+    const typesDeclaring = entry.kind === "type" ? chain.find((manifest) => manifest.declared.has(typesName)) : undefined;
+    if (typesDeclaring) {
+      push(usedSites, key(typesDeclaring.dir, typesName), site);
+      continue;
+    }
+    if (NODE_BUILTINS.has(name) || !NPM_PACKAGE_NAME.test(name) || chain.some((manifest) => manifest.json.name === name)) {
+      continue;
+    }
+    push(undeclaredSites, key(chain[0]?.dir ?? "", name), site);
+  }
+
+  const dependencies: DependencyUsage[] = [];
+  const manifests = Array.from(manifestsByDir.values()).filter((manifest): manifest is Manifest => Boolean(manifest));
+  for (const manifest of manifests) {
+    const tokens = scriptTokens(manifest);
+    let config: { all: string; eslint: string } | null = null;
+    for (const [name, field] of Array.from(manifest.declared.entries())) {
+      const sites = (usedSites.get(key(manifest.dir, name)) || [])
+        .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+      let implicitUse: DependencyUsage["implicitUse"];
+      if (sites.length === 0) {
+        if (name.startsWith("@types/")) {
+          implicitUse = "types";
+        } else if (tokens.has(name) || (await binNames(root, manifest, name)).some((bin) => tokens.has(bin))) {
+          implicitUse = "script";
+        } else {
+          config = config ?? (await configText(root, manifest));
+          const named = new RegExp(`(^|[^\\w@/.-])${escapeRegExp(name)}(?=$|[^\\w.-])`).test(config.all);
+          const eslintConfig = config.eslint;
+          if (named || eslintShortNames(name).some((short) => eslintConfig.includes(short))) {
+            implicitUse = "config";
+          }
+        }
+      }
+      dependencies.push({
+        name,
+        manifest: manifest.dir,
+        field,
+        sites,
+        files: uniqueSorted(sites.map((site) => site.file)),
+        symbols: uniqueSorted(sites.flatMap((site) => site.names)),
+        implicitUse,
+        unused: sites.length === 0 && !implicitUse && CHECKED_FIELDS.has(field),
+      });
+    }
+  }
+
+  const undeclared: UndeclaredDependency[] = Array.from(undeclaredSites.entries()).map(([id, sites]) => {
+    const [manifest, name] = id.split("\0");
+    sites.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+    return { name, manifest, sites, files: uniqueSorted(sites.map((site) => site.file)) };
+  });
+
+  const byLocation = (a: { manifest: string; name: string }, b: { manifest: string; name: string }) =>
+    a.manifest.localeCompare(b.manifest) || a.name.localeCompare(b.name);
+  return { dependencies: dependencies.sort(byLocation), undeclared: undeclared.sort(byLocation) };
+}
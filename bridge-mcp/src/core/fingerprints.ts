@@ -0,0 +1,49 @@
+function normalizePath(value: string): string {
+  return value.replace(/\\/g, "/").replace(/^\.\//, "").trim();
+}
+
+export function cycleFingerprint(cycle: string[]): string {
+  const modules = cycle.map(normalizePath).filter(Boolean);
+  if (modules.length > 1 && modules[0] === modules[modules.length - 1]) {
+    modules.pop();
+  }
+  if (modules.length === 0) {
+    return "";
+  }
+
+  let start = 0;
+  for (let index = 1; index < modules.length; index += 1) {
+    if (modules[index] < modules[start]) {
+      start = index;
+    }
+  }
+
+  return [...modules.slice(start), ...modules.slice(0, start)].join(" -> ");
+}
+
+export function deadFileFingerprint(file: string): string {
+  return normalizePath(file);
+}
+
+export function unusedExportFingerprint(file: string, exportName: string): string {
+  return `${normalizePath(file)}#${exportName}`;
+}
+
+export function architectureViolationFingerprint(violation: { rule: string; from: string; to: string }): string {
+  return `${violation.rule}: ${normalizePath(violation.from)} -> ${violation.to}`;
+}
+
+export function securityFindingFingerprint(finding: {
+  file: string;
+  severity: string;
+  category: string;
+  title: string;
+  snippet?: string;
+}): string {
+  const snippet = (finding.snippet || "").replace(/\s+/g, " ").trim().slice(0, 200);
+  return [finding.severity, normalizePath(finding.file), finding.category, finding.title, snippet].join("|");
+}
+
+export function severityFromSecurityFingerprint(fingerprint: string): string {
+  return fingerprint.split("|", 1)[0] || "unknown";
+}
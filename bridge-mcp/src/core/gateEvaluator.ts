@@ -1,5 +1,10 @@
+import type { BaselineComparison } from "./baseline.js";
 import type { BridgeConfig } from "./bridgeConfig.js";
+import { overdueDependencies } from "./dependencyFreshness.js";
+import { severityFromSecurityFingerprint } from "./fingerprints.js";
+import { describeRequiredPackageIssue, findRequiredPackageIssues, getRequiredPackages, requiredPackageSpec } from "./requiredPackages.js";
 import type { RepoAnalysis } from "./repoAnalyzer.js";
+import { countByReachability, describeReachabilityCounts, productionVulnerabilityCount } from "./vulnerabilityReachability.js";
 
 export interface GateResult {
   name: string;
@@ -9,61 +14,130 @@ export interface GateResult {
   details?: Record<string, unknown>;
 }
 
+function notMeasured(name: string, message: string, details: Record<string, unknown>): GateResult {
+  return {
+    name,
+    passed: true,
+    message,
+    severity: "info",
+    details: { ...details, evaluated: false },
+  };
+}
+
+const MAX_LISTED_NEW_FINDINGS = 20;
+
+function newSinceBaseline(
+  name: string,
+  label: string,
+  total: number,
+  newItems: string[],
+  baseline: BaselineComparison,
+  details: Record<string, unknown>,
+): GateResult {
+  const passed = newItems.length === 0;
+  return {
+    name,
+    passed,
+    message: passed
+      ? `${total} ${label} - none new since ${baseline.branch} baseline (failOnNew=true).`
+      : `${newItems.length} new ${label} since ${baseline.branch} baseline (${total} total, failOnNew=true).`,
+    severity: passed ? "info" : "error",
+    details: {
+      ...details,
+      failOnNew: true,
+      newCount: newItems.length,
+      newItems: newItems.slice(0, MAX_LISTED_NEW_FINDINGS),
+      baselineBranch: baseline.branch,
+      baselineGeneratedAt: baseline.generatedAt,
+    },
+  };
+}
+
 export function evaluateGates(config: BridgeConfig, analysis: RepoAnalysis): GateResult[] {
   const results: GateResult[] = [];
 
-  const critical = analysis.vulnerabilities.critical;
-  const high = analysis.vulnerabilities.high;
+  // With reachability data only findings app code can load (or that could not be classified) block;
+  // dev-only and unused transitive findings are listed in the details.
+  const reachability = analysis.vulnerabilityReachability ?? null;
+  const securityGate = (
+    name: string,
+    severity: "critical" | "high",
+    policyKey: "blockOnCritical" | "blockOnHigh",
+  ): GateResult => {
+    const policy = `policy: ${policyKey}=${config.dependencies.securityPolicy[policyKey]}`;
+    const total = analysis.vulnerabilities[severity];
+    if (!reachability) {
+      return {
+        name,
+        passed: total === 0,
+        message: total === 0
+          ? `No ${severity} vulnerabilities detected (${policy}).`
+          : `${total} ${severity} vulnerabilities found (${policy}).`,
+        severity: total === 0 ? "info" : "error",
+        details: { [severity]: total, [policyKey]: config.dependencies.securityPolicy[policyKey] },
+      };
+    }
 
-  if (config.dependencies.securityPolicy.blockOnCritical) {
-    results.push({
-      name: "security-critical",
-      passed: critical === 0,
-      message:
-        critical === 0
-          ? `No critical vulnerabilities detected (policy: blockOnCritical=${config.dependencies.securityPolicy.blockOnCritical}).`
-          : `${critical} critical vulnerabilities found (policy: blockOnCritical=${config.dependencies.securityPolicy.blockOnCritical}).`,
-      severity: critical === 0 ? "info" : "error",
+    const counts = countByReachability(reachability, severity);
+    const blocking = productionVulnerabilityCount(reachability, severity);
+    const breakdown = total > 0 ? ` (${describeReachabilityCounts(counts)})` : "";
+    return {
+      name,
+      passed: blocking === 0,
+      message: blocking === 0
+        ? `No ${severity} vulnerabilities reachable from app code; ${total} total${breakdown} (${policy}).`
+        : `${blocking} ${severity} vulnerabilities reachable from app code; ${total} total${breakdown} (${policy}).`,
+      severity: blocking === 0 ? "info" : "error",
       details: {
-        critical,
-        blockOnCritical: config.dependencies.securityPolicy.blockOnCritical,
+        [severity]: total,
+        reachable: counts.reachable,
+        devOnly: counts["dev-only"],
+        transitiveUnused: counts["transitive-unused"],
+        unclassified: counts.unknown,
+        chains: reachability.findings
+          .filter((finding) => finding.severity === severity && finding.chain.length > 0)
+          .map((finding) => `${finding.name} [${finding.reachability}]: ${finding.chain.join(" -> ")}`),
+        [policyKey]: config.dependencies.securityPolicy[policyKey],
       },
-    });
+    };
+  };
+
+  if (config.dependencies.securityPolicy.blockOnCritical) {
+    results.push(securityGate("security-critical", "critical", "blockOnCritical"));
   }
 
   if (config.dependencies.securityPolicy.blockOnHigh) {
+    results.push(securityGate("security-high", "high", "blockOnHigh"));
+  }
+
+  const baseline = analysis.baseline ?? null;
+  const allowedCircular = config.gates.circularDependencies.maxAllowed;
+  const failOnNewCircular = config.gates.circularDependencies.failOnNew;
+  const newCycles = baseline?.newFindings.circularDependencies;
+  if (failOnNewCircular && baseline && newCycles) {
+    results.push(
+      newSinceBaseline("circular-deps", "circular dependencies", analysis.circularDeps, newCycles, baseline, {
+        circularDeps: analysis.circularDeps,
+        maxAllowed: allowedCircular,
+      }),
+    );
+  } else {
     results.push({
-      name: "security-high",
-      passed: high === 0,
+      name: "circular-deps",
+      passed: analysis.circularDeps <= allowedCircular,
       message:
-        high === 0
-          ? `No high vulnerabilities detected (policy: blockOnHigh=${config.dependencies.securityPolicy.blockOnHigh}).`
-          : `${high} high vulnerabilities found (policy: blockOnHigh=${config.dependencies.securityPolicy.blockOnHigh}).`,
-      severity: high === 0 ? "info" : "error",
+        analysis.circularDeps <= allowedCircular
+          ? `${analysis.circularDeps} circular dependencies - within policy limit of ${allowedCircular} (failOnNew=${failOnNewCircular}).`
+          : `${analysis.circularDeps} circular dependencies - exceeds policy limit of ${allowedCircular} (failOnNew=${failOnNewCircular}).`,
+      severity: analysis.circularDeps <= allowedCircular ? "info" : failOnNewCircular ? "error" : "warning",
       details: {
-        high,
-        blockOnHigh: config.dependencies.securityPolicy.blockOnHigh,
+        circularDeps: analysis.circularDeps,
+        maxAllowed: allowedCircular,
+        failOnNew: failOnNewCircular,
       },
     });
   }
 
-  const allowedCircular = config.gates.circularDependencies.maxAllowed;
-  const failOnNewCircular = config.gates.circularDependencies.failOnNew;
-  results.push({
-    name: "circular-deps",
-    passed: analysis.circularDeps <= allowedCircular,
-    message:
-      analysis.circularDeps <= allowedCircular
-        ? `${analysis.circularDeps} circular dependencies - within policy limit of ${allowedCircular} (failOnNew=${failOnNewCircular}).`
-        : `${analysis.circularDeps} circular dependencies - exceeds policy limit of ${allowedCircular} (failOnNew=${failOnNewCircular}).`,
-    severity: analysis.circularDeps <= allowedCircular ? "info" : failOnNewCircular ? "error" : "warning",
-    details: {
-      circularDeps: analysis.circularDeps,
-      maxAllowed: allowedCircular,
-      failOnNew: failOnNewCircular,
-    },
-  });
-
   const installedPackages = new Set(
     [
       ...analysis.dependencyNames,
@@ -87,6 +161,78 @@ export function evaluateGates(config: BridgeConfig, analysis: RepoAnalysis): Gat
     },
   });
 
+  const required = getRequiredPackages(config);
+  if (required.length > 0) {
+    if (analysis.declaredDependencies) {
+      const issues = findRequiredPackageIssues(required, analysis.declaredDependencies);
+      results.push({
+        name: "required-packages",
+        passed: issues.length === 0,
+        message:
+          issues.length === 0
+            ? `All ${required.length} required packages are declared.`
+            : `Required packages not satisfied: ${issues.map(describeRequiredPackageIssue).join("; ")}.`,
+        severity: issues.length === 0 ? "info" : "error",
+        details: {
+          requiredConfigured: required.map(requiredPackageSpec),
+          missing: issues.filter((issue) => issue.problem === "missing").map(requiredPackageSpec),
+          mismatched: issues
+            .filter((issue) => issue.problem !== "missing")
+            .map((issue) => ({ name: issue.name, problem: issue.problem, declared: issue.declared, expected: issue.version ?? issue.type })),
+        },
+      });
+    } else {
+      const missing = required.filter((pkg) => !installedPackages.has(pkg.name.toLowerCase()));
+      results.push({
+        name: "required-packages",
+        passed: missing.length === 0,
+        message:
+          missing.length === 0
+            ? `All ${required.length} required packages are installed (versions not checked).`
+            : `Required packages missing: ${missing.map(requiredPackageSpec).join(", ")}.`,
+        severity: missing.length === 0 ? "info" : "error",
+        details: {
+          requiredConfigured: required.map(requiredPackageSpec),
+          missing: missing.map(requiredPackageSpec),
+          versionsChecked: false,
+        },
+      });
+    }
+  }
+
+  const maxAge = config.dependencies.maxAge;
+  if (maxAge) {
+    const freshness = analysis.dependencyFreshness;
+    const limits = `patch ${maxAge.patch}d, minor ${maxAge.minor}d, major ${maxAge.major}d`;
+    if (freshness) {
+      const overdue = overdueDependencies(freshness);
+      const passed = overdue.length === 0;
+      results.push({
+        name: "dependency-freshness",
+        passed,
+        message: passed
+          ? `No dependency has been behind newer releases for longer than maxAge (${limits}).`
+          : `${overdue.length} ${overdue.length === 1 ? "dependency has" : "dependencies have"} been behind newer releases for longer than maxAge (${limits}).`,
+        severity: passed ? "info" : "warning",
+        details: {
+          maxAge,
+          overdueCount: overdue.length,
+          overdue: overdue.slice(0, MAX_LISTED_NEW_FINDINGS).map((pkg) => ({
+            name: pkg.name,
+            current: pkg.current,
+            lags: pkg.lags
+              .filter((lag) => lag.overdue)
+              .map((lag) => `${lag.updateType} ${lag.firstVersion}: ${lag.daysBehind}d (max ${lag.maxAgeDays}d)`),
+          })),
+        },
+      });
+    } else {
+      results.push(
+        notMeasured("dependency-freshness", `Release dates not available; maxAge (${limits}) not evaluated.`, { maxAge }),
+      );
+    }
+  }
+
   if (config.gates.tests.required) {
     const passed = Boolean(analysis.testCommand);
     results.push({
@@ -117,5 +263,294 @@ export function evaluateGates(config: BridgeConfig, analysis: RepoAnalysis): Gat
     });
   }
 
+  if (config.gates.build.required) {
+    const buildCommand = config.gates.build.command || analysis.buildCommand || null;
+    const passed = Boolean(buildCommand);
+    results.push({
+      name: "build-configured",
+      passed,
+      message: passed
+        ? `Build command configured: ${buildCommand} (configuration check; the build is not run).`
+        : `No build command configured while build gate is required (required=${config.gates.build.required}).`,
+      severity: passed ? "info" : "warning",
+      details: {
+        required: config.gates.build.required,
+        configuredCommand: buildCommand,
+      },
+    });
+  }
+
+  const minCoverage = config.gates.tests.minCoverage;
+  if (typeof minCoverage === "number") {
+    const coverage = analysis.coveragePercentage;
+    if (typeof coverage === "number") {
+      const passed = coverage >= minCoverage;
+      results.push({
+        name: "test-coverage",
+        passed,
+        message: passed
+          ? `Line coverage ${coverage.toFixed(1)}% meets minimum of ${minCoverage}%.`
+          : `Line coverage ${coverage.toFixed(1)}% is below minimum of ${minCoverage}%.`,
+        severity: passed ? "info" : "error",
+        details: { coverage, minCoverage },
+      });
+    } else {
+      results.push(
+        notMeasured("test-coverage", `Coverage not measured; minimum of ${minCoverage}% not evaluated.`, { minCoverage }),
+      );
+    }
+  }
+
+  const bundleGate = config.gates.bundleSize;
+  if (typeof bundleGate?.maxBytes === "number") {
+    const maxBytes = bundleGate.maxBytes;
+    const totalBytes = analysis.bundle?.totalBytes;
+    if (typeof totalBytes === "number" && totalBytes > 0) {
+      const passed = totalBytes <= maxBytes;
+      results.push({
+        name: "bundle-size",
+        passed,
+        message: passed
+          ? `Bundle size ${totalBytes} bytes - within limit of ${maxBytes} bytes.`
+          : `Bundle size ${totalBytes} bytes - exceeds limit of ${maxBytes} bytes.`,
+        severity: passed ? "info" : "error",
+        details: { totalBytes, maxBytes },
+      });
+    } else {
+      results.push(notMeasured("bundle-size", `Bundle size not measured; limit of ${maxBytes} bytes not evaluated.`, { maxBytes }));
+    }
+  }
+
+  if (typeof bundleGate?.maxDeltaPercent === "number") {
+    const maxDeltaPercent = bundleGate.maxDeltaPercent;
+    const deltaPercent = analysis.bundle?.deltaPercent;
+    if (typeof deltaPercent === "number") {
+      const passed = deltaPercent <= maxDeltaPercent;
+      results.push({
+        name: "bundle-size-delta",
+        passed,
+        message: passed
+          ? `Bundle size changed ${deltaPercent.toFixed(1)}% - within limit of ${maxDeltaPercent}%.`
+          : `Bundle size grew ${deltaPercent.toFixed(1)}% - exceeds limit of ${maxDeltaPercent}%.`,
+        severity: passed ? "info" : "error",
+        details: { deltaPercent, maxDeltaPercent },
+      });
+    } else {
+      results.push(
+        notMeasured(
+          "bundle-size-delta",
+          `No previous bundle measurement; growth limit of ${maxDeltaPercent}% not evaluated.`,
+          { maxDeltaPercent },
+        ),
+      );
+    }
+  }
+
+  const deadCodeGate = config.gates.deadCode;
+  if (analysis.deadCode) {
+    const { deadFiles, unusedExports } = analysis.deadCode;
+    const newDeadFiles = baseline?.newFindings.deadFiles;
+    const newUnusedExports = baseline?.newFindings.unusedExports;
+
+    if (deadCodeGate.failOnNew && baseline && newDeadFiles) {
+      results.push(
+        newSinceBaseline("dead-files", "dead files", deadFiles, newDeadFiles, baseline, {
+          deadFiles,
+          maxDeadFiles: deadCodeGate.maxDeadFiles,
+        }),
+      );
+    } else {
+      const deadFilesPassed = deadFiles <= deadCodeGate.maxDeadFiles;
+      results.push({
+        name: "dead-files",
+        passed: deadFilesPassed,
+        message: deadFilesPassed
+          ? `${deadFiles} dead files - within policy limit of ${deadCodeGate.maxDeadFiles} (failOnNew=${deadCodeGate.failOnNew}).`
+          : `${deadFiles} dead files - exceeds policy limit of ${deadCodeGate.maxDeadFiles} (failOnNew=${deadCodeGate.failOnNew}).`,
+        severity: deadFilesPassed ? "info" : deadCodeGate.failOnNew ? "error" : "warning",
+        details: { deadFiles, maxDeadFiles: deadCodeGate.maxDeadFiles, failOnNew: deadCodeGate.failOnNew },
+      });
+    }
+
+    if (deadCodeGate.failOnNew && baseline && newUnusedExports) {
+      results.push(
+        newSinceBaseline("unused-exports", "unused exports", unusedExports, newUnusedExports, baseline, {
+          unusedExports,
+          maxUnusedExports: deadCodeGate.maxUnusedExports,
+        }),
+      );
+    } else {
+      const unusedExportsPassed = unusedExports <= deadCodeGate.maxUnusedExports;
+      results.push({
+        name: "unused-exports",
+        passed: unusedExportsPassed,
+        message: unusedExportsPassed
+          ? `${unusedExports} unused exports - within policy limit of ${deadCodeGate.maxUnusedExports} (failOnNew=${deadCodeGate.failOnNew}).`
+          : `${unusedExports} unused exports - exceeds policy limit of ${deadCodeGate.maxUnusedExports} (failOnNew=${deadCodeGate.failOnNew}).`,
+        severity: unusedExportsPassed ? "info" : deadCodeGate.failOnNew ? "error" : "warning",
+        details: {
+          unusedExports,
+          maxUnusedExports: deadCodeGate.maxUnusedExports,
+          failOnNew: deadCodeGate.failOnNew,
+        },
+      });
+    }
+  } else {
+    results.push(
+      notMeasured("dead-files", "Dead code not measured; dead file limit not evaluated.", {
+        maxDeadFiles: deadCodeGate.maxDeadFiles,
+      }),
+      notMeasured("unused-exports", "Dead code not measured; unused export limit not evaluated.", {
+        maxUnusedExports: deadCodeGate.maxUnusedExports,
+      }),
+    );
+  }
+
+  const architectureGate = config.gates.architecture;
+  const ruleCount = config.architecture.rules.length;
+  if (ruleCount > 0) {
+    const violations = analysis.architectureViolations;
+    if (violations) {
+      const errors = violations.filter((violation) => violation.severity === "error").length;
+      const warnings = violations.length - errors;
+      const newViolations = baseline?.newFindings.architectureViolations;
+      if (architectureGate.failOnNew && baseline && newViolations) {
+        results.push(
+          newSinceBaseline("architecture-rules", "architecture rule violations", errors, newViolations, baseline, {
+            violations: errors,
+            warnings,
+            maxViolations: architectureGate.maxViolations,
+          }),
+        );
+      } else {
+        const passed = errors <= architectureGate.maxViolations;
+        results.push({
+          name: "architecture-rules",
+          passed,
+          message: passed
+            ? `${errors} architecture rule violations (${warnings} warnings) - within policy limit of ${architectureGate.maxViolations}.`
+            : `${errors} architecture rule violations (${warnings} warnings) - exceeds policy limit of ${architectureGate.maxViolations}.`,
+          severity: passed ? (warnings > 0 ? "warning" : "info") : "error",
+          details: {
+            violations: errors,
+            warnings,
+            rules: ruleCount,
+            maxViolations: architectureGate.maxViolations,
+            failOnNew: architectureGate.failOnNew,
+          },
+        });
+      }
+    } else {
+      results.push(
+        notMeasured("architecture-rules", `Import graph unavailable; ${ruleCount} architecture rules not evaluated.`, {
+          rules: ruleCount,
+          maxViolations: architectureGate.maxViolations,
+        }),
+      );
+    }
+  }
+
+  const documentationGate = config.gates.documentation;
+  if (documentationGate.requireReadme) {
+    results.push({
+      name: "readme-exists",
+      passed: analysis.readmeExists,
+      message: analysis.readmeExists
+        ? "README detected."
+        : `No README found while documentation gate requires one (requireReadme=${documentationGate.requireReadme}).`,
+      severity: analysis.readmeExists ? "info" : "error",
+      details: { requireReadme: documentationGate.requireReadme },
+    });
+  }
+
+  if (documentationGate.requireChangelog) {
+    if (typeof analysis.hasChangelog === "boolean") {
+      results.push({
+        name: "changelog-exists",
+        passed: analysis.hasChangelog,
+        message: analysis.hasChangelog
+          ? "CHANGELOG detected."
+          : `No CHANGELOG found while documentation gate requires one (requireChangelog=${documentationGate.requireChangelog}).`,
+        severity: analysis.hasChangelog ? "info" : "error",
+        details: { requireChangelog: documentationGate.requireChangelog },
+      });
+    } else {
+      results.push(notMeasured("changelog-exists", "CHANGELOG presence not checked.", { requireChangelog: true }));
+    }
+  }
+
+  const maxReadmeAge = documentationGate.maxDaysSinceReadmeUpdate;
+  if (typeof maxReadmeAge === "number" && analysis.readmeExists) {
+    const readmeAge = analysis.readmeDaysSinceUpdate;
+    if (typeof readmeAge === "number") {
+      const days = Math.floor(readmeAge);
+      const passed = readmeAge <= maxReadmeAge;
+      results.push({
+        name: "readme-freshness",
+        passed,
+        message: passed
+          ? `README updated ${days} days ago - within limit of ${maxReadmeAge} days.`
+          : `README last updated ${days} days ago - exceeds limit of ${maxReadmeAge} days.`,
+        severity: passed ? "info" : "warning",
+        details: { daysSinceUpdate: days, maxDaysSinceReadmeUpdate: maxReadmeAge },
+      });
+    } else {
+      results.push(
+        notMeasured("readme-freshness", `README age not measured; limit of ${maxReadmeAge} days not evaluated.`, {
+          maxDaysSinceReadmeUpdate: maxReadmeAge,
+        }),
+      );
+    }
+  }
+
+  const newSecurityFindings = baseline?.newFindings.securityFindings;
+  if (baseline && newSecurityFindings) {
+    const failOnNewPatterns = config.gates.securityPatterns?.failOnNew ?? false;
+    const blocking = newSecurityFindings.filter((fingerprint) =>
+      ["critical", "high"].includes(severityFromSecurityFingerprint(fingerprint)),
+    );
+    const passed = newSecurityFindings.length === 0;
+    results.push({
+      name: "security-patterns-new",
+      passed,
+      message: passed
+        ? `No new security pattern findings since ${baseline.branch} baseline.`
+        : `${newSecurityFindings.length} new security pattern findings since ${baseline.branch} baseline (${blocking.length} critical/high, failOnNew=${failOnNewPatterns}).`,
+      severity: passed ? "info" : blocking.length > 0 || failOnNewPatterns ? "error" : "warning",
+      details: {
+        failOnNew: failOnNewPatterns,
+        newCount: newSecurityFindings.length,
+        newCriticalOrHigh: blocking.length,
+        newItems: newSecurityFindings.slice(0, MAX_LISTED_NEW_FINDINGS),
+        baselineBranch: baseline.branch,
+        baselineGeneratedAt: baseline.generatedAt,
+      },
+    });
+  }
+
+  const suppressions = analysis.suppressions ?? null;
+  if (suppressions && suppressions.entries.length > 0) {
+    const expired = suppressions.entries.filter((entry) => entry.expired);
+    results.push({
+      name: "suppressions-expired",
+      passed: expired.length === 0,
+      message:
+        expired.length === 0
+          ? `${suppressions.entries.length} suppressions active, hiding ${suppressions.suppressed} findings.`
+          : `${expired.length} suppressions expired: ${expired.map((entry) => `${entry.fingerprint} (${entry.expires})`).join(", ")}.`,
+      severity: expired.length === 0 ? "info" : "warning",
+      details: {
+        configured: suppressions.entries.length,
+        suppressed: suppressions.suppressed,
+        expired: expired.map((entry) => ({
+          fingerprint: entry.fingerprint,
+          reason: entry.reason,
+          owner: entry.owner ?? null,
+          expires: entry.expires,
+        })),
+      },
+    });
+  }
+
   return results;
 }
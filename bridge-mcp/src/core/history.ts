@@ -0,0 +1,263 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  LATEST_SCORE_FILE,
+  SCORE_HISTORY_FILE,
+  bridgeDir,
+  cachePath,
+  ensureBridgeDir,
+  readJsonFile,
+  statMtime,
+  writeJsonFile,
+} from "./cache.js";
+
+export const REPORTS_DIR_NAME = "reports";
+
+export const DIMENSION_KEYS = [
+  "dependencies",
+  "security",
+  "architecture",
+  "testing",
+  "documentation",
+  "codeHealth",
+] as const;
+
+export type ScoreDimensionKey = (typeof DIMENSION_KEYS)[number];
+
+export type TrendDirection = "improving" | "stable" | "declining" | "unknown";
+
+export interface ScoreSnapshot {
+  generatedAt: string;
+  total: number;
+  dimensions: Partial<Record<ScoreDimensionKey, number>>;
+  source: "report" | "cache";
+}
+
+export interface ScoreTrend {
+  direction: TrendDirection;
+  window: number;
+  threshold: number;
+  samples: number;
+  baseline: number | null;
+  delta: number | null;
+  previousTotal: number | null;
+  previousAt: string | null;
+  dimensionDeltas: Partial<Record<ScoreDimensionKey, number>>;
+}
+
+export interface ScoreTrendOptions {
+  window?: number;
+  threshold?: number;
+}
+
+export const DEFAULT_TREND_WINDOW = 5;
+export const DEFAULT_TREND_THRESHOLD = 2;
+
+const MAX_RECORDED_SNAPSHOTS = 100;
+
+interface ScoreLike {
+  total?: unknown;
+  generatedAt?: unknown;
+  dimensions?: Record<string, { score?: unknown } | undefined>;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function round(value: number, digits = 1): number {
+  return Number(value.toFixed(digits));
+}
+
+function toSnapshot(
+  score: ScoreLike | null | undefined,
+  generatedAt: string,
+  source: ScoreSnapshot["source"],
+): ScoreSnapshot | null {
+  if (!score || !isFiniteNumber(score.total)) {
+    return null;
+  }
+
+  const dimensions: ScoreSnapshot["dimensions"] = {};
+  for (const key of DIMENSION_KEYS) {
+    const value = score.dimensions?.[key]?.score;
+    if (isFiniteNumber(value)) {
+      dimensions[key] = value;
+    }
+  }
+
+  return { generatedAt, total: score.total, dimensions, source };
+}
+
+function archiveNameToIso(fileName: string): string | null {
+  // writeScanReportArtifacts replaces ":" with "-" in the ISO timestamp.
+  const match = fileName.match(/^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2}(?:\.\d+)?Z)\.json$/);
+  if (!match) {
+    return null;
+  }
+  const iso = `${match[1]}:${match[2]}:${match[3]}`;
+  return Number.isNaN(new Date(iso).getTime()) ? null : iso;
+}
+
+async function readArchivedSnapshots(repoPath: string, limit: number): Promise<ScoreSnapshot[]> {
+  const reportsDir = path.join(bridgeDir(repoPath), REPORTS_DIR_NAME);
+  let entries: string[];
+  try {
+    entries = await fs.readdir(reportsDir);
+  } catch {
+    return [];
+  }
+
+  const archives = entries
+    .map((name) => ({ name, iso: archiveNameToIso(name) }))
+    .filter((entry): entry is { name: string; iso: string } => Boolean(entry.iso))
+    .sort((a, b) => a.iso.localeCompare(b.iso))
+    .slice(-limit);
+
+  const snapshots: ScoreSnapshot[] = [];
+  for (const archive of archives) {
+    const report = await readJsonFile<{ generatedAt?: string; techDebt?: ScoreLike }>(
+      path.join(reportsDir, archive.name),
+    );
+    const generatedAt = typeof report?.generatedAt === "string" ? report.generatedAt : archive.iso;
+    const snapshot = toSnapshot(report?.techDebt, generatedAt, "report");
+    if (snapshot) {
+      snapshots.push(snapshot);
+    }
+  }
+
+  return snapshots;
+}
+
+async function readCachedSnapshot(repoPath: string): Promise<ScoreSnapshot | null> {
+  const scorePath = cachePath(repoPath, LATEST_SCORE_FILE);
+  const score = await readJsonFile<ScoreLike>(scorePath);
+  if (!score) {
+    return null;
+  }
+
+  let generatedAt = typeof score.generatedAt === "string" ? score.generatedAt : null;
+  if (!generatedAt) {
+    const mtimeMs = await statMtime(scorePath);
+    generatedAt = mtimeMs === null ? null : new Date(mtimeMs).toISOString();
+  }
+
+  return generatedAt ? toSnapshot(score, generatedAt, "cache") : null;
+}
+
+function isSameScan(a: ScoreSnapshot, b: ScoreSnapshot): boolean {
+  return new Date(a.generatedAt).getTime() === new Date(b.generatedAt).getTime();
+}
+
+async function readRecordedSnapshots(repoPath: string): Promise<ScoreSnapshot[]> {
+  const recorded = await readJsonFile<ScoreSnapshot[]>(cachePath(repoPath, SCORE_HISTORY_FILE));
+  if (!Array.isArray(recorded)) {
+    return [];
+  }
+
+  return recorded.filter(
+    (snapshot) => snapshot && typeof snapshot.generatedAt === "string" && isFiniteNumber(snapshot.total),
+  );
+}
+
+export async function recordScoreSnapshot(repoPath: string, score: ScoreLike, generatedAt: string): Promise<void> {
+  const snapshot = toSnapshot(score, generatedAt, "cache");
+  if (!snapshot) {
+    return;
+  }
+
+  await ensureBridgeDir(repoPath);
+  const recorded = (await readRecordedSnapshots(repoPath)).filter((entry) => !isSameScan(entry, snapshot));
+  recorded.push(snapshot);
+  recorded.sort((a, b) => a.generatedAt.localeCompare(b.generatedAt));
+  await writeJsonFile(cachePath(repoPath, SCORE_HISTORY_FILE), recorded.slice(-MAX_RECORDED_SNAPSHOTS));
+}
+
+export async function loadScoreHistory(
+  repoPath: string,
+  options: { limit?: number; before?: string } = {},
+): Promise<ScoreSnapshot[]> {
+  const limit = Math.max(1, options.limit ?? 50);
+  const archived = await readArchivedSnapshots(repoPath, limit);
+  const cached = [...(await readRecordedSnapshots(repoPath))];
+  const latest = await readCachedSnapshot(repoPath);
+  if (latest) {
+    cached.push(latest);
+  }
+
+  const merged = [...archived];
+  for (const snapshot of cached) {
+    if (!merged.some((existing) => isSameScan(existing, snapshot))) {
+      merged.push(snapshot);
+    }
+  }
+
+  const beforeMs = options.before ? new Date(options.before).getTime() : Number.NaN;
+
+  return merged
+    .filter((snapshot) => Number.isNaN(beforeMs) || new Date(snapshot.generatedAt).getTime() < beforeMs)
+    .sort((a, b) => a.generatedAt.localeCompare(b.generatedAt))
+    .slice(-limit);
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function computeScoreTrend(
+  current: ScoreLike,
+  history: ScoreSnapshot[],
+  options: ScoreTrendOptions = {},
+): ScoreTrend {
+  const window = Math.max(1, Math.floor(options.window ?? DEFAULT_TREND_WINDOW));
+  const threshold = Math.max(0, options.threshold ?? DEFAULT_TREND_THRESHOLD);
+  const recent = history.slice(-window);
+  const previous = recent[recent.length - 1];
+
+  const baseline = average(recent.map((snapshot) => snapshot.total));
+  if (baseline === null || !isFiniteNumber(current.total)) {
+    return {
+      direction: "unknown",
+      window,
+      threshold,
+      samples: 0,
+      baseline: null,
+      delta: null,
+      previousTotal: null,
+      previousAt: null,
+      dimensionDeltas: {},
+    };
+  }
+
+  const delta = current.total - baseline;
+  let direction: TrendDirection = "stable";
+  if (delta < -threshold) {
+    direction = "improving";
+  } else if (delta > threshold) {
+    direction = "declining";
+  }
+
+  const dimensionDeltas: ScoreTrend["dimensionDeltas"] = {};
+  for (const key of DIMENSION_KEYS) {
+    const currentValue = current.dimensions?.[key]?.score;
+    const dimensionBaseline = average(
+      recent.map((snapshot) => snapshot.dimensions[key]).filter(isFiniteNumber),
+    );
+    if (isFiniteNumber(currentValue) && dimensionBaseline !== null) {
+      dimensionDeltas[key] = round(currentValue - dimensionBaseline);
+    }
+  }
+
+  return {
+    direction,
+    window,
+    threshold,
+    samples: recent.length,
+    baseline: round(baseline),
+    delta: round(delta),
+    previousTotal: previous ? round(previous.total) : null,
+    previousAt: previous ? previous.generatedAt : null,
+    dimensionDeltas,
+  };
+}
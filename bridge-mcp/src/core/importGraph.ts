@@ -0,0 +1,1041 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { builtinModules } from "node:module";
+import { createPathFilter, type PathFilter } from "./pathFilter.js";
+
+export const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+
+const MAX_CYCLES = 500;
+
+export type ImportKind = "static" | "type" | "dynamic" | "require" | "reexport";
+
+export interface ImportEdge {
+  from: string;
+  to: string;
+  kind: ImportKind;
+  names: string[];
+}
+
+export interface ModuleInfo {
+  id: string;
+  exports: string[];
+  commonJs: boolean;
+  entry: boolean;
+  reachable: boolean;
+}
+
+export interface UnresolvedImport {
+  from: string;
+  specifier: string;
+}
+
+export interface ExternalImport {
+  from: string;
+  specifier: string;
+  kind: ImportKind;
+  names: string[];
+  line: number;
+}
+
+export interface ImportGraph {
+  root: string;
+  modules: ModuleInfo[];
+  edges: ImportEdge[];
+  externals: ExternalImport[];
+  entries: string[];
+  unresolved: UnresolvedImport[];
+}
+
+export interface ImportGraphAnalysis {
+  graph: ImportGraph;
+  cycles: string[][];
+  deadFiles: string[];
+  unusedExports: Array<{ file: string; exportName: string }>;
+  warnings: string[];
+}
+
+export interface ImportGraphOptions {
+  pathFilter?: PathFilter;
+  entries?: string[];
+}
+
+interface RawImport {
+  specifier: string;
+  kind: ImportKind;
+  names: string[];
+  line: number;
+}
+
+interface NamedReexport {
+  specifier: string;
+  imported: string;
+  exported: string;
+}
+
+interface ParsedModule {
+  imports: RawImport[];
+  localExports: string[];
+  namedReexports: NamedReexport[];
+  starReexports: string[];
+  commonJs: boolean;
+  strings: string[];
+}
+
+interface PackageManifest {
+  dir: string;
+  json: Record<string, unknown>;
+}
+
+interface PathMapping {
+  pattern: string;
+  targets: string[];
+}
+
+interface ResolverContext {
+  files: Set<string>;
+  packages: Map<string, PackageManifest>;
+  manifests: PackageManifest[];
+  dependencyNames: Set<string>;
+  baseUrl: string | null;
+  paths: PathMapping[];
+}
+
+const IDENTIFIER = "[A-Za-z_$][\\w$]*";
+const NODE_BUILTINS = new Set(builtinModules);
+
+function toPosix(value: string): string {
+  return value.split(path.sep).join("/");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+export function tokenizeSource(source: string): { code: string; strings: string[] } {
+  const strings: string[] = [];
+  let code = "";
+  let lastSignificant = "";
+  const templateStack: number[] = [];
+  let braceDepth = 0;
+  let index = 0;
+
+  const skipTemplate = (): void => {
+    while (index < source.length) {
+      const char = source[index];
+      if (char === "\\") {
+        index += 2;
+        continue;
+      }
+      if (char === "`") {
+        index += 1;
+        code += '""';
+        lastSignificant = '"';
+        return;
+      }
+      if (char === "$" && source[index + 1] === "{") {
+        index += 2;
+        templateStack.push(braceDepth);
+        braceDepth += 1;
+        code += " ";
+        lastSignificant = "{";
+        return;
+      }
+      if (char === "\n") {
+        code += "\n";
+      }
+      index += 1;
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const next = source[index + 1];
+
+    if (char === "/" && next === "/") {
+      while (index < source.length && source[index] !== "\n") index += 1;
+      continue;
+    }
+
+    if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", index + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      code += source.slice(index, stop).replace(/[^\n]/g, "");
+      index = stop;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = "";
+      index += 1;
+      while (index < source.length && source[index] !== char && source[index] !== "\n") {
+        if (source[index] === "\\") {
+          value += source[index + 1] ?? "";
+          index += 2;
+          continue;
+        }
+        value += source[index];
+        index += 1;
+      }
+      index += 1;
+      code += `"${strings.length}"`;
+      strings.push(value);
+      lastSignificant = '"';
+      continue;
+    }
+
+    if (char === "`") {
+      index += 1;
+      skipTemplate();
+      continue;
+    }
+
+    if (char === "/" && (lastSignificant === "" || /[(,=:[!&|?{};+\-*%<>~^]/.test(lastSignificant) || /\b(return|typeof|case|do|else|in|of)$/.test(code))) {
+      index += 1;
+      let inClass = false;
+      while (index < source.length && source[index] !== "\n") {
+        const current = source[index];
+        if (current === "\\") {
+          index += 2;
+          continue;
+        }
+        if (current === "[") inClass = true;
+        else if (current === "]") inClass = false;
+        else if (current === "/" && !inClass) break;
+        index += 1;
+      }
+      index += 1;
+      while (index < source.length && /[a-z]/i.test(source[index])) index += 1;
+      code += "/r/";
+      lastSignificant = "/";
+      continue;
+    }
+
+    if (char === "{") {
+      braceDepth += 1;
+    } else if (char === "}") {
+      braceDepth -= 1;
+      if (templateStack.length > 0 && templateStack[templateStack.length - 1] === braceDepth) {
+        templateStack.pop();
+        index += 1;
+        skipTemplate();
+        continue;
+      }
+    }
+
+    code += char;
+    if (!/\s/.test(char)) {
+      lastSignificant = char;
+    }
+    index += 1;
+  }
+
+  return { code, strings };
+}
+
+function bindingNames(pattern: string): string[] {
+  const trimmed = pattern.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
+    const match = trimmed.match(new RegExp(`^${IDENTIFIER}`));
+    return match ? [match[0]] : [];
+  }
+  return trimmed
+    .replace(/^[{[]|[}\]]$/g, "")
+    .split(",")
+    .map((part) => part.split("=")[0].trim())
+    .map((part) => (part.includes(":") ? part.split(":").pop()!.trim() : part.replace(/^\.\.\./, "")))
+    .filter((name) => new RegExp(`^${IDENTIFIER}$`).test(name));
+}
+
+function parseSpecifierList(list: string): Array<{ imported: string; local: string; typeOnly: boolean }> {
+  return list
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const typeOnly = /^type\s+/.test(part);
+      const [imported, local] = part.replace(/^type\s+/, "").split(/\s+as\s+/);
+      const importedName = imported.trim().replace(/^"(\d+)"$/, "$1");
+      return { imported: importedName, local: (local || imported).trim(), typeOnly };
+    })
+    .filter((entry) => entry.imported.length > 0);
+}
+
+export function parseModuleSource(source: string): ParsedModule {
+  const { code, strings } = tokenizeSource(source);
+  const imports: RawImport[] = [];
+  const localExports: string[] = [];
+  const namedReexports: NamedReexport[] = [];
+  const starReexports: string[] = [];
+  const spec = (placeholder: string) => strings[Number(placeholder)] ?? "";
+  // The tokenizer keeps every newline, so offsets into `code` map to source lines.
+  const lineStarts = [0];
+  for (let index = code.indexOf("\n"); index !== -1; index = code.indexOf("\n", index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  const lineOf = (match: RegExpMatchArray): number => {
+    const offset = (match.index ?? 0) + (/^[^.\w$]/.test(match[0]) ? 1 : 0);
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low + 1;
+  };
+
+  const importClause = /(?:^|[^.\w$])import\s+(type\s+)?([\w$*{][^;"()]*?)\s+from\s*"(\d+)"/g;
+  for (const match of Array.from(code.matchAll(importClause))) {
+    const clause = match[2].trim();
+    const names: string[] = [];
+    let allTypes = Boolean(match[1]);
+    const braces = clause.match(/\{([^}]*)\}/);
+    const head = clause.replace(/\{[^}]*\}/, "").replace(/,\s*$/, "").trim();
+
+    if (braces) {
+      const specifiers = parseSpecifierList(braces[1]);
+      names.push(...specifiers.map((entry) => entry.imported));
+      if (!match[1]) {
+        allTypes = specifiers.length > 0 && specifiers.every((entry) => entry.typeOnly) && !head;
+      }
+    }
+    for (const part of head.split(",").map((value) => value.trim()).filter(Boolean)) {
+      names.push(part.startsWith("*") ? "*" : "default");
+    }
+
+    imports.push({ specifier: spec(match[3]), kind: allTypes ? "type" : "static", names, line: lineOf(match) });
+  }
+
+  for (const match of Array.from(code.matchAll(/(?:^|[^.\w$])import\s*"(\d+)"/g))) {
+    imports.push({ specifier: spec(match[1]), kind: "static", names: [], line: lineOf(match) });
+  }
+  for (const match of Array.from(code.matchAll(/(?:^|[^.\w$])import\s*\(\s*"(\d+)"\s*[,)]/g))) {
+    imports.push({ specifier: spec(match[1]), kind: "dynamic", names: ["*"], line: lineOf(match) });
+  }
+  for (const match of Array.from(code.matchAll(/(?:^|[^.\w$])require\s*\(\s*"(\d+)"\s*\)/g))) {
+    imports.push({ specifier: spec(match[1]), kind: "require", names: ["*"], line: lineOf(match) });
+  }
+
+  for (const match of Array.from(code.matchAll(/(?:^|[^.\w$])export\s+(type\s+)?\{([^}]*)\}(\s*from\s*"(\d+)")?/g))) {
+    const specifiers = parseSpecifierList(match[2]);
+    const typeOnly = Boolean(match[1]);
+    if (match[4] !== undefined) {
+      const specifier = spec(match[4]);
+      for (const entry of specifiers) {
+        namedReexports.push({ specifier, imported: entry.imported, exported: entry.local });
+      }
+      imports.push({
+        specifier,
+        kind: typeOnly || specifiers.every((entry) => entry.typeOnly) ? "type" : "reexport",
+        names: specifiers.map((entry) => entry.imported),
+        line: lineOf(match),
+      });
+    } else {
+      localExports.push(...specifiers.map((entry) => entry.local));
+    }
+  }
+
+  for (const match of Array.from(code.matchAll(new RegExp(`(?:^|[^.\\w$])export\\s+(type\\s+)?\\*\\s*(?:as\\s+(${IDENTIFIER})\\s*)?from\\s*"(\\d+)"`, "g")))) {
+    const specifier = spec(match[3]);
+    if (match[2]) {
+      namedReexports.push({ specifier, imported: "*", exported: match[2] });
+    } else {
+      starReexports.push(specifier);
+    }
+    imports.push({ specifier, kind: match[1] ? "type" : "reexport", names: match[2] ? ["*"] : [], line: lineOf(match) });
+  }
+
+  if (/(?:^|[^.\w$])export\s+default\b/.test(code)) {
+    localExports.push("default");
+  }
+
+  const declarations = new RegExp(
+    `(?:^|[^.\\w$])export\\s+(?:declare\\s+)?(?:async\\s+)?(?:abstract\\s+)?` +
+      `(?:function\\s*\\*?|class|interface|type|enum|const\\s+enum|namespace|module)\\s+(${IDENTIFIER})`,
+    "g",
+  );
+  for (const match of Array.from(code.matchAll(declarations))) {
+    localExports.push(match[1]);
+  }
+
+  for (const match of Array.from(code.matchAll(/(?:^|[^.\w$])export\s+(?:declare\s+)?(?:const|let|var)\s+([{[][^=]*?[}\]]|[A-Za-z_$][\w$]*)/g))) {
+    localExports.push(...bindingNames(match[1]));
+  }
+
+  const commonJs = /(?:^|[^.\w$])(?:module\.exports|exports\.[\w$]+)\s*=|(?:^|[^.\w$])export\s*=/.test(code);
+
+  return {
+    imports,
+    localExports: localExports.filter((name, index, all) => all.indexOf(name) === index),
+    namedReexports,
+    starReexports,
+    commonJs,
+    strings,
+  };
+}
+
+function parseJsonc(raw: string): unknown {
+  const { code, strings } = tokenizeSource(raw);
+  const restored = code
+    .replace(/"(\d+)"/g, (_, index: string) => JSON.stringify(strings[Number(index)] ?? ""))
+    .replace(/,\s*([}\]])/g, "$1");
+  try {
+    return JSON.parse(restored);
+  } catch {
+    return null;
+  }
+}
+
+async function readJson(filePath: string): Promise<Record<string, unknown> | null> {
+  try {
+    const parsed = parseJsonc(await fs.readFile(filePath, "utf-8"));
+    return isRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function loadTsconfigPaths(
+  root: string,
+  configPath: string,
+  state: { baseUrl: string | null; paths: PathMapping[] },
+  seen: Set<string>,
+): Promise<void> {
+  if (seen.has(configPath)) return;
+  seen.add(configPath);
+
+  const config = await readJson(configPath);
+  if (!config) return;
+
+  const configDir = path.dirname(configPath);
+  const extendsValues = Array.isArray(config.extends) ? config.extends : [config.extends];
+  for (const value of extendsValues) {
+    if (typeof value === "string" && value.startsWith(".")) {
+      const target = path.resolve(configDir, value);
+      await loadTsconfigPaths(root, target.endsWith(".json") ? target : `${target}.json`, state, seen);
+    }
+  }
+
+  const compilerOptions = isRecord(config.compilerOptions) ? config.compilerOptions : {};
+  if (typeof compilerOptions.baseUrl === "string") {
+    state.baseUrl = toPosix(path.relative(root, path.resolve(configDir, compilerOptions.baseUrl)));
+  }
+  if (isRecord(compilerOptions.paths)) {
+    const base = typeof compilerOptions.baseUrl === "string"
+      ? path.resolve(configDir, compilerOptions.baseUrl)
+      : configDir;
+    for (const [pattern, targets] of Object.entries(compilerOptions.paths)) {
+      if (!Array.isArray(targets)) continue;
+      state.paths.push({
+        pattern,
+        targets: targets.map((target) => toPosix(path.relative(root, path.resolve(base, String(target))))),
+      });
+    }
+  }
+
+  if (Array.isArray(config.references)) {
+    for (const reference of config.references) {
+      if (!isRecord(reference) || typeof reference.path !== "string") continue;
+      const target = path.resolve(configDir, reference.path);
+      await loadTsconfigPaths(root, target.endsWith(".json") ? target : path.join(target, "tsconfig.json"), state, seen);
+    }
+  }
+}
+
+function candidatePaths(base: string): string[] {
+  const normalized = path.posix.normalize(base).replace(/^\.\//, "").replace(/\/$/, "");
+  const candidates = [normalized];
+  const extension = path.posix.extname(normalized);
+  const stem = normalized.slice(0, normalized.length - extension.length);
+
+  // TypeScript ESM sources import "./x.js" while the file on disk is "./x.ts".
+  if (extension === ".js" || extension === ".jsx") candidates.push(`${stem}.ts`, `${stem}.tsx`);
+  if (extension === ".mjs") candidates.push(`${stem}.mts`);
+  if (extension === ".cjs") candidates.push(`${stem}.cts`);
+
+  for (const sourceExtension of SOURCE_EXTENSIONS) {
+    candidates.push(`${normalized}${sourceExtension}`);
+  }
+  for (const sourceExtension of SOURCE_EXTENSIONS) {
+    candidates.push(`${normalized}/index${sourceExtension}`);
+  }
+  return candidates;
+}
+
+function resolveFile(context: ResolverContext, base: string): string | null {
+  for (const candidate of candidatePaths(base)) {
+    if (context.files.has(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// Manifests usually point at build output; map dist/index.js back to src/index.ts when only the source is scanned.
+function resolveManifestTarget(context: ResolverContext, dir: string, target: string): string | null {
+  const joined = path.posix.join(dir, target);
+  const direct = resolveFile(context, joined);
+  if (direct) return direct;
+
+  const relative = path.posix.normalize(target).replace(/^\.\//, "");
+  const sourceGuess = relative.replace(/^(dist|build|lib|out|esm|cjs)\//, "src/");
+  if (sourceGuess !== relative) {
+    return resolveFile(context, path.posix.join(dir, sourceGuess.replace(/\.d\.ts$/, "")));
+  }
+  return null;
+}
+
+const EXPORT_CONDITIONS = ["source", "import", "module", "require", "node", "default", "types"];
+
+function exportTargets(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(exportTargets);
+  if (!isRecord(value)) return [];
+  const preferred = EXPORT_CONDITIONS.filter((condition) => condition in value);
+  const ordered = [...preferred, ...Object.keys(value).filter((key) => !preferred.includes(key))];
+  return ordered.flatMap((key) => exportTargets(value[key]));
+}
+
+function resolveExportsField(context: ResolverContext, manifest: PackageManifest, subpath: string): string | null {
+  const exportsField = manifest.json.exports;
+  if (exportsField === undefined) return null;
+
+  const entries: Record<string, unknown> =
+    isRecord(exportsField) && Object.keys(exportsField).some((key) => key.startsWith("."))
+      ? exportsField
+      : { ".": exportsField };
+
+  for (const [key, value] of Object.entries(entries)) {
+    let wildcard: string | null = null;
+    if (key === subpath) {
+      wildcard = "";
+    } else if (key.includes("*")) {
+      const [prefix, suffix] = key.split("*");
+      if (subpath.startsWith(prefix) && subpath.endsWith(suffix)) {
+        wildcard = subpath.slice(prefix.length, subpath.length - suffix.length);
+      }
+    }
+    if (wildcard === null) continue;
+
+    for (const target of exportTargets(value)) {
+      const resolved = resolveManifestTarget(context, manifest.dir, target.replace("*", wildcard));
+      if (resolved) return resolved;
+    }
+  }
+  return null;
+}
+
+function resolvePackageImport(context: ResolverContext, manifest: PackageManifest, subpath: string): string | null {
+  const fromExports = resolveExportsField(context, manifest, subpath);
+  if (fromExports) return fromExports;
+  if (manifest.json.exports !== undefined && subpath !== ".") return null;
+
+  if (subpath === ".") {
+    for (const field of ["source", "module", "main"]) {
+      const value = manifest.json[field];
+      if (typeof value === "string") {
+        const resolved = resolveManifestTarget(context, manifest.dir, value);
+        if (resolved) return resolved;
+      }
+    }
+    return resolveFile(context, path.posix.join(manifest.dir, "index")) ?? resolveFile(context, path.posix.join(manifest.dir, "src/index"));
+  }
+  return resolveFile(context, path.posix.join(manifest.dir, subpath)) ??
+    resolveManifestTarget(context, manifest.dir, subpath);
+}
+
+function nearestManifest(context: ResolverContext, from: string): PackageManifest | null {
+  let best: PackageManifest | null = null;
+  for (const manifest of context.manifests) {
+    const inside = manifest.dir === "" || from === manifest.dir || from.startsWith(`${manifest.dir}/`);
+    if (inside && (!best || manifest.dir.length > best.dir.length)) {
+      best = manifest;
+    }
+  }
+  return best;
+}
+
+export function packageName(specifier: string): string {
+  const segments = specifier.split("/");
+  return specifier.startsWith("@") ? segments.slice(0, 2).join("/") : segments[0];
+}
+
+type Resolution = { file: string } | { external: true } | { unresolved: true };
+
+function resolveSpecifier(context: ResolverContext, from: string, specifier: string): Resolution {
+  if (!specifier) return { external: true };
+
+  if (specifier.startsWith(".")) {
+    const file = resolveFile(context, path.posix.join(path.posix.dirname(from), specifier));
+    return file ? { file } : { external: true };
+  }
+
+  if (specifier.startsWith("#")) {
+    const manifest = nearestManifest(context, from);
+    const imports = manifest?.json.imports;
+    if (manifest && isRecord(imports)) {
+      for (const target of exportTargets(imports[specifier])) {
+        const file = resolveManifestTarget(context, manifest.dir, target);
+        if (file) return { file };
+      }
+    }
+    return { unresolved: true };
+  }
+
+  for (const mapping of context.paths) {
+    const [prefix, suffix = ""] = mapping.pattern.split("*");
+    const hasWildcard = mapping.pattern.includes("*");
+    const matches = hasWildcard
+      ? specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+      : specifier === mapping.pattern;
+    if (!matches) continue;
+    const captured = hasWildcard ? specifier.slice(prefix.length, specifier.length - suffix.length) : "";
+    for (const target of mapping.targets) {
+      const file = resolveFile(context, target.replace("*", captured));
+      if (file) return { file };
+    }
+  }
+
+  const name = packageName(specifier);
+  const manifest = context.packages.get(name);
+  if (manifest) {
+    const subpath = specifier === name ? "." : `.${specifier.slice(name.length)}`;
+    const file = resolvePackageImport(context, manifest, subpath);
+    return file ? { file } : { unresolved: true };
+  }
+
+  if (context.baseUrl !== null) {
+    const file = resolveFile(context, path.posix.join(context.baseUrl, specifier));
+    if (file) return { file };
+  }
+
+  if (
+    specifier.startsWith("node:") ||
+    NODE_BUILTINS.has(name) ||
+    context.dependencyNames.has(name) ||
+    specifier.startsWith("virtual:") ||
+    /^[a-z]+:/i.test(specifier)
+  ) {
+    return { external: true };
+  }
+
+  return /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*(\/.*)?$/.test(specifier) ? { external: true } : { unresolved: true };
+}
+
+async function collectSources(root: string, pathFilter: PathFilter): Promise<{
+  files: string[];
+  manifests: PackageManifest[];
+  htmlFiles: string[];
+}> {
+  const files: string[] = [];
+  const manifests: PackageManifest[] = [];
+  const htmlFiles: string[] = [];
+  const queue = [""];
+
+  while (queue.length > 0) {
+    const dir = queue.pop()!;
+    const entries = await fs.readdir(path.join(root, dir), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!pathFilter.ignoresDirectory(relativePath)) queue.push(relativePath);
+        continue;
+      }
+      if (!entry.isFile() || !pathFilter.includesFile(relativePath)) continue;
+
+      if (entry.name === "package.json") {
+        const json = await readJson(path.join(root, relativePath));
+        if (json) manifests.push({ dir, json });
+      } else if (entry.name.endsWith(".html")) {
+        htmlFiles.push(relativePath);
+      } else if (SOURCE_EXTENSIONS.includes(path.extname(entry.name)) && !/\.d\.[cm]?ts$/.test(entry.name)) {
+        files.push(relativePath);
+      }
+    }
+  }
+
+  return { files: files.sort(), manifests, htmlFiles };
+}
+
+const CONVENTIONAL_ENTRY = [
+  /(^|\/)__tests__\//,
+  /(^|\/)__mocks__\//,
+  /\.(test|spec|stories|story|bench|e2e)\.[cm]?[jt]sx?$/,
+  /(^|\/)[^/]*\.config\.[cm]?[jt]s$/,
+  /(^|\/)\.[^/]*rc\.[cm]?[jt]s$/,
+  /(^|\/)(scripts|bin)\/[^/]+$/,
+];
+
+const CONVENTIONAL_ENTRY_STEMS = [
+  "index", "main", "app", "server", "cli",
+  "src/index", "src/main", "src/app", "src/server", "src/cli",
+];
+
+async function detectEntries(
+  root: string,
+  context: ResolverContext,
+  parsed: Map<string, ParsedModule>,
+  htmlFiles: string[],
+  extraEntries: string[],
+): Promise<string[]> {
+  const entries = new Set<string>();
+  const add = (file: string | null) => {
+    if (file) entries.add(file);
+  };
+
+  for (const manifest of context.manifests) {
+    const json = manifest.json;
+    for (const field of ["main", "module", "browser", "source"]) {
+      if (typeof json[field] === "string") add(resolveManifestTarget(context, manifest.dir, json[field] as string));
+    }
+    const bin = typeof json.bin === "string" ? [json.bin] : isRecord(json.bin) ? Object.values(json.bin) : [];
+    for (const target of bin) {
+      if (typeof target === "string") add(resolveManifestTarget(context, manifest.dir, target));
+    }
+    for (const target of exportTargets(json.exports)) {
+      if (!target.includes("*")) add(resolveManifestTarget(context, manifest.dir, target));
+    }
+    if (isRecord(json.scripts)) {
+      for (const script of Object.values(json.scripts)) {
+        if (typeof script !== "string") continue;
+        for (const token of script.split(/[\s;&|=]+/)) {
+          if (/\.[cm]?[jt]sx?$/.test(token)) add(resolveFile(context, path.posix.join(manifest.dir, token)));
+        }
+      }
+    }
+    for (const stem of CONVENTIONAL_ENTRY_STEMS) {
+      add(resolveFile(context, path.posix.join(manifest.dir, stem)));
+    }
+  }
+
+  if (context.manifests.length === 0) {
+    for (const stem of CONVENTIONAL_ENTRY_STEMS) add(resolveFile(context, stem));
+  }
+
+  for (const htmlFile of htmlFiles) {
+    const html = await fs.readFile(path.join(root, htmlFile), "utf-8").catch(() => "");
+    for (const match of Array.from(html.matchAll(/<script[^>]*\ssrc=["']([^"']+)["']/g))) {
+      const src = match[1];
+      add(resolveFile(context, src.startsWith("/") ? src.slice(1) : path.posix.join(path.posix.dirname(htmlFile), src)));
+    }
+  }
+
+  const explicit = extraEntries.length > 0 ? createPathFilter(root, { include: extraEntries, gitignore: false }) : null;
+  context.files.forEach((file) => {
+    if (CONVENTIONAL_ENTRY.some((pattern) => pattern.test(file)) || explicit?.includesFile(file)) {
+      entries.add(file);
+    }
+  });
+
+  Array.from(entries)
+    .filter((file) => /(^|\/)[^/]*\.config\.[cm]?[jt]s$/.test(file))
+    .forEach((configFile) => {
+      const configDir = path.posix.dirname(configFile);
+      for (const value of parsed.get(configFile)?.strings || []) {
+        if (/^\.{0,2}\/?[\w@$-][\w./@$-]*\.[cm]?[jt]sx?$/.test(value)) {
+          add(resolveFile(context, path.posix.join(configDir === "." ? "" : configDir, value)));
+        }
+      }
+    });
+
+  return Array.from(entries).sort();
+}
+
+function canonicalCycle(cycle: string[]): string[] {
+  let start = 0;
+  for (let index = 1; index < cycle.length; index += 1) {
+    if (cycle[index] < cycle[start]) start = index;
+  }
+  return [...cycle.slice(start), ...cycle.slice(0, start)];
+}
+
+export function findImportCycles(graph: ImportGraph): string[][] {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    if (edge.kind === "type" || edge.kind === "dynamic") continue;
+    const targets = adjacency.get(edge.from) || [];
+    if (!targets.includes(edge.to)) targets.push(edge.to);
+    adjacency.set(edge.from, targets);
+  }
+
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const module of graph.modules) {
+    if (indexOf.has(module.id)) continue;
+    const work: Array<{ node: string; next: number }> = [{ node: module.id, next: 0 }];
+    indexOf.set(module.id, counter);
+    lowLink.set(module.id, counter);
+    counter += 1;
+    stack.push(module.id);
+    onStack.add(module.id);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = adjacency.get(frame.node) || [];
+      if (frame.next < targets.length) {
+        const target = targets[frame.next];
+        frame.next += 1;
+        if (!indexOf.has(target)) {
+          indexOf.set(target, counter);
+          lowLink.set(target, counter);
+          counter += 1;
+          stack.push(target);
+          onStack.add(target);
+          work.push({ node: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, indexOf.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+      if (lowLink.get(frame.node) === indexOf.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  for (const component of components) {
+    const members = new Set(component);
+    const selfLoop = component.length === 1 && (adjacency.get(component[0]) || []).includes(component[0]);
+    if (component.length < 2 && !selfLoop) continue;
+
+    for (const from of component.slice().sort()) {
+      for (const to of adjacency.get(from) || []) {
+        if (!members.has(to) || cycles.length >= MAX_CYCLES) continue;
+
+        const previous = new Map<string, string>([[to, to]]);
+        const queue = [to];
+        while (queue.length > 0 && !previous.has(from)) {
+          const current = queue.shift()!;
+          for (const next of adjacency.get(current) || []) {
+            if (members.has(next) && !previous.has(next)) {
+              previous.set(next, current);
+              queue.push(next);
+            }
+          }
+        }
+        if (!previous.has(from)) continue;
+
+        const path: string[] = [];
+        for (let node = from; node !== to; node = previous.get(node)!) path.unshift(node);
+        const cycle = canonicalCycle(from === to ? [from] : [to, ...path]);
+        const key = cycle.join("\n");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      }
+    }
+  }
+
+  return cycles;
+}
+
+function markReachable(graph: ImportGraph): void {
+  const outgoing = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge.to]);
+  }
+  const reachable = new Set<string>(graph.entries);
+  const queue = [...graph.entries];
+  while (queue.length > 0) {
+    const current = queue.pop()!;
+    for (const next of outgoing.get(current) || []) {
+      if (!reachable.has(next)) {
+        reachable.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  for (const module of graph.modules) {
+    module.reachable = reachable.has(module.id);
+  }
+}
+
+function findUnusedExports(
+  graph: ImportGraph,
+  parsed: Map<string, ParsedModule>,
+  resolved: Map<string, Map<string, string>>,
+): Array<{ file: string; exportName: string }> {
+  const used = new Map<string, Set<string>>();
+  const fullyUsed = new Set<string>();
+  const target = (from: string, specifier: string) => resolved.get(from)?.get(specifier);
+
+  const markUsed = (module: string, name: string): void => {
+    const info = parsed.get(module);
+    if (!info) return;
+
+    if (name === "*") {
+      if (fullyUsed.has(module)) return;
+      fullyUsed.add(module);
+      for (const specifier of info.starReexports) {
+        const next = target(module, specifier);
+        if (next) markUsed(next, "*");
+      }
+      for (const reexport of info.namedReexports) {
+        const next = target(module, reexport.specifier);
+        if (next) markUsed(next, reexport.imported);
+      }
+      return;
+    }
+
+    const names = used.get(module) || new Set<string>();
+    if (names.has(name)) return;
+    names.add(name);
+    used.set(module, names);
+
+    const reexport = info.namedReexports.find((entry) => entry.exported === name);
+    if (reexport) {
+      const next = target(module, reexport.specifier);
+      if (next) markUsed(next, reexport.imported);
+    } else if (!info.localExports.includes(name)) {
+      for (const specifier of info.starReexports) {
+        const next = target(module, specifier);
+        if (next) markUsed(next, name);
+      }
+    }
+  };
+
+  for (const edge of graph.edges) {
+    if (edge.kind === "reexport") continue;
+    for (const name of edge.names) markUsed(edge.to, name);
+  }
+  for (const edge of graph.edges) {
+    if (edge.kind === "type") for (const name of edge.names) markUsed(edge.to, name);
+  }
+  for (const entry of graph.entries) markUsed(entry, "*");
+
+  const unused: Array<{ file: string; exportName: string }> = [];
+  for (const module of graph.modules) {
+    if (!module.reachable || module.entry || module.commonJs || fullyUsed.has(module.id)) continue;
+    const names = used.get(module.id);
+    for (const exportName of module.exports) {
+      if (!names?.has(exportName)) unused.push({ file: module.id, exportName });
+    }
+  }
+  return unused;
+}
+
+export async function analyzeImportGraph(repoPath: string, options: ImportGraphOptions = {}): Promise<ImportGraphAnalysis> {
+  const root = path.resolve(repoPath);
+  const pathFilter = options.pathFilter ?? createPathFilter(root);
+  const { files, manifests, htmlFiles } = await collectSources(root, pathFilter);
+
+  const tsconfig = { baseUrl: null as string | null, paths: [] as PathMapping[] };
+  const seenConfigs = new Set<string>();
+  for (const configName of ["tsconfig.json", "jsconfig.json"]) {
+    await loadTsconfigPaths(root, path.join(root, configName), tsconfig, seenConfigs);
+  }
+
+  const dependencyNames = new Set<string>();
+  const packages = new Map<string, PackageManifest>();
+  for (const manifest of manifests) {
+    if (typeof manifest.json.name === "string") packages.set(manifest.json.name, manifest);
+    for (const field of ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"]) {
+      const deps = manifest.json[field];
+      if (isRecord(deps)) Object.keys(deps).forEach((name) => dependencyNames.add(name));
+    }
+  }
+
+  const context: ResolverContext = {
+    files: new Set(files),
+    packages,
+    manifests,
+    dependencyNames,
+    baseUrl: tsconfig.baseUrl,
+    paths: tsconfig.paths,
+  };
+
+  const parsed = new Map<string, ParsedModule>();
+  for (const file of files) {
+    const source = await fs.readFile(path.join(root, file), "utf-8").catch(() => "");
+    parsed.set(file, parseModuleSource(source));
+  }
+
+  const edges: ImportEdge[] = [];
+  const externals: ExternalImport[] = [];
+  const unresolved: UnresolvedImport[] = [];
+  const resolved = new Map<string, Map<string, string>>();
+  parsed.forEach((module, from) => {
+    const targets = new Map<string, string>();
+    for (const entry of module.imports) {
+      const resolution = resolveSpecifier(context, from, entry.specifier);
+      if ("file" in resolution) {
+        targets.set(entry.specifier, resolution.file);
+        edges.push({ from, to: resolution.file, kind: entry.kind, names: entry.names });
+      } else if ("unresolved" in resolution) {
+        unresolved.push({ from, specifier: entry.specifier });
+      } else if (entry.specifier && !/^[./]/.test(entry.specifier)) {
+        externals.push({ from, specifier: entry.specifier, kind: entry.kind, names: entry.names, line: entry.line });
+      }
+    }
+    resolved.set(from, targets);
+  });
+
+  const entries = await detectEntries(root, context, parsed, htmlFiles, options.entries || []);
+  const entrySet = new Set(entries);
+  const graph: ImportGraph = {
+    root,
+    modules: files.map((id) => {
+      const module = parsed.get(id)!;
+      return {
+        id,
+        exports: [
+          ...module.localExports,
+          ...module.namedReexports.map((entry) => entry.exported),
+        ].filter((name, index, all) => all.indexOf(name) === index),
+        commonJs: module.commonJs,
+        entry: entrySet.has(id),
+        reachable: false,
+      };
+    }),
+    edges,
+    externals,
+    entries,
+    unresolved,
+  };
+
+  markReachable(graph);
+
+  const warnings: string[] = [];
+  if (files.length > 0 && entries.length === 0) {
+    warnings.push("No entry points found; unreachable-file detection was skipped. Add globs to scan.entries in .bridge.json.");
+  }
+  if (unresolved.length > 0) {
+    const samples = unresolved
+      .map((entry) => entry.specifier)
+      .filter((specifier, index, all) => all.indexOf(specifier) === index)
+      .slice(0, 3);
+    warnings.push(
+      `${unresolved.length} imports could not be resolved (e.g. ${samples.map((value) => `'${value}'`).join(", ")}); ` +
+        "files reached only through them may be reported as unused. Declare bundler aliases in tsconfig paths.",
+    );
+  }
+
+  return {
+    graph,
+    cycles: findImportCycles(graph),
+    deadFiles: entries.length === 0 ? [] : graph.modules.filter((module) => !module.reachable).map((module) => module.id),
+    unusedExports: entries.length === 0 ? [] : findUnusedExports(graph, parsed, resolved),
+    warnings,
+  };
+}
@@ -0,0 +1,443 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { cachePath, ensureBridgeDir, readJsonFile, writeJsonFile } from "./cache.js";
+
+const execFileAsync = promisify(execFile);
+const DEFAULT_REGISTRY = "https://registry.npmjs.org";
+const LOOKUP_CONCURRENCY = 4;
+const LOOKUP_TIMEOUT_MS = 10_000;
+const MAX_LOOKUPS = 200;
+const INSTALL_SCRIPTS = ["preinstall", "install", "postinstall"];
+
+export const LOCKFILES = ["package-lock.json", "pnpm-lock.yaml", "yarn.lock"] as const;
+export const PACKAGE_VERSIONS_CACHE_FILE = "package-versions.json";
+
+export interface LockfilePackageChange {
+  name: string;
+  from?: string;
+  to?: string;
+  sizeBefore?: number;
+  sizeAfter?: number;
+  newInstallScript?: boolean;
+}
+
+export interface LockfileDiff {
+  lockfile: string;
+  added: LockfilePackageChange[];
+  removed: LockfilePackageChange[];
+  changed: LockfilePackageChange[];
+  sizeDelta?: number;
+  unsizedPackages?: number;
+}
+
+export interface ReadLockfileDiffOptions {
+  ref?: string;
+  measure?: boolean;
+  cacheRepoPath?: string;
+}
+
+interface LockedVersion {
+  resolved?: string;
+  installScript?: boolean;
+}
+
+interface PackageVersionInfo {
+  size?: number;
+  installScript?: boolean;
+}
+
+type VersionIndex = Map<string, Map<string, LockedVersion>>;
+
+function addVersion(index: VersionIndex, name: string, version: unknown, locked: LockedVersion = {}): void {
+  if (!name || typeof version !== "string" || !version) {
+    return;
+  }
+  const versions = index.get(name) || new Map<string, LockedVersion>();
+  const existing = versions.get(version);
+  versions.set(version, {
+    resolved: existing?.resolved ?? locked.resolved,
+    installScript: existing?.installScript || locked.installScript,
+  });
+  index.set(name, versions);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// lockfileVersion 1 nests `dependencies`; 2 and 3 key `packages` by install path.
+function indexPackageLock(content: string): VersionIndex {
+  const index: VersionIndex = new Map();
+  let lock: unknown;
+  try {
+    lock = JSON.parse(content);
+  } catch {
+    return index;
+  }
+  if (!isRecord(lock)) {
+    return index;
+  }
+
+  if (isRecord(lock.packages)) {
+    Object.entries(lock.packages).forEach(([installPath, entry]) => {
+      const marker = installPath.lastIndexOf("node_modules/");
+      if (marker === -1 || !isRecord(entry) || entry.link || entry.inBundle) {
+        return;
+      }
+      addVersion(index, installPath.slice(marker + "node_modules/".length), entry.version, {
+        resolved: typeof entry.resolved === "string" ? entry.resolved : undefined,
+        installScript: Boolean(entry.hasInstallScript),
+      });
+    });
+    return index;
+  }
+
+  const walk = (dependencies: unknown) => {
+    if (!isRecord(dependencies)) {
+      return;
+    }
+    Object.entries(dependencies).forEach(([name, entry]) => {
+      if (!isRecord(entry)) {
+        return;
+      }
+      if (!entry.bundled) {
+        addVersion(index, name, entry.version, { resolved: typeof entry.resolved === "string" ? entry.resolved : undefined });
+      }
+      walk(entry.dependencies);
+    });
+  };
+  walk(lock.dependencies);
+  return index;
+}
+
+// Classic (`version "1.2.3"`) and Berry (`version: 1.2.3`) entries; neither records install scripts.
+function indexYarnLock(content: string): VersionIndex {
+  const index: VersionIndex = new Map();
+  let name: string | null = null;
+  let version: string | undefined;
+  let resolved: string | undefined;
+  const flush = () => {
+    if (name) {
+      addVersion(index, name, version, { resolved });
+    }
+    name = null;
+    version = undefined;
+    resolved = undefined;
+  };
+
+  content.split(/\r?\n/).forEach(line => {
+    if (!line.trim() || line.startsWith("#")) {
+      return;
+    }
+    if (!/^\s/.test(line)) {
+      flush();
+      const spec = line.replace(/:\s*$/, "").split(",")[0].trim().replace(/^"|"$/g, "");
+      const at = spec.indexOf("@", 1);
+      if (at > 0 && !/@(workspace|link|portal):/.test(spec)) {
+        name = spec.slice(0, at);
+      }
+      return;
+    }
+    const field = /^ {2}(version|resolved):?\s+"?([^"\s]+?)"?\s*$/.exec(line);
+    if (field?.[1] === "version") {
+      version = field[2];
+    } else if (field?.[1] === "resolved" && /^https?:/.test(field[2])) {
+      resolved = field[2].replace(/#.*$/, "");
+    }
+  });
+  flush();
+  return index;
+}
+
+// Keys are `/name/1.2.3_peers` before lockfile 6, `/name@1.2.3(peers)` in 6 and `name@1.2.3` from 9.
+function parsePnpmKey(key: string, lockfileMajor: number): { name: string; version: string } | null {
+  const trimmed = key.replace(/^['"]|['"]$/g, "").replace(/^\//, "");
+  if (lockfileMajor < 6) {
+    const slash = trimmed.lastIndexOf("/");
+    return slash > 0 ? { name: trimmed.slice(0, slash), version: trimmed.slice(slash + 1).replace(/_.*$/, "") } : null;
+  }
+  const withoutPeers = trimmed.replace(/\(.*$/, "");
+  const at = withoutPeers.lastIndexOf("@");
+  return at > 0 ? { name: withoutPeers.slice(0, at), version: withoutPeers.slice(at + 1) } : null;
+}
+
+function indexPnpmLock(content: string): VersionIndex {
+  const index: VersionIndex = new Map();
+  const lockfileMajor = Number(/^lockfileVersion:\s*['"]?(\d+)/m.exec(content)?.[1] ?? 9);
+  let section = "";
+  let current: { name: string; version: string; locked: LockedVersion } | null = null;
+  const flush = () => {
+    if (current && /^\d/.test(current.version)) {
+      addVersion(index, current.name, current.version, current.locked);
+    }
+    current = null;
+  };
+
+  content.split(/\r?\n/).forEach(line => {
+    if (!line.trim() || line.trimStart().startsWith("#")) {
+      return;
+    }
+    if (!/^\s/.test(line)) {
+      flush();
+      section = line.replace(/:.*$/, "");
+      return;
+    }
+    if (section !== "packages") {
+      return;
+    }
+    const entry = /^ {2}(\S.*):\s*$/.exec(line);
+    if (entry) {
+      flush();
+      const parsed = parsePnpmKey(entry[1], lockfileMajor);
+      current = parsed ? { ...parsed, locked: { installScript: lockfileMajor < 9 ? false : undefined } } : null;
+      return;
+    }
+    if (!current) {
+      return;
+    }
+    const target = current as { locked: LockedVersion };
+    if (/^ {4}requiresBuild:\s*true\s*$/.test(line)) {
+      target.locked.installScript = true;
+    }
+    const tarball = /^ {4}resolution:.*\btarball:\s*['"]?(https?:[^,}'"\s]+)/.exec(line);
+    if (tarball) {
+      target.locked.resolved = tarball[1];
+    }
+  });
+  flush();
+  return index;
+}
+
+function indexLockfile(lockfile: string, content: string | null): VersionIndex {
+  if (!content) {
+    return new Map();
+  }
+  if (lockfile === "yarn.lock") {
+    return indexYarnLock(content);
+  }
+  if (lockfile === "pnpm-lock.yaml") {
+    return indexPnpmLock(content);
+  }
+  return indexPackageLock(content);
+}
+
+const joinVersions = (versions: Map<string, LockedVersion>): string => Array.from(versions.keys()).sort().join(", ");
+
+const runsInstallScript = (versions: Map<string, LockedVersion> | undefined): boolean =>
+  Array.from(versions?.values() || []).some(locked => locked.installScript === true);
+
+function diffIndexes(previous: VersionIndex, next: VersionIndex): Omit<LockfileDiff, "lockfile"> {
+  const added: LockfilePackageChange[] = [];
+  const removed: LockfilePackageChange[] = [];
+  const changed: LockfilePackageChange[] = [];
+
+  next.forEach((versions, name) => {
+    const old = previous.get(name);
+    const newInstallScript = runsInstallScript(versions) && !runsInstallScript(old);
+    if (!old) {
+      added.push({ name, to: joinVersions(versions), ...(newInstallScript ? { newInstallScript } : {}) });
+    } else if (joinVersions(old) !== joinVersions(versions)) {
+      changed.push({ name, from: joinVersions(old), to: joinVersions(versions), ...(newInstallScript ? { newInstallScript } : {}) });
+    }
+  });
+  previous.forEach((versions, name) => {
+    if (!next.has(name)) {
+      removed.push({ name, from: joinVersions(versions) });
+    }
+  });
+
+  const byName = (a: LockfilePackageChange, b: LockfilePackageChange) => a.name.localeCompare(b.name);
+  return { added: added.sort(byName), removed: removed.sort(byName), changed: changed.sort(byName) };
+}
+
+export function diffLockfile(lockfile: string, before: string | null, after: string | null): LockfileDiff {
+  return { lockfile, ...diffIndexes(indexLockfile(lockfile, before), indexLockfile(lockfile, after)) };
+}
+
+function tarballUrl(name: string, version: string, locked: LockedVersion): string {
+  return locked.resolved && /^https?:/.test(locked.resolved)
+    ? locked.resolved
+    : `${DEFAULT_REGISTRY}/${name}/-/${name.split("/").pop()}-${version}.tgz`;
+}
+
+async function lookupPackageVersion(
+  name: string,
+  version: string,
+  locked: LockedVersion,
+  needs: { size: boolean; scripts: boolean },
+): Promise<PackageVersionInfo> {
+  const info: PackageVersionInfo = {};
+  if (needs.size) {
+    const response = await fetch(tarballUrl(name, version, locked), {
+      method: "HEAD",
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+    }).catch(() => null);
+    const length = Number(response?.ok ? response.headers.get("content-length") : Number.NaN);
+    if (Number.isFinite(length) && length > 0) {
+      info.size = length;
+    }
+  }
+  if (needs.scripts) {
+    const response = await fetch(`${DEFAULT_REGISTRY}/${name.replace("/", "%2f")}/${encodeURIComponent(version)}`, {
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+    }).catch(() => null);
+    const manifest = response?.ok ? await response.json().catch(() => null) as { scripts?: Record<string, string> } | null : null;
+    if (manifest) {
+      info.installScript = INSTALL_SCRIPTS.some(script => Boolean(manifest.scripts?.[script]));
+    }
+  }
+  return info;
+}
+
+async function measureDiff(
+  diff: LockfileDiff,
+  previous: VersionIndex,
+  next: VersionIndex,
+  cacheRepoPath: string,
+): Promise<LockfileDiff> {
+  const target = cachePath(cacheRepoPath, PACKAGE_VERSIONS_CACHE_FILE);
+  const cache = (await readJsonFile<Record<string, PackageVersionInfo>>(target)) || {};
+  const lookups: Array<{ key: string; name: string; version: string; locked: LockedVersion; scripts: boolean }> = [];
+  const queue = (name: string, index: VersionIndex, scripts: boolean) => {
+    index.get(name)?.forEach((locked, version) => {
+      const key = `${name}@${version}`;
+      const cached = cache[key];
+      const needsScripts = scripts && locked.installScript === undefined && cached?.installScript === undefined;
+      if ((cached?.size === undefined || needsScripts) && !lookups.some(lookup => lookup.key === key)) {
+        lookups.push({ key, name, version, locked, scripts: needsScripts });
+      }
+    });
+  };
+  diff.changed.forEach(change => {
+    queue(change.name, next, true);
+    queue(change.name, previous, true);
+  });
+  diff.added.forEach(change => queue(change.name, next, true));
+  diff.removed.forEach(change => queue(change.name, previous, false));
+
+  const pending = lookups.slice(0, MAX_LOOKUPS);
+  let fetched = 0;
+  const worker = async (): Promise<void> => {
+    for (let lookup = pending.shift(); lookup !== undefined; lookup = pending.shift()) {
+      const cached = cache[lookup.key];
+      const info = await lookupPackageVersion(lookup.name, lookup.version, lookup.locked, {
+        size: cached?.size === undefined,
+        scripts: lookup.scripts,
+      });
+      if (info.size !== undefined || info.installScript !== undefined) {
+        cache[lookup.key] = { ...cached, ...info };
+        fetched += 1;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(LOOKUP_CONCURRENCY, pending.length) }, worker));
+  if (fetched > 0) {
+    await ensureBridgeDir(cacheRepoPath)
+      .then(() => writeJsonFile(target, cache))
+      .catch(() => undefined);
+  }
+
+  const totalSize = (name: string, index: VersionIndex): number | undefined => {
+    let total: number | undefined = 0;
+    index.get(name)?.forEach((_locked, version) => {
+      const size = cache[`${name}@${version}`]?.size;
+      total = total === undefined || size === undefined ? undefined : total + size;
+    });
+    return total;
+  };
+  const hasInstallScript = (name: string, index: VersionIndex): boolean =>
+    Array.from(index.get(name)?.entries() || []).some(([version, locked]) =>
+      (locked.installScript ?? cache[`${name}@${version}`]?.installScript) === true);
+
+  let sizeDelta = 0;
+  let unsizedPackages = 0;
+  const measure = (change: LockfilePackageChange, before: boolean, after: boolean): LockfilePackageChange => {
+    const sizeBefore = before ? totalSize(change.name, previous) : 0;
+    const sizeAfter = after ? totalSize(change.name, next) : 0;
+    if (sizeBefore === undefined || sizeAfter === undefined) {
+      unsizedPackages += 1;
+    } else {
+      sizeDelta += sizeAfter - sizeBefore;
+    }
+    const newInstallScript = after && hasInstallScript(change.name, next) && !(before && hasInstallScript(change.name, previous));
+    return {
+      name: change.name,
+      from: change.from,
+      to: change.to,
+      ...(before && sizeBefore !== undefined ? { sizeBefore } : {}),
+      ...(after && sizeAfter !== undefined ? { sizeAfter } : {}),
+      ...(newInstallScript ? { newInstallScript } : {}),
+    };
+  };
+
+  return {
+    lockfile: diff.lockfile,
+    added: diff.added.map(change => measure(change, false, true)),
+    removed: diff.removed.map(change => measure(change, true, false)),
+    changed: diff.changed.map(change => measure(change, true, true)),
+    sizeDelta,
+    unsizedPackages,
+  };
+}
+
+export async function readLockfileDiff(repoPath: string, options: ReadLockfileDiffOptions = {}): Promise<LockfileDiff | null> {
+  const ref = options.ref ?? "HEAD";
+  for (const lockfile of LOCKFILES) {
+    const after = await fs.readFile(path.join(repoPath, lockfile), "utf8").catch(() => null);
+    const before = await execFileAsync("git", ["show", `${ref}:${lockfile}`], {
+      cwd: repoPath,
+      timeout: 30_000,
+      maxBuffer: 100 * 1024 * 1024,
+    })
+      .then(({ stdout }) => stdout)
+      .catch(() => null);
+    if (after === null && before === null) {
+      continue;
+    }
+    const previous = indexLockfile(lockfile, before);
+    const next = indexLockfile(lockfile, after);
+    const diff: LockfileDiff = { lockfile, ...diffIndexes(previous, next) };
+    return options.measure ? measureDiff(diff, previous, next, options.cacheRepoPath ?? repoPath) : diff;
+  }
+  return null;
+}
+
+export async function readLockedVersions(repoPath: string): Promise<{ lockfile: string; versions: Map<string, string[]> } | null> {
+  for (const lockfile of LOCKFILES) {
+    const content = await fs.readFile(path.join(repoPath, lockfile), "utf8").catch(() => null);
+    if (content === null) {
+      continue;
+    }
+    const versions = new Map<string, string[]>();
+    indexLockfile(lockfile, content).forEach((locked, name) => versions.set(name, Array.from(locked.keys())));
+    return { lockfile, versions };
+  }
+  return null;
+}
+
+export function newInstallScripts(diff: LockfileDiff): string[] {
+  return [...diff.added, ...diff.changed].filter(change => change.newInstallScript).map(change => change.name).sort();
+}
+
+export function formatSizeDelta(bytes: number): string {
+  const sign = bytes > 0 ? "+" : bytes < 0 ? "-" : "±";
+  const value = Math.abs(bytes);
+  if (value >= 1_000_000) return `${sign}${(value / 1_000_000).toFixed(1)} MB`;
+  if (value >= 1_000) return `${sign}${(value / 1_000).toFixed(1)} kB`;
+  return `${sign}${value} B`;
+}
+
+export function summarizeLockfileDiff(diff: LockfileDiff): string[] {
+  const lines = [`Lockfile: ${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed in ${diff.lockfile}`];
+  if (diff.sizeDelta !== undefined) {
+    const unsized = diff.unsizedPackages ? ` (${diff.unsizedPackages} package(s) not measured)` : "";
+    lines.push(`Lockfile size change: ${formatSizeDelta(diff.sizeDelta)} in tarballs${unsized}`);
+  }
+  const scripts = newInstallScripts(diff);
+  if (scripts.length > 0) {
+    lines.push(`New install scripts: ${scripts.join(", ")}`);
+  }
+  return lines;
+}
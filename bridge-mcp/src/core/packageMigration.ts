@@ -0,0 +1,451 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { BridgeConfig } from "./bridgeConfig.js";
+import { analyzeDependencyUsage, type DependencyField } from "./dependencyUsage.js";
+import { analyzeImportGraph, packageName, type ExternalImport } from "./importGraph.js";
+
+const NPM_PACKAGE_NAME = /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/;
+const BUILTIN_TARGETS = new Set(["fetch", "structuredClone", "queueMicrotask"]);
+const MAX_SITE_TEXT = 120;
+
+export interface PackageMigration {
+  from: string;
+  to: string;
+  builtin: boolean;
+  codemod: string | null;
+}
+
+export interface MigrationSite {
+  file: string;
+  line: number;
+  text: string;
+  reason?: string;
+}
+
+export interface MigrationRewriteReport {
+  migration: PackageMigration;
+  rewritten: MigrationSite[];
+  manual: MigrationSite[];
+  changedFiles: string[];
+  manifests: Array<{ manifest: string; field: DependencyField }>;
+  removable: boolean;
+}
+
+interface FileRewrite {
+  source: string;
+  rewritten: number[];
+  manual: Array<{ line: number; reason: string }>;
+}
+
+interface MigrationCodemod {
+  from: string;
+  to: string;
+  builtin?: boolean;
+  description: string;
+  rewrite: (source: string, sites: ExternalImport[]) => FileRewrite;
+}
+
+interface ImportStatement {
+  start: number;
+  end: number;
+  line: number;
+  indent: string;
+  specifier: string;
+  quote: string;
+  semicolon: boolean;
+  form: "import" | "side-effect" | "require";
+  typeOnly: boolean;
+  declaration?: string;
+  defaultName?: string;
+  namespace?: string;
+  named: Array<{ imported: string; local: string; typeOnly: boolean }>;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function lineAt(source: string, offset: number): number {
+  let line = 1;
+  for (let index = source.indexOf("\n"); index !== -1 && index < offset; index = source.indexOf("\n", index + 1)) {
+    line++;
+  }
+  return line;
+}
+
+function parseNamed(list: string, separator: "as" | ":"): ImportStatement["named"] {
+  return list
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const typeOnly = /^type\s+/.test(entry);
+      const [imported, local] = entry.replace(/^type\s+/, "").split(separator === "as" ? /\s+as\s+/ : /\s*:\s*/);
+      return { imported: imported.trim(), local: (local || imported).trim(), typeOnly };
+    });
+}
+
+function findImportStatements(source: string, from: string, lines: Set<number>): ImportStatement[] {
+  const statements: ImportStatement[] = [];
+  const matchesPackage = (specifier: string) => packageName(specifier) === from;
+  const tail = "[ \\t]*(;?)[ \\t]*(?:\\r?\\n|$)";
+  const patterns: Array<{ form: ImportStatement["form"]; regex: RegExp }> = [
+    { form: "import", regex: new RegExp(`^([ \\t]*)import\\s+(type\\s+)?([^;'"]*?)\\s+from\\s*(["'])([^"'\\n]+)\\4${tail}`, "gm") },
+    { form: "side-effect", regex: new RegExp(`^([ \\t]*)import\\s*()()(["'])([^"'\\n]+)\\4${tail}`, "gm") },
+    {
+      form: "require",
+      regex: new RegExp(`^([ \\t]*)(const|let|var)\\s+([\\w$]+|\\{[^}]*\\})\\s*=\\s*require\\(\\s*(["'])([^"'\\n]+)\\4\\s*\\)${tail}`, "gm"),
+    },
+  ];
+  patterns.forEach(({ form, regex }) => {
+    for (const match of Array.from(source.matchAll(regex))) {
+      const [text, indent, modifier, clause, quote, specifier, semicolon] = match;
+      const start = match.index ?? 0;
+      const firstLine = lineAt(source, start);
+      const lastLine = firstLine + (text.trimEnd().match(/\n/g) || []).length;
+      const line = Array.from(lines).find((candidate) => candidate >= firstLine && candidate <= lastLine);
+      if (!matchesPackage(specifier) || line === undefined) continue;
+      const statement: ImportStatement = {
+        start,
+        end: start + text.length,
+        line,
+        indent,
+        specifier,
+        quote,
+        semicolon: semicolon === ";",
+        form,
+        typeOnly: form === "import" && Boolean(modifier),
+        named: [],
+      };
+      if (form === "require") {
+        statement.declaration = modifier;
+        if (clause.startsWith("{")) statement.named = parseNamed(clause.slice(1, -1), ":");
+        else statement.defaultName = clause;
+      } else if (form === "import") {
+        const braces = /\{([^}]*)\}/.exec(clause);
+        if (braces) statement.named = parseNamed(braces[1], "as");
+        clause
+          .replace(/\{[^}]*\}/, "")
+          .split(",")
+          .map((part) => part.trim())
+          .filter(Boolean)
+          .forEach((part) => {
+            const namespace = /^\*\s*as\s+([\w$]+)$/.exec(part);
+            if (namespace) statement.namespace = namespace[1];
+            else statement.defaultName = part;
+          });
+      }
+      statements.push(statement);
+    }
+  });
+  return statements.sort((a, b) => a.start - b.start);
+}
+
+// Blanks out comments, keeping offsets and line numbers, so commented-out code is not rewritten.
+function maskComments(source: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, " ");
+  return source.replace(/\/\*[\s\S]*?\*\//g, blank).replace(/^([ \t]*)(\/\/.*)$/gm, (_line, indent: string, comment: string) => `${indent}${blank(comment)}`);
+}
+
+function replaceRanges(source: string, edits: Array<{ start: number; end: number; text: string }>): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => `${result.slice(0, edit.start)}${edit.text}${result.slice(edit.end)}`, source);
+}
+
+function unclaimedSites(sites: ExternalImport[], claimed: Set<number>, reason: string): FileRewrite["manual"] {
+  return sites.filter((site) => !claimed.has(site.line)).map((site) => ({ line: site.line, reason }));
+}
+
+function renameSpecifier(to: string, options: { esmOnly?: boolean; unsupportedSubpaths?: RegExp } = {}) {
+  return (source: string, sites: ExternalImport[]): FileRewrite => {
+    const lineStarts = [0];
+    for (let index = source.indexOf("\n"); index !== -1; index = source.indexOf("\n", index + 1)) {
+      lineStarts.push(index + 1);
+    }
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+    const rewritten: number[] = [];
+    const manual: FileRewrite["manual"] = [];
+    sites.forEach((site) => {
+      const from = packageName(site.specifier);
+      if (options.esmOnly && site.kind === "require") {
+        manual.push({ line: site.line, reason: `${to} is ESM-only; convert this require() to an import first` });
+        return;
+      }
+      if (options.unsupportedSubpaths?.test(site.specifier)) {
+        manual.push({ line: site.line, reason: `${to} has no equivalent of ${site.specifier}` });
+        return;
+      }
+      const literal = new RegExp(`(["'])${escapeRegExp(site.specifier)}\\1`, "g");
+      literal.lastIndex = lineStarts[site.line - 1] ?? 0;
+      const match = literal.exec(source);
+      if (!match) {
+        manual.push({ line: site.line, reason: "could not locate the module specifier" });
+        return;
+      }
+      const quote = match[1];
+      edits.push({ start: match.index, end: match.index + match[0].length, text: `${quote}${to}${site.specifier.slice(from.length)}${quote}` });
+      rewritten.push(site.line);
+    });
+    return { source: replaceRanges(source, edits), rewritten, manual };
+  };
+}
+
+function replaceWithGlobals(globals: { default?: string; named?: string[] }) {
+  return (source: string, sites: ExternalImport[]): FileRewrite => {
+    const from = packageName(sites[0].specifier);
+    const statements = findImportStatements(source, from, new Set(sites.map((site) => site.line)));
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+    const rewritten: number[] = [];
+    const manual: FileRewrite["manual"] = [];
+    statements.forEach((statement) => {
+      if (statement.specifier !== from) {
+        manual.push({ line: statement.line, reason: `no built-in equivalent of ${statement.specifier}` });
+        return;
+      }
+      const bindings: Array<{ local: string; global: string }> = [];
+      const missing: string[] = [];
+      if (statement.namespace) missing.push(`* as ${statement.namespace}`);
+      if (statement.defaultName) {
+        if (globals.default) bindings.push({ local: statement.defaultName, global: globals.default });
+        else missing.push("default");
+      }
+      statement.named.forEach((entry) => {
+        if (globals.named?.includes(entry.imported) && !entry.typeOnly && !statement.typeOnly) {
+          bindings.push({ local: entry.local, global: entry.imported });
+        } else {
+          missing.push(entry.imported);
+        }
+      });
+      if (missing.length > 0) {
+        manual.push({ line: statement.line, reason: `imports ${missing.join(", ")} with no built-in equivalent` });
+        return;
+      }
+      const end = statement.semicolon ? ";" : "";
+      const aliases = bindings
+        .filter((binding) => binding.local !== binding.global)
+        .map((binding) => `${statement.indent}const ${binding.local} = ${binding.global}${end}\n`);
+      edits.push({ start: statement.start, end: statement.end, text: aliases.join("") });
+      rewritten.push(statement.line);
+    });
+    const claimed = new Set([...rewritten, ...manual.map((entry) => entry.line)]);
+    return {
+      source: replaceRanges(source, edits),
+      rewritten,
+      manual: [...manual, ...unclaimedSites(sites, claimed, "import form not handled by the codemod")],
+    };
+  };
+}
+
+// null: no plain date-fns equivalent (day of year needs useAdditionalDayOfYearTokens), so the call stays manual.
+const MOMENT_TOKENS: Record<string, string | null> = {
+  YYYY: "yyyy", YY: "yy", Q: "Q", Qo: "Qo",
+  MMMM: "MMMM", MMM: "MMM", MM: "MM", Mo: "Mo", M: "M",
+  DDDD: null, DDD: null, Do: "do", DD: "dd", D: "d",
+  dddd: "EEEE", ddd: "EEE", dd: "EEEEEE", E: "i",
+  GGGG: "RRRR", WW: "II", W: "I",
+  HH: "HH", H: "H", hh: "hh", h: "h", kk: "kk", k: "k",
+  mm: "mm", m: "m", ss: "ss", s: "s", SSS: "SSS", SS: "SS", S: "S",
+  A: "a", a: "aaa", ZZ: "xx", Z: "xxx", X: "t", x: "T",
+};
+const MOMENT_TOKEN = new RegExp(
+  `\\[[^\\]]*\\]|${Object.keys(MOMENT_TOKENS).sort((a, b) => b.length - a.length).join("|")}|[A-Za-z]|[^A-Za-z[]+`,
+  "g",
+);
+
+export function translateMomentFormat(format: string): string | null {
+  let result = "";
+  for (const match of Array.from(format.matchAll(MOMENT_TOKEN))) {
+    const token = match[0];
+    if (token.startsWith("[")) {
+      result += `'${token.slice(1, -1).replace(/'/g, "''")}'`;
+    } else if (token in MOMENT_TOKENS) {
+      const translated = MOMENT_TOKENS[token];
+      if (translated === null) {
+        return null;
+      }
+      result += translated;
+    } else if (/^[A-Za-z]$/.test(token)) {
+      return null;
+    } else {
+      result += token.replace(/'/g, "''");
+    }
+  }
+  return result;
+}
+
+function momentToDateFns(source: string, sites: ExternalImport[]): FileRewrite {
+  const statements = findImportStatements(source, "moment", new Set(sites.map((site) => site.line)));
+  const binding = statements.find((statement) => statement.specifier === "moment" && !statement.typeOnly && (statement.defaultName || statement.namespace) && statement.named.length === 0);
+  if (!binding) {
+    return { source, rewritten: [], manual: unclaimedSites(sites, new Set(), "moment import form not handled by the codemod") };
+  }
+  const local = (binding.defaultName || binding.namespace) as string;
+  const code = maskComments(source);
+  const helpers = new Set<string>();
+  // A file that already has a `format` or `getUnixTime` of its own keeps those calls on moment.
+  const available = (name: string) => !new RegExp(`(?<![.\\w$])${name}(?![\\w$])`).test(code);
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const call = new RegExp(
+    `(?<![.\\w$])${escapeRegExp(local)}\\(\\s*\\)\\s*\\.\\s*(?:format\\(\\s*(["'])([^"'\\n]*)\\1\\s*\\)|(valueOf|toDate|toISOString|unix)\\(\\s*\\))`,
+    "g",
+  );
+  for (const match of Array.from(code.matchAll(call))) {
+    const [whole, quote, format, method] = match;
+    let text: string | null = null;
+    if (method === "valueOf") text = "Date.now()";
+    else if (method === "toDate") text = "new Date()";
+    else if (method === "toISOString") text = "new Date().toISOString()";
+    else if (method === "unix" && available("getUnixTime")) {
+      helpers.add("getUnixTime");
+      text = "getUnixTime(new Date())";
+    } else if (format !== undefined && available("format")) {
+      const translated = translateMomentFormat(format);
+      if (translated !== null) {
+        helpers.add("format");
+        text = `format(new Date(), ${quote}${translated.split(quote).join(`\\${quote}`)}${quote})`;
+      }
+    }
+    if (text !== null) edits.push({ start: match.index ?? 0, end: (match.index ?? 0) + whole.length, text });
+  }
+
+  const outside = (offset: number) =>
+    (offset < binding.start || offset >= binding.end) && !edits.some((edit) => offset >= edit.start && offset < edit.end);
+  const remaining = Array.from(code.matchAll(new RegExp(`(?<![.\\w$])${escapeRegExp(local)}(?![\\w$])`, "g")))
+    .map((match) => match.index ?? 0)
+    .filter(outside)
+    .map((offset) => lineAt(source, offset));
+  const manual = Array.from(new Set(remaining)).map((line) => ({ line, reason: "moment call with no deterministic date-fns rewrite" }));
+
+  const names = Array.from(helpers).sort();
+  const end = binding.semicolon ? ";" : "";
+  const q = binding.quote;
+  const helperImport = names.length === 0
+    ? ""
+    : binding.form === "require"
+      ? `${binding.indent}${binding.declaration} { ${names.join(", ")} } = require(${q}date-fns${q})${end}\n`
+      : `${binding.indent}import { ${names.join(", ")} } from ${q}date-fns${q}${end}\n`;
+  const rewritten = edits.map((edit) => lineAt(source, edit.start));
+  const keep = manual.length > 0 ? source.slice(binding.start, binding.end) : "";
+  edits.push({ start: binding.start, end: binding.end, text: `${keep}${helperImport}` });
+
+  return {
+    source: replaceRanges(source, edits),
+    rewritten: manual.length > 0 ? rewritten : [binding.line, ...rewritten],
+    manual: [...unclaimedSites(sites, new Set([binding.line]), "moment import form not handled by the codemod"), ...manual],
+  };
+}
+
+function noCodemod(from: string, to: string) {
+  return (source: string, sites: ExternalImport[]): FileRewrite => ({
+    source,
+    rewritten: [],
+    manual: sites.map((site) => ({ line: site.line, reason: `no codemod for ${from} → ${to}; rewrite by hand` })),
+  });
+}
+
+const FETCH_GLOBALS = { default: "fetch", named: ["Headers", "Request", "Response", "FormData", "Blob"] };
+
+const CODEMODS: MigrationCodemod[] = [
+  { from: "moment", to: "date-fns", description: "moment() now-calls to date-fns and built-in Date", rewrite: momentToDateFns },
+  {
+    from: "lodash",
+    to: "lodash-es",
+    description: "lodash imports to lodash-es",
+    rewrite: renameSpecifier("lodash-es", { esmOnly: true, unsupportedSubpaths: /^lodash\/fp(\/|$)/ }),
+  },
+  { from: "node-fetch", to: "fetch", builtin: true, description: "node-fetch imports to the global fetch", rewrite: replaceWithGlobals(FETCH_GLOBALS) },
+  { from: "cross-fetch", to: "fetch", builtin: true, description: "cross-fetch imports to the global fetch", rewrite: replaceWithGlobals(FETCH_GLOBALS) },
+  { from: "isomorphic-fetch", to: "fetch", builtin: true, description: "isomorphic-fetch polyfill imports removed", rewrite: replaceWithGlobals(FETCH_GLOBALS) },
+  { from: "object-assign", to: "Object.assign", builtin: true, description: "object-assign imports to Object.assign", rewrite: replaceWithGlobals({ default: "Object.assign" }) },
+];
+
+function findCodemod(from: string, to: string): MigrationCodemod | undefined {
+  return CODEMODS.find((codemod) => codemod.from === from && codemod.to.toLowerCase() === to.toLowerCase());
+}
+
+export function resolvePackageMigrations(config: BridgeConfig): PackageMigration[] {
+  return Object.entries(config.dependencies.migrations || {}).map(([from, to]) => {
+    const codemod = findCodemod(from, to);
+    return {
+      from,
+      to,
+      builtin: codemod?.builtin ?? (BUILTIN_TARGETS.has(to) || !NPM_PACKAGE_NAME.test(to)),
+      codemod: codemod?.description ?? null,
+    };
+  });
+}
+
+function siteText(lines: string[], line: number): string {
+  const text = (lines[line - 1] || "").trim();
+  return text.length > MAX_SITE_TEXT ? `${text.slice(0, MAX_SITE_TEXT - 1)}…` : text;
+}
+
+export async function applyPackageMigration(
+  workspacePath: string,
+  migration: PackageMigration,
+  onLog: (message: string) => void = () => {},
+): Promise<MigrationRewriteReport> {
+  const root = path.resolve(workspacePath);
+  const { graph } = await analyzeImportGraph(root);
+  const usage = await analyzeDependencyUsage(root, graph);
+  const codemod = findCodemod(migration.from, migration.to);
+  const rewrite = codemod?.rewrite ?? noCodemod(migration.from, migration.to);
+
+  const sitesByFile = new Map<string, ExternalImport[]>();
+  graph.externals
+    .filter((entry) => packageName(entry.specifier) === migration.from)
+    .forEach((entry) => sitesByFile.set(entry.from, [...(sitesByFile.get(entry.from) || []), entry]));
+
+  const report: MigrationRewriteReport = {
+    migration,
+    rewritten: [],
+    manual: [],
+    changedFiles: [],
+    manifests: usage.dependencies
+      .filter((dependency) => dependency.name === migration.from)
+      .map((dependency) => ({ manifest: dependency.manifest, field: dependency.field })),
+    removable: true,
+  };
+
+  const files = Array.from(sitesByFile.keys()).sort();
+  for (const file of files) {
+    const sites = (sitesByFile.get(file) || []).sort((a, b) => a.line - b.line);
+    const absolute = path.join(root, file);
+    const source = await fs.readFile(absolute, "utf8");
+    const result = rewrite(source, sites);
+    const lines = source.split(/\r?\n/);
+    Array.from(new Set(result.rewritten)).sort((a, b) => a - b).forEach((line) => {
+      report.rewritten.push({ file, line, text: siteText(lines, line) });
+    });
+    result.manual
+      .sort((a, b) => a.line - b.line)
+      .forEach(({ line, reason }) => report.manual.push({ file, line, text: siteText(lines, line), reason }));
+    if (result.source !== source) {
+      await fs.writeFile(absolute, result.source, "utf8");
+      report.changedFiles.push(file);
+      onLog(`Rewrote ${file} (${result.rewritten.length} site(s))`);
+    }
+  }
+
+  report.removable = report.manual.length === 0;
+  return report;
+}
+
+export function renderMigrationReport(report: MigrationRewriteReport): string {
+  const { migration } = report;
+  const site = (entry: MigrationSite) => `- \`${entry.file}:${entry.line}\` \`${entry.text.replace(/`/g, "'")}\``;
+  const lines = [
+    `Codemod: ${migration.codemod ?? "none registered; every site needs manual migration"}.`,
+    "",
+    `### Rewritten (${report.rewritten.length})`,
+    ...(report.rewritten.length ? report.rewritten.map(site) : ["- none"]),
+    "",
+    `### Needs manual follow-up (${report.manual.length})`,
+    ...(report.manual.length ? report.manual.map((entry) => `${site(entry)} — ${entry.reason}`) : ["- none"]),
+  ];
+  if (!report.removable) {
+    lines.push("", `\`${migration.from}\` stays in package.json until the sites above are migrated.`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,281 @@
+import { readFileSync } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export const ALWAYS_EXCLUDED = [".git", "node_modules", ".bridge"];
+
+export interface PathFilterOptions {
+  include?: string[];
+  exclude?: string[];
+  gitignore?: boolean;
+}
+
+export interface PathFilterSummary {
+  include: string[];
+  exclude: string[];
+  gitignore: boolean;
+  gitignoreFiles: string[];
+}
+
+export interface PathFilter {
+  readonly root: string;
+  ignoresDirectory(relativePath: string): boolean;
+  includesFile(relativePath: string): boolean;
+  topLevelTargets(): Promise<string[]>;
+  excludeRegExpSource(): string;
+  includeRegExpSource(): string | null;
+  summary(): PathFilterSummary;
+}
+
+interface PathRule {
+  negate: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;
+  base: string;
+}
+
+function toPosix(relativePath: string): string {
+  return relativePath.split(path.sep).join("/").replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+export function globToRegExpSource(glob: string): string {
+  let source = "";
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+
+    if (char === "*") {
+      if (glob[index + 1] === "*") {
+        const atSegmentStart = index === 0 || glob[index - 1] === "/";
+        const next = glob[index + 2];
+        if (atSegmentStart && next === "/") {
+          source += "(?:.*/)?";
+          index += 2;
+        } else {
+          source += ".*";
+          index += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+      continue;
+    }
+
+    if (char === "?") {
+      source += "[^/]";
+      continue;
+    }
+
+    if (char === "[") {
+      const close = glob.indexOf("]", index + 1);
+      if (close > index + 1) {
+        const body = glob.slice(index + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        index = close;
+        continue;
+      }
+    }
+
+    if (char === "\\" && index + 1 < glob.length) {
+      index += 1;
+      source += glob[index].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      continue;
+    }
+
+    source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  }
+  return source;
+}
+
+function parseRule(line: string, base: string): PathRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) {
+    return null;
+  }
+
+  let negate = false;
+  if (pattern.startsWith("!")) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith("/");
+  pattern = pattern.replace(/\/+$/, "");
+  if (!pattern) {
+    return null;
+  }
+
+  // As in .gitignore, a pattern with an inner slash is anchored; a bare name matches at any depth.
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\/+/, "");
+  const source = anchored ? globToRegExpSource(pattern) : `(?:.*/)?${globToRegExpSource(pattern)}`;
+
+  return { negate, directoryOnly, regex: new RegExp(`^${source}$`), base };
+}
+
+function parseRules(lines: string[], base = ""): PathRule[] {
+  return lines.map((line) => parseRule(line, base)).filter((rule): rule is PathRule => rule !== null);
+}
+
+function ruleMatches(rule: PathRule, relativePath: string, isDirectory: boolean): boolean {
+  if (rule.directoryOnly && !isDirectory) {
+    return false;
+  }
+  if (rule.base) {
+    if (!relativePath.startsWith(`${rule.base}/`)) {
+      return false;
+    }
+    return rule.regex.test(relativePath.slice(rule.base.length + 1));
+  }
+  return rule.regex.test(relativePath);
+}
+
+function lastMatch(rules: PathRule[], relativePath: string, isDirectory: boolean): boolean {
+  let matched = false;
+  for (const rule of rules) {
+    if (ruleMatches(rule, relativePath, isDirectory)) {
+      matched = !rule.negate;
+    }
+  }
+  return matched;
+}
+
+function ancestors(relativePath: string): string[] {
+  const segments = relativePath.split("/");
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join("/"));
+}
+
+function readLines(filePath: string): string[] | null {
+  try {
+    return readFileSync(filePath, "utf-8").split(/\r?\n/);
+  } catch {
+    return null;
+  }
+}
+
+export function createPathFilter(repoPath: string, options: PathFilterOptions = {}): PathFilter {
+  const root = path.resolve(repoPath);
+  const exclude = [...ALWAYS_EXCLUDED, ...(options.exclude || [])].filter(
+    (pattern, index, all) => pattern.trim() && all.indexOf(pattern) === index,
+  );
+  const include = (options.include || []).filter((pattern) => pattern.trim());
+  const useGitignore = options.gitignore !== false;
+
+  const excludeRules = parseRules(exclude);
+  const includeRules = parseRules(include);
+  const gitignoreFiles: string[] = [];
+  const gitignoreRules = new Map<string, PathRule[]>();
+
+  const rulesFor = (directory: string): PathRule[] => {
+    const cached = gitignoreRules.get(directory);
+    if (cached) {
+      return cached;
+    }
+    const lines = readLines(path.join(root, directory, ".gitignore"));
+    const rules = lines ? parseRules(lines, directory) : [];
+    if (lines) {
+      gitignoreFiles.push(directory ? `${directory}/.gitignore` : ".gitignore");
+    }
+    if (!directory) {
+      const infoExclude = readLines(path.join(root, ".git", "info", "exclude"));
+      if (infoExclude) {
+        rules.unshift(...parseRules(infoExclude));
+      }
+    }
+    gitignoreRules.set(directory, rules);
+    return rules;
+  };
+
+  const gitignored = (relativePath: string, isDirectory: boolean): boolean => {
+    if (!useGitignore) {
+      return false;
+    }
+    const directories = ["", ...ancestors(relativePath)];
+    return lastMatch(directories.flatMap(rulesFor), relativePath, isDirectory);
+  };
+
+  const excludedItself = (relativePath: string, isDirectory: boolean): boolean =>
+    lastMatch(excludeRules, relativePath, isDirectory) || gitignored(relativePath, isDirectory);
+
+  const directoryCache = new Map<string, boolean>();
+  const excludedDirectory = (relativePath: string): boolean => {
+    let excluded = directoryCache.get(relativePath);
+    if (excluded === undefined) {
+      excluded = excludedItself(relativePath, true);
+      directoryCache.set(relativePath, excluded);
+    }
+    return excluded;
+  };
+
+  const ignoresDirectory = (relativePath: string): boolean => {
+    const normalized = toPosix(relativePath);
+    if (!normalized) {
+      return false;
+    }
+    return [...ancestors(normalized), normalized].some(excludedDirectory);
+  };
+
+  const includesFile = (relativePath: string): boolean => {
+    const normalized = toPosix(relativePath);
+    if (!normalized || normalized.startsWith("../")) {
+      return false;
+    }
+    if (ancestors(normalized).some(excludedDirectory)) {
+      return false;
+    }
+    if (excludedItself(normalized, false)) {
+      return false;
+    }
+    if (includeRules.length === 0) {
+      return true;
+    }
+    return (
+      lastMatch(includeRules, normalized, false) ||
+      ancestors(normalized).some((directory) => lastMatch(includeRules, directory, true))
+    );
+  };
+
+  const toRegExpSource = (patterns: string[]): string =>
+    patterns
+      .filter((pattern) => !pattern.startsWith("!"))
+      .map((pattern) => {
+        const trimmed = pattern.replace(/\/+$/, "");
+        const anchored = trimmed.includes("/");
+        const body = globToRegExpSource(trimmed.replace(/^\/+/, ""));
+        return anchored ? `^${body}(?:/|$)` : `(?:^|/)${body}(?:/|$)`;
+      })
+      .join("|");
+
+  return {
+    root,
+    ignoresDirectory,
+    includesFile,
+    async topLevelTargets() {
+      const entries = await fs.readdir(root, { withFileTypes: true }).catch(() => []);
+      return entries
+        .filter((entry) => (entry.isDirectory() ? !ignoresDirectory(entry.name) : includesFile(entry.name)))
+        .map((entry) => entry.name)
+        .sort();
+    },
+    excludeRegExpSource: () => toRegExpSource(exclude),
+    includeRegExpSource: () => (include.length > 0 ? toRegExpSource(include) : null),
+    summary: () => ({
+      include: [...include],
+      exclude: [...exclude],
+      gitignore: useGitignore,
+      gitignoreFiles: [...gitignoreFiles].sort(),
+    }),
+  };
+}
+
+export function pathFilterFromConfig(
+  repoPath: string,
+  scan: { include?: string[]; exclude?: string[]; gitignore?: boolean },
+): PathFilter {
+  return createPathFilter(repoPath, {
+    include: scan.include,
+    exclude: scan.exclude,
+    gitignore: scan.gitignore,
+  });
+}
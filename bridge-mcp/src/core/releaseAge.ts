@@ -0,0 +1,234 @@
+import { execFile } from "node:child_process";
+import path from "node:path";
+import { promisify } from "node:util";
+import semver from "semver";
+import { resolveMinReleaseAgeDays, type BridgeConfig } from "./bridgeConfig.js";
+import { cachePath, ensureBridgeDir, readJsonFile, writeJsonFile } from "./cache.js";
+
+const execFileAsync = promisify(execFile);
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const FETCH_CONCURRENCY = 4;
+
+export const REGISTRY_METADATA_CACHE_FILE = "registry-metadata.json";
+export const REGISTRY_METADATA_DIR_ENV = "BRIDGE_REGISTRY_METADATA_DIR";
+
+export interface PackageRegistryMetadata {
+  time: Record<string, string>;
+  versions: string[];
+  distTags: Record<string, string>;
+  repository?: string;
+  homepage?: string;
+}
+
+export interface RegistryMetadataSource {
+  cacheable: boolean;
+  fetch(packageName: string, repoPath: string): Promise<PackageRegistryMetadata | null>;
+}
+
+export interface SkippedRelease {
+  version: string;
+  publishedAt: string;
+}
+
+export interface ReleaseCooldown {
+  minReleaseAgeDays: number;
+  skipped: SkippedRelease[];
+  unresolved?: boolean;
+}
+
+interface CooldownCandidate {
+  name: string;
+  current: string;
+  wanted: string;
+  latest: string;
+}
+
+interface MetadataCacheEntry {
+  fetchedAt: number;
+  metadata: PackageRegistryMetadata;
+}
+
+// `npm view --json` prints a bare string when a package has a single version.
+function normalizeMetadata(payload: unknown): PackageRegistryMetadata | null {
+  if (!payload || typeof payload !== "object") {
+    return null;
+  }
+  const record = payload as Record<string, unknown>;
+  const time = record.time && typeof record.time === "object" ? (record.time as Record<string, string>) : {};
+  const versions = Array.isArray(record.versions)
+    ? record.versions.map(String)
+    : typeof record.versions === "string"
+      ? [record.versions]
+      : Object.keys(time).filter(version => semver.valid(version));
+  const tags = record["dist-tags"] ?? record.distTags;
+  const repository = record.repository as { url?: unknown } | string | undefined;
+  const repositoryUrl = typeof repository === "string" ? repository : repository?.url;
+  return {
+    time,
+    versions,
+    distTags: tags && typeof tags === "object" ? (tags as Record<string, string>) : {},
+    repository: typeof repositoryUrl === "string" ? repositoryUrl : undefined,
+    homepage: typeof record.homepage === "string" ? record.homepage : undefined,
+  };
+}
+
+export const npmRegistrySource: RegistryMetadataSource = {
+  cacheable: true,
+  async fetch(packageName, repoPath) {
+    try {
+      const { stdout } = await execFileAsync("npm", ["view", packageName, "time", "versions", "dist-tags", "repository", "homepage", "--json"], {
+        cwd: repoPath,
+        timeout: 30_000,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      return normalizeMetadata(JSON.parse(stdout));
+    } catch {
+      return null;
+    }
+  },
+};
+
+export function createDirectoryRegistrySource(dir: string): RegistryMetadataSource {
+  return {
+    cacheable: false,
+    async fetch(packageName) {
+      const payload = await readJsonFile<unknown>(path.join(dir, `${packageName.replace("/", "__")}.json`));
+      return normalizeMetadata(payload);
+    },
+  };
+}
+
+let registrySource: RegistryMetadataSource | null = null;
+
+export function setRegistryMetadataSource(source: RegistryMetadataSource | null): void {
+  registrySource = source;
+}
+
+function activeSource(): RegistryMetadataSource {
+  if (registrySource) {
+    return registrySource;
+  }
+  const dir = process.env[REGISTRY_METADATA_DIR_ENV];
+  return dir ? createDirectoryRegistrySource(dir) : npmRegistrySource;
+}
+
+export async function loadRegistryMetadata(
+  repoPath: string,
+  packageNames: string[],
+  now = Date.now(),
+): Promise<Map<string, PackageRegistryMetadata>> {
+  const source = activeSource();
+  const result = new Map<string, PackageRegistryMetadata>();
+  const target = cachePath(repoPath, REGISTRY_METADATA_CACHE_FILE);
+  const cache = source.cacheable ? (await readJsonFile<Record<string, MetadataCacheEntry>>(target)) || {} : {};
+  const pending = Array.from(new Set(packageNames)).filter(name => {
+    const cached = cache[name];
+    if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
+      result.set(name, cached.metadata);
+      return false;
+    }
+    return true;
+  });
+
+  let fetched = 0;
+  const worker = async (): Promise<void> => {
+    for (let name = pending.shift(); name !== undefined; name = pending.shift()) {
+      const metadata = await source.fetch(name, repoPath);
+      if (metadata) {
+        result.set(name, metadata);
+        cache[name] = { fetchedAt: now, metadata };
+        fetched += 1;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, pending.length) }, worker));
+
+  if (source.cacheable && fetched > 0) {
+    await ensureBridgeDir(repoPath)
+      .then(() => writeJsonFile(target, cache))
+      .catch(() => undefined);
+  }
+  return result;
+}
+
+export function selectEligibleVersions(
+  pkg: CooldownCandidate,
+  metadata: PackageRegistryMetadata,
+  minReleaseAgeDays: number,
+  now = Date.now(),
+): { wanted: string; latest: string; skipped: SkippedRelease[] } {
+  const cutoff = now - minReleaseAgeDays * DAY_MS;
+  const allowPrerelease = Boolean(semver.prerelease(pkg.current));
+  const newer = metadata.versions
+    .filter(version => semver.valid(version) && semver.gt(version, pkg.current) && semver.lte(version, pkg.latest))
+    .filter(version => allowPrerelease || !semver.prerelease(version))
+    .sort(semver.rcompare);
+
+  const skipped: SkippedRelease[] = [];
+  const eligible: string[] = [];
+  newer.forEach(version => {
+    const publishedAt = metadata.time[version];
+    const published = publishedAt ? Date.parse(publishedAt) : Number.NaN;
+    if (Number.isFinite(published) && published <= cutoff) {
+      eligible.push(version);
+    } else {
+      skipped.push({ version, publishedAt: publishedAt || "" });
+    }
+  });
+
+  const wantedBound = semver.valid(pkg.wanted) ? pkg.wanted : pkg.current;
+  return {
+    wanted: eligible.find(version => semver.lte(version, wantedBound)) ?? pkg.current,
+    latest: eligible[0] ?? pkg.current,
+    skipped,
+  };
+}
+
+export async function applyReleaseCooldown<T extends CooldownCandidate>(
+  repoPath: string,
+  dependencies: BridgeConfig["dependencies"],
+  packages: T[],
+  now = Date.now(),
+): Promise<Array<T & { cooldown?: ReleaseCooldown }>> {
+  const subject = packages.filter(
+    pkg => resolveMinReleaseAgeDays(dependencies, pkg.name) > 0 && semver.valid(pkg.current) && semver.valid(pkg.latest),
+  );
+  if (subject.length === 0) {
+    return packages;
+  }
+
+  const metadata = await loadRegistryMetadata(
+    repoPath,
+    subject.map(pkg => pkg.name),
+    now,
+  );
+  return packages.map(pkg => {
+    if (!subject.includes(pkg)) {
+      return pkg;
+    }
+    const minReleaseAgeDays = resolveMinReleaseAgeDays(dependencies, pkg.name);
+    const entry = metadata.get(pkg.name);
+    if (!entry) {
+      const skipped = Array.from(new Set([pkg.latest, pkg.wanted]))
+        .filter(version => semver.valid(version) && semver.gt(version, pkg.current))
+        .map(version => ({ version, publishedAt: "" }));
+      return { ...pkg, wanted: pkg.current, latest: pkg.current, cooldown: { minReleaseAgeDays, skipped, unresolved: true } };
+    }
+    const { wanted, latest, skipped } = selectEligibleVersions(pkg, entry, minReleaseAgeDays, now);
+    return { ...pkg, wanted, latest, cooldown: { minReleaseAgeDays, skipped } };
+  });
+}
+
+export function describeSkippedReleases(cooldown: ReleaseCooldown, now = Date.now()): string {
+  return cooldown.skipped
+    .map(({ version, publishedAt }) => {
+      const published = Date.parse(publishedAt);
+      if (!Number.isFinite(published)) {
+        return `${version} (publish time unknown)`;
+      }
+      const days = Math.max(0, Math.floor((now - published) / DAY_MS));
+      return `${version} (published ${days === 0 ? "today" : `${days} day${days === 1 ? "" : "s"} ago`})`;
+    })
+    .join(", ");
+}
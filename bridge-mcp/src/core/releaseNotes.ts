@@ -0,0 +1,274 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import semver from "semver";
+import { formatSizeDelta, newInstallScripts, type LockfileDiff, type LockfilePackageChange } from "./lockfileDiff.js";
+import { loadRegistryMetadata } from "./releaseAge.js";
+
+const CHANGELOG_FILES = ["changelog.md", "history.md", "changes.md", "releases.md", "changelog", "history", "changes"];
+const MAX_SECTION_CHARS = 4000;
+const MAX_SECTIONS_PER_PACKAGE = 10;
+const MAX_BREAKING_LINES = 15;
+const MAX_LISTED_LOCKFILE_CHANGES = 50;
+// GitHub rejects PR bodies over 65536 characters; leave room for the rest of the body.
+const MAX_DIGEST_CHARS = 50_000;
+const VERSION_IN_HEADING = /(?:^|[\s[(v])v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)(?=$|[\s\])/:,])/;
+
+export interface ReleaseNoteSection {
+  version: string;
+  body: string;
+}
+
+export interface PackageReleaseNotes {
+  name: string;
+  from: string;
+  to: string;
+  source: "changelog" | "registry" | "none";
+  file?: string;
+  sections: ReleaseNoteSection[];
+  breaking: string[];
+  url?: string;
+}
+
+interface Heading {
+  line: number;
+  level: number;
+  text: string;
+}
+
+function findHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  lines.forEach((line, index) => {
+    const atx = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (atx) {
+      headings.push({ line: index, level: atx[1].length, text: atx[2] });
+      return;
+    }
+    const underline = lines[index + 1];
+    if (line.trim() && underline && /^(=+|-+)\s*$/.test(underline) && underline.trim().length >= 3) {
+      headings.push({ line: index, level: underline.trim().startsWith("=") ? 1 : 2, text: line.trim() });
+    }
+  });
+  return headings;
+}
+
+export function parseChangelog(content: string): ReleaseNoteSection[] {
+  const lines = content.split(/\r?\n/);
+  const headings = findHeadings(lines)
+    .map(heading => ({ ...heading, version: VERSION_IN_HEADING.exec(heading.text)?.[1] }))
+    .filter(heading => heading.version && semver.valid(heading.version));
+  if (headings.length === 0) {
+    return [];
+  }
+  const level = Math.min(...headings.map(heading => heading.level));
+  const versionHeadings = headings.filter(heading => heading.level === level);
+  const allHeadings = findHeadings(lines);
+
+  return versionHeadings.map((heading, index) => {
+    const nextVersion = versionHeadings[index + 1]?.line ?? lines.length;
+    const shallower = allHeadings.find(other => other.line > heading.line && other.line < nextVersion && other.level < level);
+    const end = shallower?.line ?? nextVersion;
+    const start = lines[heading.line + 1] && /^(=+|-+)\s*$/.test(lines[heading.line + 1]) ? heading.line + 2 : heading.line + 1;
+    return { version: heading.version as string, body: lines.slice(start, end).join("\n").trim() };
+  });
+}
+
+export function extractBreakingChanges(body: string): string[] {
+  const lines = body.split(/\r?\n/);
+  const breaking: string[] = [];
+  let inBreakingSection = false;
+  let sectionLevel = 0;
+  lines.forEach(line => {
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      if (inBreakingSection && heading[1].length <= sectionLevel) {
+        inBreakingSection = false;
+      }
+      if (/breaking/i.test(heading[2])) {
+        inBreakingSection = true;
+        sectionLevel = heading[1].length;
+      }
+      return;
+    }
+    const text = line.trim();
+    if (!text) {
+      return;
+    }
+    if (inBreakingSection || /^[-*+]\s+.*\bbreaking\b/i.test(text)) {
+      breaking.push(text.replace(/^[-*+]\s+/, ""));
+    }
+  });
+  return breaking;
+}
+
+async function findChangelog(packageDir: string): Promise<string | null> {
+  const entries = await fs.readdir(packageDir).catch(() => [] as string[]);
+  for (const candidate of CHANGELOG_FILES) {
+    const match = entries.find(entry => entry.toLowerCase() === candidate);
+    if (match) {
+      return path.join(packageDir, match);
+    }
+  }
+  return null;
+}
+
+function releasesUrl(repository: string | undefined, homepage: string | undefined): string | undefined {
+  const match = repository && (
+    /github\.com[/:]([^/]+)\/([^/#]+?)(?:\.git)?(?:#.*)?$/.exec(repository) ||
+    /^(?:github:)?([\w.-]+)\/([\w.-]+?)(?:\.git)?$/.exec(repository)
+  );
+  if (match) {
+    return `https://github.com/${match[1]}/${match[2]}/releases`;
+  }
+  return homepage || undefined;
+}
+
+export async function collectReleaseNotes(
+  workspacePath: string,
+  changes: Array<{ name: string; from: string; to: string }>,
+): Promise<PackageReleaseNotes[]> {
+  const notes: PackageReleaseNotes[] = [];
+  const needsRegistry: PackageReleaseNotes[] = [];
+
+  for (const change of changes) {
+    const from = semver.coerce(change.from)?.version;
+    const to = semver.valid(change.to) ? change.to : semver.coerce(change.to)?.version;
+    const entry: PackageReleaseNotes = { ...change, source: "none", sections: [], breaking: [] };
+    notes.push(entry);
+    if (!from || !to) {
+      needsRegistry.push(entry);
+      continue;
+    }
+
+    const changelog = await findChangelog(path.join(workspacePath, "node_modules", change.name));
+    const content = changelog ? await fs.readFile(changelog, "utf8").catch(() => "") : "";
+    const sections = parseChangelog(content)
+      .filter(section => semver.gt(section.version, from) && semver.lte(section.version, to))
+      .sort((a, b) => semver.rcompare(a.version, b.version));
+    if (sections.length === 0) {
+      needsRegistry.push(entry);
+      continue;
+    }
+
+    entry.source = "changelog";
+    entry.file = path.relative(path.join(workspacePath, "node_modules", change.name), changelog as string);
+    entry.sections = sections.slice(0, MAX_SECTIONS_PER_PACKAGE).map(section => ({
+      version: section.version,
+      body: section.body.length > MAX_SECTION_CHARS ? `${section.body.slice(0, MAX_SECTION_CHARS)}\n…` : section.body,
+    }));
+    entry.breaking = sections.flatMap(section => extractBreakingChanges(section.body)).slice(0, MAX_BREAKING_LINES);
+  }
+
+  if (needsRegistry.length > 0) {
+    const metadata = await loadRegistryMetadata(
+      workspacePath,
+      needsRegistry.map(entry => entry.name),
+    ).catch(() => new Map());
+    needsRegistry.forEach(entry => {
+      const info = metadata.get(entry.name);
+      const url = info ? releasesUrl(info.repository, info.homepage) : undefined;
+      if (url) {
+        entry.source = "registry";
+        entry.url = url;
+      }
+    });
+  }
+
+  return notes;
+}
+
+export function summarizeReleaseNotes(notes: PackageReleaseNotes[]): string[] {
+  return notes.map(note => {
+    const jump = `${note.name} ${note.from} → ${note.to}`;
+    if (note.source === "changelog") {
+      const breaking = note.breaking.length > 0 ? `, ${note.breaking.length} breaking change note(s)` : "";
+      return `Release notes: ${jump} (${note.sections.length} release(s) from ${note.file}${breaking})`;
+    }
+    return note.url ? `Release notes: ${jump} (no changelog shipped; see ${note.url})` : `Release notes: ${jump} (none found)`;
+  });
+}
+
+function describeChange(change: LockfilePackageChange): string {
+  const notes = [
+    change.sizeBefore !== undefined || change.sizeAfter !== undefined
+      ? formatSizeDelta((change.sizeAfter ?? 0) - (change.sizeBefore ?? 0))
+      : "",
+    change.newInstallScript ? "adds install script" : "",
+  ].filter(Boolean);
+  return notes.length > 0 ? ` (${notes.join(", ")})` : "";
+}
+
+function renderLockfileDiff(diff: LockfileDiff, directPackages: string[]): string[] {
+  const scripts = newInstallScripts(diff);
+  const header = [
+    ...(scripts.length > 0 ? ["### New install scripts", ...scripts.map(name => `- ${name}`), ""] : []),
+    "### Transitive lockfile changes",
+  ];
+  const transitive = (change: { name: string }) => !directPackages.includes(change.name);
+  const added = diff.added.filter(transitive);
+  const removed = diff.removed.filter(transitive);
+  const changed = diff.changed.filter(transitive);
+  const total = added.length + removed.length + changed.length;
+  if (total === 0) {
+    return [...header, `No transitive changes in \`${diff.lockfile}\`.`];
+  }
+  const rows = [
+    ...changed.map(change => `- ${change.name}: ${change.from} → ${change.to}${describeChange(change)}`),
+    ...added.map(change => `- ${change.name}: added ${change.to}${describeChange(change)}`),
+    ...removed.map(change => `- ${change.name}: removed ${change.from}${describeChange(change)}`),
+  ];
+  const size = diff.sizeDelta !== undefined ? ` Tarball size across the lockfile: ${formatSizeDelta(diff.sizeDelta)}.` : "";
+  return [
+    ...header,
+    `${changed.length} changed, ${added.length} added, ${removed.length} removed in \`${diff.lockfile}\`.${size}`,
+    "",
+    "<details>",
+    "<summary>Transitive packages</summary>",
+    "",
+    ...rows.slice(0, MAX_LISTED_LOCKFILE_CHANGES),
+    ...(rows.length > MAX_LISTED_LOCKFILE_CHANGES ? [`- …and ${rows.length - MAX_LISTED_LOCKFILE_CHANGES} more`] : []),
+    "",
+    "</details>",
+  ];
+}
+
+export function renderReleaseDigest(notes: PackageReleaseNotes[], lockfile: LockfileDiff | null = null): string {
+  const lines: string[] = [];
+  const breaking = notes.filter(note => note.breaking.length > 0);
+  if (breaking.length > 0) {
+    lines.push("### Breaking changes", "");
+    breaking.forEach(note => {
+      lines.push(`**${note.name}** ${note.from} → ${note.to}`);
+      note.breaking.forEach(line => lines.push(`- ${line}`));
+      lines.push("");
+    });
+  }
+
+  if (notes.length > 0) {
+    lines.push("### Release notes", "");
+    notes.forEach(note => {
+      const summary = `${note.name} ${note.from} → ${note.to}`;
+      if (note.source !== "changelog") {
+        lines.push(note.url ? `- ${summary}: no changelog shipped, see ${note.url}` : `- ${summary}: no release notes found`, "");
+        return;
+      }
+      lines.push("<details>", `<summary>${summary}</summary>`, "");
+      note.sections.forEach(section => {
+        const body = section.body.replace(/^(#{1,6})(?=\s)/gm, hashes => "#".repeat(Math.min(6, hashes.length + 4)));
+        lines.push(`#### ${section.version}`, "", body || "_No notes._", "");
+      });
+      lines.push("</details>", "");
+    });
+  }
+
+  if (lockfile) {
+    lines.push(...renderLockfileDiff(lockfile, notes.map(note => note.name)));
+  }
+
+  const digest = lines.join("\n").trim();
+  if (digest.length <= MAX_DIGEST_CHARS) {
+    return digest;
+  }
+  const truncated = digest.slice(0, MAX_DIGEST_CHARS);
+  const unclosed = (truncated.match(/<details>/g) || []).length - (truncated.match(/<\/details>/g) || []).length;
+  return `${truncated}\n${unclosed > 0 ? "\n</details>\n" : ""}\n_Release notes truncated; see each package's changelog._`;
+}
@@ -3,6 +3,34 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { promisify } from "node:util";
 import semver from "semver";
+import { isOfflineModeRequested, runOfflineAudit, type AdvisoryEcosystem, type OfflineAuditSource } from "./advisoryStore.js";
+import { evaluateArchitectureRules, type ArchitectureViolation } from "./architectureRules.js";
+import type { BaselineComparison } from "./baseline.js";
+import { loadBridgeConfig, type BridgeConfig } from "./bridgeConfig.js";
+import { analyzeComplexity, type ComplexityReport } from "./complexity.js";
+import { analyzeDependencyFreshness, type DependencyFreshness } from "./dependencyFreshness.js";
+import { detectNodePackageManager, type PackageManager } from "./dependencyUpdate.js";
+import { analyzeDependencyUsage, type DependencyUsageReport } from "./dependencyUsage.js";
+import { analyzeImportGraph, type ImportGraph } from "./importGraph.js";
+import { pathFilterFromConfig, type PathFilter } from "./pathFilter.js";
+import { applyReleaseCooldown, type ReleaseCooldown } from "./releaseAge.js";
+import { readDeclaredDependencies, type DeclaredDependency } from "./requiredPackages.js";
+import {
+  createSuppressionMatcher,
+  cycleSuppressionFingerprint,
+  deadFileSuppressionFingerprint,
+  suppressVulnerablePackages,
+  unusedExportSuppressionFingerprint,
+  type SuppressionMatcher,
+  type SuppressionReport,
+} from "./suppressions.js";
+import {
+  analyzeVulnerabilityReachability,
+  vulnerablePackagesFromAdvisoryMatches,
+  vulnerablePackagesFromNpmAudit,
+  type VulnerabilityReachabilityReport,
+  type VulnerablePackage,
+} from "./vulnerabilityReachability.js";
 
 const execFileAsync = promisify(execFile);
 const DEFAULT_TIMEOUT_MS = 30_000;
@@ -18,11 +46,21 @@ export interface OutdatedPackage {
   location?: string;
   dependencyType?: string;
   updateType: UpdateType;
+  cooldown?: ReleaseCooldown;
+}
+
+export interface VulnerabilityCounts {
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  total: number;
+  offline?: OfflineAuditSource;
 }
 
 export interface RepoAnalysis {
   outdated: OutdatedPackage[];
-  vulnerabilities: { critical: number; high: number; medium: number; low: number; total: number };
+  vulnerabilities: VulnerabilityCounts;
   fileStats: { totalFiles: number; totalLines: number; largestFiles: { path: string; lines: number }[] };
   hasTests: boolean;
   hasTestFiles: boolean;
@@ -35,6 +73,33 @@ export interface RepoAnalysis {
   readmeExists: boolean;
   readmeWordCount: number;
   dependencyNames: string[];
+  coveragePercentage?: number | null;
+  buildCommand?: string | null;
+  hasChangelog?: boolean;
+  readmeDaysSinceUpdate?: number | null;
+  deadCode?: { deadFiles: number; unusedExports: number } | null;
+  deadCodeItems?: { deadFiles: string[]; unusedExports: Array<{ file: string; exportName: string }> } | null;
+  bundle?: { totalBytes: number; deltaPercent: number | null } | null;
+  circularCycles?: string[][];
+  architectureViolations?: ArchitectureViolation[] | null;
+  complexity?: ComplexityReport | null;
+  duplication?: { percentage: number; clonePairs: number; threshold: number } | null;
+  baseline?: BaselineComparison | null;
+  importedFindings?: { critical: number; high: number; medium: number; low: number; tools: string[] } | null;
+  declaredDependencies?: DeclaredDependency[] | null;
+  dependencyFreshness?: DependencyFreshness[] | null;
+  dependencyUsage?: {
+    unused: Array<{ name: string; manifest: string }>;
+    undeclared: Array<{ name: string; manifest: string }>;
+  } | null;
+  vulnerabilityReachability?: VulnerabilityReachabilityReport | null;
+  suppressions?: SuppressionReport | null;
+  packageManager?: PackageManager;
+}
+
+interface VulnerabilityAudit {
+  counts: VulnerabilityCounts;
+  packages: VulnerablePackage[];
 }
 
 interface CommandResult {
@@ -193,19 +258,20 @@ async function loadPackageJson(repoPath: string): Promise<PackageJsonInfo> {
   }
 }
 
-async function analyzeOutdated(repoPath: string): Promise<OutdatedPackage[]> {
+async function analyzeOutdated(repoPath: string, config: BridgeConfig): Promise<OutdatedPackage[]> {
   if (!(await pathExists(path.join(repoPath, "package.json")))) {
     return [];
   }
 
-  const result = await runCommand("npm", ["outdated", "--json"], repoPath);
+  // --long adds the `type` field (dependencies, devDependencies, ...) used by per-type policies.
+  const result = await runCommand("npm", ["outdated", "--json", "--long"], repoPath);
   const payload = safeJsonParse<Record<string, any>>(result.stdout || result.stderr);
 
   if (!payload || typeof payload !== "object") {
     return [];
   }
 
-  return Object.entries(payload)
+  const outdated = Object.entries(payload)
     .map(([name, value]) => {
       if (!value || typeof value !== "object") {
         return null;
@@ -237,21 +303,18 @@ async function analyzeOutdated(repoPath: string): Promise<OutdatedPackage[]> {
       } as OutdatedPackage;
     })
     .filter((item): item is OutdatedPackage => Boolean(item));
-}
 
-async function analyzeVulnerabilities(
-  repoPath: string,
-): Promise<{ critical: number; high: number; medium: number; low: number; total: number }> {
-  if (!(await pathExists(path.join(repoPath, "package.json")))) {
-    return { critical: 0, high: 0, medium: 0, low: 0, total: 0 };
-  }
+  const cooledDown = await applyReleaseCooldown(repoPath, config.dependencies, outdated);
+  return cooledDown.map(pkg => (pkg.cooldown ? { ...pkg, updateType: classifyUpdateType(pkg.current, pkg.latest) } : pkg));
+}
 
+async function analyzeNpmAudit(repoPath: string): Promise<VulnerabilityAudit | null> {
   const result = await runCommand("npm", ["audit", "--json"], repoPath);
   const payload = safeJsonParse<Record<string, any>>(result.stdout || result.stderr);
   const vulnerabilities = payload?.metadata?.vulnerabilities;
 
   if (!vulnerabilities || typeof vulnerabilities !== "object") {
-    return { critical: 0, high: 0, medium: 0, low: 0, total: 0 };
+    return null;
   }
 
   const critical = Number(vulnerabilities.critical ?? 0) || 0;
@@ -260,21 +323,33 @@ async function analyzeVulnerabilities(
   const low = Number(vulnerabilities.low ?? vulnerabilities.info ?? 0) || 0;
   const total = Number(vulnerabilities.total ?? critical + high + medium + low) || 0;
 
-  return { critical, high, medium, low, total };
+  return { counts: { critical, high, medium, low, total }, packages: vulnerablePackagesFromNpmAudit(payload) };
 }
 
-const IGNORED_DIRECTORIES = new Set([
-  "node_modules",
-  ".git",
-  "dist",
-  "dist-electron",
-  "build",
-  "coverage",
-  ".next",
-  ".bridge",
-  "out",
-  "releases",
-]);
+async function analyzeVulnerabilities(repoPath: string): Promise<VulnerabilityAudit> {
+  const npmAudit = !isOfflineModeRequested() && (await pathExists(path.join(repoPath, "package.json")))
+    ? await analyzeNpmAudit(repoPath)
+    : null;
+  const ecosystems: AdvisoryEcosystem[] = npmAudit ? ["PyPI", "RubyGems", "Hex"] : ["npm", "PyPI", "RubyGems", "Hex"];
+  const offline = await runOfflineAudit(repoPath, { ecosystems }).catch(() => null);
+  const counts = npmAudit?.counts ?? { critical: 0, high: 0, medium: 0, low: 0, total: 0 };
+  const packages = npmAudit?.packages ?? [];
+  if (!offline || offline.source.ecosystems.length === 0) {
+    return { counts, packages };
+  }
+
+  return {
+    counts: {
+      critical: counts.critical + offline.summary.critical,
+      high: counts.high + offline.summary.high,
+      medium: counts.medium + offline.summary.medium,
+      low: counts.low + offline.summary.low,
+      total: counts.total + offline.summary.total,
+      offline: offline.source,
+    },
+    packages: [...packages, ...vulnerablePackagesFromAdvisoryMatches(offline.matches)],
+  };
+}
 
 const IGNORED_FILE_NAMES = new Set([
   "package-lock.json",
@@ -355,7 +430,7 @@ async function readTextSafely(filePath: string, byteLimit = 1_500_000): Promise<
   }
 }
 
-async function analyzeFileTree(repoPath: string): Promise<{
+async function analyzeFileTree(repoPath: string, pathFilter: PathFilter): Promise<{
   fileStats: RepoAnalysis["fileStats"];
   languages: string[];
   todoCount: number;
@@ -393,14 +468,14 @@ async function analyzeFileTree(repoPath: string): Promise<{
       const relativePath = path.relative(repoPath, fullPath);
 
       if (entry.isDirectory()) {
-        if (IGNORED_DIRECTORIES.has(entry.name)) {
+        if (pathFilter.ignoresDirectory(relativePath)) {
           continue;
         }
         queue.push(fullPath);
         continue;
       }
 
-      if (!entry.isFile()) {
+      if (!entry.isFile() || !pathFilter.includesFile(relativePath)) {
         continue;
       }
 
@@ -472,29 +547,86 @@ async function analyzeFileTree(repoPath: string): Promise<{
   };
 }
 
-async function analyzeCircularDependencies(repoPath: string): Promise<number> {
-  const result = await runCommand("npx", ["--yes", "madge", "--circular", "--json", "."], repoPath);
-  if (!result.stdout.trim() && !result.stderr.trim()) {
-    return 0;
+async function analyzeModuleGraph(
+  repoPath: string,
+  pathFilter: PathFilter,
+  config: BridgeConfig,
+  suppressions: SuppressionMatcher,
+): Promise<
+  Pick<RepoAnalysis, "circularCycles" | "deadCode" | "deadCodeItems" | "architectureViolations" | "dependencyUsage"> & {
+    graph?: ImportGraph;
+    usage?: DependencyUsageReport | null;
   }
+> {
+  const rules = config.architecture.rules;
+  try {
+    const result = await analyzeImportGraph(repoPath, { pathFilter, entries: config.scan.entries });
+    const usage = await analyzeDependencyUsage(repoPath, result.graph).catch(() => null);
+    const deadFiles = result.deadFiles.filter((file) => !suppressions.suppresses(deadFileSuppressionFingerprint(file)));
+    const unusedExports = result.unusedExports.filter(
+      (entry) => !suppressions.suppresses(unusedExportSuppressionFingerprint(entry.file, entry.exportName)),
+    );
+    return {
+      circularCycles: result.cycles.filter((cycle) => !suppressions.suppresses(cycleSuppressionFingerprint(cycle))),
+      deadCode: { deadFiles: deadFiles.length, unusedExports: unusedExports.length },
+      deadCodeItems: { deadFiles, unusedExports },
+      architectureViolations: rules.length > 0 ? evaluateArchitectureRules(result.graph, rules) : undefined,
+      dependencyUsage: usage && {
+        unused: usage.dependencies.filter((dep) => dep.unused).map(({ name, manifest }) => ({ name, manifest })),
+        undeclared: usage.undeclared.map(({ name, manifest }) => ({ name, manifest })),
+      },
+      graph: result.graph,
+      usage,
+    };
+  } catch {
+    return {
+      circularCycles: [],
+      deadCode: null,
+      deadCodeItems: null,
+      architectureViolations: rules.length > 0 ? null : undefined,
+      dependencyUsage: null,
+    };
+  }
+}
 
-  const payload = safeJsonParse<unknown>(result.stdout || result.stderr);
-  if (!payload) {
-    return 0;
+async function readCoveragePercentage(repoPath: string): Promise<number | null> {
+  const summary = await readTextSafely(path.join(repoPath, "coverage", "coverage-summary.json"));
+  if (!summary) {
+    return null;
   }
 
-  if (Array.isArray(payload)) {
-    return payload.length;
+  const payload = safeJsonParse<{ total?: { lines?: { pct?: unknown } } }>(summary);
+  const pct = payload?.total?.lines?.pct;
+  return typeof pct === "number" && Number.isFinite(pct) ? pct : null;
+}
+
+async function readmeAgeDays(repoPath: string): Promise<number | null> {
+  for (const fileName of ["README.md", "readme.md", "Readme.md", "README"]) {
+    try {
+      const stat = await fs.stat(path.join(repoPath, fileName));
+      return (Date.now() - stat.mtimeMs) / (1000 * 60 * 60 * 24);
+    } catch {
+      // Try the next candidate.
+    }
   }
+  return null;
+}
 
-  if (typeof payload === "object") {
-    const objectPayload = payload as Record<string, unknown>;
-    const values = Object.values(objectPayload);
-    const cycleCount = values.filter((value) => Array.isArray(value) && value.length > 0).length;
-    return cycleCount;
+async function detectChangelog(repoPath: string): Promise<boolean> {
+  for (const fileName of ["CHANGELOG.md", "changelog.md", "CHANGELOG", "HISTORY.md"]) {
+    if (await pathExists(path.join(repoPath, fileName))) {
+      return true;
+    }
   }
+  return false;
+}
 
-  return 0;
+function selectBuildCommand(scripts: Record<string, string>): string | null {
+  return typeof scripts.build === "string" && scripts.build.trim().length > 0 ? "npm run build" : null;
+}
+
+export async function detectBuildCommand(repoPath: string): Promise<string | null> {
+  return selectBuildCommand((await loadPackageJson(repoPath)).scripts);
 }
 
 function selectTestCommand(scripts: Record<string, string>): string | null {
@@ -549,34 +681,80 @@ async function detectCoverage(repoPath: string, scripts: Record<string, string>)
   });
 }
 
-export async function analyzeRepo(repoPath: string): Promise<RepoAnalysis> {
+export async function analyzeRepo(
+  repoPath: string,
+  options: { pathFilter?: PathFilter } = {},
+): Promise<RepoAnalysis> {
   const packageInfo = await loadPackageJson(repoPath);
-  const [outdated, vulnerabilities, treeStats, circularDeps, hasLinter, hasCoverageData] = await Promise.all([
-    analyzeOutdated(repoPath),
+  const config = await loadBridgeConfig(repoPath);
+  const pathFilter = options.pathFilter ?? pathFilterFromConfig(repoPath, config.scan);
+  const suppressions = createSuppressionMatcher(config.suppressions);
+  const [
+    outdated,
+    audit,
+    treeStats,
+    moduleGraph,
+    hasLinter,
+    hasCoverageData,
+    coveragePercentage,
+    hasChangelog,
+    readmeDaysSinceUpdate,
+    complexity,
+  ] = await Promise.all([
+    analyzeOutdated(repoPath, config),
     analyzeVulnerabilities(repoPath),
-    analyzeFileTree(repoPath),
-    analyzeCircularDependencies(repoPath),
+    analyzeFileTree(repoPath, pathFilter),
+    analyzeModuleGraph(repoPath, pathFilter, config, suppressions),
     detectLinter(repoPath, packageInfo.scripts),
     detectCoverage(repoPath, packageInfo.scripts),
+    readCoveragePercentage(repoPath),
+    detectChangelog(repoPath),
+    readmeAgeDays(repoPath),
+    analyzeComplexity(repoPath, {
+      pathFilter,
+      threshold: config.scoring.thresholds?.maxFunctionComplexity,
+    }).catch(() => null),
   ]);
 
   const testCommand = selectTestCommand(packageInfo.scripts);
   const hasTests = Boolean(testCommand) || treeStats.hasTestFiles;
+  const dependencyFreshness = await analyzeDependencyFreshness(repoPath, config.dependencies, outdated).catch(() => null);
+  const declaredDependencies = await readDeclaredDependencies(repoPath);
+  const packageManager = await detectNodePackageManager(repoPath);
+  const vulnerabilities = suppressVulnerablePackages(audit.counts, audit.packages, suppressions);
+  const vulnerabilityReachability = moduleGraph.graph && vulnerabilities.packages.length > 0
+    ? await analyzeVulnerabilityReachability(repoPath, vulnerabilities.packages, moduleGraph.graph, moduleGraph.usage ?? null).catch(() => null)
+    : null;
 
   return {
     outdated,
-    vulnerabilities,
+    vulnerabilities: vulnerabilities.counts,
     fileStats: treeStats.fileStats,
     hasTests,
     hasTestFiles: treeStats.hasTestFiles,
     testCommand,
     hasLinter,
     todoCount: treeStats.todoCount,
-    circularDeps,
+    circularDeps: moduleGraph.circularCycles?.length ?? 0,
     languages: treeStats.languages,
     hasCoverageData,
     readmeExists: treeStats.readmeExists,
     readmeWordCount: treeStats.readmeWordCount,
     dependencyNames: packageInfo.dependencyNames,
+    declaredDependencies,
+    coveragePercentage,
+    buildCommand: selectBuildCommand(packageInfo.scripts),
+    hasChangelog,
+    readmeDaysSinceUpdate,
+    deadCode: moduleGraph.deadCode,
+    deadCodeItems: moduleGraph.deadCodeItems,
+    circularCycles: moduleGraph.circularCycles,
+    architectureViolations: moduleGraph.architectureViolations,
+    dependencyUsage: moduleGraph.dependencyUsage,
+    vulnerabilityReachability,
+    suppressions: config.suppressions?.length ? suppressions.report() : null,
+    complexity,
+    dependencyFreshness,
+    packageManager,
   };
 }
@@ -0,0 +1,72 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import semver from "semver";
+import { parseRequiredPackage, type BridgeConfig, type DependencyKind, type RequiredPackage } from "./bridgeConfig.js";
+
+const DEPENDENCY_FIELDS: DependencyKind[] = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+
+export interface DeclaredDependency {
+  name: string;
+  range: string;
+  field: DependencyKind;
+}
+
+export interface RequiredPackageIssue extends RequiredPackage {
+  problem: "missing" | "version" | "type";
+  declared?: DeclaredDependency;
+}
+
+export function getRequiredPackages(config: BridgeConfig): RequiredPackage[] {
+  return (config.dependencies.requiredPackages || [])
+    .map(parseRequiredPackage)
+    .filter((entry): entry is RequiredPackage => Boolean(entry));
+}
+
+export async function readDeclaredDependencies(repoPath: string): Promise<DeclaredDependency[]> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(repoPath, "package.json"), "utf8")) as Record<string, unknown>;
+    const declared = new Map<string, DeclaredDependency>();
+    DEPENDENCY_FIELDS.forEach((field) => {
+      const block = manifest[field];
+      if (!block || typeof block !== "object") return;
+      Object.entries(block as Record<string, unknown>).forEach(([name, range]) => {
+        if (!declared.has(name)) declared.set(name, { name, range: String(range), field });
+      });
+    });
+    return Array.from(declared.values());
+  } catch {
+    return [];
+  }
+}
+
+// Ranges semver cannot read (workspace:, git URLs, file:, tags) are not held to a version constraint.
+function satisfiesRange(declared: string, required: string): boolean {
+  if (!semver.validRange(declared) || !semver.validRange(required)) return true;
+  try {
+    return semver.subset(declared, required);
+  } catch {
+    return true;
+  }
+}
+
+export function findRequiredPackageIssues(required: RequiredPackage[], declared: DeclaredDependency[]): RequiredPackageIssue[] {
+  const byName = new Map(declared.map((entry) => [entry.name.toLowerCase(), entry]));
+  return required.flatMap((pkg): RequiredPackageIssue[] => {
+    const entry = byName.get(pkg.name.toLowerCase());
+    if (!entry) return [{ ...pkg, problem: "missing" }];
+    if (pkg.type && entry.field !== pkg.type) return [{ ...pkg, problem: "type", declared: entry }];
+    if (pkg.version && !satisfiesRange(entry.range, pkg.version)) return [{ ...pkg, problem: "version", declared: entry }];
+    return [];
+  });
+}
+
+export function requiredPackageSpec(pkg: RequiredPackage): string {
+  return pkg.version ? `${pkg.name}@${pkg.version}` : pkg.name;
+}
+
+export function describeRequiredPackageIssue(issue: RequiredPackageIssue): string {
+  const spec = requiredPackageSpec(issue);
+  if (issue.problem === "missing") return `${spec} is not declared${issue.type ? ` in ${issue.type}` : ""}`;
+  if (issue.problem === "type") return `${issue.name} is in ${issue.declared?.field}, expected ${issue.type}`;
+  return `${issue.name} is declared as ${issue.declared?.range}, expected ${issue.version}`;
+}
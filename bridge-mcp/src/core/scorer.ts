@@ -1,6 +1,15 @@
 import semver from "semver";
 import type { BridgeConfig } from "./bridgeConfig.js";
+import { overdueDependencies } from "./dependencyFreshness.js";
+import { getPinnedInstallCommand, getRemoveCommand } from "./dependencyUpdate.js";
+import { computeScoreTrend, type ScoreSnapshot, type ScoreTrend } from "./history.js";
 import type { OutdatedPackage, RepoAnalysis } from "./repoAnalyzer.js";
+import {
+  countByReachability,
+  describeReachabilityCounts,
+  REACHABILITY_WEIGHTS,
+  type VulnerabilityReachability,
+} from "./vulnerabilityReachability.js";
 
 export interface DimensionScore {
   score: number;
@@ -19,6 +28,7 @@ export interface DebtContributor {
 }
 
 export interface ActionItem {
+  id?: string;
   priority: number;
   title: string;
   description: string;
@@ -33,6 +43,7 @@ export interface TechDebtScore {
   total: number;
   grade: "A" | "B" | "C" | "D" | "F";
   trend: "improving" | "stable" | "declining" | "unknown";
+  trendDetails?: ScoreTrend;
   dimensions: {
     dependencies: DimensionScore;
     security: DimensionScore;
@@ -48,6 +59,7 @@ export interface TechDebtScore {
 type DimensionKey = keyof TechDebtScore["dimensions"];
 
 interface ContributionSeed {
+  id?: string;
   dimension: DimensionKey;
   description: string;
   impact: number;
@@ -146,6 +158,12 @@ function dependencyDimension(
   let minorCount = 0;
   let majorCount = 0;
 
+  const packageManager = analysis.packageManager ?? "npm";
+  const installCommand = (name: string, version: string, dependencyType?: string) => {
+    const field = analysis.declaredDependencies?.find((dep) => dep.name === name)?.field ?? dependencyType;
+    return getPinnedInstallCommand(packageManager, packageManager, [`${name}@${version}`], field === "devDependencies");
+  };
+
   for (const dep of analysis.outdated) {
     const updateType = classifyOutdatedPackage(dep);
 
@@ -158,7 +176,7 @@ function dependencyDimension(
         fixable: true,
         effort: "trivial",
         automatable: true,
-        command: "npx bridge-mcp",
+        command: installCommand(dep.name, dep.latest, dep.dependencyType),
       });
     } else if (updateType === "minor") {
       minorCount += 1;
@@ -169,7 +187,7 @@ function dependencyDimension(
         fixable: true,
         effort: "trivial",
         automatable: true,
-        command: "npx bridge-mcp",
+        command: installCommand(dep.name, dep.latest, dep.dependencyType),
       });
     } else if (updateType === "major") {
       majorCount += 1;
@@ -183,10 +201,55 @@ function dependencyDimension(
     }
   }
 
+  const overdue = analysis.dependencyFreshness ? overdueDependencies(analysis.dependencyFreshness) : [];
+  for (const dep of overdue) {
+    for (const lag of dep.lags.filter((item) => item.overdue)) {
+      addContribution(acc, contributions, {
+        dimension: "dependencies",
+        description: `${dep.name} has been behind ${lag.updateType} release ${lag.firstVersion} for ${lag.daysBehind} days (maxAge ${lag.maxAgeDays})`,
+        impact: lag.updateType === "major" ? 3 : lag.updateType === "minor" ? 2 : 1,
+        fixable: true,
+        effort: lag.updateType === "major" ? "medium" : "trivial",
+        automatable: lag.updateType !== "major",
+        command: lag.updateType !== "major" ? installCommand(dep.name, lag.newestVersion) : undefined,
+      });
+    }
+  }
+
+  const unused = analysis.dependencyUsage?.unused || [];
+  if (unused.length > 0) {
+    const label = (dep: { name: string; manifest: string }) => (dep.manifest ? `${dep.manifest}/${dep.name}` : dep.name);
+    const listed = unused.slice(0, 5).map(label).join(", ");
+    const manifests = Array.from(new Set(unused.map((dep) => dep.manifest)));
+    const removeCommand = manifests
+      .map((manifest) => getRemoveCommand(
+        packageManager,
+        packageManager,
+        unused.filter((dep) => dep.manifest === manifest).map((dep) => dep.name),
+        manifest,
+      ))
+      .join(" && ");
+    addContribution(acc, contributions, {
+      id: "unused-dependencies",
+      dimension: "dependencies",
+      description: `${unused.length} declared dependencies are never imported (${listed}${unused.length > 5 ? ", ..." : ""})`,
+      impact: Math.min(10, unused.length * 2),
+      fixable: true,
+      effort: "trivial",
+      automatable: true,
+      command: removeCommand,
+    });
+  }
+
   acc.metrics.outdatedCount = analysis.outdated.length;
+  acc.metrics.overdueCount = overdue.length;
   acc.metrics.patchCount = patchCount;
   acc.metrics.minorCount = minorCount;
   acc.metrics.majorCount = majorCount;
+  if (analysis.dependencyUsage) {
+    acc.metrics.unusedDependencies = unused.length;
+    acc.metrics.undeclaredDependencies = analysis.dependencyUsage.undeclared.length;
+  }
 
   return acc;
 }
@@ -197,24 +260,26 @@ function securityDimension(
 ): DimensionAccumulator {
   const acc = makeAccumulator();
   const vulnerabilities = analysis.vulnerabilities;
-
-  if (vulnerabilities.critical > 0) {
-    addContribution(acc, contributions, {
-      dimension: "security",
-      description: `${vulnerabilities.critical} critical vulnerabilities detected`,
-      impact: vulnerabilities.critical * 20,
-      fixable: true,
-      effort: "small",
-      automatable: true,
-      command: "npm audit fix --force",
-    });
-  }
-
-  if (vulnerabilities.high > 0) {
+  const reachability = analysis.vulnerabilityReachability;
+  const severities = [
+    ["critical", vulnerabilities.critical, 20],
+    ["high", vulnerabilities.high, 10],
+    ["medium", vulnerabilities.medium, 3],
+    ["low", vulnerabilities.low, 1],
+  ] as const;
+
+  for (const [severity, count, weight] of severities) {
+    if (count === 0) continue;
+    const counts = reachability ? countByReachability(reachability, severity) : null;
+    const weighted = counts
+      ? (Object.keys(counts) as VulnerabilityReachability[]).reduce((sum, key) => sum + counts[key] * REACHABILITY_WEIGHTS[key], 0)
+      : count;
     addContribution(acc, contributions, {
       dimension: "security",
-      description: `${vulnerabilities.high} high vulnerabilities detected`,
-      impact: vulnerabilities.high * 10,
+      description: counts
+        ? `${count} ${severity} vulnerabilities detected (${describeReachabilityCounts(counts)})`
+        : `${count} ${severity} vulnerabilities detected`,
+      impact: Math.round(weighted * weight * 10) / 10,
       fixable: true,
       effort: "small",
       automatable: true,
@@ -222,28 +287,27 @@ function securityDimension(
     });
   }
 
-  if (vulnerabilities.medium > 0) {
-    addContribution(acc, contributions, {
-      dimension: "security",
-      description: `${vulnerabilities.medium} medium vulnerabilities detected`,
-      impact: vulnerabilities.medium * 3,
-      fixable: true,
-      effort: "small",
-      automatable: true,
-      command: "npm audit fix --force",
-    });
-  }
-
-  if (vulnerabilities.low > 0) {
-    addContribution(acc, contributions, {
-      dimension: "security",
-      description: `${vulnerabilities.low} low vulnerabilities detected`,
-      impact: vulnerabilities.low,
-      fixable: true,
-      effort: "small",
-      automatable: true,
-      command: "npm audit fix --force",
-    });
+  const imported = analysis.importedFindings;
+  if (imported) {
+    const source = imported.tools.join(", ");
+    const importedSeverities = [
+      ["critical", imported.critical, 10],
+      ["high", imported.high, 5],
+      ["medium", imported.medium, 2],
+      ["low", imported.low, 1],
+    ] as const;
+    for (const [severity, count, weight] of importedSeverities) {
+      if (count === 0) continue;
+      addContribution(acc, contributions, {
+        dimension: "security",
+        description: `${count} ${severity} findings imported from ${source}`,
+        impact: count * weight,
+        fixable: true,
+        effort: count > 10 ? "medium" : "small",
+        automatable: false,
+      });
+    }
+    acc.metrics.importedFindings = imported.critical + imported.high + imported.medium + imported.low;
   }
 
   acc.metrics.critical = vulnerabilities.critical;
@@ -251,6 +315,15 @@ function securityDimension(
   acc.metrics.medium = vulnerabilities.medium;
   acc.metrics.low = vulnerabilities.low;
   acc.metrics.total = vulnerabilities.total;
+  if (reachability) {
+    acc.metrics.reachable = reachability.findings.filter((finding) => finding.reachability === "reachable").length;
+    acc.metrics.devOnly = reachability.findings.filter((finding) => finding.reachability === "dev-only").length;
+    acc.metrics.transitiveUnused = reachability.findings.filter((finding) => finding.reachability === "transitive-unused").length;
+  }
+  if (analysis.suppressions) {
+    acc.metrics.suppressed = analysis.suppressions.suppressed;
+    acc.metrics.expiredSuppressions = analysis.suppressions.entries.filter((entry) => entry.expired).length;
+  }
 
   return acc;
 }
@@ -298,6 +371,28 @@ function architectureDimension(
     }
   }
 
+  if (analysis.architectureViolations && analysis.architectureViolations.length > 0) {
+    const byRule = new Map<string, { errors: number; warnings: number }>();
+    for (const violation of analysis.architectureViolations) {
+      const counts = byRule.get(violation.rule) || { errors: 0, warnings: 0 };
+      if (violation.severity === "error") counts.errors += 1;
+      else counts.warnings += 1;
+      byRule.set(violation.rule, counts);
+    }
+    byRule.forEach((counts, rule) => {
+      addContribution(acc, contributions, {
+        dimension: "architecture",
+        description: `Architecture rule "${rule}" broken by ${counts.errors + counts.warnings} imports`,
+        impact: Math.min(20, counts.errors * 4 + counts.warnings),
+        fixable: true,
+        effort: "medium",
+      });
+    });
+    acc.metrics.architectureViolations = analysis.architectureViolations.filter(
+      (violation) => violation.severity === "error",
+    ).length;
+  }
+
   acc.metrics.circularDeps = analysis.circularDeps;
   acc.metrics.filesOver500 = oversized500;
   acc.metrics.filesOver1000 = oversized1000;
@@ -416,8 +511,49 @@ function codeHealthDimension(
     });
   }
 
+  const complexity = analysis.complexity;
+  if (complexity && complexity.overThreshold > 0) {
+    addContribution(acc, contributions, {
+      dimension: "codeHealth",
+      description: `${complexity.overThreshold} functions exceed cognitive complexity ${complexity.threshold}`,
+      impact: Math.min(15, complexity.overThreshold * 2),
+      fixable: false,
+      effort: "medium",
+    });
+
+    for (const fn of complexity.worstOffenders.filter((entry) => entry.cognitive > complexity.threshold).slice(0, 3)) {
+      addContribution(acc, contributions, {
+        dimension: "codeHealth",
+        description: `${fn.name} in ${fn.file}:${fn.line} has cognitive complexity ${fn.cognitive}`,
+        impact: 3,
+        fixable: false,
+        effort: "medium",
+      });
+    }
+  }
+
+  const duplication = analysis.duplication;
+  if (duplication && duplication.percentage > duplication.threshold) {
+    addContribution(acc, contributions, {
+      dimension: "codeHealth",
+      description: `${duplication.percentage}% of source lines are duplicated (${duplication.clonePairs} clone pairs)`,
+      impact: Math.min(20, Math.ceil(duplication.percentage)),
+      fixable: false,
+      effort: "medium",
+    });
+  }
+
   acc.metrics.todoCount = analysis.todoCount;
   acc.metrics.hasLinter = analysis.hasLinter ? 1 : 0;
+  if (complexity) {
+    acc.metrics.avgComplexity = complexity.averageCyclomatic;
+    acc.metrics.avgCognitiveComplexity = complexity.averageCognitive;
+    acc.metrics.complexFunctions = complexity.overThreshold;
+  }
+  if (duplication) {
+    acc.metrics.duplicationPercent = duplication.percentage;
+    acc.metrics.clonePairs = duplication.clonePairs;
+  }
 
   return acc;
 }
@@ -445,7 +581,7 @@ function effortRank(value: ActionItem["effort"]): number {
   return 4;
 }
 
-function toActionItems(contributors: DebtContributor[]): ActionItem[] {
+function toActionItems(contributors: ContributionSeed[]): ActionItem[] {
   const itemSeeds: Array<ActionItem & { rank: number }> = contributors
     .map((contributor) => {
       const title = contributor.description.length > 72
@@ -457,13 +593,12 @@ function toActionItems(contributors: DebtContributor[]): ActionItem[] {
 
       if (contributor.dimension === "security" && automatable) {
         command = "npm audit fix --force";
-      } else if (contributor.dimension === "dependencies" && automatable) {
-        command = "npx bridge-mcp";
       } else if (contributor.description.toLowerCase().includes("linter")) {
         command = "npm init @eslint/config";
       }
 
       return {
+        id: contributor.id,
         priority: 0,
         title,
         description: contributor.description,
@@ -471,7 +606,7 @@ function toActionItems(contributors: DebtContributor[]): ActionItem[] {
         impact: contributor.impact,
         effort: contributor.effort,
         automatable,
-        command,
+        command: contributor.command ?? command,
         rank: contributor.impact / effortRank(contributor.effort),
       };
     })
@@ -492,7 +627,11 @@ function toActionItems(contributors: DebtContributor[]): ActionItem[] {
   });
 }
 
-export function calculateScore(analysis: RepoAnalysis, config: BridgeConfig): TechDebtScore {
+export function calculateScore(
+  analysis: RepoAnalysis,
+  config: BridgeConfig,
+  history?: ScoreSnapshot[],
+): TechDebtScore {
   const weights = resolveWeights(config);
   const totalWeight = Object.values(weights).reduce((sum, value) => sum + value, 0) || 100;
 
@@ -520,9 +659,10 @@ export function calculateScore(analysis: RepoAnalysis, config: BridgeConfig): Te
     100,
   );
 
-  const contributors: DebtContributor[] = contributions
+  const ranked = contributions
     .sort((a, b) => b.impact - a.impact)
-    .slice(0, 50)
+    .slice(0, 50);
+  const contributors: DebtContributor[] = ranked
     .map((seed) => ({
       dimension: seed.dimension,
       description: seed.description,
@@ -532,12 +672,18 @@ export function calculateScore(analysis: RepoAnalysis, config: BridgeConfig): Te
     }));
 
   const topContributors = contributors.slice(0, 10);
-  const actionItems = toActionItems(contributors);
+  const actionItems = toActionItems(ranked);
+
+  const roundedTotal = Number(total.toFixed(1));
+  const trendDetails = history
+    ? computeScoreTrend({ total: roundedTotal, dimensions }, history, config.scoring?.trend)
+    : undefined;
 
   return {
-    total: Number(total.toFixed(1)),
+    total: roundedTotal,
     grade: gradeFromScore(total),
-    trend: "unknown",
+    trend: trendDetails?.direction ?? "unknown",
+    trendDetails,
     dimensions,
     topContributors,
     actionItems,
@@ -0,0 +1,109 @@
+import {
+  cycleFingerprint,
+  deadFileFingerprint,
+  securityFindingFingerprint,
+  unusedExportFingerprint,
+} from "./fingerprints.js";
+import type { FindingSuppression } from "./bridgeConfig.js";
+import type { VulnerablePackage } from "./vulnerabilityReachability.js";
+
+// `// bridge-ignore critical-eval` or `# bridge-ignore high-innerhtml, medium-weak-random`.
+const INLINE_IGNORE = /(?:\/\/|\/\*|#|<!--)\s*bridge-ignore\s+([\w-]+(?:\s*,\s*[\w-]+)*)/;
+
+export interface SuppressionStatus extends FindingSuppression {
+  expired: boolean;
+  matched: number;
+}
+
+export interface SuppressionReport {
+  suppressed: number;
+  entries: SuppressionStatus[];
+}
+
+export interface SuppressionMatcher {
+  suppresses(fingerprints: string | string[]): boolean;
+  report(): SuppressionReport;
+}
+
+export function securitySuppressionFingerprint(finding: Parameters<typeof securityFindingFingerprint>[0]): string {
+  return `security:${securityFindingFingerprint(finding)}`;
+}
+
+export function auditSuppressionFingerprints(pkg: Pick<VulnerablePackage, "ecosystem" | "name" | "advisories">): string[] {
+  const base = `audit:${pkg.ecosystem}/${pkg.name}`;
+  return pkg.advisories.length > 0 ? pkg.advisories.map((id) => `${base}/${id}`) : [base];
+}
+
+export function cycleSuppressionFingerprint(cycle: string[]): string {
+  return `cycle:${cycleFingerprint(cycle)}`;
+}
+
+export function deadFileSuppressionFingerprint(file: string): string {
+  return `dead-file:${deadFileFingerprint(file)}`;
+}
+
+export function unusedExportSuppressionFingerprint(file: string, exportName: string): string {
+  return `unused-export:${unusedExportFingerprint(file, exportName)}`;
+}
+
+export function isSuppressionExpired(suppression: FindingSuppression, now = new Date()): boolean {
+  if (!suppression.expires) return false;
+  const end = Date.parse(`${suppression.expires}T23:59:59.999Z`);
+  return Number.isFinite(end) && now.getTime() > end;
+}
+
+export function createSuppressionMatcher(suppressions: FindingSuppression[] = [], now = new Date()): SuppressionMatcher {
+  const entries: SuppressionStatus[] = suppressions.map((suppression) => ({
+    ...suppression,
+    expired: isSuppressionExpired(suppression, now),
+    matched: 0,
+  }));
+  const active = new Map<string, SuppressionStatus>();
+  entries.forEach((entry) => {
+    if (!entry.expired && entry.fingerprint && !active.has(entry.fingerprint)) active.set(entry.fingerprint, entry);
+  });
+  let suppressed = 0;
+
+  return {
+    suppresses(fingerprints) {
+      const keys = Array.isArray(fingerprints) ? fingerprints : [fingerprints];
+      if (keys.length === 0 || !keys.every((key) => active.has(key))) return false;
+      keys.forEach((key) => {
+        active.get(key)!.matched += 1;
+      });
+      suppressed += 1;
+      return true;
+    },
+    report() {
+      return { suppressed, entries: entries.map((entry) => ({ ...entry })) };
+    },
+  };
+}
+
+export function inlineIgnoredRules(line: string): string[] | null {
+  const match = line.match(INLINE_IGNORE);
+  return match ? match[1].split(/\s*,\s*/).filter(Boolean) : null;
+}
+
+export function isIgnoredInline(lines: string[], lineIndex: number, ruleId: string): boolean {
+  if (inlineIgnoredRules(lines[lineIndex] || "")?.includes(ruleId)) return true;
+  const previous = lines[lineIndex - 1] || "";
+  return /^\s*(?:\/\/|\/\*|#|<!--)/.test(previous) && Boolean(inlineIgnoredRules(previous)?.includes(ruleId));
+}
+
+export function suppressVulnerablePackages<T extends { critical: number; high: number; medium: number; low: number; total: number }>(
+  counts: T,
+  packages: VulnerablePackage[],
+  matcher: SuppressionMatcher,
+): { counts: T; packages: VulnerablePackage[] } {
+  if (packages.length === 0) {
+    return { counts, packages };
+  }
+  // Audits that count per advisory still list per package, so counts always follow the package list.
+  const remaining = packages.filter((pkg) => !matcher.suppresses(auditSuppressionFingerprints(pkg)));
+  const recount = { critical: 0, high: 0, medium: 0, low: 0, total: remaining.length };
+  remaining.forEach((pkg) => {
+    recount[pkg.severity] += 1;
+  });
+  return { counts: { ...counts, ...recount }, packages: remaining };
+}
@@ -0,0 +1,89 @@
+export interface BisectionCulprit {
+  name: string;
+  failedCommand?: string;
+  output: string;
+}
+
+export interface BisectionTrialResult {
+  passed: boolean;
+  output: string;
+  failedCommand?: string;
+}
+
+export interface BisectionOutcome {
+  culprits: BisectionCulprit[];
+  passing: string[];
+  verified: boolean;
+  output: string;
+}
+
+export const MAX_BISECTION_TRIALS = 16;
+
+export async function bisectFailingUpdates(
+  packages: string[],
+  failure: Omit<BisectionTrialResult, "passed">,
+  runTrial: (subset: string[]) => Promise<BisectionTrialResult>,
+  onLog: (message: string) => void,
+): Promise<BisectionOutcome> {
+  let trials = 0;
+  const trial = async (subset: string[]): Promise<BisectionTrialResult> => {
+    trials += 1;
+    onLog(`Bisection trial ${trials}/${MAX_BISECTION_TRIALS}: ${subset.join(", ")}`);
+    const result = await runTrial(subset);
+    onLog(result.passed ? `✓ Trial ${trials} passed` : `✗ Trial ${trials} failed${result.failedCommand ? ` at ${result.failedCommand}` : ""}`);
+    return result;
+  };
+  const blame = (subset: string[], subsetFailure: Omit<BisectionTrialResult, "passed">): BisectionCulprit[] =>
+    subset.map(name => ({ name, failedCommand: subsetFailure.failedCommand, output: subsetFailure.output }));
+
+  const isolate = async (
+    subset: string[],
+    subsetFailure: Omit<BisectionTrialResult, "passed">,
+    context: string[] = [],
+  ): Promise<BisectionCulprit[]> => {
+    if (subset.length === 1) {
+      return blame(subset, subsetFailure);
+    }
+
+    const middle = Math.ceil(subset.length / 2);
+    const [first, second] = [subset.slice(0, middle), subset.slice(middle)];
+    const culprits: BisectionCulprit[] = [];
+    let halfFailed = false;
+    for (const half of [first, second]) {
+      if (trials >= MAX_BISECTION_TRIALS) {
+        onLog(`Bisection trial budget exhausted; holding back ${half.join(", ")} untested.`);
+        culprits.push(...blame(half, subsetFailure));
+        halfFailed = true;
+        continue;
+      }
+      const result = await trial([...context, ...half]);
+      if (!result.passed) {
+        halfFailed = true;
+        culprits.push(...await isolate(half, result, context));
+      }
+    }
+    // Neither half fails alone, so the failure needs both: keep the first half and look for
+    // the packages of the second half that break it.
+    return halfFailed ? culprits : isolate(second, subsetFailure, [...context, ...first]);
+  };
+
+  const culprits = await isolate(packages, failure);
+  let passing = packages.filter(name => !culprits.some(culprit => culprit.name === name));
+  while (passing.length > 0 && trials < MAX_BISECTION_TRIALS) {
+    const result = await trial(passing);
+    if (result.passed) {
+      return { culprits, passing, verified: true, output: result.output };
+    }
+    const remaining = passing;
+    culprits.push(...await isolate(remaining, result));
+    passing = remaining.filter(name => !culprits.some(culprit => culprit.name === name));
+  }
+
+  return { culprits, passing, verified: false, output: "" };
+}
+
+export function formatHeldBackPackages(culprits: BisectionCulprit[]): string {
+  return culprits
+    .map(culprit => `- ${culprit.name}${culprit.failedCommand ? ` (fails ${culprit.failedCommand})` : ""}`)
+    .join("\n");
+}
@@ -0,0 +1,304 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  DEFAULT_TEST_TIMEOUT_MS,
+  cleanupIsolatedWorkspace,
+  commandErrorOutput,
+  createIsolatedWorkspace,
+  detectNodePackageManager,
+  extractFailureFingerprints,
+  extractFailureSummary,
+  fileExists,
+  formatError,
+  getPinnedInstallCommand,
+  installDependenciesForValidation,
+  isValidationRegression,
+  normalizeBranchName,
+  normalizeConfiguredValidationCommand,
+  resolveJavascriptValidationCommands,
+  resolvePackageManagerCommand,
+  runCommand,
+  runValidationSteps,
+  splitOutputLines,
+  type ValidationStep,
+} from "./dependencyUpdate.js";
+
+const MAX_REPORTED_ERRORS = 200;
+const TSC_OUTPUT_LINE = /^(.+?)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+
+export interface TypeCheckError {
+  file: string;
+  line: number;
+  column: number;
+  code: string;
+  message: string;
+}
+
+export interface TypeCheckComparison {
+  ran: boolean;
+  skippedReason?: string;
+  baselineErrors: number;
+  trialErrors: number;
+  newErrorCount: number;
+  fixedErrorCount: number;
+  newErrors: TypeCheckError[];
+  affectedFiles: Array<{ file: string; errors: number }>;
+}
+
+export interface ValidationComparison {
+  ran: boolean;
+  skippedReason?: string;
+  baselinePassed: boolean;
+  trialPassed: boolean;
+  failedCommand?: string;
+  regressed: boolean;
+  reason?: string;
+  newFailures: string[];
+}
+
+export type UpgradeEffort = "none" | "small" | "medium" | "large";
+
+export interface UpgradeTrialOptions {
+  repoPath: string;
+  packageName: string;
+  version: string;
+  dev?: boolean;
+  runValidation?: boolean;
+  testCommand?: string;
+  timeoutMs?: number;
+  baseBranch?: string;
+  remoteFirst?: boolean;
+  onProgress?: (message: string, step: number, total: number) => void;
+  onLog?: (message: string) => void;
+  onWarning?: (warning: { message: string; output: string }) => void;
+}
+
+export interface UpgradeTrialReport {
+  success: boolean;
+  packageName: string;
+  fromVersion?: string;
+  toVersion: string;
+  typecheck?: TypeCheckComparison;
+  validation?: ValidationComparison;
+  effort?: UpgradeEffort;
+  durationMs: number;
+  error?: string;
+}
+
+export function parseTypeScriptErrors(output: string): TypeCheckError[] {
+  return splitOutputLines(output)
+    .map(line => TSC_OUTPUT_LINE.exec(line))
+    .filter((match): match is RegExpExecArray => Boolean(match))
+    .map(match => ({
+      file: match[1].replace(/\\/g, "/"),
+      line: Number(match[2]),
+      column: Number(match[3]),
+      code: match[4],
+      message: match[5],
+    }));
+}
+
+const errorKey = (error: TypeCheckError) => `${error.file}:${error.line}:${error.column}:${error.code}`;
+
+async function runTypeCheck(
+  workspacePath: string,
+  timeoutMs: number,
+): Promise<{ errors: TypeCheckError[] } | { skipped: string }> {
+  if (!(await fileExists(path.join(workspacePath, "tsconfig.json")))) {
+    return { skipped: "no tsconfig.json at the repository root" };
+  }
+  const tsc = path.join("node_modules", ".bin", process.platform === "win32" ? "tsc.cmd" : "tsc");
+  if (!(await fileExists(path.join(workspacePath, tsc)))) {
+    return { skipped: "TypeScript is not installed in the repository" };
+  }
+  try {
+    await runCommand(`"${tsc}" --noEmit --pretty false`, workspacePath, { timeout: timeoutMs });
+    return { errors: [] };
+  } catch (error) {
+    const output = commandErrorOutput(error);
+    const errors = parseTypeScriptErrors(output);
+    if (errors.length === 0) {
+      return { skipped: `tsc failed without reporting diagnostics: ${extractFailureSummary(output) || formatError(error, "unknown error")}` };
+    }
+    return { errors };
+  }
+}
+
+function compareTypeChecks(baseline: TypeCheckError[], trial: TypeCheckError[]): TypeCheckComparison {
+  const baselineKeys = new Set(baseline.map(errorKey));
+  const trialKeys = new Set(trial.map(errorKey));
+  const newErrors = trial.filter(error => !baselineKeys.has(errorKey(error)));
+  const byFile = new Map<string, number>();
+  newErrors.forEach(error => byFile.set(error.file, (byFile.get(error.file) || 0) + 1));
+  return {
+    ran: true,
+    baselineErrors: baseline.length,
+    trialErrors: trial.length,
+    newErrorCount: newErrors.length,
+    fixedErrorCount: baseline.filter(error => !trialKeys.has(errorKey(error))).length,
+    newErrors: newErrors.slice(0, MAX_REPORTED_ERRORS),
+    affectedFiles: Array.from(byFile.entries())
+      .map(([file, errors]) => ({ file, errors }))
+      .sort((a, b) => b.errors - a.errors || a.file.localeCompare(b.file)),
+  };
+}
+
+export function estimateUpgradeEffort(typecheck?: TypeCheckComparison, validation?: ValidationComparison): UpgradeEffort {
+  const errors = typecheck?.newErrorCount ?? 0;
+  const files = typecheck?.affectedFiles.length ?? 0;
+  const regressed = Boolean(validation?.regressed);
+  if (errors === 0 && !regressed) return "none";
+  if (errors > 50 || files > 15) return "large";
+  if (errors <= 10 && files <= 3) return "small";
+  return "medium";
+}
+
+async function readInstalledVersion(workspacePath: string, packageName: string): Promise<string | undefined> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(workspacePath, "node_modules", packageName, "package.json"), "utf8"));
+    return typeof manifest.version === "string" ? manifest.version : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function runUpgradeTrial(options: UpgradeTrialOptions): Promise<UpgradeTrialReport> {
+  const { repoPath, packageName, version } = options;
+  const onProgress = options.onProgress || (() => {});
+  const onLog = options.onLog || (() => {});
+  const onWarning = options.onWarning || (() => {});
+  const runValidation = options.runValidation !== false;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TEST_TIMEOUT_MS;
+  const startedAt = Date.now();
+  const branchName = normalizeBranchName(`bridge-trial-${packageName.replace(/^@/, "").replace(/\//g, "-")}-${Date.now()}`);
+  const totalSteps = runValidation ? 6 : 4;
+  let currentStep = 0;
+
+  const fail = (error: string, extra: Partial<UpgradeTrialReport> = {}): UpgradeTrialReport => {
+    onLog(`✗ ${error}`);
+    return { success: false, packageName, toVersion: version, durationMs: Date.now() - startedAt, error, ...extra };
+  };
+
+  if (!(await fileExists(path.join(repoPath, ".git"))) || !(await fileExists(path.join(repoPath, "package.json")))) {
+    return fail("Git and package.json are required for an upgrade trial.");
+  }
+
+  let validationCommands: ValidationStep[] = [];
+  if (runValidation) {
+    const testCommand = await normalizeConfiguredValidationCommand(repoPath, options.testCommand);
+    validationCommands = await resolveJavascriptValidationCommands(repoPath, testCommand);
+  }
+
+  let workspacePath = "";
+  try {
+    onProgress("Preparing trial workspace...", ++currentStep, totalSteps);
+    workspacePath = await createIsolatedWorkspace(repoPath, branchName, {
+      baseBranch: options.baseBranch,
+      remoteFirst: options.remoteFirst,
+      onLog,
+    });
+    onLog(`Using isolated workspace: ${workspacePath}`);
+    await installDependenciesForValidation(workspacePath, onLog, validationCommands);
+    const fromVersion = await readInstalledVersion(workspacePath, packageName);
+
+    onProgress("Type-checking baseline...", ++currentStep, totalSteps);
+    onLog(`[baseline] Type-checking with ${packageName}@${fromVersion || "current"}...`);
+    const baselineTypes = await runTypeCheck(workspacePath, timeoutMs);
+    if ("skipped" in baselineTypes) {
+      onWarning({ message: `Type check skipped: ${baselineTypes.skipped}`, output: "" });
+    } else {
+      onLog(`[baseline] ${baselineTypes.errors.length} type error(s)`);
+    }
+
+    let baselineValidation: Awaited<ReturnType<typeof runValidationSteps>> | null = null;
+    if (runValidation && validationCommands.length > 0) {
+      onProgress("Running baseline validation...", ++currentStep, totalSteps);
+      baselineValidation = await runValidationSteps(validationCommands, workspacePath, onLog, onWarning, {
+        timeoutMs,
+        stageLabel: "Baseline validation",
+      });
+    }
+
+    onProgress(`Installing ${packageName}@${version}...`, ++currentStep, totalSteps);
+    const packageManager = await detectNodePackageManager(workspacePath);
+    const managerCommand = await resolvePackageManagerCommand(workspacePath, packageManager);
+    const installCommand = getPinnedInstallCommand(packageManager, managerCommand, [`${packageName}@${version}`], Boolean(options.dev));
+    onLog(`> ${installCommand}`);
+    try {
+      const { stdout, stderr } = await runCommand(installCommand, workspacePath, { timeout: 15 * 60 * 1000, maxBuffer: 50 * 1024 * 1024 });
+      splitOutputLines(`${stdout}${stderr}`).forEach(line => onLog(line));
+    } catch (error) {
+      const output = commandErrorOutput(error);
+      splitOutputLines(output).forEach(line => onLog(line));
+      return fail(`Could not install ${packageName}@${version}.`, { fromVersion });
+    }
+
+    onProgress("Type-checking upgrade...", ++currentStep, totalSteps);
+    let typecheck: TypeCheckComparison;
+    if ("skipped" in baselineTypes) {
+      typecheck = { ran: false, skippedReason: baselineTypes.skipped, baselineErrors: 0, trialErrors: 0, newErrorCount: 0, fixedErrorCount: 0, newErrors: [], affectedFiles: [] };
+    } else {
+      onLog(`[trial] Type-checking with ${packageName}@${version}...`);
+      const trialTypes = await runTypeCheck(workspacePath, timeoutMs);
+      typecheck = "skipped" in trialTypes
+        ? { ran: false, skippedReason: trialTypes.skipped, baselineErrors: baselineTypes.errors.length, trialErrors: 0, newErrorCount: 0, fixedErrorCount: 0, newErrors: [], affectedFiles: [] }
+        : compareTypeChecks(baselineTypes.errors, trialTypes.errors);
+      if (typecheck.ran) {
+        onLog(`[trial] ${typecheck.trialErrors} type error(s): ${typecheck.newErrorCount} new, ${typecheck.fixedErrorCount} fixed`);
+      }
+    }
+
+    let validation: ValidationComparison;
+    if (!baselineValidation) {
+      validation = {
+        ran: false,
+        skippedReason: runValidation ? "no validation commands detected" : "validation disabled",
+        baselinePassed: false,
+        trialPassed: false,
+        regressed: false,
+        newFailures: [],
+      };
+    } else {
+      onProgress("Running validation with the upgrade...", ++currentStep, totalSteps);
+      const trialValidation = await runValidationSteps(validationCommands, workspacePath, onLog, onWarning, {
+        timeoutMs,
+        stageLabel: "Trial validation",
+      });
+      const baselineFingerprints = extractFailureFingerprints(baselineValidation.output);
+      const regression = trialValidation.success
+        ? { regressed: false }
+        : baselineValidation.success
+          ? { regressed: true, reason: `fails at ${trialValidation.failedCommand || "unknown step"}` }
+          : isValidationRegression(baselineValidation.output, trialValidation.output);
+      validation = {
+        ran: true,
+        baselinePassed: baselineValidation.success,
+        trialPassed: trialValidation.success,
+        failedCommand: trialValidation.failedCommand,
+        regressed: regression.regressed,
+        reason: regression.reason,
+        newFailures: Array.from(extractFailureFingerprints(trialValidation.output)).filter(line => !baselineFingerprints.has(line)),
+      };
+      onLog(`[trial] Validation ${validation.trialPassed ? "passed" : validation.regressed ? "regressed" : "still failing as on baseline"}`);
+    }
+
+    const effort = estimateUpgradeEffort(typecheck, validation);
+    onLog(`✓ Trial finished for ${packageName} ${fromVersion || "?"} → ${version}: estimated effort ${effort}. Nothing was committed.`);
+    return {
+      success: true,
+      packageName,
+      fromVersion,
+      toVersion: version,
+      typecheck,
+      validation,
+      effort,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return fail(formatError(error, "Upgrade trial failed."));
+  } finally {
+    if (workspacePath) {
+      await cleanupIsolatedWorkspace(repoPath, workspacePath, branchName, { deleteBranch: true });
+    }
+  }
+}
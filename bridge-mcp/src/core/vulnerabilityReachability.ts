@@ -0,0 +1,324 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { AdvisoryEcosystem, AdvisoryMatch, AdvisorySeverity } from "./advisoryStore.js";
+import type { DependencyUsageReport } from "./dependencyUsage.js";
+import { packageName, type ImportGraph } from "./importGraph.js";
+import { readDeclaredDependencies } from "./requiredPackages.js";
+
+export type VulnerabilityReachability = "reachable" | "dev-only" | "transitive-unused" | "unknown";
+
+export const REACHABILITY_WEIGHTS: Record<VulnerabilityReachability, number> = {
+  reachable: 1,
+  unknown: 1,
+  "transitive-unused": 0.5,
+  "dev-only": 0.2,
+};
+
+const SEVERITY_ORDER: AdvisorySeverity[] = ["critical", "high", "medium", "low"];
+
+const DEV_FILES = [
+  /(^|\/)(__tests__|__mocks__|tests?|e2e|fixtures)\//,
+  /\.(test|spec|stories|story|bench|e2e)\.[cm]?[jt]sx?$/,
+  /(^|\/)[^/]*\.config\.[cm]?[jt]s$/,
+  /(^|\/)\.[^/]*rc\.[cm]?[jt]s$/,
+  /(^|\/)scripts\//,
+];
+
+const PRODUCTION_FIELDS = new Set(["dependencies", "peerDependencies", "optionalDependencies"]);
+
+export interface VulnerablePackage {
+  ecosystem: AdvisoryEcosystem;
+  name: string;
+  severity: AdvisorySeverity;
+  advisories: string[];
+}
+
+export interface VulnerabilityReachabilityFinding extends VulnerablePackage {
+  reachability: VulnerabilityReachability;
+  chain: string[];
+}
+
+export interface VulnerabilityReachabilityReport {
+  lockfile: string | null;
+  findings: VulnerabilityReachabilityFinding[];
+}
+
+export type ReachabilityCounts = Record<VulnerabilityReachability, number>;
+
+interface PackageTree {
+  requires: Map<string, Set<string>>;
+  devOnly: Set<string>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function normalizeSeverity(value: unknown): AdvisorySeverity {
+  const severity = String(value || "").toLowerCase();
+  if (severity === "critical" || severity === "high" || severity === "low") return severity;
+  if (severity === "moderate" || severity === "medium") return "medium";
+  return "low";
+}
+
+function worse(a: AdvisorySeverity, b: AdvisorySeverity): AdvisorySeverity {
+  return SEVERITY_ORDER.indexOf(a) <= SEVERITY_ORDER.indexOf(b) ? a : b;
+}
+
+function advisoryId(via: Record<string, unknown>): string | null {
+  const url = typeof via.url === "string" ? via.url : "";
+  const id = url.split("/").pop();
+  if (id) return id;
+  return typeof via.title === "string" ? via.title : null;
+}
+
+export function vulnerablePackagesFromNpmAudit(payload: unknown): VulnerablePackage[] {
+  if (!isRecord(payload)) return [];
+  const packages = new Map<string, VulnerablePackage>();
+  const add = (name: string, severity: AdvisorySeverity, advisories: string[]) => {
+    const existing = packages.get(name);
+    if (!existing) {
+      packages.set(name, { ecosystem: "npm", name, severity, advisories });
+      return;
+    }
+    existing.severity = worse(existing.severity, severity);
+    existing.advisories = Array.from(new Set([...existing.advisories, ...advisories]));
+  };
+
+  if (isRecord(payload.vulnerabilities)) {
+    Object.entries(payload.vulnerabilities).forEach(([name, entry]) => {
+      if (!isRecord(entry)) return;
+      const via = Array.isArray(entry.via) ? entry.via : [];
+      const advisories = via.filter(isRecord).map(advisoryId).filter((id): id is string => Boolean(id));
+      add(typeof entry.name === "string" ? entry.name : name, normalizeSeverity(entry.severity), advisories);
+    });
+  } else if (isRecord(payload.advisories)) {
+    Object.values(payload.advisories).forEach((advisory) => {
+      if (!isRecord(advisory) || typeof advisory.module_name !== "string") return;
+      const id = advisoryId(advisory) ?? (advisory.id !== undefined ? String(advisory.id) : null);
+      add(advisory.module_name, normalizeSeverity(advisory.severity), id ? [id] : []);
+    });
+  }
+
+  return Array.from(packages.values());
+}
+
+export function vulnerablePackagesFromAdvisoryMatches(matches: AdvisoryMatch[]): VulnerablePackage[] {
+  const packages = new Map<string, VulnerablePackage>();
+  matches.forEach((match) => {
+    const key = `${match.ecosystem}:${match.name}`;
+    const existing = packages.get(key);
+    if (!existing) {
+      packages.set(key, { ecosystem: match.ecosystem, name: match.name, severity: match.severity, advisories: [match.id] });
+      return;
+    }
+    existing.severity = worse(existing.severity, match.severity);
+    if (!existing.advisories.includes(match.id)) existing.advisories.push(match.id);
+  });
+  return Array.from(packages.values());
+}
+
+function addRequires(tree: PackageTree, name: string, entry: Record<string, unknown>, fields: string[]): void {
+  const requires = tree.requires.get(name) ?? new Set<string>();
+  fields.forEach((field) => {
+    const block = entry[field];
+    if (isRecord(block)) Object.keys(block).forEach((dep) => requires.add(dep));
+  });
+  tree.requires.set(name, requires);
+}
+
+async function readPackageTree(repoPath: string): Promise<PackageTree | null> {
+  let lock: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(await fs.readFile(path.join(repoPath, "package-lock.json"), "utf8")) as unknown;
+    if (!isRecord(parsed)) return null;
+    lock = parsed;
+  } catch {
+    return null;
+  }
+
+  const tree: PackageTree = { requires: new Map(), devOnly: new Set() };
+  const prodCopies = new Set<string>();
+
+  if (isRecord(lock.packages)) {
+    const packages = lock.packages;
+    Object.entries(packages).forEach(([key, entry]) => {
+      const marker = key.lastIndexOf("node_modules/");
+      if (marker === -1 || !isRecord(entry)) return;
+      const name = key.slice(marker + "node_modules/".length);
+      // Workspace links point at the workspace folder, which holds the real dependency lists.
+      const target = entry.link === true && typeof entry.resolved === "string" && isRecord(packages[entry.resolved])
+        ? (packages[entry.resolved] as Record<string, unknown>)
+        : entry;
+      addRequires(tree, name, target, ["dependencies", "optionalDependencies", "peerDependencies"]);
+      if (entry.dev !== true) prodCopies.add(name);
+    });
+  } else if (isRecord(lock.dependencies)) {
+    const walk = (dependencies: Record<string, unknown>) => {
+      Object.entries(dependencies).forEach(([name, entry]) => {
+        if (!isRecord(entry)) return;
+        addRequires(tree, name, entry, ["requires"]);
+        if (entry.dev !== true) prodCopies.add(name);
+        if (isRecord(entry.dependencies)) walk(entry.dependencies);
+      });
+    };
+    walk(lock.dependencies);
+  } else {
+    return null;
+  }
+
+  tree.requires.forEach((_, name) => {
+    if (!prodCopies.has(name)) tree.devOnly.add(name);
+  });
+  return tree;
+}
+
+function isDevFile(file: string): boolean {
+  return DEV_FILES.some((pattern) => pattern.test(file));
+}
+
+function findAppImports(graph: ImportGraph): { importers: Map<string, string>; parents: Map<string, string | null> } {
+  const outgoing = new Map<string, string[]>();
+  graph.edges.forEach((edge) => {
+    if (edge.kind === "type" || isDevFile(edge.to)) return;
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge.to]);
+  });
+  const externals = new Map<string, string[]>();
+  graph.externals.forEach((external) => {
+    if (external.kind === "type") return;
+    externals.set(external.from, [...(externals.get(external.from) || []), packageName(external.specifier)]);
+  });
+
+  const appEntries = graph.entries.filter((entry) => !isDevFile(entry));
+  const seeds = appEntries.length > 0 ? appEntries : graph.modules.map((module) => module.id).filter((id) => !isDevFile(id));
+  const parents = new Map<string, string | null>(seeds.map((id) => [id, null]));
+  const importers = new Map<string, string>();
+  const queue = [...seeds];
+  for (let index = 0; index < queue.length; index += 1) {
+    const current = queue[index];
+    (externals.get(current) || []).forEach((name) => {
+      if (!importers.has(name)) importers.set(name, current);
+    });
+    (outgoing.get(current) || []).forEach((next) => {
+      if (parents.has(next)) return;
+      parents.set(next, current);
+      queue.push(next);
+    });
+  }
+  return { importers, parents };
+}
+
+function walkPackages(roots: string[], tree: PackageTree | null): Map<string, string | null> {
+  const parents = new Map<string, string | null>(roots.map((root) => [root, null]));
+  const queue = [...roots];
+  for (let index = 0; index < queue.length && tree; index += 1) {
+    tree.requires.get(queue[index])?.forEach((dep) => {
+      if (parents.has(dep)) return;
+      parents.set(dep, queue[index]);
+      queue.push(dep);
+    });
+  }
+  return parents;
+}
+
+function pathTo(node: string, parents: Map<string, string | null>): string[] {
+  const chain: string[] = [];
+  let current: string | null | undefined = node;
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = parents.get(current);
+  }
+  return chain;
+}
+
+export async function analyzeVulnerabilityReachability(
+  repoPath: string,
+  packages: VulnerablePackage[],
+  graph: ImportGraph,
+  usage: DependencyUsageReport | null,
+): Promise<VulnerabilityReachabilityReport> {
+  const tree = packages.some((pkg) => pkg.ecosystem === "npm") ? await readPackageTree(repoPath) : null;
+  const { importers, parents } = findAppImports(graph);
+
+  const declared = new Map<string, string>();
+  if (usage) {
+    usage.dependencies.forEach((dep) => {
+      if (!declared.has(dep.name) || PRODUCTION_FIELDS.has(dep.field)) declared.set(dep.name, dep.field);
+    });
+  } else {
+    (await readDeclaredDependencies(repoPath)).forEach((dep) => declared.set(dep.name, dep.field));
+  }
+
+  // Production packages run by package.json scripts (`next start`, `node-pg-migrate`) count as app code.
+  const scriptRun = (usage?.dependencies || [])
+    .filter((dep) => dep.implicitUse === "script" && PRODUCTION_FIELDS.has(dep.field))
+    .map((dep) => dep.name);
+  const appRoots = Array.from(importers.keys()).sort((a, b) => pathTo(importers.get(a)!, parents).length - pathTo(importers.get(b)!, parents).length || a.localeCompare(b));
+  const appPackages = walkPackages([...appRoots, ...scriptRun.filter((name) => !importers.has(name))], tree);
+
+  const prodRoots = Array.from(declared.entries()).filter(([, field]) => PRODUCTION_FIELDS.has(field)).map(([name]) => name);
+  const prodPackages = walkPackages(prodRoots.sort(), tree);
+  const devRoots = Array.from(declared.entries()).filter(([, field]) => !PRODUCTION_FIELDS.has(field)).map(([name]) => name);
+  const devPackages = walkPackages(devRoots.sort(), tree);
+
+  const classify = (pkg: VulnerablePackage): Pick<VulnerabilityReachabilityFinding, "reachability" | "chain"> => {
+    if (pkg.ecosystem !== "npm") return { reachability: "unknown", chain: [] };
+    if (appPackages.has(pkg.name)) {
+      const packagePath = pathTo(pkg.name, appPackages);
+      const importer = importers.get(packagePath[0]);
+      const files = importer ? pathTo(importer, parents) : ["package.json"];
+      return { reachability: "reachable", chain: [...files, ...packagePath] };
+    }
+    if (tree?.devOnly.has(pkg.name)) {
+      return { reachability: "dev-only", chain: devPackages.has(pkg.name) ? pathTo(pkg.name, devPackages) : [] };
+    }
+    // A direct production dependency nothing imports may still be loaded dynamically, so it stays unclassified.
+    if (PRODUCTION_FIELDS.has(declared.get(pkg.name) || "")) {
+      return { reachability: "unknown", chain: ["package.json", pkg.name] };
+    }
+    if (prodPackages.has(pkg.name)) {
+      return { reachability: "transitive-unused", chain: pathTo(pkg.name, prodPackages) };
+    }
+    if (devPackages.has(pkg.name)) {
+      return { reachability: "dev-only", chain: pathTo(pkg.name, devPackages) };
+    }
+    if (tree?.requires.has(pkg.name)) return { reachability: "transitive-unused", chain: [] };
+    return { reachability: "unknown", chain: [] };
+  };
+
+  return {
+    lockfile: tree ? "package-lock.json" : null,
+    findings: packages
+      .map((pkg) => ({ ...pkg, ...classify(pkg) }))
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.name.localeCompare(b.name)),
+  };
+}
+
+export function countByReachability(
+  report: VulnerabilityReachabilityReport,
+  severity: AdvisorySeverity,
+): ReachabilityCounts {
+  const counts: ReachabilityCounts = { reachable: 0, "dev-only": 0, "transitive-unused": 0, unknown: 0 };
+  report.findings.forEach((finding) => {
+    if (finding.severity === severity) counts[finding.reachability] += 1;
+  });
+  return counts;
+}
+
+export function productionVulnerabilityCount(report: VulnerabilityReachabilityReport, severity: AdvisorySeverity): number {
+  const counts = countByReachability(report, severity);
+  return counts.reachable + counts.unknown;
+}
+
+export function describeReachabilityCounts(counts: ReachabilityCounts): string {
+  const labels: Array<[VulnerabilityReachability, string]> = [
+    ["reachable", "reachable from app code"],
+    ["unknown", "unclassified"],
+    ["transitive-unused", "transitive but unused"],
+    ["dev-only", "dev-only"],
+  ];
+  return labels
+    .filter(([key]) => counts[key] > 0)
+    .map(([key, label]) => `${counts[key]} ${label}`)
+    .join(", ");
+}
@@ -45,7 +45,7 @@ server.registerTool(
   {
     title: "Get Bridge Context",
     description:
-      "Load repo-level debt intelligence before coding. Returns score, critical issues, gates, conventions, and prioritized actions. Uses 24h cached analysis when available.",
+      "Load repo-level debt intelligence before coding. Returns score and trend, critical issues, gates, conventions, and prioritized actions. Uses 24h cached analysis when available.",
     inputSchema: getContextInputSchema,
     annotations: {
       readOnlyHint: true,
@@ -151,18 +151,28 @@ server.registerTool(
 server.registerTool(
   "bridge_update_deps",
   {
-    title: "Plan Dependency Updates (Dry Run)",
+    title: "Plan or Apply Dependency Updates",
     description:
-      "Dry-run dependency update plan based on .bridge.json policy. Reports what would be updated, skipped, or pinned without executing changes.",
-    inputSchema: repoPathSchema,
+      "Dependency update plan based on .bridge.json policy. Reports what would be updated, skipped, or pinned. With execute: true, applies the policy-approved updates on a new local branch in an isolated git worktree, runs validation and commits only if it passes; the working tree is left untouched and nothing is pushed.",
+    inputSchema: repoPathSchema.extend({
+      execute: z.boolean().optional().describe("Apply the updates instead of only planning them (default false)"),
+      branch_name: z.string().min(1).optional().describe("Branch to create when executing"),
+      run_tests: z.boolean().optional().describe("Validate before committing (defaults to gates.tests.required)"),
+      bisect_on_failure: z.boolean().optional().describe("On validation failure, commit the subset that passes (default false)"),
+    }),
     annotations: {
-      readOnlyHint: true,
-      idempotentHint: true,
+      destructiveHint: false,
+      openWorldHint: true,
     },
   },
   async (args) => {
     try {
-      const payload = await runBridgeUpdateDeps(args.repo_path);
+      const payload = await runBridgeUpdateDeps(args.repo_path, {
+        execute: args.execute,
+        branchName: args.branch_name,
+        runTests: args.run_tests,
+        bisectOnFailure: args.bisect_on_failure,
+      });
       return { content: jsonContent(payload) };
     } catch (error) {
       console.error("bridge_update_deps failed", error);
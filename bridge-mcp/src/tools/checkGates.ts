@@ -1,5 +1,6 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import { compareAnalysisWithBaseline } from "../core/baseline.js";
 import { loadBridgeConfig } from "../core/bridgeConfig.js";
 import { evaluateGates, type GateResult } from "../core/gateEvaluator.js";
 import { analyzeRepo } from "../core/repoAnalyzer.js";
@@ -24,7 +25,8 @@ export async function runBridgeCheckGates(repoPathInput: string): Promise<Bridge
   const repoPath = await verifyRepoPath(repoPathInput);
   const config = await loadBridgeConfig(repoPath);
   const analysis = await analyzeRepo(repoPath);
-  const results = evaluateGates(config, analysis);
+  const baseline = await compareAnalysisWithBaseline(repoPath, analysis);
+  const results = evaluateGates(config, { ...analysis, baseline });
 
   return {
     repoPath,
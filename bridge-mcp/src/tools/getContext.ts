@@ -1,7 +1,9 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import { compareAnalysisWithBaseline } from "../core/baseline.js";
 import { loadBridgeConfig, hasBridgeConfig } from "../core/bridgeConfig.js";
 import { evaluateGates } from "../core/gateEvaluator.js";
+import { loadScoreHistory, recordScoreSnapshot } from "../core/history.js";
 import { analyzeRepo, type RepoAnalysis } from "../core/repoAnalyzer.js";
 import { calculateScore, type TechDebtScore } from "../core/scorer.js";
 import {
@@ -22,6 +24,9 @@ export interface BridgeContextPayload {
   scanned_at: string;
   debt_score: number;
   grade: TechDebtScore["grade"];
+  trend: TechDebtScore["trend"];
+  score_delta: number | null;
+  dimension_deltas: Record<string, number>;
   has_bridge_config: boolean;
   critical_issues: string[];
   top_actions: Array<{ title: string; impact: number; automatable: boolean }>;
@@ -97,6 +102,13 @@ function buildCriticalIssues(
     );
   }
 
+  const hotPath = analysis.vulnerabilityReachability?.findings.find(
+    (finding) => finding.reachability === "reachable" && (finding.severity === "critical" || finding.severity === "high"),
+  );
+  if (hotPath) {
+    issues.push(`${hotPath.name} (${hotPath.severity}) is reachable from app code: ${hotPath.chain.join(" -> ")}`);
+  }
+
   if (!analysis.testCommand) {
     issues.push("No test command found in package.json scripts.");
   }
@@ -136,13 +148,18 @@ async function loadOrAnalyze(repoPath: string): Promise<{ analysis: RepoAnalysis
   }
 
   const analysis = await analyzeRepo(repoPath);
-  await writeJsonFile(scanCachePath, analysis);
   return {
     analysis,
-    scannedAt: new Date().toISOString(),
+    scannedAt: await writeAnalysisCache(repoPath, analysis),
   };
 }
 
+export async function writeAnalysisCache(repoPath: string, analysis: RepoAnalysis): Promise<string> {
+  const scanCachePath = cachePath(repoPath, LATEST_SCAN_FILE);
+  await writeJsonFile(scanCachePath, analysis);
+  return new Date((await statMtime(scanCachePath)) ?? Date.now()).toISOString();
+}
+
 function textMatchesFocus(text: string, focus: string | undefined): boolean {
   if (!focus) {
     return true;
@@ -180,9 +197,11 @@ export async function runBridgeGetContext(
   const config = await loadBridgeConfig(repoPath);
 
   const { analysis, scannedAt } = await loadOrAnalyze(repoPath);
-  const score = calculateScore(analysis, config);
+  const history = await loadScoreHistory(repoPath, { before: scannedAt });
+  const score = calculateScore(analysis, config, history);
 
-  const gates = evaluateGates(config, analysis);
+  const baseline = await compareAnalysisWithBaseline(repoPath, analysis);
+  const gates = evaluateGates(config, { ...analysis, baseline });
   const failingGates = gates.filter((gate) => !gate.passed).map((gate) => gate.name);
 
   const contextPayload: BridgeContextPayload = {
@@ -190,6 +209,9 @@ export async function runBridgeGetContext(
     scanned_at: scannedAt,
     debt_score: score.total,
     grade: score.grade,
+    trend: score.trend,
+    score_delta: score.trendDetails?.delta ?? null,
+    dimension_deltas: score.trendDetails?.dimensionDeltas ?? {},
     has_bridge_config: bridgeConfigExists,
     critical_issues: buildCriticalIssues(analysis, score, failingGates),
     top_actions: filterTopActions(score.actionItems, focus),
@@ -208,7 +230,8 @@ export async function runBridgeGetContext(
   const contextCachePath = cachePath(repoPath, LATEST_CONTEXT_FILE);
   const scoreCachePath = cachePath(repoPath, LATEST_SCORE_FILE);
   await writeJsonFile(contextCachePath, contextPayload);
-  await writeJsonFile(scoreCachePath, score);
+  await writeJsonFile(scoreCachePath, { ...score, generatedAt: scannedAt });
+  await recordScoreSnapshot(repoPath, score, scannedAt);
 
   return contextPayload;
 }
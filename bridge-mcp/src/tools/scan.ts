@@ -1,6 +1,7 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { loadBridgeConfig } from "../core/bridgeConfig.js";
+import { loadScoreHistory } from "../core/history.js";
 import { analyzeRepo, type RepoAnalysis } from "../core/repoAnalyzer.js";
 import { calculateScore, type TechDebtScore } from "../core/scorer.js";
 import {
@@ -11,7 +12,7 @@ import {
   ensureBridgeDir,
   writeJsonFile,
 } from "../core/cache.js";
-import { runBridgeGetContext, type BridgeContextPayload } from "./getContext.js";
+import { runBridgeGetContext, writeAnalysisCache, type BridgeContextPayload } from "./getContext.js";
 
 export interface BridgeScanResult {
   repoPath: string;
@@ -37,7 +38,6 @@ export async function runBridgeScan(repoPathInput: string): Promise<BridgeScanRe
   const repoPath = await verifyRepoPath(repoPathInput);
   const config = await loadBridgeConfig(repoPath);
   const analysis = await analyzeRepo(repoPath);
-  const score = calculateScore(analysis, config);
 
   await ensureBridgeDir(repoPath);
 
@@ -45,8 +45,10 @@ export async function runBridgeScan(repoPathInput: string): Promise<BridgeScanRe
   const scorePath = cachePath(repoPath, LATEST_SCORE_FILE);
   const contextPath = cachePath(repoPath, LATEST_CONTEXT_FILE);
 
-  await writeJsonFile(scanPath, analysis);
-  await writeJsonFile(scorePath, score);
+  const scannedAt = await writeAnalysisCache(repoPath, analysis);
+  const history = await loadScoreHistory(repoPath, { before: scannedAt });
+  const score = calculateScore(analysis, config, history);
+  await writeJsonFile(scorePath, { ...score, generatedAt: scannedAt });
   const context = await runBridgeGetContext(repoPath);
 
   return {
@@ -57,6 +59,6 @@ export async function runBridgeScan(repoPathInput: string): Promise<BridgeScanRe
     analysis,
     score,
     context,
-    scannedAt: new Date().toISOString(),
+    scannedAt,
   };
 }
@@ -1,19 +1,60 @@
 import path from "node:path";
-import { loadBridgeConfig } from "../core/bridgeConfig.js";
+import { getUpdatePolicy, loadBridgeConfig, type UpdatePolicyOverrides } from "../core/bridgeConfig.js";
+import { normalizeConfiguredTimeoutMs, runIsolatedDependencyUpdate } from "../core/dependencyUpdate.js";
+import type { LockfileDiff } from "../core/lockfileDiff.js";
+import { describeSkippedReleases, type ReleaseCooldown } from "../core/releaseAge.js";
 import { analyzeRepo } from "../core/repoAnalyzer.js";
 
+const MAX_TEST_OUTPUT_CHARS = 8000;
+
 export interface UpdateDepsResult {
   repo_path: string;
   dry_run: boolean;
   policy: { patch: string; minor: string; major: string };
-  would_update: { name: string; current: string; latest: string; type: string }[];
+  policy_overrides: UpdatePolicyOverrides;
+  min_release_age_days: number;
+  min_release_age_overrides: Record<string, number>;
+  would_update: { name: string; current: string; latest: string; type: string; dev: boolean; cooldown?: string }[];
   would_skip: { name: string; reason: string; current: string; latest: string }[];
   pinned: { name: string; pinned_version: string }[];
   total_updatable: number;
   recommendation: string;
+  execution?: {
+    success: boolean;
+    branch_name: string;
+    committed: boolean;
+    updated_packages: string[];
+    failed_packages: string[];
+    held_back: { name: string; failed_command: string | null }[];
+    tests_run: boolean;
+    tests_passed: boolean | null;
+    test_output: string;
+    error: string | null;
+    lockfile_diff: LockfileDiff | null;
+  };
+}
+
+export interface UpdateDepsOptions {
+  execute?: boolean;
+  branchName?: string;
+  runTests?: boolean;
+  bisectOnFailure?: boolean;
+}
+
+function describeCooldown(cooldown: ReleaseCooldown | undefined): string | undefined {
+  if (!cooldown) {
+    return undefined;
+  }
+  if (cooldown.unresolved) {
+    return `Publish times unavailable; held at the current version until the ${cooldown.minReleaseAgeDays}-day minimum release age can be checked`;
+  }
+  if (cooldown.skipped.length === 0) {
+    return undefined;
+  }
+  return `Skipped ${describeSkippedReleases(cooldown)}: younger than the ${cooldown.minReleaseAgeDays}-day minimum release age`;
 }
 
-export async function runBridgeUpdateDeps(repoPathInput: string): Promise<UpdateDepsResult> {
+export async function runBridgeUpdateDeps(repoPathInput: string, options: UpdateDepsOptions = {}): Promise<UpdateDepsResult> {
   const repoPath = path.resolve(repoPathInput);
   const config = await loadBridgeConfig(repoPath);
   const analysis = await analyzeRepo(repoPath);
@@ -38,92 +79,50 @@ export async function runBridgeUpdateDeps(repoPathInput: string): Promise<Update
       continue;
     }
 
-    if (outdated.updateType === "patch") {
-      if (policy.patch === "ignore") {
-        wouldSkip.push({
-          name: outdated.name,
-          reason: "Patch updates are ignored by policy",
-          current: outdated.current,
-          latest: outdated.latest,
-        });
-      } else if (policy.patch === "review") {
-        wouldSkip.push({
-          name: outdated.name,
-          reason: "Patch update requires review by policy",
-          current: outdated.current,
-          latest: outdated.latest,
-        });
-      } else {
-        wouldUpdate.push({
-          name: outdated.name,
-          current: outdated.current,
-          latest: outdated.latest,
-          type: outdated.updateType,
-        });
-      }
+    const cooldown = describeCooldown(outdated.cooldown);
+    if (outdated.cooldown && outdated.latest === outdated.current) {
+      wouldSkip.push({
+        name: outdated.name,
+        reason: cooldown || `No newer version is ${outdated.cooldown.minReleaseAgeDays} days old yet`,
+        current: outdated.current,
+        latest: outdated.cooldown.skipped[0]?.version ?? outdated.latest,
+      });
       continue;
     }
 
-    if (outdated.updateType === "minor") {
-      if (policy.minor === "ignore") {
-        wouldSkip.push({
-          name: outdated.name,
-          reason: "Minor updates are ignored by policy",
-          current: outdated.current,
-          latest: outdated.latest,
-        });
-      } else if (policy.minor === "review") {
-        wouldSkip.push({
-          name: outdated.name,
-          reason: "Minor update requires review by policy",
-          current: outdated.current,
-          latest: outdated.latest,
-        });
-      } else {
-        wouldUpdate.push({
-          name: outdated.name,
-          current: outdated.current,
-          latest: outdated.latest,
-          type: outdated.updateType,
-        });
-      }
+    const effective = getUpdatePolicy(config.dependencies, outdated);
+    if (!effective) {
+      wouldSkip.push({
+        name: outdated.name,
+        reason: "Unable to classify update type",
+        current: outdated.current,
+        latest: outdated.latest,
+      });
       continue;
     }
 
-    if (outdated.updateType === "major") {
-      if (policy.major === "ignore") {
-        wouldSkip.push({
-          name: outdated.name,
-          reason: "Major updates are ignored by policy",
-          current: outdated.current,
-          latest: outdated.latest,
-        });
-      } else {
-        wouldSkip.push({
-          name: outdated.name,
-          reason: "Major updates require review by policy",
-          current: outdated.current,
-          latest: outdated.latest,
-        });
-      }
-      continue;
+    const label = outdated.updateType.charAt(0).toUpperCase() + outdated.updateType.slice(1);
+    const byPolicy = effective.source === "updatePolicy" ? "by policy" : `by policy (${effective.source})`;
+    if (effective.level === "auto") {
+      wouldUpdate.push({
+        name: outdated.name,
+        current: outdated.current,
+        latest: outdated.latest,
+        type: outdated.updateType,
+        dev: outdated.dependencyType === "devDependencies",
+        ...(cooldown ? { cooldown } : {}),
+      });
+    } else {
+      wouldSkip.push({
+        name: outdated.name,
+        reason: effective.level === "ignore" ? `${label} updates are ignored ${byPolicy}` : `${label} update requires review ${byPolicy}`,
+        current: outdated.current,
+        latest: outdated.latest,
+      });
     }
-
-    wouldSkip.push({
-      name: outdated.name,
-      reason: "Unable to classify update type",
-      current: outdated.current,
-      latest: outdated.latest,
-    });
   }
 
-  // TODO: wire this tool to invoke PatchBatch execution paths after shared core extraction.
-  const recommendation =
-    wouldUpdate.length > 0
-      ? `Dry-run identified ${wouldUpdate.length} dependency updates allowed by policy.`
-      : "No policy-approved dependency updates found in dry-run.";
-
-  return {
+  const plan: UpdateDepsResult = {
     repo_path: repoPath,
     dry_run: true,
     policy: {
@@ -131,10 +130,54 @@ export async function runBridgeUpdateDeps(repoPathInput: string): Promise<Update
       minor: policy.minor,
       major: policy.major,
     },
+    policy_overrides: config.dependencies.updatePolicyOverrides || {},
+    min_release_age_days: config.dependencies.minReleaseAgeDays ?? 0,
+    min_release_age_overrides: config.dependencies.minReleaseAgeOverrides || {},
     would_update: wouldUpdate,
     would_skip: wouldSkip,
     pinned,
     total_updatable: wouldUpdate.length,
-    recommendation,
+    recommendation:
+      wouldUpdate.length > 0
+        ? `Dry-run identified ${wouldUpdate.length} dependency updates allowed by policy. Call again with execute: true to apply them on a new branch.`
+        : "No policy-approved dependency updates found in dry-run.",
+  };
+
+  if (!options.execute || wouldUpdate.length === 0) {
+    return plan;
+  }
+
+  const runTests = options.runTests ?? config.gates.tests.required;
+  const update = await runIsolatedDependencyUpdate({
+    repoPath,
+    branchName: options.branchName?.trim() || `bridge-update-deps-${Date.now()}`,
+    packages: wouldUpdate.map(pkg => ({ name: pkg.name, version: pkg.latest, dev: pkg.dev })),
+    runTests,
+    testCommand: config.gates.tests.command || undefined,
+    timeoutMs: normalizeConfiguredTimeoutMs(config.gates.tests.timeout) ?? undefined,
+    workflow: "mcp",
+    bisectOnFailure: options.bisectOnFailure,
+  });
+  const testOutput = update.testOutput || "";
+
+  return {
+    ...plan,
+    dry_run: false,
+    recommendation: update.success
+      ? `Committed ${update.updatedPackages.length} dependency updates on local branch '${update.branchName}'. Review, push and open a PR when ready.`
+      : `Update failed: ${update.error || "unknown error"}. No branch was kept.`,
+    execution: {
+      success: update.success,
+      branch_name: update.branchName,
+      committed: update.committed,
+      updated_packages: update.updatedPackages,
+      failed_packages: update.failedPackages,
+      held_back: update.culprits.map(culprit => ({ name: culprit.name, failed_command: culprit.failedCommand ?? null })),
+      tests_run: update.validationChecks > 0,
+      tests_passed: update.testsPassed ?? null,
+      test_output: testOutput.length > MAX_TEST_OUTPUT_CHARS ? testOutput.slice(-MAX_TEST_OUTPUT_CHARS) : testOutput,
+      error: update.error ?? null,
+      lockfile_diff: update.lockfileDiff ?? null,
+    },
   };
 }
@@ -0,0 +1,166 @@
+import {
+  CLI_EXIT_CODES,
+  GateFailureError,
+  runDoctorCommand,
+  runGatesCommand,
+  runInitCommand,
+  runReportCommand,
+  runScanCommand,
+  runUpdateCommand,
+  type CliFormat
+} from './services/cli'
+
+const USAGE = `Usage: bridge <command> [repo-path] [options]
+
+Commands:
+  init      Generate .bridge.json with autodetected defaults
+  scan      Run a full scan and write .bridge/ report artifacts
+  gates     Run a full scan and evaluate quality gates
+  update    Apply the non-breaking updates the update policy allows on a new branch
+  report    Print the latest stored scan report without rescanning
+  doctor    Check the local toolchain and .bridge.json
+
+Options:
+  --format <json|human|agent|sarif>
+                               Output format (default: human; sarif applies to scan and report)
+  --output <file>              Also write the rendered output to a file
+  --sarif <file>               scan, gates: import another tool's SARIF results first (repeatable)
+  --gates                      scan: exit with code 1 when an error-severity gate fails
+  --quiet                      Suppress stdout output
+  --force                      init: overwrite an existing .bridge.json
+  --branch <name>              update: branch to create
+  --create-pr                  update: open a pull request with the GitHub CLI
+  --no-tests                   update: skip running the test command
+  --no-push                    update: keep the branch local
+  --bisect                     update: on failing tests, find the culprit packages and ship the rest
+  --group <name>               update: only update one dependencies.groups entry from .bridge.json
+  -h, --help                   Show this help
+
+Exit codes: 0 success, 1 gate failure, 2 usage or runtime error.`
+
+const COMMANDS = ['init', 'scan', 'gates', 'update', 'report', 'doctor'] as const
+type Command = typeof COMMANDS[number]
+
+const VALUE_FLAGS = new Set(['format', 'output', 'branch', 'sarif', 'group'])
+const REPEATABLE_FLAGS = new Set(['sarif'])
+
+interface ParsedArgs {
+  command: Command | null
+  repoPath: string
+  flags: Record<string, string | boolean>
+  sarif: string[]
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const flags: Record<string, string | boolean> = {}
+  const repeated: Record<string, string[]> = {}
+  const positionals: string[] = []
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index]
+    if (arg === '-h' || arg === '--help') {
+      flags.help = true
+    } else if (arg.startsWith('--')) {
+      const [rawName, inlineValue] = arg.slice(2).split('=', 2)
+      if (VALUE_FLAGS.has(rawName)) {
+        const value = inlineValue ?? argv[index + 1]
+        if (value === undefined || value.startsWith('--')) {
+          throw new Error(`--${rawName} requires a value.`)
+        }
+        flags[rawName] = value
+        if (REPEATABLE_FLAGS.has(rawName)) {
+          repeated[rawName] = [...(repeated[rawName] || []), value]
+        }
+        if (inlineValue === undefined) index += 1
+      } else if (rawName.startsWith('no-')) {
+        flags[rawName.slice(3)] = false
+      } else {
+        flags[rawName] = true
+      }
+    } else {
+      positionals.push(arg)
+    }
+  }
+
+  const [command, repoPath] = positionals
+  if (command && !(COMMANDS as readonly string[]).includes(command)) {
+    throw new Error(`Unknown command: ${command}`)
+  }
+
+  return {
+    command: (command as Command) || null,
+    repoPath: repoPath || process.cwd(),
+    flags,
+    sarif: repeated.sarif || []
+  }
+}
+
+function parseFormat(value: string | boolean | undefined): CliFormat {
+  if (value === undefined) return 'human'
+  if (value === 'json' || value === 'human' || value === 'agent' || value === 'sarif') return value
+  throw new Error(`Invalid --format: ${String(value)} (expected json, human, agent or sarif).`)
+}
+
+async function run(args: ParsedArgs): Promise<number> {
+  const { command, repoPath, flags, sarif } = args
+  if (!command || flags.help) {
+    console.log(USAGE)
+    return command || flags.help ? CLI_EXIT_CODES.success : CLI_EXIT_CODES.error
+  }
+
+  const format = parseFormat(flags.format)
+  const output = typeof flags.output === 'string' ? flags.output : undefined
+  const quiet = flags.quiet === true
+  // Progress goes to stderr so machine-readable stdout stays parseable.
+  const onProgress = quiet || format !== 'human'
+    ? undefined
+    : (message: string, step: number, total: number) => console.error(`[${step}/${total}] ${message}`)
+
+  switch (command) {
+    case 'init':
+      await runInitCommand(repoPath, { force: flags.force === true, quiet })
+      return CLI_EXIT_CODES.success
+    case 'scan':
+      await runScanCommand(repoPath, { format, output, sarif, quiet, gates: flags.gates === true, generatedBy: 'bridge-cli', onProgress })
+      return CLI_EXIT_CODES.success
+    case 'gates':
+      await runGatesCommand(repoPath, { format, output, sarif, quiet, generatedBy: 'bridge-cli', onProgress })
+      return CLI_EXIT_CODES.success
+    case 'update':
+      await runUpdateCommand(repoPath, {
+        branchName: typeof flags.branch === 'string' ? flags.branch : undefined,
+        createPR: flags['create-pr'] === true ? true : undefined,
+        runTests: flags.tests === false ? false : undefined,
+        push: flags.push === false ? false : undefined,
+        bisect: flags.bisect === true ? true : undefined,
+        group: typeof flags.group === 'string' ? flags.group : undefined,
+        quiet
+      })
+      return CLI_EXIT_CODES.success
+    case 'report':
+      await runReportCommand(repoPath, { format, output, quiet })
+      return CLI_EXIT_CODES.success
+    case 'doctor': {
+      const result = await runDoctorCommand(repoPath, { format, quiet })
+      return result.healthy ? CLI_EXIT_CODES.success : CLI_EXIT_CODES.error
+    }
+  }
+}
+
+async function main() {
+  let exitCode: number
+  try {
+    exitCode = await run(parseArgs(process.argv.slice(2)))
+  } catch (error) {
+    if (error instanceof GateFailureError) {
+      console.error(error.message)
+      exitCode = CLI_EXIT_CODES.gateFailure
+    } else {
+      console.error(`bridge: ${error instanceof Error ? error.message : String(error)}`)
+      exitCode = CLI_EXIT_CODES.error
+    }
+  }
+  process.exit(exitCode)
+}
+
+main()
@@ -16,6 +16,7 @@ import {
   deleteDeadFile,
   cleanupDeadCode,
   detectDeadCode,
+  getDependencyUsage,
   loadRepositoryBridgeConfig,
   generateRepositoryBridgeConfig,
   saveRepositoryBridgeConfig,
@@ -27,6 +28,13 @@ import {
   testBridgeConsoleConnection
 } from './services/bridgeConsoleApi'
 import { loadBridgeProjectConfig } from './services/bridgeProjectConfig'
+import { saveLatestScanBaseline } from './services/scanBaseline'
+import {
+  exportLatestSarifReport,
+  importSarifFile,
+  listSarifImports,
+  removeSarifImport
+} from './services/sarif'
 import {
   detectLanguages,
   getPythonOutdated,
@@ -38,7 +46,14 @@ import {
   getJsOutdatedPackages,
   runPatchBatchPipeline,
   runNonBreakingUpdatePipeline,
-  runSecurityPatchPipeline
+  runGroupedUpdatePipeline,
+  runSecurityPatchPipeline,
+  runUpgradeTrialPipeline,
+  runPackageMigrationPipeline,
+  runRequiredPackagesPipeline,
+  getRequiredPackageStatus,
+  applyUpdatePolicies,
+  getOverduePackageNames
 } from './services/patchBatch'
 import {
   getScheduledJobs,
@@ -71,8 +86,17 @@ import {
 import {
   runSecurityScan,
   generateSecurityFix,
-  checkAgenticFixerAvailable
+  checkAgenticFixerAvailable,
+  getAdvisoryDatabaseInfo,
+  importAdvisoryDatabase,
+  clearAdvisoryDatabase
 } from './services/securityScanner'
+import {
+  getSuppressions,
+  addSuppression,
+  removeSuppression,
+  type SuppressionRequest
+} from './services/suppressions'
 import {
   getAppSettings,
   saveAppSettings,
@@ -127,8 +151,36 @@ app.whenReady().then(() => {
 
   setSchedulerExecutor(async (job): Promise<JobResult | null> => {
     try {
-      const outdated = await collectOutdatedPackages(job.repoPath)
-      const nonBreakingPackages = outdated.filter(p => p.isNonBreaking)
+      const bridgeConfig = await loadRepositoryBridgeConfig(job.repoPath)
+      const outdated = applyUpdatePolicies(await collectOutdatedPackages(job.repoPath), bridgeConfig.dependencies)
+      // Packages past dependencies.maxAge are installed and bisected first.
+      const priorityPackages = await getOverduePackageNames(job.repoPath, outdated, bridgeConfig.dependencies)
+      const projectConfig = await loadBridgeProjectConfig(job.repoPath)
+      const bisectOnFailure = projectConfig.config.patch?.bisectOnFailure ?? false
+
+      if (job.group) {
+        const grouped = await runGroupedUpdatePipeline({
+          repoPath: job.repoPath,
+          branchPrefix: 'bridge-scheduled',
+          groups: [job.group],
+          createPR: false,
+          runTests: true,
+          priorityPackages,
+          bisectOnFailure
+        })
+        const result = grouped.runs[0]?.result
+        return {
+          jobId: job.id,
+          success: grouped.success,
+          timestamp: new Date().toISOString(),
+          updatedPackages: result?.updatedPackages || [],
+          prUrl: result?.prUrl || undefined,
+          error: grouped.error || (result && !result.success ? result.error : undefined),
+          testsPassed: result?.testsPassed
+        }
+      }
+
+      const nonBreakingPackages = outdated.filter(p => p.isNonBreaking && p.policy !== 'review' && p.policy !== 'ignore')
 
       if (nonBreakingPackages.length === 0) {
         return {
@@ -144,8 +196,10 @@ app.whenReady().then(() => {
         branchName: `bridge-scheduled-${Date.now()}`,
         createPR: false,
         runTests: true,
-        prTitle: 'chore(deps): scheduled non-breaking dependency update',
-        prBody: '## Summary\nScheduled non-breaking updates (patch + minor) via Bridge.'
+        priorityPackages,
+        bisectOnFailure,
+        prTitle: 'chore(deps): scheduled policy-approved dependency update',
+        prBody: '## Summary\nScheduled dependency updates that the .bridge.json update policy marks `auto`, via Bridge.'
       })
 
       return {
@@ -349,6 +403,10 @@ ipcMain.handle('detect-dead-code', async (_, repoPath: string) => {
   return await detectDeadCode(repoPath)
 })
 
+ipcMain.handle('get-dependency-usage', async (_, repoPath: string) => {
+  return await getDependencyUsage(repoPath)
+})
+
 ipcMain.handle('run-full-scan', async (event, repoPath: string) => {
   if (!isExperimentalFeaturesEnabled()) {
     throw new Error('Full TD Scan is disabled. Enable Experimental Features in Settings.')
@@ -360,6 +418,10 @@ ipcMain.handle('run-full-scan', async (event, repoPath: string) => {
   })
 })
 
+ipcMain.handle('save-scan-baseline', async (_, repoPath: string) => {
+  return await saveLatestScanBaseline(repoPath)
+})
+
 ipcMain.handle('delete-dead-file', async (_, repoPath: string, relativePath: string) => {
   return await deleteDeadFile(repoPath, relativePath)
 })
@@ -394,7 +456,8 @@ ipcMain.handle('get-outdated-packages', async (_, repoPath: string, language?: L
     }
   }
 
-  return allPackages
+  const bridgeConfig = await loadRepositoryBridgeConfig(repoPath)
+  return applyUpdatePolicies(allPackages, bridgeConfig.dependencies)
 })
 
 async function collectOutdatedPackages(repoPath: string) {
@@ -435,6 +498,7 @@ ipcMain.handle('run-patch-batch', async (event, config: {
   testTimeoutMs?: number
   prTitle?: string
   prBody?: string
+  bisectOnFailure?: boolean
 }) => {
   const {
     repoPath,
@@ -451,9 +515,8 @@ ipcMain.handle('run-patch-batch', async (event, config: {
 
   const bridgeConfig = await loadRepositoryBridgeConfig(repoPath)
   const projectConfig = await loadBridgeProjectConfig(repoPath)
-  const updatePolicy = bridgeConfig.dependencies.updatePolicy
   const pinnedPackages = bridgeConfig.dependencies.pinnedPackages || {}
-  const outdatedPackages = await collectOutdatedPackages(repoPath)
+  const outdatedPackages = applyUpdatePolicies(await collectOutdatedPackages(repoPath), bridgeConfig.dependencies)
   const outdatedIndex = new Map(outdatedPackages.map(pkg => [`${pkg.language}:${pkg.name}`, pkg]))
 
   const skippedPinned: string[] = []
@@ -468,10 +531,7 @@ ipcMain.handle('run-patch-batch', async (event, config: {
       return true
     }
 
-    if (lookup.updateType === 'patch' && updatePolicy.patch === 'ignore') return false
-    if (lookup.updateType === 'minor' && updatePolicy.minor === 'ignore') return false
-    if (lookup.updateType === 'major' && updatePolicy.major === 'ignore') return false
-    return true
+    return lookup.policy !== 'ignore'
   })
 
   if (skippedPinned.length > 0) {
@@ -501,7 +561,8 @@ ipcMain.handle('run-patch-batch', async (event, config: {
       prTitle,
       prBody,
       testCommand: testCommand?.trim() || bridgeConfig.gates.tests.command || projectConfig.config.patch?.testCommand,
-      testTimeoutMs: testTimeoutMs ?? bridgeConfig.gates.tests.timeout
+      testTimeoutMs: testTimeoutMs ?? bridgeConfig.gates.tests.timeout,
+      bisectOnFailure: config.bisectOnFailure ?? projectConfig.config.patch?.bisectOnFailure ?? false
     },
     {
       onProgress: (message, step, total) => event.sender.send('patch-batch-progress', { message, step, total }),
@@ -525,6 +586,7 @@ ipcMain.handle('run-non-breaking-update', async (event, config: {
   testTimeoutMs?: number
   prTitle?: string
   prBody?: string
+  bisectOnFailure?: boolean
 }) => {
   const bridgeConfig = await loadRepositoryBridgeConfig(config.repoPath)
   const projectConfig = await loadBridgeProjectConfig(config.repoPath)
@@ -548,6 +610,145 @@ ipcMain.handle('run-non-breaking-update', async (event, config: {
       testCommand: config.testCommand?.trim() || bridgeConfig.gates.tests.command || patchConfig.testCommand,
       testTimeoutMs: config.testTimeoutMs ?? bridgeConfig.gates.tests.timeout,
       baseBranch: config.baseBranch || patchConfig.baseBranch || projectConfig.config.baseBranch,
+      remoteFirst: config.remoteFirst ?? patchConfig.remoteFirst ?? true,
+      bisectOnFailure: config.bisectOnFailure ?? patchConfig.bisectOnFailure ?? false
+    },
+    {
+      onProgress: (message, step, total) => event.sender.send('patch-batch-progress', { message, step, total }),
+      onLog: (message) => event.sender.send('patch-batch-log', { message }),
+      onWarning: (warning) => event.sender.send('patch-batch-warning', warning)
+    }
+  )
+})
+
+ipcMain.handle('run-grouped-update', async (event, config: {
+  repoPath: string
+  createPR: boolean
+  runTests: boolean
+  pushChanges?: boolean
+  baseBranch?: string
+  remoteFirst?: boolean
+  groups?: Array<string | null>
+  selectedReviewPackages?: string[]
+  testCommand?: string
+  testTimeoutMs?: number
+  bisectOnFailure?: boolean
+}) => {
+  const bridgeConfig = await loadRepositoryBridgeConfig(config.repoPath)
+  const projectConfig = await loadBridgeProjectConfig(config.repoPath)
+  const patchConfig = projectConfig.config.patch || {}
+
+  return runGroupedUpdatePipeline(
+    {
+      ...config,
+      branchPrefix: patchConfig.branchPrefix || projectConfig.config.branchPrefix || 'bridge-update-deps',
+      createPR: config.createPR ?? patchConfig.createPR ?? false,
+      runTests: config.runTests ?? patchConfig.runTests ?? bridgeConfig.gates.tests.required,
+      testCommand: config.testCommand?.trim() || bridgeConfig.gates.tests.command || patchConfig.testCommand,
+      testTimeoutMs: config.testTimeoutMs ?? bridgeConfig.gates.tests.timeout,
+      baseBranch: config.baseBranch || patchConfig.baseBranch || projectConfig.config.baseBranch,
+      remoteFirst: config.remoteFirst ?? patchConfig.remoteFirst ?? true,
+      bisectOnFailure: config.bisectOnFailure ?? patchConfig.bisectOnFailure ?? false
+    },
+    {
+      onProgress: (message, step, total) => event.sender.send('patch-batch-progress', { message, step, total }),
+      onLog: (message) => event.sender.send('patch-batch-log', { message }),
+      onWarning: (warning) => event.sender.send('patch-batch-warning', warning)
+    }
+  )
+})
+
+ipcMain.handle('run-upgrade-trial', async (event, config: {
+  repoPath: string
+  packageName: string
+  version: string
+  dev?: boolean
+  runTests?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
+}) => {
+  const bridgeConfig = await loadRepositoryBridgeConfig(config.repoPath)
+  const projectConfig = await loadBridgeProjectConfig(config.repoPath)
+  const patchConfig = projectConfig.config.patch || {}
+
+  return runUpgradeTrialPipeline(
+    {
+      ...config,
+      runTests: config.runTests ?? true,
+      testCommand: config.testCommand?.trim() || bridgeConfig.gates.tests.command || patchConfig.testCommand,
+      testTimeoutMs: config.testTimeoutMs ?? bridgeConfig.gates.tests.timeout,
+      baseBranch: config.baseBranch || patchConfig.baseBranch || projectConfig.config.baseBranch,
+      remoteFirst: config.remoteFirst ?? patchConfig.remoteFirst ?? true
+    },
+    {
+      onProgress: (message, step, total) => event.sender.send('patch-batch-progress', { message, step, total }),
+      onLog: (message) => event.sender.send('patch-batch-log', { message }),
+      onWarning: (warning) => event.sender.send('patch-batch-warning', warning)
+    }
+  )
+})
+
+ipcMain.handle('run-package-migration', async (event, config: {
+  repoPath: string
+  packageName: string
+  branchName?: string
+  createPR?: boolean
+  runTests?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
+}) => {
+  const bridgeConfig = await loadRepositoryBridgeConfig(config.repoPath)
+  const projectConfig = await loadBridgeProjectConfig(config.repoPath)
+  const patchConfig = projectConfig.config.patch || {}
+
+  return runPackageMigrationPipeline(
+    {
+      ...config,
+      createPR: config.createPR ?? patchConfig.createPR ?? false,
+      runTests: config.runTests ?? patchConfig.runTests ?? bridgeConfig.gates.tests.required,
+      testCommand: config.testCommand?.trim() || bridgeConfig.gates.tests.command || patchConfig.testCommand,
+      testTimeoutMs: config.testTimeoutMs ?? bridgeConfig.gates.tests.timeout,
+      baseBranch: config.baseBranch || patchConfig.baseBranch || projectConfig.config.baseBranch,
+      remoteFirst: config.remoteFirst ?? patchConfig.remoteFirst ?? true
+    },
+    {
+      onProgress: (message, step, total) => event.sender.send('patch-batch-progress', { message, step, total }),
+      onLog: (message) => event.sender.send('patch-batch-log', { message }),
+      onWarning: (warning) => event.sender.send('patch-batch-warning', warning)
+    }
+  )
+})
+
+ipcMain.handle('get-required-packages', async (_, repoPath: string) => {
+  return getRequiredPackageStatus(repoPath)
+})
+
+ipcMain.handle('run-required-packages', async (event, config: {
+  repoPath: string
+  branchName?: string
+  createPR?: boolean
+  runTests?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
+}) => {
+  const bridgeConfig = await loadRepositoryBridgeConfig(config.repoPath)
+  const projectConfig = await loadBridgeProjectConfig(config.repoPath)
+  const patchConfig = projectConfig.config.patch || {}
+
+  return runRequiredPackagesPipeline(
+    {
+      ...config,
+      createPR: config.createPR ?? patchConfig.createPR ?? false,
+      runTests: config.runTests ?? patchConfig.runTests ?? bridgeConfig.gates.tests.required,
+      testCommand: config.testCommand?.trim() || bridgeConfig.gates.tests.command || patchConfig.testCommand,
+      testTimeoutMs: config.testTimeoutMs ?? bridgeConfig.gates.tests.timeout,
+      baseBranch: config.baseBranch || patchConfig.baseBranch || projectConfig.config.baseBranch,
       remoteFirst: config.remoteFirst ?? patchConfig.remoteFirst ?? true
     },
     {
@@ -675,6 +876,79 @@ ipcMain.handle('run-security-scan', async (event, repoPath: string) => {
   })
 })
 
+ipcMain.handle('import-sarif', async (_, repoPath: string, sarifPath?: string) => {
+  let selectedPath = sarifPath
+  if (!selectedPath) {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      properties: ['openFile'],
+      title: 'Import SARIF results',
+      defaultPath: repoPath,
+      filters: [{ name: 'SARIF', extensions: ['sarif', 'json'] }]
+    })
+    if (result.canceled || result.filePaths.length === 0) {
+      return null
+    }
+    selectedPath = result.filePaths[0]
+  }
+  return await importSarifFile(repoPath, selectedPath)
+})
+
+ipcMain.handle('get-sarif-imports', async (_, repoPath: string) => {
+  return await listSarifImports(repoPath)
+})
+
+ipcMain.handle('remove-sarif-import', async (_, repoPath: string, tool: string) => {
+  return await removeSarifImport(repoPath, tool)
+})
+
+ipcMain.handle('export-sarif', async (_, repoPath: string) => {
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    title: 'Export SARIF report',
+    defaultPath: path.join(repoPath, 'bridge.sarif'),
+    filters: [{ name: 'SARIF', extensions: ['sarif'] }]
+  })
+  if (result.canceled || !result.filePath) {
+    return null
+  }
+  return await exportLatestSarifReport(repoPath, result.filePath)
+})
+
+ipcMain.handle('get-advisory-db-info', async () => {
+  return await getAdvisoryDatabaseInfo()
+})
+
+ipcMain.handle('import-osv-advisories', async (_, sourcePaths?: string[]) => {
+  let selectedPaths = sourcePaths
+  if (!selectedPaths || selectedPaths.length === 0) {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      properties: ['openFile', 'openDirectory', 'multiSelections'],
+      title: 'Import OSV advisories (JSON files or an unzipped dump folder)',
+      filters: [{ name: 'OSV JSON', extensions: ['json'] }]
+    })
+    if (result.canceled || result.filePaths.length === 0) {
+      return null
+    }
+    selectedPaths = result.filePaths
+  }
+  return await importAdvisoryDatabase(selectedPaths)
+})
+
+ipcMain.handle('clear-advisory-db', async () => {
+  return await clearAdvisoryDatabase()
+})
+
+ipcMain.handle('get-suppressions', async (_, repoPath: string) => {
+  return await getSuppressions(repoPath)
+})
+
+ipcMain.handle('add-suppression', async (_, repoPath: string, request: SuppressionRequest) => {
+  return await addSuppression(repoPath, request)
+})
+
+ipcMain.handle('remove-suppression', async (_, repoPath: string, fingerprint: string) => {
+  return await removeSuppression(repoPath, fingerprint)
+})
+
 ipcMain.handle('generate-security-fix', async (_, finding: any) => {
   if (!isExperimentalFeaturesEnabled()) {
     throw new Error('Security Scan is disabled. Enable Experimental Features in Settings.')
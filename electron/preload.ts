@@ -17,11 +17,18 @@ export interface OutdatedPackage {
   current: string
   wanted: string
   latest: string
-  type: 'dependencies' | 'devDependencies'
+  type: 'dependencies' | 'devDependencies' | 'peerDependencies'
   hasPatchUpdate: boolean
   isNonBreaking: boolean
   updateType: 'patch' | 'minor' | 'major' | 'unknown'
   language: Language
+  policy?: 'auto' | 'review' | 'ignore'
+  policySource?: string
+  cooldown?: {
+    minReleaseAgeDays: number
+    skipped: Array<{ version: string; publishedAt: string }>
+    unresolved?: boolean
+  }
   vulnerabilities?: {
     critical: number
     high: number
@@ -69,6 +76,7 @@ export interface PatchBatchConfig {
   testTimeoutMs?: number
   prTitle?: string
   prBody?: string
+  bisectOnFailure?: boolean
 }
 
 export interface NonBreakingUpdateConfig {
@@ -85,6 +93,33 @@ export interface NonBreakingUpdateConfig {
   testTimeoutMs?: number
   prTitle?: string
   prBody?: string
+  bisectOnFailure?: boolean
+  group?: string
+  priorityPackages?: string[]
+}
+
+export interface BisectionCulprit {
+  name: string
+  failedCommand?: string
+  output: string
+}
+
+export interface LockfilePackageChange {
+  name: string
+  from?: string
+  to?: string
+  sizeBefore?: number
+  sizeAfter?: number
+  newInstallScript?: boolean
+}
+
+export interface LockfileDiff {
+  lockfile: string
+  added: LockfilePackageChange[]
+  removed: LockfilePackageChange[]
+  changed: LockfilePackageChange[]
+  sizeDelta?: number
+  unsizedPackages?: number
 }
 
 export interface PatchBatchResult {
@@ -97,6 +132,139 @@ export interface PatchBatchResult {
   error?: string
   testsPassed?: boolean
   testOutput?: string
+  culprits?: BisectionCulprit[]
+  lockfileDiff?: LockfileDiff
+}
+
+export interface GroupedUpdateConfig {
+  repoPath: string
+  createPR: boolean
+  runTests: boolean
+  pushChanges?: boolean
+  baseBranch?: string
+  remoteFirst?: boolean
+  groups?: Array<string | null>
+  selectedReviewPackages?: string[]
+  testCommand?: string
+  testTimeoutMs?: number
+  bisectOnFailure?: boolean
+}
+
+export interface GroupedUpdateResult {
+  success: boolean
+  runs: Array<{ group: string | null; result: PatchBatchResult }>
+  error?: string
+}
+
+export interface UpgradeTrialConfig {
+  repoPath: string
+  packageName: string
+  version: string
+  dev?: boolean
+  runTests?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
+}
+
+export interface TypeCheckError {
+  file: string
+  line: number
+  column: number
+  code: string
+  message: string
+}
+
+export interface UpgradeTrialReport {
+  success: boolean
+  packageName: string
+  fromVersion?: string
+  toVersion: string
+  typecheck?: {
+    ran: boolean
+    skippedReason?: string
+    baselineErrors: number
+    trialErrors: number
+    newErrorCount: number
+    fixedErrorCount: number
+    newErrors: TypeCheckError[]
+    affectedFiles: Array<{ file: string; errors: number }>
+  }
+  validation?: {
+    ran: boolean
+    skippedReason?: string
+    baselinePassed: boolean
+    trialPassed: boolean
+    failedCommand?: string
+    regressed: boolean
+    reason?: string
+    newFailures: string[]
+  }
+  effort?: 'none' | 'small' | 'medium' | 'large'
+  durationMs: number
+  error?: string
+}
+
+export interface PackageMigrationConfig {
+  repoPath: string
+  packageName: string
+  branchName?: string
+  createPR?: boolean
+  runTests?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
+}
+
+export interface RequiredPackage {
+  name: string
+  version?: string
+  type?: 'dependencies' | 'devDependencies'
+}
+
+export interface RequiredPackageIssue extends RequiredPackage {
+  problem: 'missing' | 'version' | 'type'
+  declared?: DeclaredDependency
+}
+
+export interface RequiredPackageStatus {
+  required: RequiredPackage[]
+  issues: RequiredPackageIssue[]
+}
+
+export interface RequiredPackagesConfig {
+  repoPath: string
+  branchName?: string
+  createPR?: boolean
+  runTests?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
+}
+
+export interface MigrationSite {
+  file: string
+  line: number
+  text: string
+  reason?: string
+}
+
+export interface PackageMigrationResult {
+  success: boolean
+  from: string
+  to?: string
+  branchName?: string
+  prUrl?: string | null
+  rewritten?: MigrationSite[]
+  manual?: MigrationSite[]
+  removedPackage?: boolean
+  installedPackage?: boolean
+  testsPassed?: boolean
+  testOutput?: string
+  error?: string
 }
 
 export interface SecurityPatchConfig {
@@ -116,6 +284,7 @@ export interface BridgePatchConfig {
   branchPrefix?: string
   baseBranch?: string
   remoteFirst?: boolean
+  bisectOnFailure?: boolean
 }
 
 export interface BridgeProjectConfig {
@@ -189,6 +358,7 @@ export interface ScheduledJob {
   language: string
   createPR: boolean
   runTests: boolean
+  group?: string
   createdAt: string
 }
 
@@ -205,6 +375,7 @@ export interface ScheduledJobCreateInput {
   language: string
   createPR: boolean
   runTests: boolean
+  group?: string
 }
 
 export interface SmartScanSchedule {
@@ -239,6 +410,10 @@ export interface SecurityFinding {
   owasp: string
   solution?: string
   fixedCode?: string
+  source?: string
+  reachability?: VulnerabilityReachability
+  chain?: string[]
+  fingerprints?: string[]
 }
 
 export interface ScanResult {
@@ -267,24 +442,182 @@ export interface VulnerabilitySummary {
   medium: number
   low: number
   total: number
+  offline?: OfflineAuditSource
+}
+
+export interface DependencyLag {
+  updateType: 'patch' | 'minor' | 'major'
+  firstVersion: string
+  behindSince: string
+  newestVersion: string
+  daysBehind: number
+  maxAgeDays: number
+  overdue: boolean
+}
+
+export interface DependencyFreshness {
+  name: string
+  current: string
+  lags: DependencyLag[]
+  daysOverdue: number
 }
 
 export interface DependencyReport {
   outdated: OutdatedPackage[]
   vulnerabilities: VulnerabilitySummary
   installedPackages?: string[]
+  declaredDependencies?: DeclaredDependency[]
+  freshness?: DependencyFreshness[] | null
+  reachability?: VulnerabilityReachabilityReport | null
   error?: string
 }
 
+export type VulnerabilityReachability = 'reachable' | 'dev-only' | 'transitive-unused' | 'unknown'
+
+export interface VulnerabilityReachabilityFinding {
+  ecosystem: AdvisoryEcosystem
+  name: string
+  severity: 'critical' | 'high' | 'medium' | 'low'
+  advisories: string[]
+  reachability: VulnerabilityReachability
+  chain: string[]
+}
+
+export interface VulnerabilityReachabilityReport {
+  lockfile: string | null
+  findings: VulnerabilityReachabilityFinding[]
+}
+
+export interface DeclaredDependency {
+  name: string
+  range: string
+  field: 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies'
+}
+
 export interface CircularDependency {
   from: string
   to: string
   cycle: string[]
 }
 
+export interface ModuleGraphNode {
+  id: string
+  inCycle: boolean
+  reachable: boolean
+}
+
+export interface ModuleGraphEdge {
+  from: string
+  to: string
+  kind: 'static' | 'type' | 'dynamic' | 'require' | 'reexport'
+  inCycle: boolean
+}
+
+export interface ModuleGraph {
+  nodes: ModuleGraphNode[]
+  edges: ModuleGraphEdge[]
+}
+
 export interface CircularDependencyReport {
   count: number
   dependencies: CircularDependency[]
+  graph?: ModuleGraph
+  error?: string
+}
+
+export interface ArchitectureViolation {
+  rule: string
+  severity: 'error' | 'warning'
+  from: string
+  to: string
+  kind: ModuleGraphEdge['kind']
+  external: boolean
+}
+
+export interface ArchitectureRulesReport {
+  rules: number
+  violations: ArchitectureViolation[]
+  errorCount: number
+  warningCount: number
+  error?: string
+}
+
+export interface FunctionComplexity {
+  file: string
+  name: string
+  line: number
+  language: 'javascript' | 'python' | 'ruby'
+  cyclomatic: number
+  cognitive: number
+}
+
+export interface ComplexityReport {
+  filesAnalyzed: number
+  functionCount: number
+  averageCyclomatic: number
+  averageCognitive: number
+  avgFileComplexity: number
+  maxCyclomatic: number
+  maxCognitive: number
+  threshold: number
+  overThreshold: number
+  worstOffenders: FunctionComplexity[]
+}
+
+export interface CloneLocation {
+  file: string
+  startLine: number
+  endLine: number
+  snippet: string
+}
+
+export interface ClonePair {
+  tokens: number
+  lines: number
+  first: CloneLocation
+  second: CloneLocation
+}
+
+export interface DuplicationReport {
+  filesAnalyzed: number
+  totalLines: number
+  duplicatedLines: number
+  percentage: number
+  minTokens: number
+  cloneCount: number
+  clones: ClonePair[]
+  error?: string
+}
+
+export interface DependencyImportSite {
+  file: string
+  line: number
+  specifier: string
+  kind: 'static' | 'type' | 'dynamic' | 'require' | 'reexport'
+  names: string[]
+}
+
+export interface DependencyUsage {
+  name: string
+  manifest: string
+  field: 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies'
+  sites: DependencyImportSite[]
+  files: string[]
+  symbols: string[]
+  implicitUse?: 'script' | 'config' | 'types'
+  unused: boolean
+}
+
+export interface UndeclaredDependency {
+  name: string
+  manifest: string
+  sites: DependencyImportSite[]
+  files: string[]
+}
+
+export interface DependencyUsageReport {
+  dependencies: DependencyUsage[]
+  undeclared: UndeclaredDependency[]
   error?: string
 }
 
@@ -297,10 +630,7 @@ export interface DeadCodeReport {
   deadFiles: string[]
   unusedExports: DeadCodeExport[]
   totalDeadCodeCount: number
-  raw?: {
-    knip?: string
-    unimported?: string
-  }
+  warnings?: string[]
   error?: string
 }
 
@@ -334,9 +664,34 @@ export interface DocumentationDebtReport {
   readmeOutdated: boolean
   daysSinceUpdate: number
   undocumentedFunctions: number
+  readmeExists?: boolean
+  hasChangelog?: boolean
   error?: string
 }
 
+export interface ArchitectureRule {
+  name: string
+  description?: string
+  type: 'forbid' | 'allow'
+  from: string[]
+  to: string[]
+  severity: 'error' | 'warning'
+  includeTypeImports?: boolean
+}
+
+export interface UpdatePolicy {
+  patch: 'auto' | 'review' | 'ignore'
+  minor: 'auto' | 'review' | 'ignore'
+  major: 'review' | 'ignore'
+}
+
+export interface DependencyGroup {
+  name: string
+  packages: string[]
+  updateTypes: Array<'patch' | 'minor' | 'major'>
+  schedule?: ScheduleFrequency
+}
+
 export interface BridgeConfig {
   version: 1
   project: {
@@ -353,14 +708,22 @@ export interface BridgeConfig {
       minor: 'auto' | 'review' | 'ignore'
       major: 'review' | 'ignore'
     }
+    updatePolicyOverrides?: {
+      dependencyTypes?: Partial<Record<'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies', Partial<UpdatePolicy>>>
+      packages?: Record<string, Partial<UpdatePolicy>>
+    }
     bannedPackages?: string[]
-    requiredPackages?: string[]
+    requiredPackages?: Array<string | RequiredPackage>
     pinnedPackages?: Record<string, string>
+    migrations?: Record<string, string>
     maxAge?: {
       patch: number
       minor: number
       major: number
     }
+    minReleaseAgeDays?: number
+    minReleaseAgeOverrides?: Record<string, number>
+    groups?: DependencyGroup[]
     securityPolicy: {
       autoFixCritical: boolean
       autoFixHigh: boolean
@@ -396,12 +759,22 @@ export interface BridgeConfig {
       maxDeadFiles: number
       failOnNew: boolean
     }
+    architecture?: {
+      maxViolations: number
+      failOnNew: boolean
+    }
+    securityPatterns?: {
+      failOnNew: boolean
+    }
     documentation: {
       requireReadme: boolean
       requireChangelog: boolean
       maxDaysSinceReadmeUpdate?: number
     }
   }
+  architecture?: {
+    rules: ArchitectureRule[]
+  }
   agent: {
     context: string
     conventions?: string[]
@@ -425,13 +798,24 @@ export interface BridgeConfig {
       minTestCoverage?: number
       maxOversizedFiles?: number
       maxAvgFileComplexity?: number
+      maxFunctionComplexity?: number
+      maxDuplicationPercent?: number
       maxDebtScore?: number
     }
+    trend?: {
+      window: number
+      threshold: number
+    }
   }
   scan: {
     schedule?: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'manual'
     exclude?: string[]
     include?: string[]
+    gitignore?: boolean
+    entries?: string[]
+    duplication?: {
+      minTokens: number
+    }
     features: {
       dependencies: boolean
       security: boolean
@@ -449,9 +833,66 @@ export interface BridgeConfig {
     autoUpload: boolean
     uploadOn?: ('scan' | 'update' | 'schedule')[]
   }
+  suppressions?: FindingSuppression[]
+}
+
+export interface FindingSuppression {
+  fingerprint: string
+  reason: string
+  owner?: string
+  expires?: string
+}
+
+export interface SuppressionStatus extends FindingSuppression {
+  expired: boolean
+  matched: number
+}
+
+export interface SuppressionReport {
+  suppressed: number
+  entries: SuppressionStatus[]
+}
+
+export interface SuppressionRequest {
+  fingerprints: string[]
+  reason: string
+  owner?: string
+  expires?: string
+}
+
+export type AdvisoryEcosystem = 'npm' | 'PyPI' | 'RubyGems' | 'Hex'
+
+export interface OfflineAuditSource {
+  ecosystems: AdvisoryEcosystem[]
+  importedAt: string | null
+  newestModified: string | null
+}
+
+export interface AdvisoryDbInfo {
+  path: string
+  importedAt: string | null
+  newestModified: string | null
+  total: number
+  byEcosystem: Record<AdvisoryEcosystem, number>
+  sources: string[]
+}
+
+export interface AdvisoryImportResult {
+  imported: number
+  skipped: number
+  info: AdvisoryDbInfo
+}
+
+export interface SarifImportSummary {
+  tool: string
+  sourcePath: string
+  importedAt: string
+  findingCount: number
 }
 
 export interface SecurityPatternFinding {
+  ruleId?: string
+  source?: string
   file: string
   line: number
   column?: number
@@ -482,6 +923,7 @@ export interface DebtContributor {
 }
 
 export interface ActionItem {
+  id?: string
   priority: number
   title: string
   description: string
@@ -492,10 +934,23 @@ export interface ActionItem {
   command?: string
 }
 
+export interface ScoreTrend {
+  direction: 'improving' | 'stable' | 'declining' | 'unknown'
+  window: number
+  threshold: number
+  samples: number
+  baseline: number | null
+  delta: number | null
+  previousTotal: number | null
+  previousAt: string | null
+  dimensionDeltas: Partial<Record<'dependencies' | 'security' | 'architecture' | 'testing' | 'documentation' | 'codeHealth', number>>
+}
+
 export interface TechDebtScore {
   total: number
   grade: 'A' | 'B' | 'C' | 'D' | 'F'
   trend: 'improving' | 'stable' | 'declining' | 'unknown'
+  trendDetails?: ScoreTrend
   dimensions: {
     dependencies: DimensionScore
     security: DimensionScore
@@ -516,6 +971,37 @@ export interface GateResult {
   details?: Record<string, any>
 }
 
+export interface BaselineFindings {
+  circularDependencies: string[]
+  deadFiles: string[]
+  unusedExports: string[]
+  securityFindings: string[]
+  architectureViolations?: string[]
+}
+
+export interface ScanBaseline {
+  version: 1
+  branch: string
+  commit?: string
+  generatedAt: string
+  findings: BaselineFindings
+}
+
+export interface BaselineComparison {
+  branch: string
+  commit?: string
+  generatedAt: string
+  newFindings: Partial<BaselineFindings>
+  resolvedCount: number
+}
+
+export interface PathFilterSummary {
+  include: string[]
+  exclude: string[]
+  gitignore: boolean
+  gitignoreFiles: string[]
+}
+
 export interface BridgeScanReport {
   version: 1
   generatedAt: string
@@ -540,6 +1026,7 @@ export interface BridgeScanReport {
   architecture: {
     circularDependencies: CircularDependencyReport
     deadCode: DeadCodeReport
+    rules?: ArchitectureRulesReport
     bundleSize: BundleAnalysisReport
     oversizedFiles: OversizedComponent[]
   }
@@ -548,7 +1035,15 @@ export interface BridgeScanReport {
     hasTests: boolean
     testCommand?: string
   }
+  build?: {
+    command: string | null
+  }
   documentation: DocumentationDebtReport
+  complexity?: ComplexityReport
+  duplication?: DuplicationReport
+  scanFilter?: PathFilterSummary
+  baseline?: BaselineComparison | null
+  suppressions?: SuppressionReport | null
   gates: {
     passed: boolean
     results: GateResult[]
@@ -589,6 +1084,7 @@ export interface FullScanResult {
   dependencies: DependencyReport
   circularDependencies: CircularDependencyReport
   deadCode: DeadCodeReport
+  architectureRules?: ArchitectureRulesReport
   bundleSize: BundleAnalysisReport
   testCoverage: TestCoverageReport
   documentation: DocumentationDebtReport
@@ -605,6 +1101,8 @@ export interface FullScanResult {
     packageScriptsCount: number
     hasGitignore: boolean
   }
+  complexity?: ComplexityReport
+  duplication?: DuplicationReport
   techDebtScore: TechDebtScore
   scanReport?: BridgeScanReport
   reportPaths?: {
@@ -612,8 +1110,10 @@ export interface FullScanResult {
     latestScorePath: string
     archivePath: string
     configSnapshotPath: string
+    sarifPath: string
   }
   consoleUpload?: ConsoleUploadResult
+  suppressions?: SuppressionReport | null
   durationMs: number
 }
 
@@ -627,6 +1127,7 @@ export interface BridgeConsoleSettings {
 export interface AppSettings {
   experimentalFeatures: boolean
   onboardingCompleted: boolean
+  offlineMode: boolean
 }
 
 contextBridge.exposeInMainWorld('bridge', {
@@ -702,6 +1203,9 @@ contextBridge.exposeInMainWorld('bridge', {
   detectDeadCode: (repoPath: string): Promise<DeadCodeReport> =>
     ipcRenderer.invoke('detect-dead-code', repoPath),
 
+  getDependencyUsage: (repoPath: string): Promise<DependencyUsageReport> =>
+    ipcRenderer.invoke('get-dependency-usage', repoPath),
+
   runFullScan: (repoPath: string): Promise<FullScanResult> =>
     ipcRenderer.invoke('run-full-scan', repoPath),
 
@@ -710,6 +1214,9 @@ contextBridge.exposeInMainWorld('bridge', {
     return () => ipcRenderer.removeAllListeners('full-scan-progress')
   },
 
+  saveScanBaseline: (repoPath: string): Promise<ScanBaseline> =>
+    ipcRenderer.invoke('save-scan-baseline', repoPath),
+
   deleteDeadFile: (repoPath: string, relativePath: string): Promise<boolean> =>
     ipcRenderer.invoke('delete-dead-file', repoPath, relativePath),
 
@@ -726,6 +1233,21 @@ contextBridge.exposeInMainWorld('bridge', {
   runNonBreakingUpdate: (config: NonBreakingUpdateConfig): Promise<PatchBatchResult> =>
     ipcRenderer.invoke('run-non-breaking-update', config),
 
+  runGroupedUpdate: (config: GroupedUpdateConfig): Promise<GroupedUpdateResult> =>
+    ipcRenderer.invoke('run-grouped-update', config),
+
+  runUpgradeTrial: (config: UpgradeTrialConfig): Promise<UpgradeTrialReport> =>
+    ipcRenderer.invoke('run-upgrade-trial', config),
+
+  runPackageMigration: (config: PackageMigrationConfig): Promise<PackageMigrationResult> =>
+    ipcRenderer.invoke('run-package-migration', config),
+
+  getRequiredPackages: (repoPath: string): Promise<RequiredPackageStatus> =>
+    ipcRenderer.invoke('get-required-packages', repoPath),
+
+  runRequiredPackages: (config: RequiredPackagesConfig): Promise<PatchBatchResult> =>
+    ipcRenderer.invoke('run-required-packages', config),
+
   runSecurityPatch: (config: SecurityPatchConfig): Promise<SecurityPatchResult> =>
     ipcRenderer.invoke('run-security-patch', config),
 
@@ -823,6 +1345,36 @@ contextBridge.exposeInMainWorld('bridge', {
     return () => ipcRenderer.removeAllListeners('security-scan-progress')
   },
 
+  importSarif: (repoPath: string, sarifPath?: string): Promise<SarifImportSummary[] | null> =>
+    ipcRenderer.invoke('import-sarif', repoPath, sarifPath),
+
+  getSarifImports: (repoPath: string): Promise<SarifImportSummary[]> =>
+    ipcRenderer.invoke('get-sarif-imports', repoPath),
+
+  removeSarifImport: (repoPath: string, tool: string): Promise<SarifImportSummary[]> =>
+    ipcRenderer.invoke('remove-sarif-import', repoPath, tool),
+
+  exportSarif: (repoPath: string): Promise<string | null> =>
+    ipcRenderer.invoke('export-sarif', repoPath),
+
+  getAdvisoryDbInfo: (): Promise<AdvisoryDbInfo> =>
+    ipcRenderer.invoke('get-advisory-db-info'),
+
+  importOsvAdvisories: (sourcePaths?: string[]): Promise<AdvisoryImportResult | null> =>
+    ipcRenderer.invoke('import-osv-advisories', sourcePaths),
+
+  clearAdvisoryDb: (): Promise<AdvisoryDbInfo> =>
+    ipcRenderer.invoke('clear-advisory-db'),
+
+  getSuppressions: (repoPath: string): Promise<SuppressionStatus[]> =>
+    ipcRenderer.invoke('get-suppressions', repoPath),
+
+  addSuppression: (repoPath: string, request: SuppressionRequest): Promise<SuppressionStatus[]> =>
+    ipcRenderer.invoke('add-suppression', repoPath, request),
+
+  removeSuppression: (repoPath: string, fingerprint: string): Promise<SuppressionStatus[]> =>
+    ipcRenderer.invoke('remove-suppression', repoPath, fingerprint),
+
   // Bridge Console settings
   getBridgeConsoleSettings: (): Promise<BridgeConsoleSettings> =>
     ipcRenderer.invoke('get-bridge-console-settings'),
@@ -866,13 +1418,20 @@ declare global {
       getFileStats: (repoPath: string) => Promise<FileSizeStats>
       getCleanupReport: (repoPath: string) => Promise<CleanupReport>
       detectDeadCode: (repoPath: string) => Promise<DeadCodeReport>
+      getDependencyUsage: (repoPath: string) => Promise<DependencyUsageReport>
       runFullScan: (repoPath: string) => Promise<FullScanResult>
       onFullScanProgress: (callback: (progress: { message: string; step: number; total: number }) => void) => () => void
+      saveScanBaseline: (repoPath: string) => Promise<ScanBaseline>
       deleteDeadFile: (repoPath: string, relativePath: string) => Promise<boolean>
       cleanupDeadCode: (payload: { repoPath: string; deadFiles: string[]; unusedExports: DeadCodeExport[]; createPr?: boolean }) => Promise<any>
       getOutdatedPackages: (repoPath: string, language?: Language) => Promise<OutdatedPackage[]>
       runPatchBatch: (config: PatchBatchConfig) => Promise<PatchBatchResult>
       runNonBreakingUpdate: (config: NonBreakingUpdateConfig) => Promise<PatchBatchResult>
+      runGroupedUpdate: (config: GroupedUpdateConfig) => Promise<GroupedUpdateResult>
+      runUpgradeTrial: (config: UpgradeTrialConfig) => Promise<UpgradeTrialReport>
+      runPackageMigration: (config: PackageMigrationConfig) => Promise<PackageMigrationResult>
+      getRequiredPackages: (repoPath: string) => Promise<RequiredPackageStatus>
+      runRequiredPackages: (config: RequiredPackagesConfig) => Promise<PatchBatchResult>
       runSecurityPatch: (config: SecurityPatchConfig) => Promise<SecurityPatchResult>
       pushBranch: (repoPath: string, branchName: string) => Promise<PushBranchResult>
       onPatchBatchProgress: (callback: (progress: { message: string; step: number; total: number }) => void) => () => void
@@ -899,6 +1458,16 @@ declare global {
       runSecurityScan: (repoPath: string) => Promise<ScanResult>
       generateSecurityFix: (finding: SecurityFinding) => Promise<string | null>
       onSecurityScanProgress: (callback: (progress: ScanProgress) => void) => () => void
+      importSarif: (repoPath: string, sarifPath?: string) => Promise<SarifImportSummary[] | null>
+      getSarifImports: (repoPath: string) => Promise<SarifImportSummary[]>
+      removeSarifImport: (repoPath: string, tool: string) => Promise<SarifImportSummary[]>
+      exportSarif: (repoPath: string) => Promise<string | null>
+      getAdvisoryDbInfo: () => Promise<AdvisoryDbInfo>
+      importOsvAdvisories: (sourcePaths?: string[]) => Promise<AdvisoryImportResult | null>
+      clearAdvisoryDb: () => Promise<AdvisoryDbInfo>
+      getSuppressions: (repoPath: string) => Promise<SuppressionStatus[]>
+      addSuppression: (repoPath: string, request: SuppressionRequest) => Promise<SuppressionStatus[]>
+      removeSuppression: (repoPath: string, fingerprint: string) => Promise<SuppressionStatus[]>
       getBridgeConsoleSettings: () => Promise<BridgeConsoleSettings>
       saveBridgeConsoleSettings: (settings: BridgeConsoleSettings) => Promise<BridgeConsoleSettings>
       testBridgeConsoleConnection: (settings: BridgeConsoleSettings) => Promise<{ ok: boolean; message?: string }>
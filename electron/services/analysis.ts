@@ -2,16 +2,16 @@ import { exec } from 'child_process'
 import { promisify } from 'util'
 import fs from 'fs/promises'
 import path from 'path'
-import { app } from 'electron'
-import { createBridgeStore } from './store'
+import { createBridgeStore, getElectronApp } from './store'
 import {
   detectLanguages,
   getPythonOutdated,
   getRubyOutdated,
   getElixirOutdated,
+  type Language,
   type OutdatedPackage
 } from './languages'
-import { getJsOutdatedPackages } from './patchBatch'
+import { applyUpdatePolicies, getJsOutdatedPackages } from './patchBatch'
 import {
   getRepoInfo,
   createBranch,
@@ -29,6 +29,7 @@ import {
 } from './bridgeConsoleApi'
 import {
   loadBridgeConfig,
+  loadScanPathFilter,
   generateDefaultConfig,
   writeBridgeConfig,
   type BridgeConfig
@@ -44,8 +45,59 @@ import {
   writeScanReportArtifacts,
   type BridgeScanReport
 } from './scanReport'
+import { refreshBaseBranchBaseline } from './scanBaseline'
+import { pathFilterFromConfig, type PathFilter } from '../../bridge-mcp/src/core/pathFilter.js'
 import {
-  scanRepoForSecurityPatterns,
+  analyzeImportGraph,
+  type ImportGraphAnalysis,
+  type ImportKind
+} from '../../bridge-mcp/src/core/importGraph.js'
+import {
+  analyzeDependencyUsage,
+  type DependencyImportSite,
+  type DependencyUsage,
+  type DependencyUsageReport,
+  type UndeclaredDependency
+} from '../../bridge-mcp/src/core/dependencyUsage.js'
+import {
+  evaluateArchitectureRules,
+  type ArchitectureViolation
+} from '../../bridge-mcp/src/core/architectureRules.js'
+import {
+  analyzeComplexity,
+  type ComplexityReport,
+  type FunctionComplexity
+} from '../../bridge-mcp/src/core/complexity.js'
+import {
+  analyzeDependencyFreshness,
+  type DependencyFreshness
+} from '../../bridge-mcp/src/core/dependencyFreshness.js'
+import { readDeclaredDependencies, type DeclaredDependency } from '../../bridge-mcp/src/core/requiredPackages.js'
+import {
+  runOfflineAudit,
+  type AdvisoryEcosystem,
+  type OfflineAuditSource
+} from '../../bridge-mcp/src/core/advisoryStore.js'
+import {
+  analyzeVulnerabilityReachability,
+  vulnerablePackagesFromAdvisoryMatches,
+  vulnerablePackagesFromNpmAudit,
+  type VulnerabilityReachabilityReport,
+  type VulnerablePackage
+} from '../../bridge-mcp/src/core/vulnerabilityReachability.js'
+import {
+  createSuppressionMatcher,
+  cycleSuppressionFingerprint,
+  deadFileSuppressionFingerprint,
+  suppressVulnerablePackages,
+  unusedExportSuppressionFingerprint,
+  type SuppressionMatcher,
+  type SuppressionReport
+} from '../../bridge-mcp/src/core/suppressions.js'
+import { isOfflineModeEnabled } from './appSettings'
+import { detectDuplicateCode, type DuplicationReport } from './duplication'
+import {
+  collectSecurityFindings,
   type SecurityPatternFinding
 } from './securityPatterns'
 
@@ -60,12 +112,16 @@ export interface VulnerabilitySummary {
   medium: number
   low: number
   total: number
+  offline?: OfflineAuditSource
 }
 
 export interface DependencyReport {
   outdated: OutdatedPackage[]
   vulnerabilities: VulnerabilitySummary
   installedPackages?: string[]
+  declaredDependencies?: DeclaredDependency[]
+  freshness?: DependencyFreshness[] | null
+  reachability?: VulnerabilityReachabilityReport | null
   error?: string
 }
 
@@ -75,9 +131,46 @@ export interface CircularDependency {
   cycle: string[]
 }
 
+export interface ModuleGraphNode {
+  id: string
+  inCycle: boolean
+  reachable: boolean
+}
+
+export interface ModuleGraphEdge {
+  from: string
+  to: string
+  kind: ImportKind
+  inCycle: boolean
+}
+
+export interface ModuleGraph {
+  nodes: ModuleGraphNode[]
+  edges: ModuleGraphEdge[]
+}
+
 export interface CircularDependencyReport {
   count: number
   dependencies: CircularDependency[]
+  graph?: ModuleGraph
+  error?: string
+}
+
+export type { ArchitectureViolation, ComplexityReport, FunctionComplexity }
+export type { ClonePair, CloneLocation, DuplicationReport } from './duplication'
+
+export interface ArchitectureRulesReport {
+  rules: number
+  violations: ArchitectureViolation[]
+  errorCount: number
+  warningCount: number
+  error?: string
+}
+
+export type { DependencyImportSite, DependencyUsage, UndeclaredDependency }
+export type { DeclaredDependency, OfflineAuditSource, VulnerabilityReachabilityReport }
+
+export interface DependencyUsageResult extends DependencyUsageReport {
   error?: string
 }
 
@@ -90,10 +183,7 @@ export interface DeadCodeReport {
   deadFiles: string[]
   unusedExports: DeadCodeExport[]
   totalDeadCodeCount: number
-  raw?: {
-    knip?: string
-    unimported?: string
-  }
+  warnings?: string[]
   error?: string
 }
 
@@ -127,6 +217,8 @@ export interface DocumentationDebtReport {
   readmeOutdated: boolean
   daysSinceUpdate: number
   undocumentedFunctions: number
+  readmeExists?: boolean
+  hasChangelog?: boolean
   error?: string
 }
 
@@ -138,12 +230,15 @@ export interface FullScanResult {
   dependencies: DependencyReport
   circularDependencies: CircularDependencyReport
   deadCode: DeadCodeReport
+  architectureRules?: ArchitectureRulesReport
   bundleSize: BundleAnalysisReport
   testCoverage: TestCoverageReport
   documentation: DocumentationDebtReport
   securityPatterns: SecurityPatternFinding[]
   oversizedFiles: OversizedComponent[]
   codeHealth: CodeHealthMetrics
+  complexity?: ComplexityReport
+  duplication?: DuplicationReport
   techDebtScore: TechDebtScore
   scanReport?: BridgeScanReport
   reportPaths?: {
@@ -151,8 +246,10 @@ export interface FullScanResult {
     latestScorePath: string
     archivePath: string
     configSnapshotPath: string
+    sarifPath: string
   }
   consoleUpload?: ConsoleUploadResult
+  suppressions?: SuppressionReport | null
   durationMs: number
 }
 
@@ -186,11 +283,12 @@ function formatSize(bytes: number): string {
 
 function getBridgeRoot(): string {
   try {
-    const appPath = app.getAppPath()
-    return appPath
+    const appPath = getElectronApp()?.getAppPath()
+    if (appPath) return appPath
   } catch {
-    return path.resolve(__dirname, '..', '..')
+    // Fall through to the source checkout root.
   }
+  return path.resolve(__dirname, '..', '..')
 }
 
 function buildToolEnv(): NodeJS.ProcessEnv {
@@ -352,6 +450,15 @@ async function existsAt(repoPath: string, relativePath: string): Promise<boolean
   }
 }
 
+async function existsAny(repoPath: string, targets: string[]): Promise<boolean> {
+  for (const target of targets) {
+    if (await existsAt(repoPath, target)) {
+      return true
+    }
+  }
+  return false
+}
+
 async function detectTestScript(repoPath: string): Promise<boolean> {
   try {
     const raw = await fs.readFile(path.join(repoPath, 'package.json'), 'utf-8')
@@ -391,19 +498,22 @@ async function detectNodeModulesCommitted(repoPath: string): Promise<boolean> {
   }
 }
 
-async function collectPathDepthSignals(repoPath: string): Promise<{ maxNestingDepth: number; deeplyNestedFiles: number }> {
+async function collectPathDepthSignals(
+  repoPath: string,
+  pathFilter: PathFilter
+): Promise<{ maxNestingDepth: number; deeplyNestedFiles: number }> {
   let maxNestingDepth = 0
   let deeplyNestedFiles = 0
-  const ignoredDirs = new Set(['.git', 'node_modules', 'dist', 'build', '.next', 'coverage', '.bridge'])
 
   const walk = async (dir: string, depth: number): Promise<void> => {
     const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
     for (const entry of entries) {
       const fullPath = path.join(dir, entry.name)
+      const relativePath = path.relative(repoPath, fullPath)
       if (entry.isDirectory()) {
-        if (ignoredDirs.has(entry.name)) continue
+        if (pathFilter.ignoresDirectory(relativePath)) continue
         await walk(fullPath, depth + 1)
-      } else {
+      } else if (pathFilter.includesFile(relativePath)) {
         maxNestingDepth = Math.max(maxNestingDepth, depth)
         if (depth > 6) {
           deeplyNestedFiles += 1
@@ -416,7 +526,7 @@ async function collectPathDepthSignals(repoPath: string): Promise<{ maxNestingDe
   return { maxNestingDepth, deeplyNestedFiles }
 }
 
-async function computeCodeHealthMetrics(repoPath: string): Promise<CodeHealthMetrics> {
+async function computeCodeHealthMetrics(repoPath: string, pathFilter: PathFilter): Promise<CodeHealthMetrics> {
   const metrics: CodeHealthMetrics = {
     todoCount: 0,
     consoleLogCount: 0,
@@ -430,7 +540,6 @@ async function computeCodeHealthMetrics(repoPath: string): Promise<CodeHealthMet
   }
 
   const extensions = ['.js', '.jsx', '.ts', '.tsx', '.py', '.rb', '.go', '.java', '.rs', '.ex', '.exs']
-  const ignoredDirs = new Set(['.git', 'node_modules', 'dist', 'build', 'coverage', '.next', '.bridge'])
   let singleQuoteCount = 0
   let doubleQuoteCount = 0
 
@@ -451,10 +560,11 @@ async function computeCodeHealthMetrics(repoPath: string): Promise<CodeHealthMet
     const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
     for (const entry of entries) {
       const fullPath = path.join(dir, entry.name)
+      const relativePath = path.relative(repoPath, fullPath)
       if (entry.isDirectory()) {
-        if (ignoredDirs.has(entry.name)) continue
+        if (pathFilter.ignoresDirectory(relativePath)) continue
         await walk(fullPath)
-      } else if (extensions.includes(path.extname(entry.name).toLowerCase())) {
+      } else if (extensions.includes(path.extname(entry.name).toLowerCase()) && pathFilter.includesFile(relativePath)) {
         const content = await fs.readFile(fullPath, 'utf-8').catch(() => '')
         if (!content) continue
 
@@ -489,27 +599,19 @@ async function computeCodeHealthMetrics(repoPath: string): Promise<CodeHealthMet
 
 async function collectRepositoryInsights(
   repoPath: string,
-  config: BridgeConfig
+  config: BridgeConfig,
+  pathFilter: PathFilter
 ): Promise<ScanData['repositoryInsights']> {
-  const existsAny = async (targets: string[]): Promise<boolean> => {
-    for (const target of targets) {
-      if (await existsAt(repoPath, target)) {
-        return true
-      }
-    }
-    return false
-  }
-
   const [readmeStats, ciDetected, hasTestScript, pathSignals, nodeModulesCommitted, lockfileAgeDays] = await Promise.all([
     getReadmeStats(repoPath),
     detectCiConfig(repoPath),
     detectTestScript(repoPath),
-    collectPathDepthSignals(repoPath),
+    collectPathDepthSignals(repoPath, pathFilter),
     detectNodeModulesCommitted(repoPath),
     getLockfileAgeDays(repoPath)
   ])
 
-  const hasLockfile = await existsAny([
+  const hasLockfile = await existsAny(repoPath, [
     'package-lock.json',
     'yarn.lock',
     'pnpm-lock.yaml',
@@ -521,9 +623,9 @@ async function collectRepositoryInsights(
   ])
 
   const hasSrcDirectory = await existsAt(repoPath, 'src')
-  const hasChangelog = await existsAny(['CHANGELOG.md', 'changelog.md', 'CHANGELOG'])
-  const hasContributingGuide = await existsAny(['CONTRIBUTING.md', '.github/CONTRIBUTING.md'])
-  const hasLicense = await existsAny(['LICENSE', 'LICENSE.md', 'LICENSE.txt'])
+  const hasChangelog = await existsAny(repoPath, ['CHANGELOG.md', 'changelog.md', 'CHANGELOG'])
+  const hasContributingGuide = await existsAny(repoPath, ['CONTRIBUTING.md', '.github/CONTRIBUTING.md'])
+  const hasLicense = await existsAny(repoPath, ['LICENSE', 'LICENSE.md', 'LICENSE.txt'])
 
   return {
     hasLockfile,
@@ -622,8 +724,13 @@ export async function findGitHistoryBlobs(repoPath: string, minSizeBytes: number
 }
 
 // Find oversized components (files with too many lines)
-export async function findOversizedComponents(repoPath: string, maxLines: number = 150): Promise<OversizedComponent[]> {
+export async function findOversizedComponents(
+  repoPath: string,
+  maxLines: number = 150,
+  pathFilter?: PathFilter
+): Promise<OversizedComponent[]> {
   const oversized: OversizedComponent[] = []
+  const filter = pathFilter ?? await loadScanPathFilter(repoPath)
 
   const codeExtensions = ['.js', '.jsx', '.ts', '.tsx', '.vue', '.svelte', '.py', '.rb', '.ex', '.exs', '.go', '.rs', '.java', '.kt', '.swift']
 
@@ -633,17 +740,16 @@ export async function findOversizedComponents(repoPath: string, maxLines: number
 
       for (const entry of entries) {
         const fullPath = path.join(dir, entry.name)
-
-        if (['node_modules', '.git', 'vendor', 'deps', '_build', '.bundle', '__pycache__', '.venv', 'venv', 'dist', 'build'].includes(entry.name)) {
-          continue
-        }
+        const relativePath = path.relative(repoPath, fullPath)
 
         if (entry.isDirectory()) {
-          await scanDir(fullPath)
+          if (!filter.ignoresDirectory(relativePath)) {
+            await scanDir(fullPath)
+          }
         } else {
           const ext = path.extname(entry.name).toLowerCase()
 
-          if (codeExtensions.includes(ext)) {
+          if (codeExtensions.includes(ext) && filter.includesFile(relativePath)) {
             try {
               const content = await fs.readFile(fullPath, 'utf-8')
               const lines = content.split('\n').length
@@ -663,7 +769,7 @@ export async function findOversizedComponents(repoPath: string, maxLines: number
                 }
 
                 oversized.push({
-                  path: path.relative(repoPath, fullPath),
+                  path: relativePath,
                   lines,
                   type
                 })
@@ -754,18 +860,19 @@ export async function generateCleanupReport(repoPath: string): Promise<CleanupRe
   }
 }
 
-async function getNpmAuditSummary(repoPath: string): Promise<VulnerabilitySummary> {
-  const empty: VulnerabilitySummary = { critical: 0, high: 0, medium: 0, low: 0, total: 0 }
-  const manager = await detectPackageManager(repoPath)
-  const auditArgs = manager === 'npm'
-    ? ['audit', '--json']
-    : ['audit', '--json']
+interface VulnerabilityAudit {
+  summary: VulnerabilitySummary
+  packages: VulnerablePackage[]
+}
 
-  const result = await runCli(manager, auditArgs, repoPath, DEFAULT_SCAN_TIMEOUT_MS)
+async function getNpmAuditSummary(repoPath: string): Promise<VulnerabilityAudit | null> {
+  const manager = await detectPackageManager(repoPath)
+  const result = await runCli(manager, ['audit', '--json'], repoPath, DEFAULT_SCAN_TIMEOUT_MS)
   const payload = extractJsonPayload(result.stdout || result.stderr)
   if (!payload) {
-    return empty
+    return null
   }
+  const packages = vulnerablePackagesFromNpmAudit(payload)
 
   if (payload.metadata?.vulnerabilities) {
     const meta = payload.metadata.vulnerabilities
@@ -774,7 +881,7 @@ async function getNpmAuditSummary(repoPath: string): Promise<VulnerabilitySummar
     const medium = Number(meta.moderate || meta.medium || 0)
     const low = Number(meta.low || 0)
     const total = critical + high + medium + low
-    return { critical, high, medium, low, total }
+    return { summary: { critical, high, medium, low, total }, packages }
   }
 
   if (payload.vulnerabilities && typeof payload.vulnerabilities === 'object' && !Array.isArray(payload.vulnerabilities)) {
@@ -785,7 +892,7 @@ async function getNpmAuditSummary(repoPath: string): Promise<VulnerabilitySummar
       const medium = Number(counts.moderate || counts.medium || 0)
       const low = Number(counts.low || 0)
       const total = critical + high + medium + low
-      return { critical, high, medium, low, total }
+      return { summary: { critical, high, medium, low, total }, packages }
     }
   }
 
@@ -799,13 +906,70 @@ async function getNpmAuditSummary(repoPath: string): Promise<VulnerabilitySummar
       else if (severity === 'low') severityCounts.low += 1
     }
     const total = severityCounts.critical + severityCounts.high + severityCounts.medium + severityCounts.low
-    return { ...severityCounts, total }
+    return { summary: { ...severityCounts, total }, packages }
+  }
+
+  return null
+}
+
+const OFFLINE_ECOSYSTEMS: Partial<Record<Language, AdvisoryEcosystem>> = {
+  javascript: 'npm',
+  python: 'PyPI',
+  ruby: 'RubyGems',
+  elixir: 'Hex'
+}
+
+async function getVulnerabilitySummary(repoPath: string, languages: Language[]): Promise<VulnerabilityAudit> {
+  const registry = languages.includes('javascript') && !isOfflineModeEnabled()
+    ? await getNpmAuditSummary(repoPath)
+    : null
+  const ecosystems = languages
+    .filter(lang => !(registry && lang === 'javascript'))
+    .map(lang => OFFLINE_ECOSYSTEMS[lang])
+    .filter((ecosystem): ecosystem is AdvisoryEcosystem => Boolean(ecosystem))
+  const counts = registry?.summary ?? { critical: 0, high: 0, medium: 0, low: 0, total: 0 }
+  const packages = registry?.packages ?? []
+  const offline = ecosystems.length > 0 ? await runOfflineAudit(repoPath, { ecosystems }).catch(() => null) : null
+  if (!offline || offline.source.ecosystems.length === 0) {
+    return { summary: counts, packages }
+  }
+
+  return {
+    summary: {
+      critical: counts.critical + offline.summary.critical,
+      high: counts.high + offline.summary.high,
+      medium: counts.medium + offline.summary.medium,
+      low: counts.low + offline.summary.low,
+      total: counts.total + offline.summary.total,
+      offline: offline.source
+    },
+    packages: [...packages, ...vulnerablePackagesFromAdvisoryMatches(offline.matches)]
   }
+}
 
-  return empty
+export async function getVulnerabilityReachability(
+  repoPath: string,
+  packages: VulnerablePackage[],
+  pathFilter?: PathFilter,
+  importGraph?: ImportGraphAnalysis
+): Promise<VulnerabilityReachabilityReport | null> {
+  if (packages.length === 0) {
+    return null
+  }
+  const analysis = importGraph ?? await loadImportGraph(repoPath, pathFilter).catch(() => undefined)
+  if (!analysis) {
+    return null
+  }
+  const usage = await analyzeDependencyUsage(repoPath, analysis.graph).catch(() => null)
+  return await analyzeVulnerabilityReachability(repoPath, packages, analysis.graph, usage).catch(() => null)
 }
 
-export async function analyzeDependencies(repoPath: string): Promise<DependencyReport> {
+export async function analyzeDependencies(
+  repoPath: string,
+  pathFilter?: PathFilter,
+  importGraph?: ImportGraphAnalysis,
+  suppressions?: SuppressionMatcher
+): Promise<DependencyReport> {
   try {
     const languages = await detectLanguages(repoPath)
     const outdated: OutdatedPackage[] = []
@@ -827,12 +991,30 @@ export async function analyzeDependencies(repoPath: string): Promise<DependencyR
       }
     }
 
-    const vulnerabilities = languages.includes('javascript')
-      ? await getNpmAuditSummary(repoPath)
-      : { critical: 0, high: 0, medium: 0, low: 0, total: 0 }
+    const config = await loadBridgeConfig(repoPath)
+    const audit = await getVulnerabilitySummary(repoPath, languages)
+    const vulnerabilities = suppressVulnerablePackages(
+      audit.summary,
+      audit.packages,
+      suppressions ?? createSuppressionMatcher(config.suppressions)
+    )
+    const reachability = await getVulnerabilityReachability(repoPath, vulnerabilities.packages, pathFilter, importGraph)
 
     const installedPackages = await getInstalledDependencyNames(repoPath)
-    return { outdated, vulnerabilities, installedPackages }
+    const declaredDependencies = await readDeclaredDependencies(repoPath)
+    const freshness = await analyzeDependencyFreshness(
+      repoPath,
+      config.dependencies,
+      outdated.filter(pkg => pkg.language === 'javascript')
+    ).catch(() => null)
+    return {
+      outdated: applyUpdatePolicies(outdated, config.dependencies),
+      vulnerabilities: vulnerabilities.counts,
+      installedPackages,
+      declaredDependencies,
+      freshness,
+      reachability
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Dependency analysis failed'
     return {
@@ -844,147 +1026,124 @@ export async function analyzeDependencies(repoPath: string): Promise<DependencyR
   }
 }
 
-export async function detectCircularDependencies(repoPath: string): Promise<CircularDependencyReport> {
-  const tempConfigPath = path.join(repoPath, '.bridge-depcruise.tmp.json')
-  try {
-    const tempConfig = {
-      forbidden: [
-        {
-          name: 'no-circular',
-          severity: 'error',
-          from: {},
-          to: { circular: true }
-        }
-      ]
-    }
-    await fs.writeFile(tempConfigPath, JSON.stringify(tempConfig), 'utf-8')
-
-    const result = await runCli(
-      'depcruise',
-      [
-        '--config', tempConfigPath,
-        '--include-only', '^src',
-        '--exclude', 'node_modules',
-        '--output-type', 'json',
-        '.'
-      ],
-      repoPath,
-      DEFAULT_SCAN_TIMEOUT_MS
-    )
-    const payload = extractJsonPayload(result.stdout || result.stderr)
-    if (!payload) {
-      return {
-        count: 0,
-        dependencies: [],
-        error: 'dependency-cruiser did not produce parseable output.'
-      }
-    }
+async function loadImportGraph(repoPath: string, pathFilter?: PathFilter): Promise<ImportGraphAnalysis> {
+  const config = await loadBridgeConfig(repoPath)
+  return await analyzeImportGraph(repoPath, {
+    pathFilter: pathFilter ?? pathFilterFromConfig(repoPath, config.scan),
+    entries: config.scan.entries
+  })
+}
 
-    const violations = payload.output?.violations || []
-    const dependencies: CircularDependency[] = violations.map((violation: any) => ({
-      from: violation.from,
-      to: violation.to,
-      cycle: Array.isArray(violation.cycle) ? violation.cycle : []
+function toModuleGraph(analysis: ImportGraphAnalysis): ModuleGraph {
+  const cycleNodes = new Set<string>()
+  const cycleEdges = new Set<string>()
+  for (const cycle of analysis.cycles) {
+    cycle.forEach((node, index) => {
+      cycleNodes.add(node)
+      cycleEdges.add(`${node}->${cycle[(index + 1) % cycle.length]}`)
+    })
+  }
+
+  const edges = new Map<string, ModuleGraphEdge>()
+  for (const edge of analysis.graph.edges) {
+    const key = `${edge.from}->${edge.to}`
+    const existing = edges.get(key)
+    if (existing && !(existing.kind === 'type' || existing.kind === 'dynamic')) continue
+    edges.set(key, { from: edge.from, to: edge.to, kind: edge.kind, inCycle: cycleEdges.has(key) })
+  }
+
+  return {
+    nodes: analysis.graph.modules.map(module => ({
+      id: module.id,
+      inCycle: cycleNodes.has(module.id),
+      reachable: module.reachable
+    })),
+    edges: Array.from(edges.values())
+  }
+}
+
+export async function detectCircularDependencies(
+  repoPath: string,
+  pathFilter?: PathFilter,
+  importGraph?: ImportGraphAnalysis
+): Promise<CircularDependencyReport> {
+  try {
+    const analysis = importGraph ?? await loadImportGraph(repoPath, pathFilter)
+    const dependencies: CircularDependency[] = analysis.cycles.map(cycle => ({
+      from: cycle[0],
+      to: cycle[1] ?? cycle[0],
+      cycle: [...cycle, cycle[0]]
     }))
 
     return {
       count: dependencies.length,
-      dependencies
+      dependencies,
+      graph: toModuleGraph(analysis)
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Circular dependency scan failed'
     return { count: 0, dependencies: [], error: message }
-  } finally {
-    await fs.unlink(tempConfigPath).catch(() => {})
-  }
-}
-
-function normalizeReportedPath(repoPath: string, target: string): string {
-  const cleaned = target.replace(/^(\.\/|\\)/, '').trim()
-  if (!cleaned) return target
-  if (path.isAbsolute(cleaned)) {
-    return path.relative(repoPath, cleaned)
   }
-  return cleaned
 }
 
-function parseDeadCodeExports(payload: any, repoPath: string): DeadCodeExport[] {
-  const exports: DeadCodeExport[] = []
-  if (!payload) return exports
-
-  if (Array.isArray(payload.exports)) {
-    for (const entry of payload.exports) {
-      const file = normalizeReportedPath(repoPath, entry.file || entry.path || '')
-      const list = entry.exports || entry.unusedExports || []
-      if (Array.isArray(list)) {
-        for (const exp of list) {
-          exports.push({ file, exportName: String(exp) })
-        }
-      }
-    }
-  }
-
-  if (Array.isArray(payload.unusedExports)) {
-    for (const entry of payload.unusedExports) {
-      if (typeof entry === 'string') {
-        exports.push({ file: 'unknown', exportName: entry })
-      } else if (entry && typeof entry === 'object') {
-        exports.push({
-          file: normalizeReportedPath(repoPath, entry.file || entry.path || 'unknown'),
-          exportName: String(entry.export || entry.name || '')
-        })
-      }
+export async function detectDeadCode(
+  repoPath: string,
+  pathFilter?: PathFilter,
+  importGraph?: ImportGraphAnalysis
+): Promise<DeadCodeReport> {
+  try {
+    const analysis = importGraph ?? await loadImportGraph(repoPath, pathFilter)
+    return {
+      deadFiles: analysis.deadFiles,
+      unusedExports: analysis.unusedExports,
+      totalDeadCodeCount: analysis.deadFiles.length + analysis.unusedExports.length,
+      ...(analysis.warnings.length > 0 ? { warnings: analysis.warnings } : {})
     }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Dead code scan failed'
+    return { deadFiles: [], unusedExports: [], totalDeadCodeCount: 0, error: message }
   }
-
-  return exports
 }
 
-function parseDeadFiles(payload: any, repoPath: string): string[] {
-  if (!payload) return []
-  const candidates =
-    payload.unusedFiles ||
-    payload.unimported ||
-    payload.unused ||
-    payload.files ||
-    payload.unusedModules ||
-    []
-
-  if (Array.isArray(candidates)) {
-    return candidates
-      .map((entry: any) => typeof entry === 'string' ? entry : entry?.file || entry?.path)
-      .filter(Boolean)
-      .map((file: string) => normalizeReportedPath(repoPath, file))
+export async function getDependencyUsage(
+  repoPath: string,
+  pathFilter?: PathFilter,
+  importGraph?: ImportGraphAnalysis
+): Promise<DependencyUsageResult> {
+  try {
+    const analysis = importGraph ?? await loadImportGraph(repoPath, pathFilter)
+    return await analyzeDependencyUsage(repoPath, analysis.graph)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Dependency usage scan failed'
+    return { dependencies: [], undeclared: [], error: message }
   }
-
-  return []
 }
 
-export async function detectDeadCode(repoPath: string): Promise<DeadCodeReport> {
-  const report: DeadCodeReport = {
-    deadFiles: [],
-    unusedExports: [],
-    totalDeadCodeCount: 0,
-    raw: {}
+export async function checkArchitectureRules(
+  repoPath: string,
+  pathFilter?: PathFilter,
+  importGraph?: ImportGraphAnalysis
+): Promise<ArchitectureRulesReport> {
+  const config = await loadBridgeConfig(repoPath)
+  const rules = config.architecture.rules
+  if (rules.length === 0) {
+    return { rules: 0, violations: [], errorCount: 0, warningCount: 0 }
   }
 
-  const knipResult = await runCli('knip', ['--reporter', 'json'], repoPath, DEFAULT_SCAN_TIMEOUT_MS)
-  report.raw!.knip = knipResult.stdout || knipResult.stderr
-  const knipPayload = extractJsonPayload(knipResult.stdout || knipResult.stderr)
-  report.unusedExports = parseDeadCodeExports(knipPayload, repoPath)
-
-  const unimportedResult = await runCli('unimported', ['--json'], repoPath, DEFAULT_SCAN_TIMEOUT_MS)
-  report.raw!.unimported = unimportedResult.stdout || unimportedResult.stderr
-  const unimportedPayload = extractJsonPayload(unimportedResult.stdout || unimportedResult.stderr)
-  report.deadFiles = parseDeadFiles(unimportedPayload, repoPath)
-
-  report.totalDeadCodeCount = report.deadFiles.length + report.unusedExports.length
-
-  if (!knipResult.success && !unimportedResult.success) {
-    report.error = 'Dead code tooling failed to run. Ensure knip and unimported are installed.'
+  try {
+    const analysis = importGraph ?? await loadImportGraph(repoPath, pathFilter)
+    const violations = evaluateArchitectureRules(analysis.graph, rules)
+    const errorCount = violations.filter(violation => violation.severity === 'error').length
+    return {
+      rules: rules.length,
+      violations,
+      errorCount,
+      warningCount: violations.length - errorCount
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Architecture rule check failed'
+    return { rules: rules.length, violations: [], errorCount: 0, warningCount: 0, error: message }
   }
-
-  return report
 }
 
 async function locateStatsFile(repoPath: string): Promise<string | null> {
@@ -1070,7 +1229,7 @@ export async function analyzeBundleSize(repoPath: string): Promise<BundleAnalysi
   }
 }
 
-export async function analyzeTestCoverage(repoPath: string): Promise<TestCoverageReport> {
+export async function analyzeTestCoverage(repoPath: string, pathFilter?: PathFilter): Promise<TestCoverageReport> {
   const report: TestCoverageReport = {
     coveragePercentage: null,
     uncoveredCriticalFiles: []
@@ -1102,6 +1261,7 @@ export async function analyzeTestCoverage(repoPath: string): Promise<TestCoverag
 
     const criticalEntries = Object.entries(summary)
       .filter(([key]) => key !== 'total')
+      .filter(([file]) => !pathFilter || pathFilter.includesFile(path.isAbsolute(file) ? path.relative(repoPath, file) : file))
       .filter(([file]) => file.includes('/auth/') || file.includes('/payments/') || file.includes('/api/'))
       .map(([file, data]: any) => ({
         file,
@@ -1117,18 +1277,21 @@ export async function analyzeTestCoverage(repoPath: string): Promise<TestCoverag
   return report
 }
 
-async function findSourceFiles(dir: string, extensions: string[]): Promise<string[]> {
+async function findSourceFiles(dir: string, extensions: string[], pathFilter: PathFilter): Promise<string[]> {
   const results: string[] = []
   const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
 
   for (const entry of entries) {
-    if (entry.name.startsWith('.') || ['node_modules', 'dist', 'build', 'coverage'].includes(entry.name)) {
+    if (entry.name.startsWith('.')) {
       continue
     }
     const fullPath = path.join(dir, entry.name)
+    const relativePath = path.relative(pathFilter.root, fullPath)
     if (entry.isDirectory()) {
-      results.push(...await findSourceFiles(fullPath, extensions))
-    } else if (extensions.includes(path.extname(entry.name))) {
+      if (!pathFilter.ignoresDirectory(relativePath)) {
+        results.push(...await findSourceFiles(fullPath, extensions, pathFilter))
+      }
+    } else if (extensions.includes(path.extname(entry.name)) && pathFilter.includesFile(relativePath)) {
       results.push(fullPath)
     }
   }
@@ -1136,11 +1299,13 @@ async function findSourceFiles(dir: string, extensions: string[]): Promise<strin
   return results
 }
 
-export async function detectDocumentationDebt(repoPath: string): Promise<DocumentationDebtReport> {
+export async function detectDocumentationDebt(repoPath: string, pathFilter?: PathFilter): Promise<DocumentationDebtReport> {
   const requiredSections = ['Installation', 'Usage', 'API', 'Contributing', 'License']
+  const hasChangelog = await existsAny(repoPath, ['CHANGELOG.md', 'changelog.md', 'CHANGELOG', 'HISTORY.md'])
+  const readmePath = path.join(repoPath, 'README.md')
+  const readmeExists = await existsAt(repoPath, 'README.md')
 
   try {
-    const readmePath = path.join(repoPath, 'README.md')
     const readme = await fs.readFile(readmePath, 'utf-8')
 
     const missingSections = requiredSections.filter(section => {
@@ -1151,12 +1316,11 @@ export async function detectDocumentationDebt(repoPath: string): Promise<Documen
     const lastUpdateMatch = readme.match(/Last updated:\s*(.+)/i)
     const lastUpdate = lastUpdateMatch ? new Date(lastUpdateMatch[1]) : null
     const validLastUpdate = lastUpdate && !Number.isNaN(lastUpdate.getTime())
-    const daysSinceUpdate = validLastUpdate
-      ? (Date.now() - lastUpdate!.getTime()) / (1000 * 60 * 60 * 24)
-      : 999
+    const updatedAt = validLastUpdate ? lastUpdate!.getTime() : (await fs.stat(readmePath)).mtime.getTime()
+    const daysSinceUpdate = (Date.now() - updatedAt) / (1000 * 60 * 60 * 24)
 
     const srcDir = path.join(repoPath, 'src')
-    const srcFiles = await findSourceFiles(srcDir, ['.ts', '.tsx', '.js', '.jsx'])
+    const srcFiles = await findSourceFiles(srcDir, ['.ts', '.tsx', '.js', '.jsx'], pathFilter ?? await loadScanPathFilter(repoPath))
     let undocumentedFunctions = 0
 
     for (const file of srcFiles) {
@@ -1170,7 +1334,9 @@ export async function detectDocumentationDebt(repoPath: string): Promise<Documen
       missingReadmeSections: missingSections,
       readmeOutdated: daysSinceUpdate > 90,
       daysSinceUpdate,
-      undocumentedFunctions
+      undocumentedFunctions,
+      readmeExists,
+      hasChangelog
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Documentation scan failed'
@@ -1179,6 +1345,8 @@ export async function detectDocumentationDebt(repoPath: string): Promise<Documen
       readmeOutdated: true,
       daysSinceUpdate: 999,
       undocumentedFunctions: 0,
+      readmeExists,
+      hasChangelog,
       error: message
     }
   }
@@ -1186,7 +1354,11 @@ export async function detectDocumentationDebt(repoPath: string): Promise<Documen
 
 export async function runFullScan(
   repoPath: string,
-  options: { onProgress?: (message: string, step: number, total: number) => void; skipConsoleUpload?: boolean } = {}
+  options: {
+    onProgress?: (message: string, step: number, total: number) => void
+    skipConsoleUpload?: boolean
+    generatedBy?: BridgeScanReport['generatedBy']
+  } = {}
 ): Promise<FullScanResult> {
   const startTime = Date.now()
   const configPath = path.join(repoPath, '.bridge.json')
@@ -1200,17 +1372,21 @@ export async function runFullScan(
     config = generated
   }
 
+  const pathFilter = pathFilterFromConfig(repoPath, config.scan)
+  const suppressions = createSuppressionMatcher(config.suppressions)
   const featureFlags = config.scan.features
   const steps: string[] = []
   if (featureFlags.dependencies) steps.push('Analyzing dependencies')
   if (featureFlags.circularDeps) steps.push('Detecting circular dependencies')
   if (featureFlags.deadCode) steps.push('Detecting dead code')
+  if (config.architecture.rules.length > 0) steps.push('Checking architecture rules')
   if (featureFlags.bundleSize) steps.push('Analyzing bundle size')
   if (featureFlags.testCoverage) steps.push('Running test coverage')
   if (featureFlags.documentation) steps.push('Checking documentation')
   if (featureFlags.security) steps.push('Scanning security code patterns')
   if (featureFlags.fileAnalysis) steps.push('Collecting file architecture signals')
   if (featureFlags.codeSmells) steps.push('Analyzing code health metrics')
+  if (featureFlags.codeSmells) steps.push('Detecting duplicate code')
   if (steps.length === 0) {
     steps.push('No enabled scan features; returning baseline report')
   }
@@ -1226,21 +1402,41 @@ export async function runFullScan(
     vulnerabilities: { critical: 0, high: 0, medium: 0, low: 0, total: 0 },
     installedPackages: []
   }
+  let importGraph: ImportGraphAnalysis | undefined
   if (featureFlags.dependencies) {
     progress('Analyzing dependencies')
-    dependencies = await analyzeDependencies(repoPath)
+    importGraph = await loadImportGraph(repoPath, pathFilter).catch(() => undefined)
+    dependencies = await analyzeDependencies(repoPath, pathFilter, importGraph, suppressions)
   }
 
   let circularDependencies: CircularDependencyReport = { count: 0, dependencies: [] }
   if (featureFlags.circularDeps) {
     progress('Detecting circular dependencies')
-    circularDependencies = await detectCircularDependencies(repoPath)
+    importGraph = importGraph ?? await loadImportGraph(repoPath, pathFilter).catch(() => undefined)
+    circularDependencies = await detectCircularDependencies(repoPath, pathFilter, importGraph)
+    const cycles = circularDependencies.dependencies.filter(
+      dependency => !suppressions.suppresses(cycleSuppressionFingerprint(dependency.cycle))
+    )
+    circularDependencies = { ...circularDependencies, count: cycles.length, dependencies: cycles }
   }
 
   let deadCode: DeadCodeReport = { deadFiles: [], unusedExports: [], totalDeadCodeCount: 0 }
   if (featureFlags.deadCode) {
     progress('Detecting dead code')
-    deadCode = await detectDeadCode(repoPath)
+    importGraph = importGraph ?? await loadImportGraph(repoPath, pathFilter).catch(() => undefined)
+    deadCode = await detectDeadCode(repoPath, pathFilter, importGraph)
+    const deadFiles = deadCode.deadFiles.filter(file => !suppressions.suppresses(deadFileSuppressionFingerprint(file)))
+    const unusedExports = deadCode.unusedExports.filter(
+      entry => !suppressions.suppresses(unusedExportSuppressionFingerprint(entry.file, entry.exportName))
+    )
+    deadCode = { ...deadCode, deadFiles, unusedExports, totalDeadCodeCount: deadFiles.length + unusedExports.length }
+  }
+
+  let architectureRules: ArchitectureRulesReport | undefined
+  if (config.architecture.rules.length > 0) {
+    progress('Checking architecture rules')
+    importGraph = importGraph ?? await loadImportGraph(repoPath, pathFilter).catch(() => undefined)
+    architectureRules = await checkArchitectureRules(repoPath, pathFilter, importGraph)
   }
 
   let bundleSize: BundleAnalysisReport = { totalSize: 0, totalSizeFormatted: formatSize(0), largestModules: [] }
@@ -1252,7 +1448,7 @@ export async function runFullScan(
   let testCoverage: TestCoverageReport = { coveragePercentage: null, uncoveredCriticalFiles: [] }
   if (featureFlags.testCoverage) {
     progress('Running test coverage')
-    testCoverage = await analyzeTestCoverage(repoPath)
+    testCoverage = await analyzeTestCoverage(repoPath, pathFilter)
   }
 
   let documentation: DocumentationDebtReport = {
@@ -1263,22 +1459,23 @@ export async function runFullScan(
   }
   if (featureFlags.documentation) {
     progress('Checking documentation')
-    documentation = await detectDocumentationDebt(repoPath)
+    documentation = await detectDocumentationDebt(repoPath, pathFilter)
   }
 
   let securityPatterns: SecurityPatternFinding[] = []
   if (featureFlags.security) {
     progress('Scanning security code patterns')
-    securityPatterns = await scanRepoForSecurityPatterns(repoPath, {
-      exclude: config.scan.exclude,
-      maxFindings: 300
+    securityPatterns = await collectSecurityFindings(repoPath, {
+      pathFilter,
+      maxFindings: 300,
+      suppressions
     })
   }
 
   let oversizedFiles: OversizedComponent[] = []
   if (featureFlags.fileAnalysis) {
     progress('Collecting file architecture signals')
-    oversizedFiles = await findOversizedComponents(repoPath, 150)
+    oversizedFiles = await findOversizedComponents(repoPath, 150, pathFilter)
   }
 
   let codeHealth: CodeHealthMetrics = {
@@ -1292,14 +1489,31 @@ export async function runFullScan(
     packageScriptsCount: 0,
     hasGitignore: false
   }
+  let complexity: ComplexityReport | undefined
   if (featureFlags.codeSmells) {
     progress('Analyzing code health metrics')
-    codeHealth = await computeCodeHealthMetrics(repoPath)
+    codeHealth = await computeCodeHealthMetrics(repoPath, pathFilter)
+    complexity = await analyzeComplexity(repoPath, {
+      pathFilter,
+      threshold: config.scoring.thresholds?.maxFunctionComplexity
+    }).catch(() => undefined)
+  }
+
+  let duplication: DuplicationReport | undefined
+  if (featureFlags.codeSmells) {
+    progress('Detecting duplicate code')
+    duplication = await detectDuplicateCode(repoPath, {
+      pathFilter,
+      minTokens: config.scan.duplication?.minTokens
+    })
   }
 
-  const repositoryInsights = await collectRepositoryInsights(repoPath, config)
+  const repositoryInsights = await collectRepositoryInsights(repoPath, config, pathFilter)
   repositoryInsights.testsPass = null
   repositoryInsights.oversizedFilesCount = oversizedFiles.length
+  if (repositoryInsights && complexity) {
+    repositoryInsights.avgFileComplexity = complexity.avgFileComplexity
+  }
 
   const history = getScanHistory(repoPath)
   const scanData: ScanData = {
@@ -1313,11 +1527,13 @@ export async function runFullScan(
     oversizedComponents: oversizedFiles,
     securityPatterns,
     codeHealth,
+    duplication,
     repositoryInsights,
     previousScore: history.techDebtScore
   }
 
-  const techDebtScore = await calculateTechDebtScore(repoPath, scanData, config)
+  const scanDate = new Date().toISOString()
+  const techDebtScore = await calculateTechDebtScore(repoPath, scanData, config, scanDate)
   saveScanHistory(repoPath, {
     bundleSize: bundleSize.totalSize || history.bundleSize,
     techDebtScore: techDebtScore.total
@@ -1330,29 +1546,40 @@ export async function runFullScan(
   } catch {}
 
   const result: FullScanResult = {
-    scanDate: new Date().toISOString(),
+    scanDate,
     repository: repoPath,
     repositoryUrl,
     config,
     dependencies,
     circularDependencies,
     deadCode,
+    architectureRules,
     bundleSize,
     testCoverage,
     documentation,
     securityPatterns,
     oversizedFiles,
     codeHealth,
+    complexity,
+    duplication,
     techDebtScore,
+    suppressions: config.suppressions?.length ? suppressions.report() : null,
     durationMs: Date.now() - startTime
   }
 
   const scanReport = await generateScanReport(repoPath, config, result, techDebtScore, {
     patternFindings: securityPatterns,
-    oversizedFiles
+    oversizedFiles,
+    generatedBy: options.generatedBy,
+    scanFilter: pathFilter.summary()
   })
   result.scanReport = scanReport
   result.reportPaths = await writeScanReportArtifacts(repoPath, scanReport)
+  try {
+    await refreshBaseBranchBaseline(repoPath, scanReport)
+  } catch (error) {
+    console.warn('[Bridge] Failed to refresh base branch baseline:', error)
+  }
 
   if (!options.skipConsoleUpload) {
     const settings = getBridgeConsoleSettings()
@@ -1364,10 +1591,10 @@ export async function runFullScan(
   try {
     const gitignoreRaw = await fs.readFile(path.join(repoPath, '.gitignore'), 'utf-8')
     if (!gitignoreRaw.split(/\r?\n/).some(line => line.trim() === '.bridge/' || line.trim() === '.bridge')) {
-      console.log(`[Bridge] Consider adding '.bridge/' to ${repoPath}/.gitignore`) // eslint-disable-line no-console
+      console.warn(`[Bridge] Consider adding '.bridge/' to ${repoPath}/.gitignore`) // eslint-disable-line no-console
     }
   } catch {
-    console.log(`[Bridge] Consider adding '.bridge/' to ${repoPath}/.gitignore`) // eslint-disable-line no-console
+    console.warn(`[Bridge] Consider adding '.bridge/' to ${repoPath}/.gitignore`) // eslint-disable-line no-console
   }
 
   return result
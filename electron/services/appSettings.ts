@@ -1,8 +1,10 @@
+import { isOfflineModeRequested } from '../../bridge-mcp/src/core/advisoryStore.js'
 import { createBridgeStore } from './store'
 
 export interface AppSettings {
   experimentalFeatures: boolean
   onboardingCompleted: boolean
+  offlineMode: boolean
 }
 
 const store = createBridgeStore('bridge-app-settings')
@@ -10,11 +12,12 @@ const SETTINGS_KEY = 'bridge-app-settings'
 
 const defaultSettings: AppSettings = {
   experimentalFeatures: false,
-  onboardingCompleted: false
+  onboardingCompleted: false,
+  offlineMode: false
 }
 
 export function getAppSettings(): AppSettings {
-  return store.get(SETTINGS_KEY, defaultSettings) as AppSettings
+  return { ...defaultSettings, ...(store.get(SETTINGS_KEY, defaultSettings) as Partial<AppSettings>) }
 }
 
 export function saveAppSettings(settings: Partial<AppSettings>): AppSettings {
@@ -30,3 +33,7 @@ export function saveAppSettings(settings: Partial<AppSettings>): AppSettings {
 export function isExperimentalFeaturesEnabled(): boolean {
   return getAppSettings().experimentalFeatures
 }
+
+export function isOfflineModeEnabled(): boolean {
+  return getAppSettings().offlineMode || isOfflineModeRequested()
+}
@@ -4,6 +4,9 @@ export {
   type BridgePrimaryLanguage,
   type BridgePackageManager,
   type BridgeConfig,
+  type DependencyGroup,
+  type FindingSuppression,
+  type UpdatePolicyValue,
   type BridgeConfigValidationResult,
   BRIDGE_CONFIG_FILE,
   DEFAULT_BRIDGE_CONFIG,
@@ -12,4 +15,8 @@ export {
   writeBridgeConfig,
   validateConfig,
   hasBridgeConfig,
+  loadScanPathFilter,
+  resolveUpdatePolicy,
+  getUpdatePolicy,
+  resolveMinReleaseAgeDays,
 } from "../../bridge-mcp/src/core/bridgeConfig.js";
@@ -70,6 +70,13 @@ export async function sendScanToConsole(scanResults: any, settings: BridgeConsol
       body: JSON.stringify({
         repository_url: scanResults.repositoryUrl || scanResults.repository,
         scan_date: scanResults.scanDate,
+        tech_debt: {
+          score: scanResults.techDebtScore?.total ?? null,
+          grade: scanResults.techDebtScore?.grade ?? null,
+          trend: scanResults.techDebtScore?.trend || 'unknown',
+          delta: scanResults.techDebtScore?.trendDetails?.delta ?? null,
+          dimension_deltas: scanResults.techDebtScore?.trendDetails?.dimensionDeltas || {}
+        },
         metrics: {
           dependencies: {
             outdated_count: scanResults.dependencies?.outdated?.length || 0,
@@ -78,8 +85,8 @@ export async function sendScanToConsole(scanResults: any, settings: BridgeConsol
           },
           code_quality: {
             dead_code_files: scanResults.deadCode?.deadFiles?.length || 0,
-            duplicate_code_percentage: 0,
-            average_complexity: 0
+            duplicate_code_percentage: scanResults.duplication?.percentage || 0,
+            average_complexity: scanResults.complexity?.averageCyclomatic || 0
           },
           testing: {
             coverage_percentage: scanResults.testCoverage?.coveragePercentage || 0,
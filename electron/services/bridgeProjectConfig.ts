@@ -9,6 +9,7 @@ export interface BridgePatchConfig {
   branchPrefix?: string
   baseBranch?: string
   remoteFirst?: boolean
+  bisectOnFailure?: boolean
 }
 
 export interface BridgeProjectConfig {
@@ -51,7 +52,8 @@ function normalizePatchConfig(rawPatch: unknown): BridgePatchConfig {
     testCommand: asString(patchConfig.testCommand),
     branchPrefix: asString(patchConfig.branchPrefix),
     baseBranch: sanitizeBranch(patchConfig.baseBranch),
-    remoteFirst: asBoolean(patchConfig.remoteFirst)
+    remoteFirst: asBoolean(patchConfig.remoteFirst),
+    bisectOnFailure: asBoolean(patchConfig.bisectOnFailure)
   }
 }
 
@@ -82,7 +84,8 @@ export async function loadBridgeProjectConfig(repoPath: string): Promise<BridgeP
         testCommand: fullConfig.gates.tests.command,
         branchPrefix: asString((fullConfig as any)?.patch?.branchPrefix || (fullConfig as any)?.branchPrefix) || 'bridge-update-deps',
         baseBranch: sanitizeBranch((fullConfig as any)?.patch?.baseBranch || (fullConfig as any)?.baseBranch),
-        remoteFirst: asBoolean((fullConfig as any)?.patch?.remoteFirst)
+        remoteFirst: asBoolean((fullConfig as any)?.patch?.remoteFirst),
+        bisectOnFailure: asBoolean((fullConfig as any)?.patch?.bisectOnFailure)
       }
     }
 
@@ -1,47 +1,114 @@
 import fs from 'fs/promises'
 import path from 'path'
+import { exec } from 'child_process'
+import { promisify } from 'util'
 import { runFullScan } from './analysis'
-import { loadBridgeConfig } from './bridgeConfig'
-import { generateScanReport } from './scanReport'
+import {
+  BRIDGE_CONFIG_FILE,
+  generateDefaultConfig,
+  hasBridgeConfig,
+  loadBridgeConfig,
+  validateConfig,
+  writeBridgeConfig,
+  type BridgeConfig
+} from './bridgeConfig'
+import { loadBridgeProjectConfig } from './bridgeProjectConfig'
+import { getGitHubCliStatus } from './git'
+import type { GateResult } from './gateEvaluator'
+import { runNonBreakingUpdatePipeline, type PatchBatchResult } from './patchBatch'
+import { buildSarifLog, importSarifFile } from './sarif'
+import type { BridgeScanReport } from './scanReport'
+import { groupBranchPrefix } from '../../bridge-mcp/src/core/dependencyGroups.js'
 
-export async function runScanCommand(repoPath: string, options: {
-  format: 'json' | 'human' | 'agent'
-  output?: string
-  gates?: boolean
-  quiet?: boolean
-}) {
-  const resolvedRepoPath = path.resolve(repoPath)
-  const config = await loadBridgeConfig(resolvedRepoPath)
-  const fullScan = await runFullScan(resolvedRepoPath, { skipConsoleUpload: false })
+const execAsync = promisify(exec)
 
-  if (!fullScan.scanReport) {
-    throw new Error('Scan report was not generated by runFullScan().')
+export type CliFormat = 'json' | 'human' | 'agent' | 'sarif'
+
+export const CLI_EXIT_CODES = {
+  success: 0,
+  gateFailure: 1,
+  error: 2
+} as const
+
+export class GateFailureError extends Error {
+  readonly failedGates: GateResult[]
+
+  constructor(failedGates: GateResult[]) {
+    super(`Gates failed: ${failedGates.map(gate => gate.name).join(', ')}`)
+    this.name = 'GateFailureError'
+    this.failedGates = failedGates
   }
+}
 
-  const report = fullScan.scanReport || await generateScanReport(
-    resolvedRepoPath,
-    config,
-    fullScan,
-    fullScan.techDebtScore,
-    {
-      patternFindings: fullScan.securityPatterns,
-      oversizedFiles: fullScan.oversizedFiles
-    }
-  )
+function fatalGates(report: BridgeScanReport): GateResult[] {
+  return report.gates.results.filter(result => !result.passed && result.severity === 'error')
+}
 
-  if (options.gates && !report.gates.passed) {
-    const fatalGates = report.gates.results.filter(result => !result.passed && result.severity === 'error')
-    if (fatalGates.length > 0) {
-      throw new Error(`Gates failed: ${fatalGates.map(g => g.name).join(', ')}`)
-    }
+async function emit(rendered: string, options: { output?: string; quiet?: boolean }) {
+  if (!options.quiet) {
+    console.log(rendered)
+  }
+
+  if (options.output) {
+    const outputPath = path.resolve(options.output)
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await fs.writeFile(outputPath, rendered + '\n', 'utf-8')
+  }
+}
+
+function describeScanFilter(filter: NonNullable<BridgeScanReport['scanFilter']>): string {
+  const parts = [`exclude ${filter.exclude.join(', ')}`]
+  if (filter.include.length > 0) parts.push(`include ${filter.include.join(', ')}`)
+  if (filter.gitignore) parts.push(filter.gitignoreFiles.length > 0 ? `.gitignore (${filter.gitignoreFiles.length} files)` : '.gitignore')
+  return parts.join('; ')
+}
+
+function describeArchitectureRules(report: BridgeScanReport): string[] {
+  const rules = report.architecture.rules
+  if (!rules) return []
+  if (rules.error) return [`Architecture Rules: not evaluated (${rules.error})`]
+  return [
+    `Architecture Rules: ${rules.errorCount} errors, ${rules.warningCount} warnings`,
+    ...rules.violations.slice(0, 5).map(violation => `- [${violation.rule}] ${violation.from} -> ${violation.to}`)
+  ]
+}
+
+function describeComplexity(report: BridgeScanReport): string[] {
+  const complexity = report.complexity
+  if (!complexity || complexity.functionCount === 0) return []
+  return [
+    `Complexity: avg cyclomatic ${complexity.averageCyclomatic}, avg cognitive ${complexity.averageCognitive}, ` +
+      `${complexity.overThreshold} functions over ${complexity.threshold}`,
+    ...complexity.worstOffenders
+      .filter(fn => fn.cognitive > complexity.threshold)
+      .slice(0, 5)
+      .map(fn => `- ${fn.file}:${fn.line} ${fn.name} (cognitive ${fn.cognitive}, cyclomatic ${fn.cyclomatic})`)
+  ]
+}
+
+function describeDuplication(report: BridgeScanReport): string[] {
+  const duplication = report.duplication
+  if (!duplication) return []
+  if (duplication.error) return [`Duplication: not measured (${duplication.error})`]
+  return [
+    `Duplication: ${duplication.percentage}% of lines, ${duplication.cloneCount} clone pairs (min ${duplication.minTokens} tokens)`,
+    ...duplication.clones
+      .slice(0, 5)
+      .map(clone => `- ${clone.first.file}:${clone.first.startLine}-${clone.first.endLine} = ${clone.second.file}:${clone.second.startLine}-${clone.second.endLine}`)
+  ]
+}
+
+export function renderScanReport(report: BridgeScanReport, format: CliFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2)
   }
 
-  let rendered = ''
+  if (format === 'sarif') {
+    return JSON.stringify(buildSarifLog(report), null, 2)
+  }
 
-  if (options.format === 'json') {
-    rendered = JSON.stringify(report, null, 2)
-  } else if (options.format === 'agent') {
-    rendered = JSON.stringify({
+  if (format === 'agent') {
+    return JSON.stringify({
       debt_score: report.techDebt.total,
       grade: report.techDebt.grade,
       critical: report.agentDigest.critical,
@@ -55,26 +122,314 @@ export async function runScanCommand(repoPath: string, options: {
       conventions: report.agentDigest.conventions,
       outdated_summary: report.agentDigest.outdated_summary
     }, null, 2)
-  } else {
-    rendered = [
-      `Bridge Scan Report: ${report.repository.name}`,
-      `Debt Score: ${report.techDebt.total} (${report.techDebt.grade}, ${report.techDebt.trend})`,
-      `Critical Issues: ${report.agentDigest.critical.join(' | ')}`,
-      `Top Actions:`,
-      ...report.agentDigest.actions.slice(0, 5).map(item => `- [${item.dimension}] ${item.title} (impact ${item.impact}, effort ${item.effort})`),
-      `Gates: ${report.gates.passed ? 'PASS' : 'FAIL'}`
-    ].join('\n')
   }
 
-  if (!options.quiet) {
-    console.log(rendered)
+  return [
+    `Bridge Scan Report: ${report.repository.name}`,
+    `Debt Score: ${report.techDebt.total} (${report.techDebt.grade}, ${report.techDebt.trend})`,
+    `Critical Issues: ${report.agentDigest.critical.join(' | ')}`,
+    ...(report.scanFilter ? [`Scope: ${describeScanFilter(report.scanFilter)}`] : []),
+    ...describeArchitectureRules(report),
+    ...describeComplexity(report),
+    ...describeDuplication(report),
+    `Top Actions:`,
+    ...report.agentDigest.actions.slice(0, 5).map(item => `- [${item.dimension}] ${item.title} (impact ${item.impact}, effort ${item.effort})`),
+    `Gates: ${report.gates.passed ? 'PASS' : 'FAIL'}`
+  ].join('\n')
+}
+
+export function renderGateResults(report: BridgeScanReport, format: CliFormat): string {
+  if (format !== 'human') {
+    return JSON.stringify({
+      passed: report.gates.passed,
+      generatedAt: report.generatedAt,
+      baseline: report.baseline
+        ? { branch: report.baseline.branch, generatedAt: report.baseline.generatedAt }
+        : null,
+      results: report.gates.results
+    }, null, 2)
   }
 
-  if (options.output) {
-    const outputPath = path.resolve(options.output)
-    await fs.mkdir(path.dirname(outputPath), { recursive: true })
-    await fs.writeFile(outputPath, rendered + '\n', 'utf-8')
+  const symbol = (gate: GateResult) => {
+    if (gate.passed) return 'PASS'
+    return gate.severity === 'error' ? 'FAIL' : 'WARN'
+  }
+
+  return [
+    `Bridge Gates: ${report.repository.name}`,
+    ...report.gates.results.map(gate => `[${symbol(gate)}] ${gate.name}: ${gate.message}`),
+    `Gates: ${report.gates.passed ? 'PASS' : 'FAIL'}`
+  ].join('\n')
+}
+
+async function importSarifInputs(repoPath: string, sarifPaths: string[] | undefined, quiet?: boolean) {
+  for (const sarifPath of sarifPaths || []) {
+    const imported = await importSarifFile(repoPath, sarifPath)
+    if (!quiet) {
+      for (const entry of imported) {
+        console.error(`Imported ${entry.findingCount} findings from ${entry.tool} (${sarifPath})`)
+      }
+    }
+  }
+}
+
+export async function runScanCommand(repoPath: string, options: {
+  format: CliFormat
+  output?: string
+  sarif?: string[]
+  gates?: boolean
+  quiet?: boolean
+  generatedBy?: BridgeScanReport['generatedBy']
+  onProgress?: (message: string, step: number, total: number) => void
+}) {
+  const resolvedRepoPath = path.resolve(repoPath)
+  await importSarifInputs(resolvedRepoPath, options.sarif, options.quiet)
+  const fullScan = await runFullScan(resolvedRepoPath, {
+    skipConsoleUpload: true,
+    generatedBy: options.generatedBy,
+    onProgress: options.onProgress
+  })
+
+  if (!fullScan.scanReport) {
+    throw new Error('Scan report was not generated by runFullScan().')
+  }
+
+  const report = fullScan.scanReport
+
+  // Render before failing so CI logs and --output artifacts still describe the failing scan.
+  await emit(renderScanReport(report, options.format), options)
+
+  if (options.gates && !report.gates.passed) {
+    const failed = fatalGates(report)
+    if (failed.length > 0) {
+      throw new GateFailureError(failed)
+    }
   }
 
   return report
 }
+
+export async function runGatesCommand(repoPath: string, options: {
+  format: CliFormat
+  output?: string
+  sarif?: string[]
+  quiet?: boolean
+  generatedBy?: BridgeScanReport['generatedBy']
+  onProgress?: (message: string, step: number, total: number) => void
+}) {
+  const resolvedRepoPath = path.resolve(repoPath)
+  await importSarifInputs(resolvedRepoPath, options.sarif, options.quiet)
+  const fullScan = await runFullScan(resolvedRepoPath, {
+    skipConsoleUpload: true,
+    generatedBy: options.generatedBy,
+    onProgress: options.onProgress
+  })
+
+  if (!fullScan.scanReport) {
+    throw new Error('Scan report was not generated by runFullScan().')
+  }
+
+  const report = fullScan.scanReport
+  await emit(renderGateResults(report, options.format), options)
+
+  const failed = fatalGates(report)
+  if (failed.length > 0) {
+    throw new GateFailureError(failed)
+  }
+
+  return report
+}
+
+export async function runReportCommand(repoPath: string, options: {
+  format: CliFormat
+  output?: string
+  quiet?: boolean
+}) {
+  const reportPath = path.join(path.resolve(repoPath), '.bridge', 'latest-report.json')
+  let report: BridgeScanReport
+  try {
+    report = JSON.parse(await fs.readFile(reportPath, 'utf-8')) as BridgeScanReport
+  } catch {
+    throw new Error(`No scan report found at ${reportPath}. Run \`bridge scan\` first.`)
+  }
+
+  await emit(renderScanReport(report, options.format), options)
+  return report
+}
+
+// Returns true when the entry had to be added.
+async function ensureBridgeDirIgnored(repoPath: string): Promise<boolean> {
+  const gitignorePath = path.join(repoPath, '.gitignore')
+  let existing = ''
+  try {
+    existing = await fs.readFile(gitignorePath, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') throw error
+  }
+
+  if (existing.split(/\r?\n/).some(line => line.trim() === '.bridge/' || line.trim() === '.bridge')) {
+    return false
+  }
+
+  const separator = existing.length > 0 && !existing.endsWith('\n') ? '\n' : ''
+  await fs.writeFile(gitignorePath, `${existing}${separator}.bridge/\n`, 'utf-8')
+  return true
+}
+
+export async function runInitCommand(repoPath: string, options: { force?: boolean; quiet?: boolean } = {}) {
+  const resolvedRepoPath = path.resolve(repoPath)
+  const configPath = path.join(resolvedRepoPath, BRIDGE_CONFIG_FILE)
+
+  if (!options.force && await hasBridgeConfig(resolvedRepoPath)) {
+    throw new Error(`${configPath} already exists. Pass --force to regenerate it.`)
+  }
+
+  const config = await generateDefaultConfig(resolvedRepoPath)
+  await writeBridgeConfig(resolvedRepoPath, config)
+  await fs.mkdir(path.join(resolvedRepoPath, '.bridge'), { recursive: true })
+  const ignoredBridgeDir = await ensureBridgeDirIgnored(resolvedRepoPath)
+
+  if (!options.quiet) {
+    console.log(`Wrote ${configPath} (${config.project.primaryLanguage}).`)
+    if (ignoredBridgeDir) console.log(`Added '.bridge/' to ${path.join(resolvedRepoPath, '.gitignore')}.`)
+  }
+
+  return config
+}
+
+export async function runUpdateCommand(repoPath: string, options: {
+  branchName?: string
+  createPR?: boolean
+  runTests?: boolean
+  push?: boolean
+  bisect?: boolean
+  group?: string
+  quiet?: boolean
+}): Promise<PatchBatchResult> {
+  const resolvedRepoPath = path.resolve(repoPath)
+  const bridgeConfig = await loadBridgeConfig(resolvedRepoPath)
+  const projectConfig = await loadBridgeProjectConfig(resolvedRepoPath)
+  const patchConfig = projectConfig.config.patch || {}
+  const configuredPrefix = patchConfig.branchPrefix || projectConfig.config.branchPrefix || 'bridge-update-deps'
+  const branchPrefix = options.group ? groupBranchPrefix(configuredPrefix, options.group) : configuredPrefix
+  const log = (message: string) => {
+    if (!options.quiet) console.log(message)
+  }
+
+  const result = await runNonBreakingUpdatePipeline(
+    {
+      repoPath: resolvedRepoPath,
+      branchName: options.branchName?.trim() || `${branchPrefix}-${Date.now()}`,
+      createPR: options.createPR ?? patchConfig.createPR ?? false,
+      runTests: options.runTests ?? patchConfig.runTests ?? bridgeConfig.gates.tests.required,
+      pushChanges: options.push ?? true,
+      testCommand: bridgeConfig.gates.tests.command || patchConfig.testCommand,
+      testTimeoutMs: bridgeConfig.gates.tests.timeout,
+      baseBranch: patchConfig.baseBranch || projectConfig.config.baseBranch,
+      remoteFirst: patchConfig.remoteFirst ?? true,
+      bisectOnFailure: options.bisect ?? patchConfig.bisectOnFailure ?? false,
+      group: options.group
+    },
+    {
+      onProgress: (message, step, total) => log(`[${step}/${total}] ${message}`),
+      onLog: log,
+      onWarning: (warning) => console.warn(`Warning: ${warning.message}`)
+    }
+  )
+
+  result.culprits?.forEach(culprit => {
+    console.warn(`Held back ${culprit.name}${culprit.failedCommand ? ` (fails ${culprit.failedCommand})` : ''}`)
+    if (!options.quiet) {
+      culprit.output.trim().split(/\r?\n/).slice(-20).forEach(line => console.warn(`  ${line}`))
+    }
+  })
+
+  if (result.success) {
+    log(`Updated ${result.updatedPackages?.length || 0} packages on ${result.branchName}.`)
+    if (result.prUrl) log(`Pull request: ${result.prUrl}`)
+  } else {
+    throw new Error(result.error || 'Dependency update failed.')
+  }
+
+  return result
+}
+
+export interface DoctorCheck {
+  name: string
+  ok: boolean
+  message: string
+}
+
+async function commandVersion(command: string, cwd: string): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync(command, { cwd, timeout: 30000 })
+    return stdout.trim().split('\n')[0] || null
+  } catch {
+    return null
+  }
+}
+
+export async function runDoctorCommand(repoPath: string, options: { format: CliFormat; quiet?: boolean }) {
+  const resolvedRepoPath = path.resolve(repoPath)
+  const checks: DoctorCheck[] = []
+
+  const nodeMajor = Number(process.versions.node.split('.')[0])
+  checks.push({
+    name: 'node',
+    ok: nodeMajor >= 18,
+    message: `Node.js ${process.versions.node}${nodeMajor >= 18 ? '' : ' (18 or newer required)'}`
+  })
+
+  for (const [name, command] of [['git', 'git --version'], ['npm', 'npm --version']]) {
+    const version = await commandVersion(command, resolvedRepoPath)
+    checks.push({ name, ok: Boolean(version), message: version || `${name} not found on PATH` })
+  }
+
+  const insideRepo = await commandVersion('git rev-parse --is-inside-work-tree', resolvedRepoPath)
+  checks.push({
+    name: 'repository',
+    ok: insideRepo === 'true',
+    message: insideRepo === 'true' ? `${resolvedRepoPath} is a git repository` : `${resolvedRepoPath} is not a git repository`
+  })
+
+  const configPath = path.join(resolvedRepoPath, BRIDGE_CONFIG_FILE)
+  try {
+    const parsed = JSON.parse(await fs.readFile(configPath, 'utf-8')) as Partial<BridgeConfig>
+    const validation = validateConfig(parsed)
+    checks.push({
+      name: 'config',
+      ok: validation.errors.length === 0,
+      message: validation.errors.length > 0
+        ? validation.errors.join('; ')
+        : validation.warnings.length > 0
+          ? `Valid with warnings: ${validation.warnings.join('; ')}`
+          : `${BRIDGE_CONFIG_FILE} is valid`
+    })
+  } catch (error) {
+    const missing = (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+    checks.push({
+      name: 'config',
+      ok: missing,
+      message: missing
+        ? `No ${BRIDGE_CONFIG_FILE}; defaults will be used (run \`bridge init\` to create one)`
+        : `${BRIDGE_CONFIG_FILE} could not be parsed: ${error instanceof Error ? error.message : String(error)}`
+    })
+  }
+
+  const gh = await getGitHubCliStatus(resolvedRepoPath)
+  checks.push({
+    name: 'github-cli',
+    ok: true,
+    message: gh.authenticated
+      ? `GitHub CLI authenticated${gh.account ? ` as ${gh.account}` : ''}`
+      : gh.message || 'GitHub CLI unavailable; pull requests cannot be created'
+  })
+
+  const healthy = checks.every(check => check.ok)
+  const rendered = options.format === 'human'
+    ? [...checks.map(check => `[${check.ok ? 'OK' : 'FAIL'}] ${check.name}: ${check.message}`), healthy ? 'Environment OK' : 'Environment has problems'].join('\n')
+    : JSON.stringify({ healthy, checks }, null, 2)
+
+  await emit(rendered, options)
+  return { healthy, checks }
+}
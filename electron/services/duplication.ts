@@ -0,0 +1,263 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { loadScanPathFilter } from './bridgeConfig'
+import type { PathFilter } from '../../bridge-mcp/src/core/pathFilter.js'
+import { SOURCE_EXTENSIONS, tokenizeSource } from '../../bridge-mcp/src/core/importGraph.js'
+
+export interface CloneLocation {
+  file: string
+  startLine: number
+  endLine: number
+  snippet: string
+}
+
+export interface ClonePair {
+  tokens: number
+  lines: number
+  first: CloneLocation
+  second: CloneLocation
+}
+
+export interface DuplicationReport {
+  filesAnalyzed: number
+  totalLines: number
+  duplicatedLines: number
+  percentage: number
+  minTokens: number
+  cloneCount: number
+  clones: ClonePair[]
+  error?: string
+}
+
+interface TokenizedFile {
+  file: string
+  ids: number[]
+  lines: number[]
+  sourceLines: string[]
+  hashes: Uint32Array
+}
+
+export const DEFAULT_MIN_CLONE_TOKENS = 50
+
+const MAX_FILE_BYTES = 512 * 1024
+const MAX_REPORTED_CLONES = 100
+const MAX_SNIPPET_LINES = 20
+const HASH_BASE = 1000003
+
+const C_STYLE_EXTENSIONS = [...SOURCE_EXTENSIONS, '.go', '.java', '.kt', '.swift', '.cs', '.rs', '.c', '.h', '.cc', '.cpp', '.hpp']
+const HASH_COMMENT_EXTENSIONS = ['.py', '.rb', '.ex', '.exs']
+const TOKEN = /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|[A-Za-z_$][\w$]*|\d[\w.]*|\S/g
+
+function stripHashComment(line: string): string {
+  let quote = ''
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index]
+    if (quote) {
+      if (char === '\\') index += 1
+      else if (char === quote) quote = ''
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '#') {
+      return line.slice(0, index)
+    }
+  }
+  return line
+}
+
+function tokenize(source: string, extension: string): Array<{ token: string; line: number }> {
+  let code = source
+  let strings: string[] = []
+  if (C_STYLE_EXTENSIONS.includes(extension)) {
+    ({ code, strings } = tokenizeSource(source))
+  } else {
+    code = source.split(/\r?\n/).map(stripHashComment).join('\n')
+  }
+
+  const tokens: Array<{ token: string; line: number }> = []
+  let line = 1
+  let cursor = 0
+  let match: RegExpExecArray | null
+  TOKEN.lastIndex = 0
+  while ((match = TOKEN.exec(code)) !== null) {
+    for (; cursor < match.index; cursor += 1) {
+      if (code[cursor] === '\n') line += 1
+    }
+    // The JS tokenizer swaps string literals for numbered placeholders; compare their contents.
+    const placeholder = strings.length > 0 ? /^"(\d+)"$/.exec(match[0]) : null
+    tokens.push({ token: placeholder ? JSON.stringify(strings[Number(placeholder[1])]) : match[0], line })
+  }
+  return tokens
+}
+
+function hashPower(length: number): number {
+  let power = 1
+  for (let index = 0; index < length; index += 1) power = Math.imul(power, HASH_BASE) >>> 0
+  return power
+}
+
+function windowHash(file: TokenizedFile, start: number, length: number, power: number): number {
+  return (file.hashes[start + length] - Math.imul(file.hashes[start], power)) >>> 0
+}
+
+function sameTokens(a: TokenizedFile, aStart: number, b: TokenizedFile, bStart: number, length: number): boolean {
+  for (let offset = 0; offset < length; offset += 1) {
+    if (a.ids[aStart + offset] !== b.ids[bStart + offset]) return false
+  }
+  return true
+}
+
+function toLocation(file: TokenizedFile, start: number, length: number): CloneLocation {
+  const startLine = file.lines[start]
+  const endLine = file.lines[start + length - 1]
+  return {
+    file: file.file,
+    startLine,
+    endLine,
+    snippet: file.sourceLines.slice(startLine - 1, Math.min(endLine, startLine - 1 + MAX_SNIPPET_LINES)).join('\n')
+  }
+}
+
+async function collectFiles(root: string, pathFilter: PathFilter): Promise<string[]> {
+  const extensions = [...C_STYLE_EXTENSIONS, ...HASH_COMMENT_EXTENSIONS]
+  const files: string[] = []
+
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name)
+      const relativePath = path.relative(root, fullPath)
+      if (entry.isDirectory()) {
+        if (pathFilter.ignoresDirectory(relativePath)) continue
+        await walk(fullPath)
+      } else if (
+        extensions.includes(path.extname(entry.name).toLowerCase()) &&
+        !/\.d\.[cm]?ts$|\.min\.[cm]?js$/.test(entry.name) &&
+        pathFilter.includesFile(relativePath)
+      ) {
+        files.push(fullPath)
+      }
+    }
+  }
+
+  await walk(root)
+  return files.sort()
+}
+
+export async function detectDuplicateCode(
+  repoPath: string,
+  options: { pathFilter?: PathFilter; minTokens?: number } = {}
+): Promise<DuplicationReport> {
+  const minTokens = Math.max(10, Math.floor(options.minTokens ?? DEFAULT_MIN_CLONE_TOKENS))
+  const empty: DuplicationReport = {
+    filesAnalyzed: 0,
+    totalLines: 0,
+    duplicatedLines: 0,
+    percentage: 0,
+    minTokens,
+    cloneCount: 0,
+    clones: []
+  }
+
+  try {
+    const pathFilter = options.pathFilter ?? await loadScanPathFilter(repoPath)
+    const tokenIds = new Map<string, number>()
+    const files: TokenizedFile[] = []
+
+    for (const filePath of await collectFiles(repoPath, pathFilter)) {
+      const stats = await fs.stat(filePath).catch(() => null)
+      if (!stats || stats.size > MAX_FILE_BYTES) continue
+      const source = await fs.readFile(filePath, 'utf-8').catch(() => '')
+      if (!source) continue
+
+      const tokens = tokenize(source, path.extname(filePath).toLowerCase())
+      const ids = tokens.map(({ token }) => {
+        let id = tokenIds.get(token)
+        if (id === undefined) {
+          id = tokenIds.size + 1
+          tokenIds.set(token, id)
+        }
+        return id
+      })
+      const hashes = new Uint32Array(ids.length + 1)
+      ids.forEach((id, index) => {
+        hashes[index + 1] = (Math.imul(hashes[index], HASH_BASE) + id) >>> 0
+      })
+      files.push({
+        file: path.relative(repoPath, filePath),
+        ids,
+        lines: tokens.map(({ line }) => line),
+        sourceLines: source.split(/\r?\n/),
+        hashes
+      })
+    }
+
+    const power = hashPower(minTokens)
+    const seen = new Map<number, { file: number; start: number }>()
+    const raw: Array<{ first: number; firstStart: number; second: number; secondStart: number; length: number }> = []
+
+    files.forEach((current, fileIndex) => {
+      let start = 0
+      while (start + minTokens <= current.ids.length) {
+        const hash = windowHash(current, start, minTokens, power)
+        const prior = seen.get(hash)
+        const other = prior ? files[prior.file] : null
+        const sameFile = prior?.file === fileIndex
+        if (prior && other && !(sameFile && prior.start + minTokens > start) &&
+          sameTokens(other, prior.start, current, start, minTokens)) {
+          let length = minTokens
+          while (
+            start + length < current.ids.length &&
+            prior.start + length < other.ids.length &&
+            !(sameFile && prior.start + length >= start) &&
+            other.ids[prior.start + length] === current.ids[start + length]
+          ) {
+            length += 1
+          }
+          raw.push({ first: prior.file, firstStart: prior.start, second: fileIndex, secondStart: start, length })
+          start += length
+          continue
+        }
+        if (!prior) seen.set(hash, { file: fileIndex, start })
+        start += 1
+      }
+    })
+
+    const totalLines = files.reduce((sum, file) => sum + new Set(file.lines).size, 0)
+    const duplicated = new Map<number, Set<number>>()
+    const markLines = (fileIndex: number, start: number, length: number) => {
+      const lines = duplicated.get(fileIndex) || new Set<number>()
+      files[fileIndex].lines.slice(start, start + length).forEach(line => lines.add(line))
+      duplicated.set(fileIndex, lines)
+    }
+    raw.forEach(clone => {
+      markLines(clone.first, clone.firstStart, clone.length)
+      markLines(clone.second, clone.secondStart, clone.length)
+    })
+    let duplicatedLines = 0
+    duplicated.forEach(lines => {
+      duplicatedLines += lines.size
+    })
+
+    const clones = raw
+      .sort((a, b) => b.length - a.length)
+      .slice(0, MAX_REPORTED_CLONES)
+      .map(clone => {
+        const first = toLocation(files[clone.first], clone.firstStart, clone.length)
+        const second = toLocation(files[clone.second], clone.secondStart, clone.length)
+        return { tokens: clone.length, lines: second.endLine - second.startLine + 1, first, second }
+      })
+
+    return {
+      filesAnalyzed: files.length,
+      totalLines,
+      duplicatedLines,
+      percentage: totalLines > 0 ? Math.round((duplicatedLines / totalLines) * 1000) / 10 : 0,
+      minTokens,
+      cloneCount: raw.length,
+      clones
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Duplicate code detection failed'
+    return { ...empty, error: message }
+  }
+}
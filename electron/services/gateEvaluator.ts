@@ -17,7 +17,13 @@ function toRepoAnalysis(config: BridgeConfig, scanData: Partial<BridgeScanReport
   const outdated = scanData.dependencies?.outdated || []
   const dependencyNames = scanData.dependencies?.installedPackages || outdated.map(dep => dep.name)
 
-  const hasCoverage = typeof scanData.testing?.coverage?.coveragePercentage === 'number'
+  const coveragePercentage = scanData.testing?.coverage?.coveragePercentage
+  const hasCoverage = typeof coveragePercentage === 'number'
+  const deadCode = scanData.architecture?.deadCode
+  const bundleSize = scanData.architecture?.bundleSize
+  const architectureRules = scanData.architecture?.rules
+  const documentation = scanData.documentation
+  const documentationMeasured = typeof documentation?.readmeExists === 'boolean'
 
   const codeHealthMetrics = scanData.techDebt?.dimensions?.codeHealth?.metrics || {}
   const todoMetric = Number(codeHealthMetrics.todoCount || 0)
@@ -39,9 +45,25 @@ function toRepoAnalysis(config: BridgeConfig, scanData: Partial<BridgeScanReport
     circularDeps: scanData.architecture?.circularDependencies?.count || scanData.circularDependencies?.count || 0,
     languages: [String(config.project.primaryLanguage || 'unknown')],
     hasCoverageData: hasCoverage,
-    readmeExists: !(scanData.documentation?.readmeOutdated ?? false),
+    readmeExists: documentation?.readmeExists ?? true,
     readmeWordCount: 0,
-    dependencyNames
+    dependencyNames,
+    declaredDependencies: scanData.dependencies?.declaredDependencies ?? null,
+    coveragePercentage: hasCoverage ? coveragePercentage : null,
+    buildCommand: config.gates.build.command || scanData.build?.command || null,
+    hasChangelog: documentation?.hasChangelog,
+    readmeDaysSinceUpdate: documentationMeasured ? documentation?.daysSinceUpdate : null,
+    deadCode: deadCode && config.scan.features.deadCode !== false && !(deadCode.error && deadCode.totalDeadCodeCount === 0)
+      ? { deadFiles: deadCode.deadFiles.length, unusedExports: deadCode.unusedExports.length }
+      : null,
+    bundle: bundleSize && !bundleSize.error && bundleSize.totalSize > 0
+      ? { totalBytes: bundleSize.totalSize, deltaPercent: bundleSize.deltaPercent ?? null }
+      : null,
+    architectureViolations: architectureRules && !architectureRules.error ? architectureRules.violations : null,
+    dependencyFreshness: scanData.dependencies?.freshness ?? null,
+    vulnerabilityReachability: scanData.dependencies?.reachability ?? null,
+    baseline: scanData.baseline ?? null,
+    suppressions: scanData.suppressions ?? null
   }
 }
 
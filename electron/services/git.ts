@@ -1,7 +1,11 @@
-import { exec } from 'child_process'
+import { exec, execFile } from 'child_process'
 import { promisify } from 'util'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
 
 const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 
 export interface RepoInfo {
   branch: string
@@ -189,18 +193,24 @@ export async function createPullRequest(
     throw new Error('GitHub CLI (`gh`) is required to create PRs. Install it and run `gh auth login`.')
   }
 
+  // The body carries third-party changelog text, so it goes through a file rather than the shell.
+  const bodyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bridge-pr-'))
+  const bodyFile = path.join(bodyDir, 'body.md')
   try {
-    const result = await runGitCommand(
-      repoPath,
-      `gh pr create --title "${title.replace(/"/g, '\\"')}" --body "${body.replace(/"/g, '\\"')}"`
-    )
-    return result
+    await fs.writeFile(bodyFile, body, 'utf8')
+    const { stdout } = await execFileAsync('gh', ['pr', 'create', '--title', title, '--body-file', bodyFile], {
+      cwd: repoPath,
+      timeout: 30000
+    })
+    return stdout.trim()
   } catch (error: any) {
     const output = `${error?.stdout || ''}${error?.stderr || ''}`.trim()
     if (output.includes('not logged in')) {
       throw new Error('GitHub CLI is not authenticated. Run `gh auth login` and retry.')
     }
     throw new Error(output || 'Failed to create pull request with gh CLI.')
+  } finally {
+    await fs.rm(bodyDir, { recursive: true, force: true }).catch(() => undefined)
   }
 }
 
@@ -19,11 +19,18 @@ export interface OutdatedPackage {
   current: string
   wanted: string
   latest: string
-  type: 'dependencies' | 'devDependencies'
+  type: 'dependencies' | 'devDependencies' | 'peerDependencies'
   hasPatchUpdate: boolean
   isNonBreaking: boolean
   updateType: 'patch' | 'minor' | 'major' | 'unknown'
   language: Language
+  policy?: 'auto' | 'review' | 'ignore'
+  policySource?: string
+  cooldown?: {
+    minReleaseAgeDays: number
+    skipped: Array<{ version: string; publishedAt: string }>
+    unresolved?: boolean
+  }
   vulnerabilities?: {
     critical: number
     high: number
@@ -2,7 +2,6 @@ import { exec } from 'child_process'
 import { promisify } from 'util'
 import fs from 'fs/promises'
 import path from 'path'
-import os from 'os'
 import * as semver from 'semver'
 import {
   updatePythonPackages,
@@ -15,7 +14,7 @@ import {
   Language,
   OutdatedPackage
 } from './languages'
-import { loadBridgeConfig } from './bridgeConfig'
+import { getUpdatePolicy, loadBridgeConfig, resolveMinReleaseAgeDays, type BridgeConfig, type DependencyGroup } from './bridgeConfig'
 import { evaluateGates } from './gateEvaluator'
 import {
   commitChanges,
@@ -25,1148 +24,228 @@ import {
   runTests,
   runLint,
 } from './git'
+import {
+  DEFAULT_TEST_TIMEOUT_MS,
+  analyzeLockfileChanges,
+  appendBridgeUpdateLog,
+  cleanupIsolatedWorkspace,
+  createIsolatedWorkspace,
+  detectNodePackageManager,
+  extractFailureSummary,
+  fileExists,
+  formatError,
+  getPinnedInstallCommand,
+  hasGitChanges,
+  installDependenciesForValidation,
+  isValidationRegression,
+  normalizeBranchName,
+  normalizeConfiguredTimeoutMs,
+  normalizeConfiguredValidationCommand,
+  resetIsolatedWorkspace,
+  resolveJavascriptValidationCommands,
+  resolvePackageManagerCommand,
+  runCommand,
+  runIsolatedDependencyUpdate,
+  runValidationSteps,
+  splitOutputLines,
+  type DependencyUpdateTarget,
+  type ValidationStep
+} from '../../bridge-mcp/src/core/dependencyUpdate.js'
+import { bisectFailingUpdates, formatHeldBackPackages, type BisectionCulprit } from '../../bridge-mcp/src/core/updateBisection.js'
+import { groupBranchPrefix, selectGroupCandidates } from '../../bridge-mcp/src/core/dependencyGroups.js'
+import { applyReleaseCooldown } from '../../bridge-mcp/src/core/releaseAge.js'
+import { analyzeDependencyFreshness, overdueDependencies } from '../../bridge-mcp/src/core/dependencyFreshness.js'
+import type { LockfileDiff } from '../../bridge-mcp/src/core/lockfileDiff.js'
+import { collectReleaseNotes, renderReleaseDigest, summarizeReleaseNotes } from '../../bridge-mcp/src/core/releaseNotes.js'
+import { runUpgradeTrial, type UpgradeTrialReport } from '../../bridge-mcp/src/core/upgradeTrial.js'
+import {
+  applyPackageMigration,
+  renderMigrationReport,
+  resolvePackageMigrations,
+  type MigrationSite
+} from '../../bridge-mcp/src/core/packageMigration.js'
+import {
+  describeRequiredPackageIssue,
+  findRequiredPackageIssues,
+  getRequiredPackages,
+  readDeclaredDependencies,
+  requiredPackageSpec,
+  type RequiredPackageIssue
+} from '../../bridge-mcp/src/core/requiredPackages.js'
+import type { RequiredPackage } from '../../bridge-mcp/src/core/bridgeConfig.js'
+import { runOfflineAudit } from '../../bridge-mcp/src/core/advisoryStore.js'
+import { detectBuildCommand } from '../../bridge-mcp/src/core/repoAnalyzer.js'
+import { isOfflineModeEnabled } from './appSettings'
 
-const execAsync = promisify(exec)
-const DEFAULT_TEST_TIMEOUT_MS = 300000
-const DEFAULT_MAX_BUFFER = 20 * 1024 * 1024
-
-export interface PatchBatchConfig {
-  repoPath: string
-  branchName: string
-  packages: { name: string; language: Language }[]
-  createPR: boolean
-  runTests: boolean
-  baseBranch?: string
-  remoteFirst?: boolean
-  updateStrategy?: 'wanted' | 'latest'
-  testCommand?: string
-  testTimeoutMs?: number
-  prTitle?: string
-  prBody?: string
-}
-
-export interface NonBreakingUpdateConfig {
-  repoPath: string
-  branchName: string
-  createPR: boolean
-  runTests: boolean
-  pushChanges?: boolean
-  baseBranch?: string
-  remoteFirst?: boolean
-  pinnedPackages?: Record<string, string>
-  selectedReviewPackages?: string[]
-  testCommand?: string
-  testTimeoutMs?: number
-  prTitle?: string
-  prBody?: string
-}
-
-export interface PatchBatchResult {
-  success: boolean
-  updatedPackages?: string[]
-  failedPackages?: string[]
-  prUrl?: string | null
-  branchName?: string
-  branchPushed?: boolean
-  error?: string
-  testsPassed?: boolean
-  testOutput?: string
-}
-
-export interface PatchBatchHandlers {
-  onProgress?: (message: string, step: number, total: number) => void
-  onLog?: (message: string) => void
-  onWarning?: (warning: { message: string; output: string }) => void
-}
-
-export interface SecurityPatchConfig {
-  repoPath: string
-  branchName: string
-  createPR: boolean
-  runTests: boolean
-  baseBranch?: string
-  remoteFirst?: boolean
-  testCommand?: string
-}
-
-export interface SecurityPatchResult {
-  success: boolean
-  updatedPackages: string[]
-  failedPackages: string[]
-  prUrl?: string | null
-  error?: string
-  testsPassed?: boolean
-}
-
-export interface SecurityPatchHandlers {
-  onProgress?: (message: string, step: number, total: number) => void
-  onLog?: (message: string) => void
-}
-
-function formatError(error: unknown, fallback: string): string {
-  if (error instanceof Error && error.message) {
-    return error.message
-  }
-  if (typeof error === 'string' && error.trim().length > 0) {
-    return error
-  }
-  return fallback
-}
-
-function splitOutputLines(output: string): string[] {
-  return output
-    .split(/\r?\n/)
-    .map(line => line.trimEnd())
-    .filter(line => line.length > 0)
-}
-
-function extractFailureSummary(output: string): string | null {
-  const lines = splitOutputLines(output)
-  if (lines.length === 0) {
-    return null
-  }
-
-  const prioritizedPatterns = [
-    /(^|\s)FAIL(\s|$)/i,
-    /(^|\s)error[:\s]/i,
-    /(^|\s)failed(\s|$)/i,
-    /timed out/i
-  ]
-
-  for (const pattern of prioritizedPatterns) {
-    const match = lines.find(line => pattern.test(line))
-    if (match) {
-      return match.slice(0, 220)
-    }
-  }
-
-  return lines[lines.length - 1].slice(0, 220)
-}
-
-function detectValidationEnvironmentIssue(output: string): string | null {
-  const checks: Array<{ pattern: RegExp; reason: string }> = [
-    {
-      pattern: /spawn pnpm ENOENT/i,
-      reason: 'test script requires pnpm but pnpm is not installed or not available in PATH'
-    },
-    {
-      pattern: /spawn yarn ENOENT/i,
-      reason: 'test script requires yarn but yarn is not installed or not available in PATH'
-    },
-    {
-      pattern: /spawn npm ENOENT/i,
-      reason: 'test script requires npm but npm is not available in PATH'
-    },
-    {
-      pattern: /command not found:\s*pnpm/i,
-      reason: 'pnpm is not installed or not available in PATH'
-    },
-    {
-      pattern: /command not found:\s*yarn/i,
-      reason: 'yarn is not installed or not available in PATH'
-    }
-  ]
-
-  for (const check of checks) {
-    if (check.pattern.test(output)) {
-      return check.reason
-    }
-  }
-
-  return null
-}
-
-function extractFailureFingerprints(output: string): Set<string> {
-  const lines = splitOutputLines(output)
-  const fingerprints = new Set<string>()
-
-  const normalize = (line: string) => line
-    .replace(/\d+ms\b/g, '<ms>')
-    .replace(/\s+/g, ' ')
-    .trim()
-
-  for (const line of lines) {
-    if (/^\s*(FAIL|×)\s+/i.test(line)) {
-      fingerprints.add(normalize(line))
-      continue
-    }
-    if (/^Error:\s+/i.test(line)) {
-      fingerprints.add(normalize(line))
-      continue
-    }
-    if (/^\s*✗\s+/i.test(line)) {
-      fingerprints.add(normalize(line))
-    }
-  }
-
-  return fingerprints
-}
-
-function countFailedTests(output: string): number | null {
-  const match = output.match(/Tests?\s+(\d+)\s+failed/i)
-  if (!match) return null
-  return Number.parseInt(match[1], 10)
-}
-
-function isValidationRegression(
-  baselineOutput: string,
-  postOutput: string
-): { regressed: boolean; reason?: string } {
-  const baselineFailedTests = countFailedTests(baselineOutput)
-  const postFailedTests = countFailedTests(postOutput)
-
-  if (baselineFailedTests !== null && postFailedTests !== null) {
-    if (postFailedTests > baselineFailedTests) {
-      return {
-        regressed: true,
-        reason: `failed test count increased (${baselineFailedTests} -> ${postFailedTests})`
-      }
-    }
-  }
-
-  const baselineFingerprints = extractFailureFingerprints(baselineOutput)
-  const postFingerprints = extractFailureFingerprints(postOutput)
-  if (postFingerprints.size === 0) {
-    return { regressed: false }
-  }
-
-  if (baselineFingerprints.size === 0) {
-    return { regressed: true, reason: 'post-update validation introduced new failures' }
-  }
-
-  for (const line of postFingerprints) {
-    if (!baselineFingerprints.has(line)) {
-      return { regressed: true, reason: `new failure detected: ${line}` }
-    }
-  }
-
-  return { regressed: false }
-}
-
-async function fileExists(targetPath: string): Promise<boolean> {
-  try {
-    await fs.access(targetPath)
-    return true
-  } catch {
-    return false
-  }
-}
-
-async function getPackageManagerEnv(repoPath: string): Promise<NodeJS.ProcessEnv> {
-  const env: NodeJS.ProcessEnv = { ...process.env, INIT_CWD: repoPath, PWD: repoPath }
-  const localNpmrc = path.join(repoPath, '.npmrc')
-  if (await fileExists(localNpmrc)) {
-    env.NPM_CONFIG_USERCONFIG = localNpmrc
-    env.npm_config_userconfig = localNpmrc
-  }
-  return env
-}
-
-async function runCommand(
-  command: string,
-  cwd: string,
-  options: { timeout?: number; maxBuffer?: number } = {}
-) {
-  const env = await getPackageManagerEnv(cwd)
-  return execAsync(command, {
-    cwd,
-    env,
-    timeout: options.timeout ?? DEFAULT_TEST_TIMEOUT_MS,
-    maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER
-  })
-}
-
-type PackageManager = 'npm' | 'yarn' | 'pnpm'
-type ValidationStage = 'test' | 'lint' | 'build'
-type TestFramework = 'vitest' | 'jest' | 'mocha' | 'ava' | 'playwright'
-
-interface ValidationStep {
-  command: string
-  relativeCwd: string
-  stage: ValidationStage
-  label: string
-}
-
-function normalizeConfiguredTimeoutMs(rawTimeout: unknown): number | null {
-  if (typeof rawTimeout !== 'number' || !Number.isFinite(rawTimeout) || rawTimeout <= 0) {
-    return null
-  }
-
-  // `.bridge.json` uses human-friendly values (default: 300), which represent seconds.
-  // If the value is very small, interpret it as seconds; otherwise treat as milliseconds.
-  if (rawTimeout <= 600) {
-    return Math.round(rawTimeout * 1000)
-  }
-
-  return Math.round(rawTimeout)
-}
-
-async function detectNodePackageManager(repoPath: string): Promise<PackageManager> {
-  const declared = await readDeclaredPackageManager(repoPath)
-  if (declared) {
-    return declared
-  }
-
-  const hasNpmLock = await fileExists(path.join(repoPath, 'package-lock.json'))
-  const hasPnpmLock = await fileExists(path.join(repoPath, 'pnpm-lock.yaml'))
-  const hasYarnLock = await fileExists(path.join(repoPath, 'yarn.lock'))
-
-  if (hasPnpmLock) {
-    return 'pnpm'
-  }
-  if (hasYarnLock) {
-    return 'yarn'
-  }
-  if (hasNpmLock) {
-    return 'npm'
-  }
-
-  return 'npm'
-}
-
-async function readDeclaredPackageManager(repoPath: string): Promise<PackageManager | null> {
-  const packageJsonPath = path.join(repoPath, 'package.json')
-  if (!(await fileExists(packageJsonPath))) {
-    return null
-  }
-  try {
-    const packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'))
-    const value = String(packageJson?.packageManager || '').trim().toLowerCase()
-    if (!value) return null
-    if (value.startsWith('pnpm@')) return 'pnpm'
-    if (value.startsWith('yarn@')) return 'yarn'
-    if (value.startsWith('npm@')) return 'npm'
-    return null
-  } catch {
-    return null
-  }
-}
-
-async function isCommandAvailable(command: string, cwd: string): Promise<boolean> {
-  try {
-    await execAsync(`command -v ${command}`, {
-      cwd,
-      timeout: 15000
-    })
-    return true
-  } catch {
-    return false
-  }
-}
-
-async function resolvePackageManagerCommand(repoPath: string, manager: PackageManager): Promise<string> {
-  if (manager === 'npm') {
-    return 'npm'
-  }
-
-  if (await isCommandAvailable(manager, repoPath)) {
-    return manager
-  }
-
-  if (await isCommandAvailable('corepack', repoPath)) {
-    return `corepack ${manager}`
-  }
-
-  throw new Error(
-    `Repository uses ${manager}, but '${manager}' is not installed and 'corepack' is unavailable. Install ${manager} (or enable corepack) and retry.`
-  )
-}
-
-async function normalizeConfiguredValidationCommand(repoPath: string, command: string | undefined): Promise<string | undefined> {
-  const trimmed = command?.trim()
-  if (!trimmed) return undefined
-
-  const tokens = trimmed.split(/\s+/)
-  const runner = tokens[0]
-  if (runner !== 'pnpm' && runner !== 'yarn') {
-    return trimmed
-  }
-
-  const available = await isCommandAvailable(runner, repoPath)
-  if (available) {
-    return trimmed
-  }
-
-  const hasCorepack = await isCommandAvailable('corepack', repoPath)
-  if (hasCorepack) {
-    const rest = tokens.slice(1).join(' ')
-    return `corepack ${runner}${rest ? ` ${rest}` : ''}`.trim()
-  }
-
-  const subcommand = tokens[1] || ''
-  const rest = tokens.slice(2).join(' ')
-
-  if (subcommand === 'run') {
-    return `npm run ${rest}`.trim()
-  }
-  if (subcommand === 'test') {
-    return `npm test${rest ? ` ${rest}` : ''}`.trim()
-  }
-  if (!subcommand) {
-    return 'npm test'
-  }
-  return `npm run ${[subcommand, ...tokens.slice(2)].join(' ')}`.trim()
-}
-
-function isMissingCommandOutput(output: string): boolean {
-  return (
-    /command not found/i.test(output) ||
-    /is not recognized as an internal or external command/i.test(output) ||
-    /missing script/i.test(output) ||
-    /npm ERR! Missing script/i.test(output) ||
-    /ERR_PNPM_NO_SCRIPT/i.test(output) ||
-    /Couldn't find a script named/i.test(output)
-  )
-}
-
-function getScriptCommand(packageManager: PackageManager, managerCommand: string, scriptName: string): string {
-  if (packageManager === 'yarn') {
-    return scriptName === 'test' ? `${managerCommand} test` : `${managerCommand} ${scriptName}`
-  }
-  if (packageManager === 'pnpm') {
-    return scriptName === 'test' ? `${managerCommand} test` : `${managerCommand} run ${scriptName}`
-  }
-  return scriptName === 'test' ? `${managerCommand} test` : `${managerCommand} run ${scriptName}`
-}
-
-function getNonBreakingUpdateCommand(packageManager: PackageManager, managerCommand: string): string {
-  if (packageManager === 'pnpm') {
-    return `${managerCommand} update`
-  }
-  if (packageManager === 'yarn') {
-    return `${managerCommand} upgrade`
-  }
-  return `${managerCommand} update`
-}
-
-function getManagerInstallCommand(packageManager: PackageManager, managerCommand: string): string {
-  if (packageManager === 'pnpm') return `${managerCommand} install`
-  if (packageManager === 'yarn') return `${managerCommand} install`
-  return `${managerCommand} install`
-}
-
-function getManagerLockfile(packageManager: PackageManager): string {
-  if (packageManager === 'pnpm') return 'pnpm-lock.yaml'
-  if (packageManager === 'yarn') return 'yarn.lock'
-  return 'package-lock.json'
-}
-
-function getManualReviewInstallCommand(packageManager: PackageManager, managerCommand: string, pkg: string): string {
-  if (packageManager === 'pnpm') return `${managerCommand} add ${pkg}@latest`
-  if (packageManager === 'yarn') return `${managerCommand} add ${pkg}@latest`
-  return `${managerCommand} install ${pkg}@latest`
-}
-
-function getCleanUpdateSequenceCommand(packageManager: PackageManager, managerCommand: string): string {
-  const installCommand = getManagerInstallCommand(packageManager, managerCommand)
-  const lockfile = getManagerLockfile(packageManager)
-  const updateCommand = getNonBreakingUpdateCommand(packageManager, managerCommand)
-  return `rm -rf node_modules ${lockfile}; ${installCommand}; ${updateCommand}; rm -rf node_modules ${lockfile}; ${installCommand};`
-}
-
-const TEST_SCRIPT_CANDIDATES = ['test', 'test:ci', 'test:unit', 'test:integration', 'test:all', 'verify', 'check']
-const LINT_SCRIPT_CANDIDATES = ['lint', 'lint:ci']
-const BUILD_SCRIPT_CANDIDATES = ['build', 'build:ci']
-const TEST_FILE_PATTERN = /\.(test|spec)\.[cm]?[jt]sx?$/
-const TEST_DIR_NAMES = new Set(['test', 'tests', '__tests__', '__mocks__'])
-const TEST_FRAMEWORK_PACKAGE_MAP: Record<string, TestFramework> = {
-  vitest: 'vitest',
-  jest: 'jest',
-  mocha: 'mocha',
-  ava: 'ava',
-  playwright: 'playwright',
-  '@playwright/test': 'playwright'
-}
-const TEST_FRAMEWORK_CONFIG_FILES: Record<TestFramework, string[]> = {
-  vitest: ['vitest.config.ts', 'vitest.config.js', 'vitest.config.mts', 'vitest.config.mjs', 'vitest.config.cts', 'vitest.config.cjs'],
-  jest: ['jest.config.ts', 'jest.config.js', 'jest.config.mts', 'jest.config.mjs', 'jest.config.cjs', 'jest.config.json'],
-  mocha: ['.mocharc', '.mocharc.json', '.mocharc.yml', '.mocharc.yaml', '.mocharc.js', '.mocharc.cjs'],
-  ava: ['ava.config.ts', 'ava.config.js', 'ava.config.mts', 'ava.config.mjs', 'ava.config.cjs'],
-  playwright: ['playwright.config.ts', 'playwright.config.js', 'playwright.config.mts', 'playwright.config.mjs', 'playwright.config.cjs']
-}
-const TEST_FRAMEWORK_PRIORITY: TestFramework[] = ['vitest', 'jest', 'mocha', 'playwright', 'ava']
-
-function pickScriptForStage(scripts: Record<string, unknown>, stage: ValidationStage): string | null {
-  const candidates = stage === 'test'
-    ? TEST_SCRIPT_CANDIDATES
-    : stage === 'lint'
-      ? LINT_SCRIPT_CANDIDATES
-      : BUILD_SCRIPT_CANDIDATES
-
-  for (const candidate of candidates) {
-    if (typeof scripts[candidate] === 'string' && scripts[candidate].trim().length > 0) {
-      return candidate
-    }
-  }
-  return null
-}
-
-function detectFrameworksFromDependencies(packageJson: any): Set<TestFramework> {
-  const frameworks = new Set<TestFramework>()
-  const sections = [
-    packageJson?.dependencies || {},
-    packageJson?.devDependencies || {},
-    packageJson?.peerDependencies || {}
-  ]
-
-  for (const section of sections) {
-    for (const depName of Object.keys(section)) {
-      const framework = TEST_FRAMEWORK_PACKAGE_MAP[depName]
-      if (framework) {
-        frameworks.add(framework)
-      }
-    }
-  }
-
-  return frameworks
-}
-
-async function detectFrameworksFromConfigs(repoPath: string, packageDirs: string[]): Promise<Set<TestFramework>> {
-  const frameworks = new Set<TestFramework>()
-  const directories = ['.', ...packageDirs]
-
-  for (const relativeDir of directories) {
-    const basePath = relativeDir === '.' ? repoPath : path.join(repoPath, relativeDir)
-
-    for (const framework of Object.keys(TEST_FRAMEWORK_CONFIG_FILES) as TestFramework[]) {
-      for (const fileName of TEST_FRAMEWORK_CONFIG_FILES[framework]) {
-        if (await fileExists(path.join(basePath, fileName))) {
-          frameworks.add(framework)
-          break
-        }
-      }
-    }
-  }
-
-  return frameworks
-}
-
-async function hasTestArtifacts(repoPath: string, maxDepth = 7): Promise<boolean> {
-  const skipDirs = new Set(['.git', 'node_modules', 'dist', 'build', 'coverage', '.next', 'out', '.turbo'])
-
-  const walk = async (absoluteDir: string, depth: number): Promise<boolean> => {
-    if (depth > maxDepth) return false
-
-    let entries: import('fs').Dirent[]
-    try {
-      entries = await fs.readdir(absoluteDir, { withFileTypes: true })
-    } catch {
-      return false
-    }
-
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        if (skipDirs.has(entry.name)) continue
-        if (TEST_DIR_NAMES.has(entry.name)) {
-          return true
-        }
-        if (await walk(path.join(absoluteDir, entry.name), depth + 1)) {
-          return true
-        }
-      } else if (entry.isFile()) {
-        if (TEST_FILE_PATTERN.test(entry.name)) {
-          return true
-        }
-      }
-    }
-
-    return false
-  }
-
-  return walk(repoPath, 0)
-}
-
-function getFrameworkTestCommand(
-  framework: TestFramework,
-  packageManager: PackageManager,
-  managerCommand: string
-): string {
-  const frameworkCommand = framework === 'vitest'
-    ? 'vitest run'
-    : framework === 'jest'
-      ? 'jest --runInBand'
-      : framework === 'mocha'
-        ? 'mocha'
-        : framework === 'playwright'
-          ? 'playwright test'
-          : 'ava'
-
-  if (packageManager === 'npm') {
-    return `npx --no-install ${frameworkCommand}`
-  }
-  if (packageManager === 'pnpm') {
-    return `${managerCommand} exec ${frameworkCommand}`
-  }
-  return `${managerCommand} ${frameworkCommand}`
-}
-
-function normalizePathForMatch(value: string): string {
-  return value.replace(/\\/g, '/').replace(/\/+$/, '')
-}
-
-function globToRegExp(pattern: string): RegExp {
-  const escaped = pattern
-    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-    .replace(/\*\*/g, '__DOUBLE_STAR__')
-    .replace(/\*/g, '[^/]+')
-    .replace(/__DOUBLE_STAR__/g, '.*')
-  return new RegExp(`^${escaped}$`)
-}
-
-async function collectPackageJsonDirectories(
-  repoPath: string,
-  maxDepth = 6
-): Promise<string[]> {
-  const results: string[] = []
-  const skipDirs = new Set(['.git', 'node_modules', 'dist', 'build', 'coverage', '.next', 'out'])
-
-  const walk = async (absoluteDir: string, relativeDir: string, depth: number): Promise<void> => {
-    if (depth > maxDepth) return
-
-    const packageJsonPath = path.join(absoluteDir, 'package.json')
-    if (relativeDir !== '.' && await fileExists(packageJsonPath)) {
-      results.push(relativeDir)
-    }
-
-    if (depth === maxDepth) return
-
-    let entries: import('fs').Dirent[]
-    try {
-      entries = await fs.readdir(absoluteDir, { withFileTypes: true })
-    } catch {
-      return
-    }
-
-    for (const entry of entries) {
-      if (!entry.isDirectory()) continue
-      if (skipDirs.has(entry.name)) continue
-      const nextAbsolute = path.join(absoluteDir, entry.name)
-      const nextRelative = relativeDir === '.' ? entry.name : path.join(relativeDir, entry.name)
-      await walk(nextAbsolute, normalizePathForMatch(nextRelative), depth + 1)
-    }
-  }
-
-  await walk(repoPath, '.', 0)
-  return results
-}
-
-async function getWorkspacePatterns(repoPath: string, packageJson: any): Promise<string[]> {
-  const patterns = new Set<string>()
-  const rawWorkspaces = packageJson?.workspaces
-
-  if (Array.isArray(rawWorkspaces)) {
-    rawWorkspaces.forEach(value => {
-      if (typeof value === 'string' && value.trim()) {
-        patterns.add(normalizePathForMatch(value.trim()))
-      }
-    })
-  } else if (rawWorkspaces && Array.isArray(rawWorkspaces.packages)) {
-    rawWorkspaces.packages.forEach((value: unknown) => {
-      if (typeof value === 'string' && value.trim()) {
-        patterns.add(normalizePathForMatch(value.trim()))
-      }
-    })
-  }
-
-  const pnpmWorkspacePath = path.join(repoPath, 'pnpm-workspace.yaml')
-  if (await fileExists(pnpmWorkspacePath)) {
-    try {
-      const yaml = await fs.readFile(pnpmWorkspacePath, 'utf-8')
-      for (const line of yaml.split(/\r?\n/)) {
-        const match = line.match(/^\s*-\s*['"]?([^'"]+)['"]?\s*$/)
-        if (match?.[1]) {
-          patterns.add(normalizePathForMatch(match[1]))
-        }
-      }
-    } catch {
-      // Ignore malformed workspace yaml; fallback to package.json workspaces.
-    }
-  }
-
-  return Array.from(patterns)
-}
-
-async function resolveWorkspaceValidationSteps(
-  repoPath: string,
-  packageManager: PackageManager,
-  managerCommand: string,
-  workspacePatterns: string[],
-  rootHasStage: Record<ValidationStage, boolean>
-): Promise<ValidationStep[]> {
-  if (workspacePatterns.length === 0) {
-    return []
-  }
-
-  const patternMatchers = workspacePatterns.map(pattern => globToRegExp(pattern))
-  const allPackageDirs = await collectPackageJsonDirectories(repoPath)
-  const matchedPackageDirs = allPackageDirs
-    .map(normalizePathForMatch)
-    .filter(relativeDir => patternMatchers.some(pattern => pattern.test(relativeDir)))
-
-  const stages: ValidationStage[] = ['test', 'lint', 'build']
-  const byStage: Record<ValidationStage, ValidationStep[]> = {
-    test: [],
-    lint: [],
-    build: []
-  }
-  const seen = new Set<string>()
-
-  for (const relativeDir of matchedPackageDirs) {
-    const packageJsonPath = path.join(repoPath, relativeDir, 'package.json')
-    let workspaceJson: any
-    try {
-      workspaceJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'))
-    } catch {
-      continue
-    }
-    const scripts = (workspaceJson?.scripts || {}) as Record<string, unknown>
-
-    for (const stage of stages) {
-      if (rootHasStage[stage]) {
-        continue
-      }
-      const scriptName = pickScriptForStage(scripts, stage)
-      if (!scriptName) {
-        continue
-      }
-      const command = getScriptCommand(packageManager, managerCommand, scriptName)
-      const step: ValidationStep = {
-        command,
-        relativeCwd: relativeDir,
-        stage,
-        label: `${relativeDir} (${scriptName})`
-      }
-      const dedupeKey = `${step.relativeCwd}::${step.command}`
-      if (seen.has(dedupeKey)) {
-        continue
-      }
-      seen.add(dedupeKey)
-      byStage[stage].push(step)
-    }
-  }
-
-  return [...byStage.test, ...byStage.lint, ...byStage.build]
-}
-
-async function resolveNestedValidationSteps(
-  repoPath: string,
-  packageManager: PackageManager,
-  managerCommand: string,
-  rootHasStage: Record<ValidationStage, boolean>
-): Promise<ValidationStep[]> {
-  const packageDirs = await collectPackageJsonDirectories(repoPath)
-  const stages: ValidationStage[] = ['test', 'lint', 'build']
-  const byStage: Record<ValidationStage, ValidationStep[]> = { test: [], lint: [], build: [] }
-  const seen = new Set<string>()
-
-  for (const relativeDir of packageDirs) {
-    const packageJsonPath = path.join(repoPath, relativeDir, 'package.json')
-    let workspaceJson: any
-    try {
-      workspaceJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'))
-    } catch {
-      continue
-    }
-    const scripts = (workspaceJson?.scripts || {}) as Record<string, unknown>
-
-    for (const stage of stages) {
-      if (rootHasStage[stage]) continue
-      const scriptName = pickScriptForStage(scripts, stage)
-      if (!scriptName) continue
-      const command = getScriptCommand(packageManager, managerCommand, scriptName)
-      const step: ValidationStep = {
-        command,
-        relativeCwd: relativeDir,
-        stage,
-        label: `${relativeDir} (${scriptName})`
-      }
-      const dedupeKey = `${step.relativeCwd}::${step.command}`
-      if (seen.has(dedupeKey)) continue
-      seen.add(dedupeKey)
-      byStage[stage].push(step)
-    }
-  }
-
-  return [...byStage.test, ...byStage.lint, ...byStage.build]
-}
-
-async function resolveJavascriptValidationCommands(
-  repoPath: string,
-  overrideCommand?: string
-): Promise<ValidationStep[]> {
-  if (overrideCommand?.trim()) {
-    return [{
-      command: overrideCommand.trim(),
-      relativeCwd: '.',
-      stage: 'test',
-      label: 'custom'
-    }]
-  }
-
-  const packageManager = await detectNodePackageManager(repoPath)
-  const managerCommand = await resolvePackageManagerCommand(repoPath, packageManager)
-  const packageJsonPath = path.join(repoPath, 'package.json')
-  if (!(await fileExists(packageJsonPath))) {
-    return []
-  }
-
-  const packageJsonRaw = await fs.readFile(packageJsonPath, 'utf-8')
-  const packageJson = JSON.parse(packageJsonRaw)
-  const scripts = (packageJson?.scripts || {}) as Record<string, unknown>
-  const packageDirs = await collectPackageJsonDirectories(repoPath)
-
-  const stages: ValidationStage[] = ['test', 'lint', 'build']
-  const rootScriptNames: Record<ValidationStage, string | null> = {
-    test: pickScriptForStage(scripts, 'test'),
-    lint: pickScriptForStage(scripts, 'lint'),
-    build: pickScriptForStage(scripts, 'build')
-  }
-  const rootHasStage: Record<ValidationStage, boolean> = {
-    test: Boolean(rootScriptNames.test),
-    lint: Boolean(rootScriptNames.lint),
-    build: Boolean(rootScriptNames.build)
-  }
-
-  const rootSteps: ValidationStep[] = stages
-    .filter(stage => rootHasStage[stage])
-    .map(stage => ({
-      command: getScriptCommand(packageManager, managerCommand, rootScriptNames[stage]!),
-      relativeCwd: '.',
-      stage,
-      label: `root (${rootScriptNames[stage]})`
-    }))
-
-  const workspacePatterns = await getWorkspacePatterns(repoPath, packageJson)
-  const workspaceSteps = workspacePatterns.length > 0
-    ? await resolveWorkspaceValidationSteps(
-      repoPath,
-      packageManager,
-      managerCommand,
-      workspacePatterns,
-      rootHasStage
-    )
-    : await resolveNestedValidationSteps(
-      repoPath,
-      packageManager,
-      managerCommand,
-      rootHasStage
-    )
-  const resolvedSteps = [...rootSteps, ...workspaceSteps]
-  const hasTestStep = resolvedSteps.some(step => step.stage === 'test')
-
-  if (!hasTestStep) {
-    const frameworkSignals = detectFrameworksFromDependencies(packageJson)
-    for (const relativeDir of packageDirs) {
-      const nestedPackageJsonPath = path.join(repoPath, relativeDir, 'package.json')
-      if (!(await fileExists(nestedPackageJsonPath))) {
-        continue
-      }
-      try {
-        const nestedPackageJson = JSON.parse(await fs.readFile(nestedPackageJsonPath, 'utf-8'))
-        detectFrameworksFromDependencies(nestedPackageJson).forEach(framework => frameworkSignals.add(framework))
-      } catch {
-        // Ignore invalid nested package.json files.
-      }
-    }
-
-    const configSignals = await detectFrameworksFromConfigs(repoPath, packageDirs)
-    configSignals.forEach(framework => frameworkSignals.add(framework))
-
-    const hasArtifacts = await hasTestArtifacts(repoPath)
-    const selectedFramework = TEST_FRAMEWORK_PRIORITY.find(framework => frameworkSignals.has(framework))
-
-    if (selectedFramework) {
-      resolvedSteps.unshift({
-        command: getFrameworkTestCommand(selectedFramework, packageManager, managerCommand),
-        relativeCwd: '.',
-        stage: 'test',
-        label: `detected-${selectedFramework}`
-      })
-    } else if (hasArtifacts) {
-      resolvedSteps.unshift({
-        command: 'node --test',
-        relativeCwd: '.',
-        stage: 'test',
-        label: 'detected-node-test-artifacts'
-      })
-    }
-  }
-
-  return resolvedSteps
-}
-
-async function runValidationSteps(
-  steps: ValidationStep[],
-  repoRoot: string,
-  onLog: (message: string) => void,
-  onWarning: (warning: { message: string; output: string }) => void,
-  options: { timeoutMs: number; stageLabel: string }
-): Promise<{ success: boolean; output: string; executedCount: number; skippedMissingCount: number; attemptedCount: number; failedCommand?: string }> {
-  const allOutput: string[] = []
-  let executedCount = 0
-  let skippedMissingCount = 0
-  let attemptedCount = 0
-
-  for (const step of steps) {
-    const command = step.command
-    const stepCwd = step.relativeCwd === '.'
-      ? repoRoot
-      : path.join(repoRoot, step.relativeCwd)
-    attemptedCount += 1
-    onLog(`${step.relativeCwd === '.' ? '[root]' : `[${step.relativeCwd}]`} > ${command}`)
-    try {
-      const { stdout, stderr } = await runCommand(command, stepCwd, {
-        timeout: options.timeoutMs,
-        maxBuffer: DEFAULT_MAX_BUFFER
-      })
-      executedCount += 1
-      const output = `${stdout}${stderr}`.trim()
-      if (output) {
-        splitOutputLines(output).forEach(line => onLog(line))
-        allOutput.push(output)
-      }
-    } catch (error: any) {
-      const output = `${error?.stdout || ''}${error?.stderr || ''}`.trim() || String(error?.message || '')
-      if (output) {
-        splitOutputLines(output).forEach(line => onLog(line))
-        allOutput.push(output)
-      }
-
-      if (isMissingCommandOutput(output)) {
-        skippedMissingCount += 1
-        onWarning({
-          message: `${options.stageLabel}: command not found, skipping '${command}' in ${step.relativeCwd}`,
-          output
-        })
-        continue
-      }
-
-      return {
-        success: false,
-        output: allOutput.join('\n\n'),
-        executedCount,
-        skippedMissingCount,
-        attemptedCount,
-        failedCommand: `${step.relativeCwd === '.' ? 'root' : step.relativeCwd}: ${command}`
-      }
-    }
-  }
-
-  return {
-    success: true,
-    output: allOutput.join('\n\n'),
-    executedCount,
-    skippedMissingCount,
-    attemptedCount
-  }
-}
-
-async function installDependenciesForValidation(
-  repoPath: string,
-  onLog: (message: string) => void,
-  validationSteps: ValidationStep[] = []
-): Promise<void> {
-  const installTargets = new Set<string>(['.'])
-  for (const step of validationSteps) {
-    if (step.relativeCwd && step.relativeCwd !== '.') {
-      installTargets.add(step.relativeCwd)
-    }
-  }
-
-  for (const relativeDir of installTargets) {
-    const targetPath = relativeDir === '.'
-      ? repoPath
-      : path.join(repoPath, relativeDir)
-    const packageJsonPath = path.join(targetPath, 'package.json')
-    if (!(await fileExists(packageJsonPath))) {
-      continue
-    }
+const execAsync = promisify(exec)
 
-    const manager = await detectNodePackageManager(targetPath)
-    const managerCommand = await resolvePackageManagerCommand(targetPath, manager)
-    const installCommand = manager === 'npm' && await fileExists(path.join(targetPath, 'package-lock.json'))
-      ? `${managerCommand} ci`
-      : getManagerInstallCommand(manager, managerCommand)
+export type { BisectionCulprit }
 
-    onLog(`Installing baseline dependencies${relativeDir === '.' ? '' : ` in ${relativeDir}`}: ${installCommand}`)
-    const { stdout, stderr } = await runCommand(installCommand, targetPath, {
-      timeout: 15 * 60 * 1000,
-      maxBuffer: 50 * 1024 * 1024
-    })
-    const output = `${stdout}${stderr}`.trim()
-    if (output) {
-      splitOutputLines(output).forEach(line => onLog(line))
-    }
-  }
+export interface PatchBatchConfig {
+  repoPath: string
+  branchName: string
+  packages: { name: string; language: Language }[]
+  createPR: boolean
+  runTests: boolean
+  baseBranch?: string
+  remoteFirst?: boolean
+  updateStrategy?: 'wanted' | 'latest'
+  testCommand?: string
+  testTimeoutMs?: number
+  prTitle?: string
+  prBody?: string
+  bisectOnFailure?: boolean
 }
 
-function sanitizeGitRef(value: string): string | null {
-  const normalized = value.trim()
-  if (!normalized) return null
-  if (!/^[A-Za-z0-9._/-]+$/.test(normalized)) {
-    return null
-  }
-  return normalized
+export interface NonBreakingUpdateConfig {
+  repoPath: string
+  branchName: string
+  createPR: boolean
+  runTests: boolean
+  pushChanges?: boolean
+  baseBranch?: string
+  remoteFirst?: boolean
+  pinnedPackages?: Record<string, string>
+  selectedReviewPackages?: string[]
+  testCommand?: string
+  testTimeoutMs?: number
+  prTitle?: string
+  prBody?: string
+  bisectOnFailure?: boolean
+  group?: string
+  priorityPackages?: string[]
 }
 
-async function gitRefExists(repoPath: string, ref: string): Promise<boolean> {
-  const safeRef = sanitizeGitRef(ref)
-  if (!safeRef) return false
-  try {
-    await execAsync(`git rev-parse --verify --quiet "${safeRef}"`, {
-      cwd: repoPath,
-      timeout: 30000
-    })
-    return true
-  } catch {
-    return false
-  }
+export interface GroupedUpdateConfig extends Omit<NonBreakingUpdateConfig, 'branchName' | 'group' | 'prTitle' | 'prBody'> {
+  branchPrefix: string
+  groups?: Array<string | null>
 }
 
-async function resolveBaseRef(
-  repoPath: string,
-  preferredBaseBranch?: string,
-  onLog?: (message: string) => void
-): Promise<string> {
-  try {
-    onLog?.('Fetching latest refs from origin...')
-    await execAsync('git fetch origin --prune', {
-      cwd: repoPath,
-      timeout: 120000,
-      maxBuffer: DEFAULT_MAX_BUFFER
-    })
-    onLog?.('Fetched latest refs from origin.')
-  } catch (error) {
-    onLog?.(`WARN: Unable to fetch origin before update. Falling back to local refs (${formatError(error, 'fetch failed')}).`)
-  }
-
-  const candidates: string[] = []
-  const preferred = sanitizeGitRef(preferredBaseBranch || '')
-  if (preferred) {
-    candidates.push(`origin/${preferred}`, preferred)
-  }
-
-  try {
-    const { stdout } = await execAsync('git symbolic-ref --short refs/remotes/origin/HEAD', {
-      cwd: repoPath,
-      timeout: 30000
-    })
-    const originHead = stdout.trim()
-    if (originHead) {
-      candidates.push(originHead)
-      if (originHead.startsWith('origin/')) {
-        candidates.push(originHead.slice('origin/'.length))
-      }
-    }
-  } catch {}
+export interface GroupedUpdateResult {
+  success: boolean
+  runs: Array<{ group: string | null; result: PatchBatchResult }>
+  error?: string
+}
 
-  candidates.push('origin/main', 'origin/master', 'main', 'master')
-  const uniqueCandidates = Array.from(new Set(candidates.map(candidate => candidate.trim()).filter(Boolean)))
+export interface PatchBatchResult {
+  success: boolean
+  updatedPackages?: string[]
+  failedPackages?: string[]
+  prUrl?: string | null
+  branchName?: string
+  branchPushed?: boolean
+  error?: string
+  testsPassed?: boolean
+  testOutput?: string
+  culprits?: BisectionCulprit[]
+  lockfileDiff?: LockfileDiff
+}
 
-  for (const candidate of uniqueCandidates) {
-    if (await gitRefExists(repoPath, candidate)) {
-      try {
-        const { stdout } = await execAsync(`git rev-parse --short "${candidate}"`, {
-          cwd: repoPath,
-          timeout: 30000
-        })
-        const sha = stdout.trim()
-        if (sha) {
-          onLog?.(`Using base ref ${candidate} @ ${sha}.`)
-        }
-      } catch {}
-      return candidate
-    }
-  }
+export interface PatchBatchHandlers {
+  onProgress?: (message: string, step: number, total: number) => void
+  onLog?: (message: string) => void
+  onWarning?: (warning: { message: string; output: string }) => void
+}
 
-  return 'HEAD'
+export interface SecurityPatchConfig {
+  repoPath: string
+  branchName: string
+  createPR: boolean
+  runTests: boolean
+  baseBranch?: string
+  remoteFirst?: boolean
+  testCommand?: string
 }
 
-async function createIsolatedWorkspace(
-  repoPath: string,
-  branchName: string,
-  options: { baseBranch?: string; remoteFirst?: boolean; onLog?: (message: string) => void } = {}
-): Promise<string> {
-  const worktreeRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'bridge-worktree-'))
-  const useRemoteFirst = options.remoteFirst !== false
-  const baseRef = useRemoteFirst
-    ? await resolveBaseRef(repoPath, options.baseBranch, options.onLog)
-    : 'HEAD'
-  options.onLog?.(`Creating branch '${branchName}' from ${baseRef}.`)
-
-  await execAsync(`git worktree add -b "${branchName}" "${worktreeRoot}" "${baseRef}"`, {
-    cwd: repoPath,
-    timeout: DEFAULT_TEST_TIMEOUT_MS,
-    maxBuffer: DEFAULT_MAX_BUFFER
-  })
-  return worktreeRoot
+export interface SecurityPatchResult {
+  success: boolean
+  updatedPackages: string[]
+  failedPackages: string[]
+  prUrl?: string | null
+  error?: string
+  testsPassed?: boolean
 }
 
-async function cleanupIsolatedWorkspace(
-  repoPath: string,
-  worktreePath: string,
-  branchName: string,
-  options: { deleteBranch?: boolean } = {}
-): Promise<void> {
-  try {
-    await execAsync(`git worktree remove --force "${worktreePath}"`, {
-      cwd: repoPath,
-      timeout: DEFAULT_TEST_TIMEOUT_MS
-    })
-  } catch {}
+export interface SecurityPatchHandlers {
+  onProgress?: (message: string, step: number, total: number) => void
+  onLog?: (message: string) => void
+}
 
-  if (options.deleteBranch) {
-    try {
-      await execAsync(`git branch -D ${branchName}`, {
-        cwd: repoPath,
-        timeout: 30000
-      })
-    } catch {}
-  }
+export interface UpgradeTrialConfig {
+  repoPath: string
+  packageName: string
+  version: string
+  dev?: boolean
+  runTests: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
 }
 
-interface BridgeUpdateLogEntry {
-  timestamp: string
-  workflow: 'patch-batch' | 'non-breaking' | 'security'
-  branchName: string
-  updatedPackages: string[]
-  failedPackages?: string[]
+export interface PackageMigrationConfig {
+  repoPath: string
+  packageName: string
+  branchName?: string
   createPR: boolean
+  runTests: boolean
+  baseBranch?: string
+  remoteFirst?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+}
+
+export interface PackageMigrationResult {
+  success: boolean
+  from: string
+  to?: string
+  branchName?: string
   prUrl?: string | null
+  rewritten?: MigrationSite[]
+  manual?: MigrationSite[]
+  removedPackage?: boolean
+  installedPackage?: boolean
   testsPassed?: boolean
-  gatesPassed?: boolean
+  testOutput?: string
+  error?: string
 }
 
-async function appendBridgeUpdateLog(repoPath: string, entry: BridgeUpdateLogEntry): Promise<void> {
-  const bridgeDir = path.join(repoPath, '.bridge')
-  const logPath = path.join(bridgeDir, 'update-log.json')
-  await fs.mkdir(bridgeDir, { recursive: true })
-
-  let existing: BridgeUpdateLogEntry[] = []
-  try {
-    const raw = await fs.readFile(logPath, 'utf-8')
-    const parsed = JSON.parse(raw)
-    if (Array.isArray(parsed)) {
-      existing = parsed as BridgeUpdateLogEntry[]
-    }
-  } catch {
-    existing = []
-  }
-
-  existing.unshift(entry)
-  if (existing.length > 200) {
-    existing = existing.slice(0, 200)
-  }
+export interface RequiredPackagesConfig {
+  repoPath: string
+  branchName?: string
+  createPR: boolean
+  runTests: boolean
+  baseBranch?: string
+  remoteFirst?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+}
 
-  await fs.writeFile(logPath, JSON.stringify(existing, null, 2) + '\n', 'utf-8')
+export interface RequiredPackageStatus {
+  required: RequiredPackage[]
+  issues: RequiredPackageIssue[]
 }
 
-function normalizeBranchName(branchName: string): string {
-  const normalized = branchName.trim().replace(/[^a-zA-Z0-9/_-]+/g, '-')
-  if (!normalized) {
-    return `bridge-update-${Date.now()}`
+async function buildReleaseDigest(
+  workspacePath: string,
+  updated: Array<{ name: string; from: string }>,
+  lockfile: LockfileDiff | null,
+  onLog: (message: string) => void
+): Promise<string> {
+  try {
+    const changes = await Promise.all(updated.map(async ({ name, from }) => {
+      const manifest = await fs.readFile(path.join(workspacePath, 'node_modules', name, 'package.json'), 'utf8')
+        .then(content => JSON.parse(content) as { version?: string })
+        .catch(() => null)
+      return { name, from, to: manifest?.version || '' }
+    }))
+    const notes = await collectReleaseNotes(workspacePath, changes.filter(change => change.from && change.to))
+    summarizeReleaseNotes(notes).forEach(line => onLog(line))
+    return renderReleaseDigest(notes, lockfile)
+  } catch (error) {
+    onLog(`Release notes unavailable: ${formatError(error, 'could not read changelogs')}`)
+    return ''
   }
-  return normalized
 }
 
 function parseVersionLoose(version: string): semver.SemVer | null {
@@ -1218,14 +297,31 @@ async function getInstalledDependencyNames(repoPath: string): Promise<string[]>
   }
 }
 
+async function getOfflineVulnerabilityMap(repoPath: string): Promise<Map<string, PackageVulnerabilityCount>> {
+  const map = new Map<string, PackageVulnerabilityCount>()
+  const audit = await runOfflineAudit(repoPath, { ecosystems: ['npm'] }).catch(() => null)
+  audit?.matches.forEach(match => {
+    const existing = map.get(match.name) || { critical: 0, high: 0, medium: 0, low: 0, total: 0 }
+    existing[match.severity] += 1
+    existing.total += 1
+    map.set(match.name, existing)
+  })
+  return map
+}
+
 async function getJavascriptAuditVulnerabilityMap(repoPath: string): Promise<Map<string, PackageVulnerabilityCount>> {
+  if (isOfflineModeEnabled()) {
+    return getOfflineVulnerabilityMap(repoPath)
+  }
   const map = new Map<string, PackageVulnerabilityCount>()
+  let audited = false
   try {
     const { stdout } = await runCommand('npm audit --json', repoPath, {
       timeout: 120000,
       maxBuffer: 20 * 1024 * 1024
-    })
+    }).catch((error: any) => ({ stdout: String(error?.stdout || '') }))
     const payload = JSON.parse(stdout || '{}')
+    audited = Boolean(payload.vulnerabilities || payload.advisories)
 
     if (payload.vulnerabilities && typeof payload.vulnerabilities === 'object') {
       for (const [name, meta] of Object.entries(payload.vulnerabilities) as [string, any][]) {
@@ -1258,7 +354,7 @@ async function getJavascriptAuditVulnerabilityMap(repoPath: string): Promise<Map
     // Best effort: vulnerability metadata is optional for package listing.
   }
 
-  return map
+  return audited ? map : getOfflineVulnerabilityMap(repoPath)
 }
 
 async function warnOnGateFailures(
@@ -1268,11 +364,12 @@ async function warnOnGateFailures(
   fallbackCoverage: number | null
 ): Promise<{ passed: boolean; failingGateNames: string[] }> {
   try {
-    const [config, outdated, vulnerabilityMap, installedPackages] = await Promise.all([
+    const [config, outdated, vulnerabilityMap, installedPackages, buildCommand] = await Promise.all([
       loadBridgeConfig(repoPath),
       getJsOutdatedPackages(repoPath),
       getJavascriptAuditVulnerabilityMap(repoPath),
-      getInstalledDependencyNames(repoPath)
+      getInstalledDependencyNames(repoPath),
+      detectBuildCommand(repoPath)
     ])
 
     const vulnerabilitySummary = { critical: 0, high: 0, medium: 0, low: 0, total: 0 }
@@ -1314,6 +411,9 @@ async function warnOnGateFailures(
         daysSinceUpdate: 0,
         undocumentedFunctions: 0
       },
+      build: {
+        command: buildCommand
+      },
       techDebt: {
         total: 0
       } as any
@@ -1363,6 +463,8 @@ export async function getJsOutdatedPackages(repoPath: string): Promise<OutdatedP
     const vulnerabilityMap = await getJavascriptAuditVulnerabilityMap(repoPath)
 
     const devDeps = new Set(Object.keys(packageJson.devDependencies || {}))
+    const runtimeDeps = new Set(Object.keys(packageJson.dependencies || {}))
+    const peerDeps = new Set(Object.keys(packageJson.peerDependencies || {}))
 
     let outdatedJson = '{}'
     try {
@@ -1374,11 +476,18 @@ export async function getJsOutdatedPackages(repoPath: string): Promise<OutdatedP
 
     const outdated = JSON.parse(outdatedJson || '{}')
     const packages: OutdatedPackage[] = []
+    const bridgeConfig = await loadBridgeConfig(repoPath)
+    const entries = await applyReleaseCooldown(
+      repoPath,
+      bridgeConfig.dependencies,
+      (Object.entries(outdated) as [string, any][]).map(([name, info]) => {
+        const current = info.current || '0.0.0'
+        const wanted = info.wanted || current
+        return { name, current, wanted, latest: info.latest || wanted }
+      })
+    )
 
-    for (const [name, info] of Object.entries(outdated) as [string, any][]) {
-      const current = info.current || '0.0.0'
-      const wanted = info.wanted || current
-      const latest = info.latest || wanted
+    for (const { name, current, wanted, latest, cooldown } of entries) {
       const wantedUpdateType = classifyUpdateType(current, wanted)
       const hasNonBreakingWantedUpdate = wanted !== current && (wantedUpdateType === 'patch' || wantedUpdateType === 'minor')
       const updateType = hasNonBreakingWantedUpdate
@@ -1400,12 +509,15 @@ export async function getJsOutdatedPackages(repoPath: string): Promise<OutdatedP
         current,
         wanted,
         latest,
-        type: devDeps.has(name) ? 'devDependencies' : 'dependencies',
+        type: devDeps.has(name)
+          ? 'devDependencies'
+          : peerDeps.has(name) && !runtimeDeps.has(name) ? 'peerDependencies' : 'dependencies',
         hasPatchUpdate,
         isNonBreaking: hasNonBreakingWantedUpdate,
         updateType,
         language: 'javascript',
-        vulnerabilities: vulnerabilityMap.get(name) || { critical: 0, high: 0, medium: 0, low: 0, total: 0 }
+        vulnerabilities: vulnerabilityMap.get(name) || { critical: 0, high: 0, medium: 0, low: 0, total: 0 },
+        ...(cooldown ? { cooldown } : {})
       })
     }
 
@@ -1428,57 +540,223 @@ export async function getJsOutdatedPackages(repoPath: string): Promise<OutdatedP
   }
 }
 
-async function updateJsPackages(
+export async function getOverduePackageNames(
   repoPath: string,
-  packages: string[],
-  options: { updateStrategy?: 'wanted' | 'latest' } = {}
-) {
-  const updated: string[] = []
-  const failed: string[] = []
-  const updateStrategy = options.updateStrategy || 'wanted'
+  packages: OutdatedPackage[],
+  dependencies: BridgeConfig['dependencies']
+): Promise<string[]> {
+  const freshness = await analyzeDependencyFreshness(
+    repoPath,
+    dependencies,
+    packages.filter(pkg => pkg.language === 'javascript')
+  ).catch(() => null)
+  return overdueDependencies(freshness || []).map(pkg => pkg.name)
+}
 
-  const packageJsonPath = path.join(repoPath, 'package.json')
-  const packageJsonContent = await fs.readFile(packageJsonPath, 'utf-8')
-  const packageJson = JSON.parse(packageJsonContent)
+export function applyUpdatePolicies<T extends OutdatedPackage>(packages: T[], dependencies: BridgeConfig['dependencies']): T[] {
+  return packages.map(pkg => {
+    const effective = getUpdatePolicy(dependencies, { name: pkg.name, dependencyType: pkg.type, updateType: pkg.updateType })
+    return effective ? { ...pkg, policy: effective.level, policySource: effective.source } : pkg
+  })
+}
 
-  const outdated = await getJsOutdatedPackages(repoPath)
-  const outdatedMap = new Map(outdated.map(p => [p.name, p]))
+async function applyPackageUpdates(
+  workspacePath: string,
+  language: Language,
+  packages: string[]
+): Promise<{ updated: string[]; failed: string[] }> {
+  switch (language) {
+    case 'python':
+      return updatePythonPackages(workspacePath, packages)
+    case 'ruby':
+      return updateRubyPackages(workspacePath, packages)
+    case 'elixir':
+      return updateElixirPackages(workspacePath, packages)
+    default:
+      return { updated: [], failed: packages }
+  }
+}
 
-  for (const pkgName of packages) {
-    const pkg = outdatedMap.get(pkgName)
-    if (!pkg) {
-      failed.push(pkgName)
-      continue
+export async function runPatchBatchPipeline(
+  config: PatchBatchConfig,
+  handlers: PatchBatchHandlers = {}
+): Promise<PatchBatchResult> {
+  const { repoPath, branchName, packages, createPR } = config
+  const onLog = handlers.onLog || (() => {})
+  const safeBranchName = normalizeBranchName(branchName)
+
+  const fail = async (message: string): Promise<PatchBatchResult> => {
+    onLog(`✗ ${message}`)
+    return { success: false, error: message, branchName: safeBranchName }
+  }
+
+  if (!packages.length) {
+    return fail('No packages selected for update.')
+  }
+
+  const languages = new Set(packages.map(pkg => pkg.language))
+  if (languages.size > 1) {
+    return fail(`Select packages from one language per update (got ${Array.from(languages).join(', ')}).`)
+  }
+
+  if (createPR) {
+    const ghStatus = await getGitHubCliStatus(repoPath)
+    if (!ghStatus.installed || !ghStatus.authenticated) {
+      return fail(ghStatus.message || 'GitHub CLI is required and must be authenticated before creating PRs.')
     }
-    const targetVersion = updateStrategy === 'latest' ? pkg.latest : pkg.wanted
-    if (!targetVersion || targetVersion === pkg.current) {
-      failed.push(pkgName)
-      continue
+  }
+
+  try {
+    await fs.access(path.join(repoPath, '.git'))
+  } catch {
+    return fail("Git not initialized - run 'git init' first.")
+  }
+
+  if (packages[0].language === 'javascript') {
+    try {
+      await fs.access(path.join(repoPath, 'package.json'))
+    } catch {
+      return fail('No package.json found - is this a Node.js project?')
     }
+    return runJavascriptPatchBatch(config, handlers)
+  }
+  return runLanguagePatchBatch(config, handlers)
+}
 
-    if (packageJson.dependencies?.[pkgName]) {
-      const currentVersion = packageJson.dependencies[pkgName]
-      const prefix = currentVersion.match(/^[^0-9]*/)?.[0] || '^'
-      packageJson.dependencies[pkgName] = `${prefix}${targetVersion}`
-      updated.push(pkgName)
-    } else if (packageJson.devDependencies?.[pkgName]) {
-      const currentVersion = packageJson.devDependencies[pkgName]
-      const prefix = currentVersion.match(/^[^0-9]*/)?.[0] || '^'
-      packageJson.devDependencies[pkgName] = `${prefix}${targetVersion}`
-      updated.push(pkgName)
-    } else {
-      failed.push(pkgName)
+async function runJavascriptPatchBatch(
+  config: PatchBatchConfig,
+  handlers: PatchBatchHandlers
+): Promise<PatchBatchResult> {
+  const {
+    repoPath,
+    branchName,
+    packages,
+    createPR,
+    runTests: shouldRunTests,
+    baseBranch,
+    remoteFirst,
+    updateStrategy = 'wanted',
+    prTitle,
+    prBody,
+    testCommand,
+    testTimeoutMs,
+    bisectOnFailure
+  } = config
+
+  const onProgress = handlers.onProgress || (() => {})
+  const onLog = handlers.onLog || (() => {})
+  const onWarning = handlers.onWarning || (() => {})
+  const safeBranchName = normalizeBranchName(branchName)
+
+  const totalSteps = 5 + (shouldRunTests ? 3 : 0) + (createPR ? 1 : 0)
+  let currentStep = 0
+  const progress = (message: string) => onProgress(message, Math.min(++currentStep, totalSteps), totalSteps)
+
+  try {
+    const outdated = new Map((await getJsOutdatedPackages(repoPath)).map(pkg => [pkg.name, pkg]))
+    const targets: DependencyUpdateTarget[] = []
+    const skipped: string[] = []
+    for (const { name } of packages) {
+      const pkg = outdated.get(name)
+      const version = updateStrategy === 'latest' ? pkg?.latest : pkg?.wanted
+      if (!pkg || !version || version === pkg.current) {
+        skipped.push(name)
+        onLog(`✗ Skipped ${name}`)
+        continue
+      }
+      targets.push({ name, version, dev: pkg.type === 'devDependencies' })
+    }
+    if (targets.length === 0) {
+      onLog('✗ No packages were updated. Check selections and try again.')
+      return { success: false, error: 'No packages were updated. Check selections and try again.', branchName: safeBranchName }
+    }
+
+    const update = await runIsolatedDependencyUpdate({
+      repoPath,
+      branchName: safeBranchName,
+      packages: targets,
+      runTests: shouldRunTests,
+      testCommand,
+      timeoutMs: testTimeoutMs,
+      baseBranch,
+      remoteFirst,
+      workflow: 'patch-batch',
+      commitTitle: `chore(deps): update ${targets.length} selected dependencies`,
+      bisectOnFailure,
+      onProgress: progress,
+      onLog,
+      onWarning,
+      hooks: {
+        onWorkspaceReady: async (workspacePath) => {
+          if (await fileExists(path.join(workspacePath, '.npmrc'))) {
+            onLog('Using repository-local .npmrc for package operations.')
+          } else {
+            onWarning({
+              message: 'No repository .npmrc found. Falling back to global npm config.',
+              output: 'Create a local .npmrc if you need repository-scoped registry/auth settings.'
+            })
+          }
+        },
+        afterCommit: async ({ workspacePath, updatedPackages, culprits, lockfileDiff, testsPassed, markPushed }) => {
+          const releaseDigest = await buildReleaseDigest(
+            workspacePath,
+            updatedPackages.map(name => ({ name, from: outdated.get(name)?.current || '' })),
+            lockfileDiff,
+            onLog
+          )
+          progress('Pushing branch...')
+          await pushBranch(workspacePath, safeBranchName)
+          markPushed()
+          onLog(`✓ Branch pushed: ${safeBranchName}`)
+
+          let prUrl: string | null | undefined
+          if (createPR) {
+            progress('Creating pull request...')
+            prUrl = await createPullRequest(
+              workspacePath,
+              prTitle || `chore(deps): update ${updatedPackages.length} packages`,
+              (prBody || `## Summary\nAutomated dependency updates via Bridge.\n\n### Updated packages\n${updatedPackages.map(p => `- ${p}`).join('\n')}\n\n${testsPassed === undefined ? '' : testsPassed ? '### Checks\n- [x] Validation passed' : '### Checks\n- [ ] Validation was already failing before the update; no new failures were introduced'}`) +
+                (culprits.length ? `\n\n### Held back after failing validation\n${formatHeldBackPackages(culprits)}` : '') +
+                (releaseDigest ? `\n\n${releaseDigest}` : '')
+            )
+            onLog(`✓ PR created: ${prUrl}`)
+          }
+
+          const gateCheck = await warnOnGateFailures(
+            workspacePath,
+            onLog,
+            onWarning,
+            shouldRunTests ? 100 : null
+          )
+          return { branchPushed: true, prUrl, gatesPassed: gateCheck.passed }
+        }
+      }
+    })
+
+    const failedPackages = [...skipped, ...update.failedPackages]
+    return {
+      success: update.success,
+      error: update.error,
+      branchName: update.branchName,
+      branchPushed: update.branchPushed,
+      prUrl: update.prUrl,
+      updatedPackages: update.success ? update.updatedPackages : undefined,
+      failedPackages: failedPackages.length ? failedPackages : undefined,
+      culprits: update.culprits.length ? update.culprits : undefined,
+      testsPassed: update.testsPassed,
+      testOutput: update.testOutput,
+      lockfileDiff: update.lockfileDiff
     }
+  } catch (error) {
+    const message = formatError(error, 'Update failed. Please try again.')
+    onLog(`✗ ${message}`)
+    return { success: false, error: message, branchName: safeBranchName }
   }
-
-  await fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2) + '\n')
-
-  return { updated, failed }
 }
 
-export async function runPatchBatchPipeline(
+async function runLanguagePatchBatch(
   config: PatchBatchConfig,
-  handlers: PatchBatchHandlers = {}
+  handlers: PatchBatchHandlers
 ): Promise<PatchBatchResult> {
   const {
     repoPath,
@@ -1488,11 +766,11 @@ export async function runPatchBatchPipeline(
     runTests: shouldRunTests,
     baseBranch,
     remoteFirst,
-    updateStrategy,
     prTitle,
     prBody,
     testCommand,
-    testTimeoutMs
+    testTimeoutMs,
+    bisectOnFailure
   } = config
 
   const onProgress = handlers.onProgress || (() => {})
@@ -1503,14 +781,14 @@ export async function runPatchBatchPipeline(
   const totalSteps = 5 + (shouldRunTests ? 1 : 0) + (createPR ? 1 : 0)
   let currentStep = 0
 
-  const primaryLang = packages[0]?.language || 'javascript'
+  const language = packages[0].language
+  const packageNames = packages.map(pkg => pkg.name)
   const resolvedTestCommand = shouldRunTests
-    ? (testCommand?.trim() || getTestCommand(primaryLang))
+    ? (testCommand?.trim() || getTestCommand(language))
     : null
 
   let workspacePath = repoPath
   let workspaceCreated = false
-  let changesCommitted = false
   let deleteBranchOnCleanup = true
 
   const fail = async (message: string, extra?: Partial<PatchBatchResult>): Promise<PatchBatchResult> => {
@@ -1523,33 +801,8 @@ export async function runPatchBatchPipeline(
     }
   }
 
-  if (!packages.length) {
-    return fail('No packages selected for update.')
-  }
-
   if (shouldRunTests && (!resolvedTestCommand || resolvedTestCommand.length === 0)) {
-    return fail("No test script found - add one to package.json or uncheck 'Run tests'.")
-  }
-
-  if (createPR) {
-    const ghStatus = await getGitHubCliStatus(repoPath)
-    if (!ghStatus.installed || !ghStatus.authenticated) {
-      return fail(ghStatus.message || 'GitHub CLI is required and must be authenticated before creating PRs.')
-    }
-  }
-
-  try {
-    await fs.access(path.join(repoPath, '.git'))
-  } catch {
-    return fail("Git not initialized - run 'git init' first.")
-  }
-
-  if (packages.some(pkg => pkg.language === 'javascript')) {
-    try {
-      await fs.access(path.join(repoPath, 'package.json'))
-    } catch {
-      return fail('No package.json found - is this a Node.js project?')
-    }
+    return fail("No test script found - add one to the project or uncheck 'Run tests'.")
   }
 
   try {
@@ -1563,53 +816,12 @@ export async function runPatchBatchPipeline(
     onLog(`Using isolated workspace: ${workspacePath}`)
     onLog('Local repository changes are left untouched.')
 
-    if (packages.some(pkg => pkg.language === 'javascript')) {
-      if (await fileExists(path.join(workspacePath, '.npmrc'))) {
-        onLog('Using repository-local .npmrc for package operations.')
-      } else {
-        onWarning({
-          message: 'No repository .npmrc found. Falling back to global npm config.',
-          output: 'Create a local .npmrc if you need repository-scoped registry/auth settings.'
-        })
-      }
-    }
-
     onProgress('Updating packages...', ++currentStep, totalSteps)
     onLog('[1/3] Updating packages...')
 
-    const byLanguage = new Map<Language, string[]>()
-    for (const pkg of packages) {
-      const list = byLanguage.get(pkg.language) || []
-      list.push(pkg.name)
-      byLanguage.set(pkg.language, list)
-    }
-
-    const allUpdated: string[] = []
-    const allFailed: string[] = []
-
-    for (const [lang, pkgNames] of byLanguage) {
-      let result: { updated: string[]; failed: string[] }
-
-      switch (lang) {
-        case 'javascript':
-          result = await updateJsPackages(workspacePath, pkgNames, { updateStrategy })
-          break
-        case 'python':
-          result = await updatePythonPackages(workspacePath, pkgNames)
-          break
-        case 'ruby':
-          result = await updateRubyPackages(workspacePath, pkgNames)
-          break
-        case 'elixir':
-          result = await updateElixirPackages(workspacePath, pkgNames)
-          break
-        default:
-          result = { updated: [], failed: pkgNames }
-      }
-
-      allUpdated.push(...result.updated)
-      allFailed.push(...result.failed)
-    }
+    const updateResult = await applyPackageUpdates(workspacePath, language, packageNames)
+    let allUpdated = updateResult.updated
+    const allFailed = updateResult.failed
 
     allUpdated.forEach(name => onLog(`✓ Updated ${name}`))
     allFailed.forEach(name => onLog(`✗ Skipped ${name}`))
@@ -1619,7 +831,7 @@ export async function runPatchBatchPipeline(
     }
 
     onProgress('Running clean install...', ++currentStep, totalSteps)
-    const cleanCmd = getCleanInstallCommand(primaryLang)
+    const cleanCmd = getCleanInstallCommand(language)
     if (cleanCmd) {
       try {
         const { stdout, stderr } = await runCommand(cleanCmd, workspacePath, {
@@ -1636,6 +848,7 @@ export async function runPatchBatchPipeline(
 
     let testsPassed = true
     let testOutput = ''
+    const culprits: BisectionCulprit[] = []
 
     if (shouldRunTests && resolvedTestCommand) {
       onProgress('Running tests...', ++currentStep, totalSteps)
@@ -1648,7 +861,51 @@ export async function runPatchBatchPipeline(
 
       testOutput = testResult.output
       splitOutputLines(testResult.output).forEach(line => onLog(line))
-      testsPassed = testResult.success
+
+      if (!testResult.success && bisectOnFailure) {
+        onProgress('Bisecting failing updates...', currentStep, totalSteps)
+        onLog(`Tests failed with ${allUpdated.length} updated package(s). Bisecting to find the culprits...`)
+        const bisection = await bisectFailingUpdates(
+          allUpdated,
+          { output: testResult.output, failedCommand: resolvedTestCommand },
+          async (subset) => {
+            await resetIsolatedWorkspace(workspacePath)
+            await applyPackageUpdates(workspacePath, language, subset)
+            if (cleanCmd) {
+              try {
+                await runCommand(cleanCmd, workspacePath, { timeout: 300000, maxBuffer: 10 * 1024 * 1024 })
+              } catch (error: any) {
+                const output = `${error.stdout || ''}${error.stderr || ''}` || error.message
+                return { passed: false, output, failedCommand: cleanCmd }
+              }
+            }
+            const trialResult = await runTests(workspacePath, resolvedTestCommand, {
+              timeoutMs: testTimeoutMs ?? DEFAULT_TEST_TIMEOUT_MS
+            })
+            return { passed: trialResult.success, output: trialResult.output, failedCommand: resolvedTestCommand }
+          },
+          onLog
+        )
+        culprits.push(...bisection.culprits)
+        allFailed.push(...culprits.map(culprit => culprit.name))
+        onLog(`Culprits: ${culprits.map(culprit => culprit.name).join(', ')}`)
+
+        if (!bisection.verified) {
+          return fail('Tests failed - bisection could not verify a passing subset of packages. No PR created.', {
+            testsPassed: false,
+            testOutput,
+            failedPackages: allFailed,
+            culprits
+          })
+        }
+
+        allUpdated = bisection.passing
+        testOutput = bisection.output
+        testsPassed = true
+        onLog(`Continuing with ${allUpdated.length} package(s) that pass without the culprits.`)
+      } else {
+        testsPassed = testResult.success
+      }
 
       if (!testsPassed) {
         return fail('Tests failed - no PR created.', {
@@ -1659,7 +916,7 @@ export async function runPatchBatchPipeline(
 
       onLog('✓ All tests passed')
 
-      const lintCommand = getLintCommand(primaryLang)
+      const lintCommand = getLintCommand(language)
       if (lintCommand) {
         const lintResult = await runLint(workspacePath, lintCommand)
         if (!lintResult.success) {
@@ -1671,92 +928,54 @@ export async function runPatchBatchPipeline(
     }
 
     onProgress('Committing changes...', ++currentStep, totalSteps)
-    const files = getFilesToCommit(primaryLang)
     await commitChanges(
       workspacePath,
-      `chore(deps): update ${allUpdated.length} selected dependencies\n\nUpdated packages:\n${allUpdated.map(p => `- ${p}`).join('\n')}`,
-      files
+      `chore(deps): update ${allUpdated.length} selected dependencies\n\nUpdated packages:\n${allUpdated.map(p => `- ${p}`).join('\n')}${culprits.length ? `\n\nHeld back after failing tests:\n${formatHeldBackPackages(culprits)}` : ''}`,
+      getFilesToCommit(language)
     )
-    changesCommitted = true
     deleteBranchOnCleanup = false
 
-    if (!createPR) {
-      onLog('[3/3] Committing updates...')
-      onLog(`✓ Updates committed to branch '${safeBranchName}'`)
-      onProgress('Pushing branch...', ++currentStep, totalSteps)
-      await pushBranch(workspacePath, safeBranchName)
-      onLog(`✓ Branch pushed: ${safeBranchName}`)
-      deleteBranchOnCleanup = true
-      const gateCheck = await warnOnGateFailures(
-        workspacePath,
-        onLog,
-        onWarning,
-        shouldRunTests ? 100 : null
-      )
-      await appendBridgeUpdateLog(repoPath, {
-        timestamp: new Date().toISOString(),
-        workflow: 'patch-batch',
-        branchName: safeBranchName,
-        updatedPackages: allUpdated,
-        failedPackages: allFailed,
-        createPR: false,
-        testsPassed: shouldRunTests ? testsPassed : undefined,
-        gatesPassed: gateCheck.passed
-      })
+    const failedResult = (message: string): PatchBatchResult => {
+      onLog(`✗ ${message}`)
       return {
-        success: true,
+        success: false,
         updatedPackages: allUpdated,
         failedPackages: allFailed,
         branchName: safeBranchName,
-        branchPushed: true,
+        error: message,
         testsPassed: shouldRunTests ? testsPassed : undefined,
-        testOutput
+        testOutput,
+        culprits: culprits.length ? culprits : undefined
       }
     }
 
+    onLog(`✓ Updates committed to branch '${safeBranchName}'`)
     onProgress('Pushing branch...', ++currentStep, totalSteps)
     try {
       await pushBranch(workspacePath, safeBranchName)
     } catch (error) {
-      const message = formatError(error, 'Push failed. Please check your git remote configuration.')
-      onLog(`✗ ${message}`)
-      return {
-        success: false,
-        updatedPackages: allUpdated,
-        failedPackages: allFailed,
-        branchName: safeBranchName,
-        error: message,
-        testsPassed: shouldRunTests ? testsPassed : undefined,
-        testOutput
-      }
+      return failedResult(formatError(error, 'Push failed. Please check your git remote configuration.'))
     }
-
-    onProgress('Creating pull request...', ++currentStep, totalSteps)
-    onLog('[3/3] Creating PR...')
+    onLog(`✓ Branch pushed: ${safeBranchName}`)
+    deleteBranchOnCleanup = true
 
     let prUrl: string | null = null
-    try {
-      prUrl = await createPullRequest(
-        workspacePath,
-        prTitle || `chore(deps): update ${allUpdated.length} packages`,
-        prBody || `## Summary\nAutomated dependency updates via Bridge.\n\n### Updated packages\n${allUpdated.map(p => `- ${p}`).join('\n')}\n\n${shouldRunTests ? '### Checks\n- [x] Tests passed\n- [x] Lint checked' : ''}`
-      )
-    } catch (error) {
-      const message = formatError(error, 'PR creation failed. Please open a PR manually.')
-      onLog(`✗ ${message}`)
-      return {
-        success: false,
-        updatedPackages: allUpdated,
-        failedPackages: allFailed,
-        branchName: safeBranchName,
-        error: message,
-        testsPassed: shouldRunTests ? testsPassed : undefined,
-        testOutput
+    if (createPR) {
+      onProgress('Creating pull request...', ++currentStep, totalSteps)
+      onLog('[3/3] Creating PR...')
+      try {
+        prUrl = await createPullRequest(
+          workspacePath,
+          prTitle || `chore(deps): update ${allUpdated.length} packages`,
+          (prBody || `## Summary\nAutomated dependency updates via Bridge.\n\n### Updated packages\n${allUpdated.map(p => `- ${p}`).join('\n')}\n\n${shouldRunTests ? '### Checks\n- [x] Tests passed\n- [x] Lint checked' : ''}`) +
+            (culprits.length ? `\n\n### Held back after failing tests\n${formatHeldBackPackages(culprits)}` : '')
+        )
+      } catch (error) {
+        return failedResult(formatError(error, 'PR creation failed. Please open a PR manually.'))
       }
+      onLog(`✓ PR created: ${prUrl}`)
     }
 
-    onLog(`✓ PR created: ${prUrl}`)
-    deleteBranchOnCleanup = true
     const gateCheck = await warnOnGateFailures(
       workspacePath,
       onLog,
@@ -1769,20 +988,23 @@ export async function runPatchBatchPipeline(
       branchName: safeBranchName,
       updatedPackages: allUpdated,
       failedPackages: allFailed,
-      createPR: true,
-      prUrl,
+      createPR,
+      prUrl: prUrl ?? undefined,
       testsPassed: shouldRunTests ? testsPassed : undefined,
-      gatesPassed: gateCheck.passed
+      gatesPassed: gateCheck.passed,
+      culprits: culprits.length ? culprits.map(culprit => culprit.name) : undefined
     })
 
     return {
       success: true,
       updatedPackages: allUpdated,
       failedPackages: allFailed,
-      prUrl,
+      prUrl: prUrl ?? undefined,
       branchName: safeBranchName,
+      branchPushed: true,
       testsPassed: shouldRunTests ? testsPassed : undefined,
-      testOutput
+      testOutput,
+      culprits: culprits.length ? culprits : undefined
     }
   } catch (error) {
     return fail(formatError(error, 'Update failed. Please try again.'))
@@ -1795,15 +1017,6 @@ export async function runPatchBatchPipeline(
   }
 }
 
-async function hasGitChanges(repoPath: string): Promise<boolean> {
-  try {
-    const { stdout } = await execAsync('git status --porcelain', { cwd: repoPath, timeout: 30000 })
-    return stdout.trim().length > 0
-  } catch {
-    return false
-  }
-}
-
 export async function runNonBreakingUpdatePipeline(
   config: NonBreakingUpdateConfig,
   handlers: PatchBatchHandlers = {}
@@ -1821,7 +1034,10 @@ export async function runNonBreakingUpdatePipeline(
     testCommand,
     testTimeoutMs,
     prTitle,
-    prBody
+    prBody,
+    bisectOnFailure,
+    group,
+    priorityPackages = []
   } = config
 
   const onProgress = handlers.onProgress || (() => {})
@@ -1829,20 +1045,15 @@ export async function runNonBreakingUpdatePipeline(
   const onWarning = handlers.onWarning || (() => {})
   const safeBranchName = normalizeBranchName(branchName)
 
-  const totalSteps = 5 + (shouldRunTests ? 3 : 0) + (selectedReviewPackages.length > 0 ? 1 : 0) + (createPR ? 1 : 0)
+  const totalSteps = 4 + (shouldRunTests ? 3 : 0) + (createPR || pushChanges ? 1 : 0) + (createPR ? 1 : 0)
   let currentStep = 0
-  let workspacePath = repoPath
-  let workspaceCreated = false
-  let deleteBranchOnCleanup = true
-  const validationOutput: string[] = []
-  let baselineValidationFailed = false
-  let baselineValidationOutput = ''
-  let validationCommands: ValidationStep[] = []
+  const progress = (message: string) => onProgress(message, Math.min(++currentStep, totalSteps), totalSteps)
   let effectivePinnedPackages: Record<string, string> = { ...pinnedPackages }
   let effectiveSelectedReviewPackages: string[] = []
   let effectiveTestCommand = testCommand
   let effectiveTimeoutMs = testTimeoutMs ?? DEFAULT_TEST_TIMEOUT_MS
-  let majorUpdatePolicy: 'review' | 'ignore' = 'review'
+  let dependencyConfig: BridgeConfig['dependencies'] | null = null
+  let dependencyGroups: DependencyGroup[] = []
 
   const fail = async (message: string, extra?: Partial<PatchBatchResult>): Promise<PatchBatchResult> => {
     onLog(`✗ ${message}`)
@@ -1863,13 +1074,13 @@ export async function runNonBreakingUpdatePipeline(
 
   try {
     const bridgeConfig = await loadBridgeConfig(repoPath)
-    majorUpdatePolicy = bridgeConfig.dependencies.updatePolicy.major
+    dependencyConfig = bridgeConfig.dependencies
+    dependencyGroups = bridgeConfig.dependencies.groups || []
     effectivePinnedPackages = {
       ...(bridgeConfig.dependencies.pinnedPackages || {}),
       ...pinnedPackages
     }
     effectiveTestCommand = testCommand || bridgeConfig.gates?.tests?.command || undefined
-    effectiveTestCommand = await normalizeConfiguredValidationCommand(repoPath, effectiveTestCommand)
     if (!testTimeoutMs && bridgeConfig.gates?.tests?.timeout) {
       const rawTimeout = bridgeConfig.gates.tests.timeout
       const timeoutFromConfig = normalizeConfiguredTimeoutMs(rawTimeout)
@@ -1880,23 +1091,25 @@ export async function runNonBreakingUpdatePipeline(
         }
       }
     }
-
-    if (shouldRunTests) {
-      validationCommands = await resolveJavascriptValidationCommands(repoPath, effectiveTestCommand)
-    }
   } catch (error) {
     onWarning({
       message: `Bridge config integration failed, using pipeline defaults: ${formatError(error, 'Unknown config error')}`,
       output: ''
     })
-    if (shouldRunTests) {
-      const fallbackTestCommand = await normalizeConfiguredValidationCommand(repoPath, testCommand)
-      validationCommands = await resolveJavascriptValidationCommands(repoPath, fallbackTestCommand)
-    }
   }
 
   effectiveSelectedReviewPackages = Array.from(new Set(selectedReviewPackages))
 
+  if (group && !dependencyGroups.some(candidate => candidate.name === group)) {
+    return fail(`Unknown dependency group '${group}'. Define it under dependencies.groups in .bridge.json.`)
+  }
+  const groupLabel = group
+    ? `group '${group}'`
+    : dependencyGroups.length > 0 ? 'ungrouped dependencies' : 'policy-approved dependencies'
+  const policyLevel = (pkg: OutdatedPackage) => dependencyConfig
+    ? getUpdatePolicy(dependencyConfig, { name: pkg.name, dependencyType: pkg.type, updateType: pkg.updateType })?.level ?? 'auto'
+    : 'auto'
+
   if (createPR) {
     const ghStatus = await getGitHubCliStatus(repoPath)
     if (!ghStatus.installed || !ghStatus.authenticated) {
@@ -1908,12 +1121,60 @@ export async function runNonBreakingUpdatePipeline(
     const beforeOutdated = await getJsOutdatedPackages(repoPath)
     const beforeOutdatedMap = new Map(beforeOutdated.map(pkg => [pkg.name, pkg]))
     const nonBreakingBefore = beforeOutdated.filter(pkg => pkg.isNonBreaking)
-    const manualReviewPackages: string[] = []
+    const manualReviewPackages: OutdatedPackage[] = []
+    const heldByPolicy = selectGroupCandidates(beforeOutdated, dependencyGroups, group || null).filter(pkg => {
+      const level = policyLevel(pkg)
+      return level === 'ignore' || (level === 'review' && !effectiveSelectedReviewPackages.includes(pkg.name))
+    })
+    // Groups, policy holds and release cooldowns need an explicit package set rather than the update script.
+    const releaseCooldown = beforeOutdated.some(pkg =>
+      pkg.cooldown || (dependencyConfig && resolveMinReleaseAgeDays(dependencyConfig, pkg.name) > 0)
+    )
+    const targetedUpdate = dependencyGroups.length > 0 || heldByPolicy.length > 0 || releaseCooldown
+    if (heldByPolicy.length > 0) {
+      onLog(`Held back by update policy: ${heldByPolicy.map(pkg => `${pkg.name} (${policyLevel(pkg)})`).join(', ')}`)
+    }
+    if (bisectOnFailure && priorityPackages.length > 0) {
+      onLog(`Bisection tries first: ${priorityPackages.join(', ')}`)
+    }
+    const unchecked = beforeOutdated.filter(pkg => pkg.cooldown?.unresolved)
+    if (unchecked.length > 0) {
+      onWarning({
+        message: `Held at current version, publish times unavailable: ${unchecked.map(pkg => pkg.name).join(', ')}`,
+        output: 'The minimum release age could not be checked, so these packages are skipped until the registry answers.'
+      })
+    }
+    const cooledDown = beforeOutdated.filter(pkg => pkg.cooldown && !pkg.cooldown.unresolved && pkg.cooldown.skipped.length > 0)
+    if (cooledDown.length > 0) {
+      onLog(`Held back by minimum release age: ${cooledDown.map(pkg => `${pkg.name}@${pkg.cooldown?.skipped.map(release => release.version).join('/')}`).join(', ')}`)
+    }
+    const groupTargets = !targetedUpdate ? [] : selectGroupCandidates(beforeOutdated, dependencyGroups, group || null)
+      .filter(pkg => {
+        if (effectivePinnedPackages[pkg.name]) {
+          onWarning({ message: `Skipping pinned package '${pkg.name}' (${effectivePinnedPackages[pkg.name]})`, output: '' })
+          return false
+        }
+        if (heldByPolicy.includes(pkg)) return false
+        if (policyLevel(pkg) === 'ignore') {
+          onWarning({ message: `Skipping ${pkg.name} - ${pkg.updateType} updates are ignored by .bridge.json policy`, output: '' })
+          return false
+        }
+        return true
+      })
+      .sort((a, b) => Number(priorityPackages.includes(b.name)) - Number(priorityPackages.includes(a.name)))
 
     for (const pkgName of effectiveSelectedReviewPackages) {
       const pkg = beforeOutdatedMap.get(pkgName)
-      if (!pkg) continue
-      if (pkg.isNonBreaking) continue
+      if (!pkg || pkg.isNonBreaking || groupTargets.includes(pkg)) continue
+      if (pkg.cooldown && pkg.latest === pkg.current) {
+        onWarning({
+          message: pkg.cooldown.unresolved
+            ? `Skipping ${pkgName} - publish times unavailable, so the ${pkg.cooldown.minReleaseAgeDays}-day minimum release age cannot be checked`
+            : `Skipping ${pkgName} - no release is older than ${pkg.cooldown.minReleaseAgeDays} days yet`,
+          output: ''
+        })
+        continue
+      }
 
       if (effectivePinnedPackages[pkgName]) {
         onWarning({
@@ -1923,301 +1184,190 @@ export async function runNonBreakingUpdatePipeline(
         continue
       }
 
-      if (pkg.updateType === 'major' && majorUpdatePolicy === 'ignore') {
+      if (policyLevel(pkg) === 'ignore') {
         onWarning({
-          message: `Skipping ${pkgName} - major updates are ignored by .bridge.json policy`,
+          message: `Skipping ${pkgName} - ${pkg.updateType} updates are ignored by .bridge.json policy`,
           output: ''
         })
         continue
       }
 
-      manualReviewPackages.push(pkgName)
+      manualReviewPackages.push(pkg)
     }
 
-    if (nonBreakingBefore.length === 0) {
+    if (targetedUpdate) {
+      if (groupTargets.length === 0 && manualReviewPackages.length === 0) {
+        return fail(`No outdated packages to update for ${groupLabel}.`)
+      }
+      onLog(`Updating ${groupLabel}: ${groupTargets.map(pkg => pkg.name).join(', ') || 'selected review packages only'}`)
+    } else if (nonBreakingBefore.length === 0) {
       onLog('No direct patch/minor candidates detected. Continuing with clean update script for transitive/non-listed updates.')
     }
 
-    onProgress('Preparing isolated update workspace...', ++currentStep, totalSteps)
-    workspacePath = await createIsolatedWorkspace(repoPath, safeBranchName, {
-      baseBranch,
-      remoteFirst,
-      onLog
+    const toTarget = (pkg: OutdatedPackage, version: string): DependencyUpdateTarget => ({
+      name: pkg.name,
+      version,
+      dev: pkg.type === 'devDependencies'
     })
-    workspaceCreated = true
-    onLog(`Using isolated workspace: ${workspacePath}`)
-    onLog('Local repository changes are left untouched.')
-
-    if (await fileExists(path.join(workspacePath, '.npmrc'))) {
-      onLog('Using repository-local .npmrc for package manager commands.')
-    } else {
-      onWarning({
-        message: 'No repository .npmrc found. Falling back to global npm config.',
-        output: 'Create a local .npmrc if you need repository-scoped registry/auth settings.'
-      })
-    }
-
-    if (shouldRunTests) {
-      if (validationCommands.length === 0) {
-        return fail('No validation commands detected. Add test/lint/build scripts or set gates.tests.command in .bridge.json.')
-      }
-
-      onProgress('Installing baseline dependencies...', ++currentStep, totalSteps)
-      try {
-        await installDependenciesForValidation(workspacePath, onLog, validationCommands)
-      } catch (error) {
-        return fail(`Baseline dependency install failed: ${formatError(error, 'Install failed')}`)
-      }
+    const defaultTitle = group
+      ? `chore(deps): update ${group} dependency group`
+      : 'chore(deps): apply non-breaking dependency updates'
 
-      onProgress('Running pre-update validation...', ++currentStep, totalSteps)
-      onLog('[1/5] Running validation on latest remote baseline...')
-      const baselineValidation = await runValidationSteps(
-        validationCommands,
-        workspacePath,
-        onLog,
-        onWarning,
-        { timeoutMs: effectiveTimeoutMs, stageLabel: 'Pre-update validation' }
-      )
-      validationOutput.push(baselineValidation.output)
-      if (!baselineValidation.success) {
-        baselineValidationFailed = true
-        baselineValidationOutput = baselineValidation.output
-        const summary = extractFailureSummary(baselineValidation.output) || 'unknown failure'
-        const environmentIssue = detectValidationEnvironmentIssue(baselineValidation.output)
-        if (environmentIssue) {
-          return fail(
-            `Baseline validation could not run due to repository/tooling setup: ${environmentIssue}. Bridge stopped before applying updates.`,
-            {
-              testsPassed: false,
-              testOutput: baselineValidation.output
-            }
+    const update = await runIsolatedDependencyUpdate({
+      repoPath,
+      branchName: safeBranchName,
+      packages: [
+        ...groupTargets.map(pkg => toTarget(pkg, pkg.isNonBreaking ? pkg.wanted : pkg.latest)),
+        ...manualReviewPackages.map(pkg => toTarget(pkg, pkg.latest))
+      ],
+      updateScript: targetedUpdate ? undefined : { expected: nonBreakingBefore.map(pkg => toTarget(pkg, pkg.wanted)) },
+      runTests: shouldRunTests,
+      testCommand: effectiveTestCommand,
+      timeoutMs: effectiveTimeoutMs,
+      baseBranch,
+      remoteFirst,
+      workflow: 'non-breaking',
+      group,
+      commitTitle: defaultTitle,
+      bisectOnFailure,
+      priorityPackages,
+      onProgress: progress,
+      onLog,
+      onWarning,
+      hooks: {
+        onWorkspaceReady: async (workspacePath) => {
+          if (await fileExists(path.join(workspacePath, '.npmrc'))) {
+            onLog('Using repository-local .npmrc for package manager commands.')
+          } else {
+            onWarning({
+              message: 'No repository .npmrc found. Falling back to global npm config.',
+              output: 'Create a local .npmrc if you need repository-scoped registry/auth settings.'
+            })
+          }
+        },
+        resolveScriptUpdates: async (workspacePath) => {
+          const afterOutdated = await getJsOutdatedPackages(workspacePath)
+          const remainingNonBreaking = new Set(afterOutdated.filter(pkg => pkg.isNonBreaking).map(pkg => pkg.name))
+          return nonBreakingBefore.map(pkg => pkg.name).filter(name => !remainingNonBreaking.has(name))
+        },
+        afterCommit: async ({ workspacePath, updatedPackages, culprits, lockfileDiff, markPushed }) => {
+          const releaseDigest = await buildReleaseDigest(
+            workspacePath,
+            updatedPackages.map(name => ({ name, from: beforeOutdatedMap.get(name)?.current || '' })),
+            lockfileDiff,
+            onLog
           )
-        }
-        onWarning({
-          message: `Baseline validation failed at ${baselineValidation.failedCommand || 'unknown step'} (${summary}). Bridge will continue and require no regression after updates.`,
-          output: ''
-        })
-        onLog('WARN: Continuing despite baseline failure. Post-update validation must not introduce new failures.')
-      }
-      if (baselineValidation.attemptedCount > 0 && baselineValidation.attemptedCount === baselineValidation.skippedMissingCount) {
-        return fail('Pre-update validation skipped every command. Ensure required test tools are installed in the repository.')
-      }
-      if (!baselineValidationFailed) {
-        onLog(`✓ Pre-update validation passed (${baselineValidation.executedCount} checks)`)
-      }
-    }
-
-    onProgress('Running non-breaking update sequence...', ++currentStep, totalSteps)
-    onLog('[2/5] Running update script:')
-    const packageManager = await detectNodePackageManager(workspacePath)
-    const packageManagerCommand = await resolvePackageManagerCommand(workspacePath, packageManager)
-    onLog(`Detected package manager: ${packageManager} (${packageManagerCommand}).`)
-    const updateSequence = getCleanUpdateSequenceCommand(packageManager, packageManagerCommand)
-    onLog(updateSequence)
-    try {
-      const { stdout, stderr } = await runCommand(
-        updateSequence,
-        workspacePath,
-        {
-          timeout: 15 * 60 * 1000,
-          maxBuffer: 50 * 1024 * 1024
-        }
-      )
-      splitOutputLines(`${stdout}${stderr}`).forEach(line => onLog(line))
-    } catch (error: any) {
-      const output = `${error.stdout || ''}${error.stderr || ''}` || error.message
-      splitOutputLines(output).forEach(line => onLog(line))
-      return fail('Non-breaking update script failed. Check npm output.')
-    }
-
-    const manualReviewUpdated: string[] = []
-    if (manualReviewPackages.length > 0) {
-      onProgress('Applying selected review updates...', ++currentStep, totalSteps)
-      onLog('[3/5] Applying selected manual review updates...')
-      for (const pkg of manualReviewPackages) {
-        try {
-          const installCommand = getManualReviewInstallCommand(packageManager, packageManagerCommand, pkg)
-          onLog(`> ${installCommand}`)
-          const { stdout, stderr } = await runCommand(installCommand, workspacePath, {
-            timeout: DEFAULT_TEST_TIMEOUT_MS,
-            maxBuffer: DEFAULT_MAX_BUFFER
-          })
-          splitOutputLines(`${stdout}${stderr}`).forEach(line => onLog(line))
-          manualReviewUpdated.push(pkg)
-        } catch (error: any) {
-          const output = `${error?.stdout || ''}${error?.stderr || ''}`.trim() || String(error?.message || '')
-          splitOutputLines(output).forEach(line => onLog(line))
-          return fail(`Failed to apply selected review update: ${pkg}`, {
-            testOutput: output
-          })
-        }
-      }
-    }
-
-    const afterOutdated = await getJsOutdatedPackages(workspacePath)
-    const remainingNonBreaking = new Set(afterOutdated.filter(pkg => pkg.isNonBreaking).map(pkg => pkg.name))
-    const updatedPackages = nonBreakingBefore
-      .map(pkg => pkg.name)
-      .filter(name => !remainingNonBreaking.has(name))
-    for (const pkg of manualReviewUpdated) {
-      if (!updatedPackages.includes(pkg)) {
-        updatedPackages.push(pkg)
-      }
-    }
+          if (!createPR && !pushChanges) {
+            onLog(`✓ Push skipped (pushChanges=false). Branch '${safeBranchName}' is committed locally.`)
+          } else {
+            progress('Pushing branch...')
+            await pushBranch(workspacePath, safeBranchName)
+            markPushed()
+            onLog(`✓ Branch pushed: ${safeBranchName}`)
+          }
 
-    onProgress('Evaluating changes...', ++currentStep, totalSteps)
-    const changed = await hasGitChanges(workspacePath)
-    if (!changed) {
-      const nonBreakingBeforeCount = nonBreakingBefore.length
-      const nonBreakingAfterCount = remainingNonBreaking.size
-      onLog(
-        `No git-tracked dependency changes detected. Non-breaking candidates before: ${nonBreakingBeforeCount}, remaining after: ${nonBreakingAfterCount}.`
-      )
-      onLog(
-        'Likely causes: lockfile already at latest allowed versions, or local node_modules was stale when the outdated list was generated.'
-      )
-      return fail('No dependency changes were produced by the update process.')
-    }
+          let prUrl: string | null | undefined
+          if (createPR) {
+            progress('Creating pull request...')
+            prUrl = await createPullRequest(
+              workspacePath,
+              prTitle || defaultTitle,
+              (prBody || [
+                '## Summary',
+                group
+                  ? `Automated updates for the \`${group}\` dependency group via Bridge.`
+                  : 'Automated non-breaking dependency updates allowed by the .bridge.json update policy, via Bridge.',
+                '',
+                '### Updated packages',
+                ...(updatedPackages.length ? updatedPackages.map(pkg => `- ${pkg}`) : ['- lockfile/package graph changes'])
+              ].join('\n')) +
+                (culprits.length ? `\n\n### Held back after failing validation\n${formatHeldBackPackages(culprits)}` : '') +
+                (releaseDigest ? `\n\n${releaseDigest}` : '')
+            )
+          }
 
-    if (shouldRunTests && validationCommands.length > 0) {
-      onProgress('Running post-update validation...', ++currentStep, totalSteps)
-      onLog('[4/5] Running validation after dependency changes...')
-      const postValidation = await runValidationSteps(
-        validationCommands,
-        workspacePath,
-        onLog,
-        onWarning,
-        { timeoutMs: effectiveTimeoutMs, stageLabel: 'Post-update validation' }
-      )
-      validationOutput.push(postValidation.output)
-      if (!postValidation.success && !baselineValidationFailed) {
-        const summary = extractFailureSummary(postValidation.output)
-        return fail(`Post-update validation failed at ${postValidation.failedCommand || 'unknown step'}${summary ? ` (${summary})` : ''}. No commit was created.`, {
-          testsPassed: false,
-          testOutput: postValidation.output
-        })
-      }
-      if (!postValidation.success && baselineValidationFailed) {
-        const regression = isValidationRegression(baselineValidationOutput, postValidation.output)
-        if (regression.regressed) {
-          const summary = extractFailureSummary(postValidation.output)
-          return fail(
-            `Post-update validation regressed (${regression.reason || 'new failures detected'})${summary ? ` (${summary})` : ''}. No commit was created.`,
-            {
-              testsPassed: false,
-              testOutput: postValidation.output
-            }
+          const gateCheck = await warnOnGateFailures(
+            workspacePath,
+            onLog,
+            onWarning,
+            shouldRunTests ? 100 : null
           )
+          return { branchPushed: createPR || pushChanges, prUrl, gatesPassed: gateCheck.passed }
         }
-        onWarning({
-          message: 'Post-update validation still failing, but no regression detected versus baseline. Proceeding with commit.',
-          output: ''
-        })
-      }
-      if (postValidation.attemptedCount > 0 && postValidation.attemptedCount === postValidation.skippedMissingCount) {
-        return fail('Post-update validation skipped every command. Aborting to avoid unverified updates.', {
-          testsPassed: false,
-          testOutput: postValidation.output
-        })
-      }
-      onLog(`✓ Post-update validation passed (${postValidation.executedCount} checks)`)
-    }
-
-    onProgress('Committing changes...', ++currentStep, totalSteps)
-    await commitChanges(
-      workspacePath,
-      `chore(deps): apply non-breaking dependency updates\n\nUpdated packages:\n${updatedPackages.map(p => `- ${p}`).join('\n') || '- lockfile/package graph changes'}`,
-      getFilesToCommit('javascript')
-    )
-    deleteBranchOnCleanup = false
-    const validationPassedCleanly = shouldRunTests ? !baselineValidationFailed : undefined
-
-    if (!createPR) {
-      onLog('[5/5] Committing updates locally...')
-      onLog(`✓ Changes committed on '${safeBranchName}'`)
-      if (pushChanges) {
-        onProgress('Pushing branch...', ++currentStep, totalSteps)
-        await pushBranch(workspacePath, safeBranchName)
-        onLog(`✓ Branch pushed: ${safeBranchName}`)
-        deleteBranchOnCleanup = true
-      } else {
-        onLog(`✓ Push skipped (pushChanges=false). Branch '${safeBranchName}' is committed locally.`)
-      }
-      const gateCheck = await warnOnGateFailures(
-        workspacePath,
-        onLog,
-        onWarning,
-        shouldRunTests ? 100 : null
-      )
-      await appendBridgeUpdateLog(repoPath, {
-        timestamp: new Date().toISOString(),
-        workflow: 'non-breaking',
-        branchName: safeBranchName,
-        updatedPackages,
-        createPR: false,
-        testsPassed: validationPassedCleanly,
-        gatesPassed: gateCheck.passed
-      })
-      return {
-        success: true,
-        branchName: safeBranchName,
-        branchPushed: pushChanges,
-        updatedPackages,
-        testsPassed: validationPassedCleanly,
-        testOutput: validationOutput.filter(Boolean).join('\n\n')
       }
-    }
-
-    onProgress('Pushing branch...', ++currentStep, totalSteps)
-    await pushBranch(workspacePath, safeBranchName)
-
-    onProgress('Creating pull request...', ++currentStep, totalSteps)
-    const prUrl = await createPullRequest(
-      workspacePath,
-      prTitle || 'chore(deps): apply non-breaking dependency updates',
-      prBody || [
-        '## Summary',
-        'Automated non-breaking dependency updates (patch + minor) via Bridge.',
-        '',
-        '### Updated packages',
-        ...(updatedPackages.length ? updatedPackages.map(pkg => `- ${pkg}`) : ['- lockfile/package graph changes'])
-      ].join('\n')
-    )
-    deleteBranchOnCleanup = true
-    const gateCheck = await warnOnGateFailures(
-      workspacePath,
-      onLog,
-      onWarning,
-      shouldRunTests ? 100 : null
-    )
-    await appendBridgeUpdateLog(repoPath, {
-      timestamp: new Date().toISOString(),
-      workflow: 'non-breaking',
-      branchName: safeBranchName,
-      updatedPackages,
-      createPR: true,
-      prUrl,
-      testsPassed: validationPassedCleanly,
-      gatesPassed: gateCheck.passed
     })
 
-    return {
-      success: true,
-      branchName: safeBranchName,
-      prUrl,
-      updatedPackages,
-      testsPassed: validationPassedCleanly,
-      testOutput: validationOutput.filter(Boolean).join('\n\n')
+    return {
+      success: update.success,
+      error: update.error,
+      branchName: update.branchName,
+      branchPushed: update.branchPushed,
+      prUrl: update.prUrl,
+      updatedPackages: update.success ? update.updatedPackages : undefined,
+      failedPackages: update.failedPackages.length ? update.failedPackages : undefined,
+      culprits: update.culprits.length ? update.culprits : undefined,
+      testsPassed: update.testsPassed,
+      testOutput: update.testOutput,
+      lockfileDiff: update.lockfileDiff
     }
   } catch (error) {
     return fail(formatError(error, 'Non-breaking update failed.'))
-  } finally {
-    if (workspaceCreated) {
-      await cleanupIsolatedWorkspace(repoPath, workspacePath, safeBranchName, {
-        deleteBranch: deleteBranchOnCleanup
-      })
+  }
+}
+
+export async function runGroupedUpdatePipeline(
+  config: GroupedUpdateConfig,
+  handlers: PatchBatchHandlers = {}
+): Promise<GroupedUpdateResult> {
+  const { branchPrefix, groups: onlyGroups, selectedReviewPackages, ...pipelineConfig } = config
+  const onLog = handlers.onLog || (() => {})
+  let groups: DependencyGroup[] = []
+  let candidates: OutdatedPackage[] = []
+
+  try {
+    const bridgeConfig = await loadBridgeConfig(config.repoPath)
+    groups = bridgeConfig.dependencies.groups || []
+    const pinned = { ...(bridgeConfig.dependencies.pinnedPackages || {}), ...(config.pinnedPackages || {}) }
+    candidates = applyUpdatePolicies(await getJsOutdatedPackages(config.repoPath), bridgeConfig.dependencies)
+      .filter(pkg => !pinned[pkg.name] && pkg.policy !== 'ignore')
+  } catch (error) {
+    return { success: false, runs: [], error: formatError(error, 'Failed to prepare grouped updates.') }
+  }
+  if (groups.length === 0) {
+    return { success: false, runs: [], error: 'No dependency groups are defined in .bridge.json.' }
+  }
+  const unknownGroup = (onlyGroups || []).find(name => name !== null && !groups.some(group => group.name === name))
+  if (unknownGroup) {
+    return { success: false, runs: [], error: `Unknown dependency group '${unknownGroup}'. Define it under dependencies.groups in .bridge.json.` }
+  }
+
+  const runs: GroupedUpdateResult['runs'] = []
+  const groupNames = [...groups.map(group => group.name), null].filter(name => !onlyGroups || onlyGroups.includes(name))
+  for (const groupName of groupNames) {
+    const label = groupName ? `group '${groupName}'` : 'ungrouped dependencies'
+    const members = selectGroupCandidates(candidates, groups, groupName)
+    const reviewPackages = (selectedReviewPackages || [])
+      .filter(name => !groupName || members.some(pkg => pkg.name === name))
+    const pending = members.filter(pkg => pkg.policy !== 'review' || reviewPackages.includes(pkg.name))
+    if (pending.length === 0 && reviewPackages.length === 0) {
+      onLog(`Skipping ${label}: nothing to update.`)
+      continue
     }
+
+    onLog(`=== Updating ${label} ===`)
+    const result = await runNonBreakingUpdatePipeline(
+      {
+        ...pipelineConfig,
+        group: groupName ?? undefined,
+        branchName: `${groupName ? groupBranchPrefix(branchPrefix, groupName) : branchPrefix}-${Date.now()}`,
+        selectedReviewPackages: reviewPackages
+      },
+      handlers
+    )
+    runs.push({ group: groupName, result })
   }
+
+  return { success: runs.every(run => run.result.success), runs }
 }
 
 interface AuditTarget {
@@ -2226,14 +1376,36 @@ interface AuditTarget {
   fixVersion?: string
 }
 
+async function getOfflineAuditTargets(repoPath: string): Promise<AuditTarget[]> {
+  const targets = new Map<string, AuditTarget>()
+  const audit = await runOfflineAudit(repoPath, { ecosystems: ['npm'] }).catch(() => null)
+  audit?.matches.forEach(match => {
+    if (match.severity !== 'critical' && match.severity !== 'high') return
+    if (!match.fixed || !semver.valid(match.fixed) || !semver.valid(match.version)) return
+    if (semver.major(match.fixed) !== semver.major(match.version)) return
+    const existing = targets.get(match.name)
+    targets.set(match.name, {
+      name: match.name,
+      severity: existing?.severity === 'critical' ? 'critical' : match.severity,
+      fixVersion: existing?.fixVersion && semver.gt(existing.fixVersion, match.fixed) ? existing.fixVersion : match.fixed
+    })
+  })
+  return Array.from(targets.values())
+}
+
 async function getAuditTargets(repoPath: string): Promise<AuditTarget[]> {
+  if (isOfflineModeEnabled()) {
+    return getOfflineAuditTargets(repoPath)
+  }
   const targets: AuditTarget[] = []
+  let audited = false
   try {
     const { stdout } = await runCommand('npm audit --json', repoPath, {
       timeout: 120000,
       maxBuffer: 20 * 1024 * 1024
-    })
+    }).catch((error: any) => ({ stdout: String(error?.stdout || '') }))
     const payload = JSON.parse(stdout || '{}')
+    audited = Boolean(payload.vulnerabilities || payload.advisories)
 
     if (payload.vulnerabilities) {
       for (const [name, data] of Object.entries(payload.vulnerabilities) as [string, any][]) {
@@ -2268,7 +1440,7 @@ async function getAuditTargets(repoPath: string): Promise<AuditTarget[]> {
     console.error('npm audit failed:', error)
   }
 
-  return targets
+  return audited ? targets : getOfflineAuditTargets(repoPath)
 }
 
 async function discardWorkingTree(repoPath: string): Promise<void> {
@@ -2417,3 +1589,439 @@ export async function runSecurityPatchPipeline(
     }
   }
 }
+
+export async function runUpgradeTrialPipeline(
+  config: UpgradeTrialConfig,
+  handlers: PatchBatchHandlers = {}
+): Promise<UpgradeTrialReport> {
+  return runUpgradeTrial({
+    repoPath: config.repoPath,
+    packageName: config.packageName,
+    version: config.version,
+    dev: config.dev,
+    runValidation: config.runTests,
+    testCommand: config.testCommand,
+    timeoutMs: normalizeConfiguredTimeoutMs(config.testTimeoutMs) ?? undefined,
+    baseBranch: config.baseBranch,
+    remoteFirst: config.remoteFirst,
+    onProgress: handlers.onProgress,
+    onLog: handlers.onLog,
+    onWarning: handlers.onWarning
+  })
+}
+
+export async function runPackageMigrationPipeline(
+  config: PackageMigrationConfig,
+  handlers: PatchBatchHandlers = {}
+): Promise<PackageMigrationResult> {
+  const { repoPath, packageName: from, createPR, runTests: shouldRunTests, baseBranch, remoteFirst } = config
+  const onProgress = handlers.onProgress || (() => {})
+  const onLog = handlers.onLog || (() => {})
+  const onWarning = handlers.onWarning || (() => {})
+  const safeBranchName = normalizeBranchName(
+    config.branchName || `bridge-migrate-${from.replace(/^@/, '').replace(/\//g, '-')}-${Date.now()}`
+  )
+  const totalSteps = 4 + (shouldRunTests ? 3 : 0) + (createPR ? 2 : 0)
+  let currentStep = 0
+  let workspacePath = repoPath
+  let workspaceCreated = false
+  let deleteBranchOnCleanup = true
+  let effectiveTimeoutMs = normalizeConfiguredTimeoutMs(config.testTimeoutMs) ?? DEFAULT_TEST_TIMEOUT_MS
+  let validationCommands: ValidationStep[] = []
+  const validationOutput: string[] = []
+
+  const fail = async (message: string, extra?: Partial<PackageMigrationResult>): Promise<PackageMigrationResult> => {
+    onLog(`✗ ${message}`)
+    return { success: false, from, error: message, branchName: safeBranchName, ...extra }
+  }
+
+  try {
+    await fs.access(path.join(repoPath, '.git'))
+    await fs.access(path.join(repoPath, 'package.json'))
+  } catch {
+    return fail('Git and package.json are required for package migrations.')
+  }
+
+  const bridgeConfig = await loadBridgeConfig(repoPath)
+  const migration = resolvePackageMigrations(bridgeConfig).find(candidate => candidate.from === from)
+  if (!migration) {
+    return fail(`No migration configured for '${from}'. Add it under dependencies.migrations in .bridge.json.`)
+  }
+  if (!config.testTimeoutMs && bridgeConfig.gates?.tests?.timeout) {
+    effectiveTimeoutMs = normalizeConfiguredTimeoutMs(bridgeConfig.gates.tests.timeout) ?? effectiveTimeoutMs
+  }
+  if (shouldRunTests) {
+    const testCommand = await normalizeConfiguredValidationCommand(
+      repoPath,
+      config.testCommand || bridgeConfig.gates?.tests?.command || undefined
+    )
+    validationCommands = await resolveJavascriptValidationCommands(repoPath, testCommand)
+    if (validationCommands.length === 0) {
+      return fail('No validation commands detected. Add test/lint/build scripts or set gates.tests.command in .bridge.json.')
+    }
+  }
+
+  if (createPR) {
+    const ghStatus = await getGitHubCliStatus(repoPath)
+    if (!ghStatus.installed || !ghStatus.authenticated) {
+      return fail(ghStatus.message || 'GitHub CLI is required and must be authenticated before creating PRs.')
+    }
+  }
+
+  try {
+    onLog(`Migrating ${migration.from} → ${migration.to} (${migration.codemod ? `codemod: ${migration.codemod}` : 'no codemod registered'})`)
+    onProgress('Preparing isolated migration workspace...', ++currentStep, totalSteps)
+    workspacePath = await createIsolatedWorkspace(repoPath, safeBranchName, { baseBranch, remoteFirst, onLog })
+    workspaceCreated = true
+    onLog(`Using isolated workspace: ${workspacePath}`)
+
+    let baselineValidation: Awaited<ReturnType<typeof runValidationSteps>> | null = null
+    if (shouldRunTests) {
+      onProgress('Installing baseline dependencies...', ++currentStep, totalSteps)
+      try {
+        await installDependenciesForValidation(workspacePath, onLog, validationCommands)
+      } catch (error) {
+        return fail(`Baseline dependency install failed: ${formatError(error, 'Install failed')}`)
+      }
+      onProgress('Running pre-migration validation...', ++currentStep, totalSteps)
+      baselineValidation = await runValidationSteps(validationCommands, workspacePath, onLog, onWarning, {
+        timeoutMs: effectiveTimeoutMs,
+        stageLabel: 'Pre-migration validation'
+      })
+      validationOutput.push(baselineValidation.output)
+      if (!baselineValidation.success) {
+        onWarning({
+          message: `Baseline validation failed at ${baselineValidation.failedCommand || 'unknown step'}. The migration must not introduce new failures.`,
+          output: ''
+        })
+      }
+    }
+
+    onProgress(`Rewriting ${migration.from} import sites...`, ++currentStep, totalSteps)
+    const report = await applyPackageMigration(workspacePath, migration, onLog)
+    const sites = { rewritten: report.rewritten, manual: report.manual }
+    onLog(`${report.rewritten.length} site(s) rewritten, ${report.manual.length} left for manual follow-up`)
+    report.manual.forEach(site => onLog(`  manual: ${site.file}:${site.line} — ${site.reason}`))
+    if (report.rewritten.length === 0 && report.manifests.length === 0) {
+      return fail(`${migration.from} is neither imported nor declared in package.json; nothing to migrate.`, sites)
+    }
+
+    onProgress('Swapping dependencies...', ++currentStep, totalSteps)
+    const packageManager = await detectNodePackageManager(workspacePath)
+    const managerCommand = await resolvePackageManagerCommand(workspacePath, packageManager)
+    const rootDeclaration = report.manifests.find(entry => entry.manifest === '')
+    const dev = rootDeclaration?.field === 'devDependencies'
+    const rootManifest = JSON.parse(await fs.readFile(path.join(workspacePath, 'package.json'), 'utf8'))
+    const alreadyDeclared = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']
+      .some(field => Boolean(rootManifest[field]?.[migration.to]))
+    const dependencyCommands: string[] = []
+    const installedPackage = !migration.builtin && !alreadyDeclared && report.rewritten.length > 0
+    if (installedPackage) {
+      dependencyCommands.push(getPinnedInstallCommand(packageManager, managerCommand, [migration.to], dev))
+    }
+    const removedPackage = report.removable && Boolean(rootDeclaration)
+    if (removedPackage) {
+      dependencyCommands.push(`${managerCommand} ${packageManager === 'npm' ? 'uninstall' : 'remove'} ${migration.from}`)
+    } else if (rootDeclaration) {
+      onLog(`Keeping ${migration.from} in package.json: ${report.manual.length} site(s) still use it.`)
+    }
+    report.manifests.filter(entry => entry.manifest !== '').forEach(entry => {
+      onWarning({ message: `${migration.from} is also declared in ${entry.manifest}/package.json; swap it there by hand.`, output: '' })
+    })
+    for (const command of dependencyCommands) {
+      onLog(`> ${command}`)
+      try {
+        const { stdout, stderr } = await runCommand(command, workspacePath, { timeout: 15 * 60 * 1000, maxBuffer: 50 * 1024 * 1024 })
+        splitOutputLines(`${stdout}${stderr}`).forEach(line => onLog(line))
+      } catch (error: any) {
+        const output = `${error?.stdout || ''}${error?.stderr || ''}`.trim() || String(error?.message || '')
+        splitOutputLines(output).forEach(line => onLog(line))
+        return fail(`Dependency swap failed: ${command}`, sites)
+      }
+    }
+
+    if (!(await hasGitChanges(workspacePath))) {
+      return fail('The migration produced no changes.', sites)
+    }
+
+    if (baselineValidation) {
+      onProgress('Running post-migration validation...', ++currentStep, totalSteps)
+      const postValidation = await runValidationSteps(validationCommands, workspacePath, onLog, onWarning, {
+        timeoutMs: effectiveTimeoutMs,
+        stageLabel: 'Post-migration validation'
+      })
+      validationOutput.push(postValidation.output)
+      const regression = postValidation.success
+        ? { regressed: false }
+        : baselineValidation.success
+          ? { regressed: true, reason: `fails at ${postValidation.failedCommand || 'unknown step'}` }
+          : isValidationRegression(baselineValidation.output, postValidation.output)
+      if (regression.regressed) {
+        const summary = extractFailureSummary(postValidation.output)
+        return fail(`Post-migration validation regressed (${regression.reason || 'new failures detected'})${summary ? ` (${summary})` : ''}. No commit was created.`, {
+          ...sites,
+          testsPassed: false,
+          testOutput: postValidation.output
+        })
+      }
+      onLog(`✓ Post-migration validation ${postValidation.success ? 'passed' : 'shows no regression versus baseline'}`)
+    }
+
+    onProgress('Committing changes...', ++currentStep, totalSteps)
+    const title = `chore(deps): migrate ${migration.from} to ${migration.to}`
+    await commitChanges(
+      workspacePath,
+      `${title}\n\n${report.rewritten.length} site(s) rewritten, ${report.manual.length} left for manual follow-up.`,
+      [...report.changedFiles, ...getFilesToCommit('javascript')]
+    )
+    deleteBranchOnCleanup = false
+    const testsPassed = baselineValidation ? baselineValidation.success : undefined
+    const result: PackageMigrationResult = {
+      success: true,
+      from,
+      to: migration.to,
+      branchName: safeBranchName,
+      ...sites,
+      removedPackage,
+      installedPackage,
+      testsPassed,
+      testOutput: validationOutput.filter(Boolean).join('\n\n')
+    }
+
+    let prUrl: string | null = null
+    if (createPR) {
+      onProgress('Pushing branch...', ++currentStep, totalSteps)
+      await pushBranch(workspacePath, safeBranchName)
+      onProgress('Creating pull request...', ++currentStep, totalSteps)
+      prUrl = await createPullRequest(workspacePath, title, [
+        '## Summary',
+        `Replaces the banned package \`${migration.from}\` with ${migration.builtin ? `the built-in \`${migration.to}\`` : `\`${migration.to}\``} via Bridge.`,
+        '',
+        renderMigrationReport(report)
+      ].join('\n'))
+    } else {
+      onLog(`✓ Changes committed on '${safeBranchName}'`)
+    }
+
+    await appendBridgeUpdateLog(repoPath, {
+      timestamp: new Date().toISOString(),
+      workflow: 'migration',
+      branchName: safeBranchName,
+      updatedPackages: [`${migration.from} → ${migration.to}`],
+      createPR,
+      prUrl,
+      testsPassed
+    })
+    return { ...result, prUrl }
+  } catch (error) {
+    return fail(formatError(error, 'Package migration failed.'))
+  } finally {
+    if (workspaceCreated) {
+      await cleanupIsolatedWorkspace(repoPath, workspacePath, safeBranchName, {
+        deleteBranch: deleteBranchOnCleanup
+      })
+    }
+  }
+}
+
+export async function getRequiredPackageStatus(repoPath: string): Promise<RequiredPackageStatus> {
+  const required = getRequiredPackages(await loadBridgeConfig(repoPath))
+  if (required.length === 0) {
+    return { required, issues: [] }
+  }
+  return { required, issues: findRequiredPackageIssues(required, await readDeclaredDependencies(repoPath)) }
+}
+
+export async function runRequiredPackagesPipeline(
+  config: RequiredPackagesConfig,
+  handlers: PatchBatchHandlers = {}
+): Promise<PatchBatchResult> {
+  const { repoPath, createPR, runTests: shouldRunTests, baseBranch, remoteFirst } = config
+  const onProgress = handlers.onProgress || (() => {})
+  const onLog = handlers.onLog || (() => {})
+  const onWarning = handlers.onWarning || (() => {})
+  const safeBranchName = normalizeBranchName(config.branchName || `bridge-required-packages-${Date.now()}`)
+  const totalSteps = 3 + (shouldRunTests ? 3 : 0) + (createPR ? 2 : 0)
+  let currentStep = 0
+  let workspacePath = repoPath
+  let workspaceCreated = false
+  let deleteBranchOnCleanup = true
+  let effectiveTimeoutMs = normalizeConfiguredTimeoutMs(config.testTimeoutMs) ?? DEFAULT_TEST_TIMEOUT_MS
+  let validationCommands: ValidationStep[] = []
+  const validationOutput: string[] = []
+
+  const fail = async (message: string, extra?: Partial<PatchBatchResult>): Promise<PatchBatchResult> => {
+    onLog(`✗ ${message}`)
+    return { success: false, error: message, branchName: safeBranchName, ...extra }
+  }
+
+  try {
+    await fs.access(path.join(repoPath, '.git'))
+    await fs.access(path.join(repoPath, 'package.json'))
+  } catch {
+    return fail('Git and package.json are required to add required packages.')
+  }
+
+  const bridgeConfig = await loadBridgeConfig(repoPath)
+  const required = getRequiredPackages(bridgeConfig)
+  if (required.length === 0) {
+    return fail('No dependencies.requiredPackages configured in .bridge.json.')
+  }
+  if (!config.testTimeoutMs && bridgeConfig.gates?.tests?.timeout) {
+    effectiveTimeoutMs = normalizeConfiguredTimeoutMs(bridgeConfig.gates.tests.timeout) ?? effectiveTimeoutMs
+  }
+  if (shouldRunTests) {
+    const testCommand = await normalizeConfiguredValidationCommand(
+      repoPath,
+      config.testCommand || bridgeConfig.gates?.tests?.command || undefined
+    )
+    validationCommands = await resolveJavascriptValidationCommands(repoPath, testCommand)
+    if (validationCommands.length === 0) {
+      return fail('No validation commands detected. Add test/lint/build scripts or set gates.tests.command in .bridge.json.')
+    }
+  }
+
+  if (createPR) {
+    const ghStatus = await getGitHubCliStatus(repoPath)
+    if (!ghStatus.installed || !ghStatus.authenticated) {
+      return fail(ghStatus.message || 'GitHub CLI is required and must be authenticated before creating PRs.')
+    }
+  }
+
+  try {
+    onProgress('Preparing isolated workspace...', ++currentStep, totalSteps)
+    workspacePath = await createIsolatedWorkspace(repoPath, safeBranchName, { baseBranch, remoteFirst, onLog })
+    workspaceCreated = true
+    onLog(`Using isolated workspace: ${workspacePath}`)
+
+    const issues = findRequiredPackageIssues(required, await readDeclaredDependencies(workspacePath))
+    if (issues.length === 0) {
+      return fail('Every required package is already declared on the base branch.')
+    }
+    issues.forEach(issue => onLog(`Required: ${describeRequiredPackageIssue(issue)}`))
+
+    let baselineValidation: Awaited<ReturnType<typeof runValidationSteps>> | null = null
+    if (shouldRunTests) {
+      onProgress('Installing baseline dependencies...', ++currentStep, totalSteps)
+      try {
+        await installDependenciesForValidation(workspacePath, onLog, validationCommands)
+      } catch (error) {
+        return fail(`Baseline dependency install failed: ${formatError(error, 'Install failed')}`)
+      }
+      onProgress('Running pre-update validation...', ++currentStep, totalSteps)
+      baselineValidation = await runValidationSteps(validationCommands, workspacePath, onLog, onWarning, {
+        timeoutMs: effectiveTimeoutMs,
+        stageLabel: 'Pre-update validation'
+      })
+      validationOutput.push(baselineValidation.output)
+      if (!baselineValidation.success) {
+        onWarning({
+          message: `Baseline validation failed at ${baselineValidation.failedCommand || 'unknown step'}. Adding required packages must not introduce new failures.`,
+          output: ''
+        })
+      }
+    }
+
+    onProgress('Adding required packages...', ++currentStep, totalSteps)
+    const packageManager = await detectNodePackageManager(workspacePath)
+    const managerCommand = await resolvePackageManagerCommand(workspacePath, packageManager)
+    const isDev = (issue: RequiredPackageIssue) => issue.type
+      ? issue.type === 'devDependencies'
+      : issue.declared?.field === 'devDependencies'
+    for (const dev of [false, true]) {
+      const specs = issues.filter(issue => isDev(issue) === dev).map(requiredPackageSpec)
+      if (specs.length === 0) continue
+      const installCommand = getPinnedInstallCommand(packageManager, managerCommand, specs, dev)
+      onLog(`> ${installCommand}`)
+      try {
+        const { stdout, stderr } = await runCommand(installCommand, workspacePath, { timeout: 15 * 60 * 1000, maxBuffer: 50 * 1024 * 1024 })
+        splitOutputLines(`${stdout}${stderr}`).forEach(line => onLog(line))
+      } catch (error: any) {
+        const output = `${error?.stdout || ''}${error?.stderr || ''}`.trim() || String(error?.message || '')
+        splitOutputLines(output).forEach(line => onLog(line))
+        return fail(`Could not install ${specs.join(', ')}.`)
+      }
+    }
+    const remaining = findRequiredPackageIssues(required, await readDeclaredDependencies(workspacePath))
+    if (remaining.length > 0) {
+      return fail(`Still unsatisfied after install: ${remaining.map(describeRequiredPackageIssue).join('; ')}.`)
+    }
+    const addedPackages = issues.map(requiredPackageSpec)
+    const lockfileDiff = await analyzeLockfileChanges(workspacePath, repoPath, onLog, onWarning)
+
+    if (baselineValidation) {
+      onProgress('Running post-update validation...', ++currentStep, totalSteps)
+      const postValidation = await runValidationSteps(validationCommands, workspacePath, onLog, onWarning, {
+        timeoutMs: effectiveTimeoutMs,
+        stageLabel: 'Post-update validation'
+      })
+      validationOutput.push(postValidation.output)
+      const regression = postValidation.success
+        ? { regressed: false }
+        : baselineValidation.success
+          ? { regressed: true, reason: `fails at ${postValidation.failedCommand || 'unknown step'}` }
+          : isValidationRegression(baselineValidation.output, postValidation.output)
+      if (regression.regressed) {
+        const summary = extractFailureSummary(postValidation.output)
+        return fail(`Post-update validation regressed (${regression.reason || 'new failures detected'})${summary ? ` (${summary})` : ''}. No commit was created.`, {
+          testsPassed: false,
+          testOutput: postValidation.output
+        })
+      }
+      onLog(`✓ Post-update validation ${postValidation.success ? 'passed' : 'shows no regression versus baseline'}`)
+    }
+
+    onProgress('Committing changes...', ++currentStep, totalSteps)
+    const title = 'chore(deps): add required packages'
+    const summary = issues.map(issue => `- ${requiredPackageSpec(issue)} (${describeRequiredPackageIssue(issue)})`).join('\n')
+    await commitChanges(workspacePath, `${title}\n\n${summary}`, getFilesToCommit('javascript'))
+    deleteBranchOnCleanup = false
+    const testsPassed = baselineValidation ? baselineValidation.success : undefined
+
+    let prUrl: string | null = null
+    if (createPR) {
+      onProgress('Pushing branch...', ++currentStep, totalSteps)
+      await pushBranch(workspacePath, safeBranchName)
+      onProgress('Creating pull request...', ++currentStep, totalSteps)
+      prUrl = await createPullRequest(workspacePath, title, [
+        '## Summary',
+        'Adds the packages `.bridge.json` lists under `dependencies.requiredPackages` via Bridge.',
+        '',
+        '### Required packages',
+        summary,
+        ...(lockfileDiff ? ['', renderReleaseDigest([], lockfileDiff)] : [])
+      ].join('\n'))
+    } else {
+      onLog(`✓ Changes committed on '${safeBranchName}'`)
+    }
+
+    await appendBridgeUpdateLog(repoPath, {
+      timestamp: new Date().toISOString(),
+      workflow: 'required-packages',
+      branchName: safeBranchName,
+      updatedPackages: addedPackages,
+      createPR,
+      prUrl,
+      testsPassed,
+      lockfileDiff: lockfileDiff ?? undefined
+    })
+    return {
+      success: true,
+      branchName: safeBranchName,
+      branchPushed: createPR,
+      prUrl,
+      updatedPackages: addedPackages,
+      testsPassed,
+      testOutput: validationOutput.filter(Boolean).join('\n\n'),
+      lockfileDiff: lockfileDiff ?? undefined
+    }
+  } catch (error) {
+    return fail(formatError(error, 'Adding required packages failed.'))
+  } finally {
+    if (workspaceCreated) {
+      await cleanupIsolatedWorkspace(repoPath, workspacePath, safeBranchName, {
+        deleteBranch: deleteBranchOnCleanup
+      })
+    }
+  }
+}
@@ -0,0 +1,478 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { BridgeScanReport } from './scanReport'
+import { listSecurityPatternRules, SARIF_IMPORTS_FILE, type SecurityPatternFinding } from './securityPatterns'
+import {
+  architectureViolationFingerprint,
+  securityFindingFingerprint
+} from '../../bridge-mcp/src/core/fingerprints.js'
+
+export const SARIF_VERSION = '2.1.0'
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+
+const BRIDGE_TOOL_NAME = 'Bridge'
+const BRIDGE_INFORMATION_URI = 'https://github.com/cmccoy02/bridge-desktop'
+
+type SarifLevel = 'error' | 'warning' | 'note' | 'none'
+
+interface SarifMessage {
+  text: string
+}
+
+interface SarifPhysicalLocation {
+  artifactLocation: { uri: string; uriBaseId?: string }
+  region?: {
+    startLine?: number
+    startColumn?: number
+    snippet?: { text: string }
+  }
+}
+
+interface SarifLocation {
+  physicalLocation?: SarifPhysicalLocation
+  message?: SarifMessage
+}
+
+export interface SarifRule {
+  id: string
+  name?: string
+  shortDescription?: SarifMessage
+  fullDescription?: SarifMessage
+  help?: SarifMessage
+  defaultConfiguration?: { level: SarifLevel }
+  properties?: Record<string, unknown>
+}
+
+export interface SarifResult {
+  ruleId?: string
+  ruleIndex?: number
+  level?: SarifLevel
+  message: SarifMessage
+  locations?: SarifLocation[]
+  relatedLocations?: SarifLocation[]
+  partialFingerprints?: Record<string, string>
+  properties?: Record<string, unknown>
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string
+      version?: string
+      informationUri?: string
+      rules?: SarifRule[]
+    }
+  }
+  originalUriBaseIds?: Record<string, { uri: string }>
+  versionControlProvenance?: Array<{ repositoryUri: string; revisionId?: string; branch?: string }>
+  invocations?: Array<{ executionSuccessful: boolean; endTimeUtc?: string }>
+  results?: SarifResult[]
+}
+
+export interface SarifLog {
+  $schema?: string
+  version: string
+  runs: SarifRun[]
+}
+
+export interface SarifImport {
+  tool: string
+  sourcePath: string
+  importedAt: string
+  findings: SecurityPatternFinding[]
+}
+
+export interface SarifImportSummary {
+  tool: string
+  sourcePath: string
+  importedAt: string
+  findingCount: number
+}
+
+type Severity = SecurityPatternFinding['severity']
+
+// GitHub code scanning reads `security-severity` as a CVSS-like score.
+const SECURITY_SEVERITY: Record<Severity, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '2.0'
+}
+
+const BRIDGE_RULES: SarifRule[] = [
+  {
+    id: 'bridge/dependency-vulnerability',
+    name: 'DependencyVulnerability',
+    shortDescription: { text: 'Vulnerable dependency' },
+    fullDescription: { text: 'npm audit reported known vulnerabilities for an installed package.' },
+    help: { text: 'Upgrade the package to a patched version or apply `npm audit fix`.' },
+    properties: { tags: ['security', 'dependencies', 'CWE-937', 'A06:2021'] }
+  },
+  {
+    id: 'bridge/circular-dependency',
+    name: 'CircularDependency',
+    shortDescription: { text: 'Circular module dependency' },
+    fullDescription: { text: 'Modules import each other in a cycle.' },
+    help: { text: 'Extract shared code into a separate module or invert one of the imports.' },
+    defaultConfiguration: { level: 'warning' },
+    properties: { tags: ['maintainability', 'architecture'] }
+  },
+  {
+    id: 'bridge/architecture-rule',
+    name: 'ArchitectureRule',
+    shortDescription: { text: 'Architecture rule violation' },
+    fullDescription: { text: 'An import crosses a layer boundary forbidden by architecture.rules in .bridge.json.' },
+    help: { text: 'Move the shared code to a layer both sides may import, or invert the dependency.' },
+    defaultConfiguration: { level: 'error' },
+    properties: { tags: ['maintainability', 'architecture'] }
+  },
+  {
+    id: 'bridge/dead-file',
+    name: 'DeadFile',
+    shortDescription: { text: 'Unused file' },
+    fullDescription: { text: 'The file is not reachable from any entry point.' },
+    help: { text: 'Delete the file or wire it into the application.' },
+    defaultConfiguration: { level: 'note' },
+    properties: { tags: ['maintainability', 'dead-code'] }
+  },
+  {
+    id: 'bridge/unused-export',
+    name: 'UnusedExport',
+    shortDescription: { text: 'Unused export' },
+    fullDescription: { text: 'The export is not imported anywhere in the repository.' },
+    help: { text: 'Remove the export or the unused code behind it.' },
+    defaultConfiguration: { level: 'note' },
+    properties: { tags: ['maintainability', 'dead-code'] }
+  }
+]
+
+function toSarifLevel(severity: Severity): SarifLevel {
+  if (severity === 'critical' || severity === 'high') return 'error'
+  if (severity === 'medium') return 'warning'
+  return 'note'
+}
+
+function toUri(file: string): string {
+  return file.split(path.sep).join('/').replace(/^\.\//, '')
+}
+
+function fileLocation(file: string, line?: number, column?: number, snippet?: string): SarifLocation {
+  const region: NonNullable<SarifPhysicalLocation['region']> = {}
+  if (line && line > 0) region.startLine = line
+  if (column && column > 0) region.startColumn = column
+  if (snippet) region.snippet = { text: snippet }
+
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: toUri(file), uriBaseId: '%SRCROOT%' },
+      ...(Object.keys(region).length > 0 ? { region } : {})
+    }
+  }
+}
+
+function highestSeverity(counts: { critical: number; high: number; medium: number; low: number }): Severity {
+  if (counts.critical > 0) return 'critical'
+  if (counts.high > 0) return 'high'
+  if (counts.medium > 0) return 'medium'
+  return 'low'
+}
+
+export function buildSarifLog(report: BridgeScanReport): SarifLog {
+  const rules: SarifRule[] = [
+    ...listSecurityPatternRules().map(rule => ({
+      id: rule.id,
+      name: rule.title.replace(/[^A-Za-z0-9]+/g, ''),
+      shortDescription: { text: rule.title },
+      fullDescription: { text: rule.description },
+      help: { text: rule.suggestion },
+      defaultConfiguration: { level: toSarifLevel(rule.severity) },
+      properties: {
+        tags: ['security', rule.category, rule.cwe, rule.owasp],
+        'security-severity': SECURITY_SEVERITY[rule.severity],
+        precision: 'medium'
+      }
+    })),
+    ...BRIDGE_RULES
+  ]
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]))
+  const results: SarifResult[] = []
+
+  for (const finding of report.security.patternFindings) {
+    if (finding.source) continue
+    const ruleId = finding.ruleId || finding.category
+    results.push({
+      ruleId,
+      ruleIndex: ruleIndex.get(ruleId),
+      level: toSarifLevel(finding.severity),
+      message: { text: `${finding.title}: ${finding.description}` },
+      locations: [fileLocation(finding.file, finding.line, finding.column, finding.snippet)],
+      partialFingerprints: { 'bridgeFinding/v1': securityFindingFingerprint(finding) },
+      properties: {
+        severity: finding.severity,
+        'security-severity': SECURITY_SEVERITY[finding.severity],
+        ...(finding.cwe ? { cwe: finding.cwe } : {}),
+        ...(finding.owasp ? { owasp: finding.owasp } : {})
+      }
+    })
+  }
+
+  for (const pkg of report.dependencies.outdated) {
+    const vulnerabilities = pkg.vulnerabilities
+    if (!vulnerabilities || vulnerabilities.total === 0) continue
+    const severity = highestSeverity(vulnerabilities)
+    results.push({
+      ruleId: 'bridge/dependency-vulnerability',
+      ruleIndex: ruleIndex.get('bridge/dependency-vulnerability'),
+      level: toSarifLevel(severity),
+      message: {
+        text: `${pkg.name}@${pkg.current} has ${vulnerabilities.total} known vulnerabilities (${vulnerabilities.critical} critical, ${vulnerabilities.high} high). Latest: ${pkg.latest}.`
+      },
+      locations: [fileLocation('package.json')],
+      partialFingerprints: { 'bridgeFinding/v1': `dependency|${pkg.name}` },
+      properties: { severity, 'security-severity': SECURITY_SEVERITY[severity] }
+    })
+  }
+
+  for (const dependency of report.architecture.circularDependencies.dependencies) {
+    const cycle = dependency.cycle.length > 0 ? dependency.cycle : [dependency.from, dependency.to]
+    results.push({
+      ruleId: 'bridge/circular-dependency',
+      ruleIndex: ruleIndex.get('bridge/circular-dependency'),
+      level: 'warning',
+      message: { text: `Circular dependency: ${cycle.join(' -> ')}` },
+      locations: [fileLocation(cycle[0])],
+      relatedLocations: cycle.slice(1).map(file => fileLocation(file))
+    })
+  }
+
+  for (const violation of report.architecture.rules?.violations || []) {
+    results.push({
+      ruleId: 'bridge/architecture-rule',
+      ruleIndex: ruleIndex.get('bridge/architecture-rule'),
+      level: violation.severity === 'error' ? 'error' : 'warning',
+      message: { text: `Architecture rule "${violation.rule}": ${violation.from} imports ${violation.to}.` },
+      locations: [fileLocation(violation.from)],
+      partialFingerprints: { 'bridgeFinding/v1': architectureViolationFingerprint(violation) },
+      properties: { rule: violation.rule, importKind: violation.kind }
+    })
+  }
+
+  for (const file of report.architecture.deadCode.deadFiles) {
+    results.push({
+      ruleId: 'bridge/dead-file',
+      ruleIndex: ruleIndex.get('bridge/dead-file'),
+      level: 'note',
+      message: { text: `${file} is not imported by any entry point.` },
+      locations: [fileLocation(file)]
+    })
+  }
+
+  for (const entry of report.architecture.deadCode.unusedExports) {
+    results.push({
+      ruleId: 'bridge/unused-export',
+      ruleIndex: ruleIndex.get('bridge/unused-export'),
+      level: 'note',
+      message: { text: `Export '${entry.exportName}' is never imported.` },
+      locations: [fileLocation(entry.file)]
+    })
+  }
+
+  const repositoryUri = report.repository.url
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: BRIDGE_TOOL_NAME,
+            informationUri: BRIDGE_INFORMATION_URI,
+            rules
+          }
+        },
+        originalUriBaseIds: {
+          '%SRCROOT%': { uri: `file://${toUri(path.resolve(report.repository.path))}/` }
+        },
+        ...(repositoryUri
+          ? {
+              versionControlProvenance: [{
+                repositoryUri,
+                revisionId: report.repository.commit,
+                branch: report.repository.branch
+              }]
+            }
+          : {}),
+        invocations: [{ executionSuccessful: true, endTimeUtc: report.generatedAt }],
+        results
+      }
+    ]
+  }
+}
+
+export async function writeSarifReport(report: BridgeScanReport, outputPath: string): Promise<string> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true })
+  await fs.writeFile(outputPath, JSON.stringify(buildSarifLog(report), null, 2) + '\n', 'utf-8')
+  return outputPath
+}
+
+function severityFromScore(score: number): Severity {
+  if (score >= 9) return 'critical'
+  if (score >= 7) return 'high'
+  if (score >= 4) return 'medium'
+  return 'low'
+}
+
+function severityFromLevel(level: unknown): Severity {
+  if (level === 'error') return 'high'
+  if (level === 'warning') return 'medium'
+  return 'low'
+}
+
+function ruleTags(rule: SarifRule | undefined): string[] {
+  const tags = rule?.properties?.tags
+  return Array.isArray(tags) ? tags.map(String) : []
+}
+
+function findCwe(tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const match = tag.match(/cwe[-/](\d+)/i)
+    if (match) return `CWE-${match[1]}`
+  }
+  return undefined
+}
+
+function findOwasp(tags: string[]): string | undefined {
+  return tags.map(tag => tag.match(/A\d{2}:\d{4}/)?.[0]).find(Boolean)
+}
+
+function toRepoRelative(uri: string, repoPath: string): string {
+  let file = uri.replace(/^file:\/\//, '')
+  try {
+    file = decodeURIComponent(file)
+  } catch {
+    // Keep the raw URI when it is not valid percent-encoding.
+  }
+  if (path.isAbsolute(file)) {
+    file = path.relative(repoPath, file)
+  }
+  return toUri(file)
+}
+
+export function parseSarifLog(log: unknown, repoPath: string): Array<{ tool: string; findings: SecurityPatternFinding[] }> {
+  const sarif = log as Partial<SarifLog> | null
+  if (!sarif || !Array.isArray(sarif.runs)) {
+    throw new Error('Not a SARIF log: missing "runs" array.')
+  }
+
+  return sarif.runs.map(run => {
+    const tool = run?.tool?.driver?.name || 'unknown'
+    const rules = run?.tool?.driver?.rules || []
+    const rulesById = new Map(rules.map(rule => [rule.id, rule]))
+
+    const findings: SecurityPatternFinding[] = []
+    for (const result of run?.results || []) {
+      const rule = (typeof result.ruleIndex === 'number' ? rules[result.ruleIndex] : undefined)
+        || (result.ruleId ? rulesById.get(result.ruleId) : undefined)
+      const ruleId = result.ruleId || rule?.id || 'unknown'
+      const physical = result.locations?.[0]?.physicalLocation
+      const tags = ruleTags(rule)
+      const scoreValue = Number(result.properties?.['security-severity'] ?? rule?.properties?.['security-severity'])
+      const severity = Number.isFinite(scoreValue)
+        ? severityFromScore(scoreValue)
+        : severityFromLevel(result.level ?? rule?.defaultConfiguration?.level ?? 'warning')
+
+      findings.push({
+        ruleId,
+        source: tool,
+        file: physical?.artifactLocation?.uri ? toRepoRelative(physical.artifactLocation.uri, repoPath) : '',
+        line: physical?.region?.startLine || 1,
+        column: physical?.region?.startColumn,
+        severity,
+        category: ruleId,
+        cwe: findCwe(tags),
+        owasp: findOwasp(tags),
+        title: rule?.shortDescription?.text || rule?.name || ruleId,
+        description: result.message?.text || rule?.fullDescription?.text || '',
+        suggestion: rule?.help?.text || '',
+        snippet: (physical?.region?.snippet?.text || '').trim().slice(0, 400)
+      })
+    }
+
+    return { tool, findings }
+  })
+}
+
+function importsPath(repoPath: string): string {
+  return path.join(repoPath, '.bridge', SARIF_IMPORTS_FILE)
+}
+
+async function readImports(repoPath: string): Promise<SarifImport[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(importsPath(repoPath), 'utf-8'))
+    return Array.isArray(parsed?.imports) ? parsed.imports : []
+  } catch {
+    return []
+  }
+}
+
+async function writeImports(repoPath: string, imports: SarifImport[]): Promise<void> {
+  await fs.mkdir(path.dirname(importsPath(repoPath)), { recursive: true })
+  await fs.writeFile(importsPath(repoPath), JSON.stringify({ imports }, null, 2) + '\n', 'utf-8')
+}
+
+function summarize(entry: SarifImport): SarifImportSummary {
+  return {
+    tool: entry.tool,
+    sourcePath: entry.sourcePath,
+    importedAt: entry.importedAt,
+    findingCount: entry.findings.length
+  }
+}
+
+export async function importSarifFile(repoPath: string, sarifPath: string): Promise<SarifImportSummary[]> {
+  const resolvedPath = path.resolve(sarifPath)
+  let log: unknown
+  try {
+    log = JSON.parse(await fs.readFile(resolvedPath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Failed to read SARIF file ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const importedAt = new Date().toISOString()
+  const runs = parseSarifLog(log, repoPath)
+  const imports = await readImports(repoPath)
+  const added: SarifImport[] = []
+
+  for (const run of runs) {
+    const existing = added.find(entry => entry.tool === run.tool)
+    if (existing) {
+      existing.findings.push(...run.findings)
+    } else {
+      added.push({ tool: run.tool, sourcePath: resolvedPath, importedAt, findings: run.findings })
+    }
+  }
+
+  const addedTools = new Set(added.map(entry => entry.tool))
+  await writeImports(repoPath, [...imports.filter(entry => !addedTools.has(entry.tool)), ...added])
+  return added.map(summarize)
+}
+
+export async function listSarifImports(repoPath: string): Promise<SarifImportSummary[]> {
+  return (await readImports(repoPath)).map(summarize)
+}
+
+export async function removeSarifImport(repoPath: string, tool: string): Promise<SarifImportSummary[]> {
+  const remaining = (await readImports(repoPath)).filter(entry => entry.tool !== tool)
+  await writeImports(repoPath, remaining)
+  return remaining.map(summarize)
+}
+
+export async function exportLatestSarifReport(repoPath: string, outputPath: string): Promise<string> {
+  let report: BridgeScanReport
+  try {
+    report = JSON.parse(await fs.readFile(path.join(repoPath, '.bridge', 'latest-report.json'), 'utf-8')) as BridgeScanReport
+  } catch {
+    throw new Error('No scan report found. Run a full scan before exporting SARIF.')
+  }
+  return await writeSarifReport(report, outputPath)
+}
@@ -0,0 +1,102 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { ArchitectureRulesReport, CircularDependencyReport, DeadCodeReport } from './analysis'
+import type { BridgeConfig } from './bridgeConfig'
+import type { SecurityPatternFinding } from './securityPatterns'
+import type { BridgeScanReport } from './scanReport'
+import {
+  compareWithBaseline,
+  fingerprintBaselineFindings,
+  loadBaseline,
+  resolveBaseBranch,
+  writeBaseline,
+  type BaselineComparison,
+  type BaselineFindings,
+  type ScanBaseline
+} from '../../bridge-mcp/src/core/baseline.js'
+
+export type { BaselineComparison }
+export { resolveBaseBranch }
+
+export function collectBaselineFindings(
+  config: BridgeConfig,
+  scan: {
+    circularDependencies?: CircularDependencyReport
+    deadCode?: DeadCodeReport
+    architectureRules?: ArchitectureRulesReport
+    patternFindings?: SecurityPatternFinding[]
+  }
+): Partial<BaselineFindings> {
+  const { circularDependencies: circular, deadCode, architectureRules: rules } = scan
+  return fingerprintBaselineFindings(config, {
+    circularCycles: circular && !circular.error ? circular.dependencies.map(dependency => dependency.cycle) : null,
+    deadCode: deadCode && !(deadCode.error && deadCode.totalDeadCodeCount === 0) ? deadCode : null,
+    architectureViolations: rules && !rules.error ? rules.violations : null,
+    securityFindings: scan.patternFindings
+  })
+}
+
+export async function compareScanWithBaseline(
+  repoPath: string,
+  baseBranch: string,
+  findings: Partial<BaselineFindings>
+): Promise<BaselineComparison | null> {
+  const baseline = await loadBaseline(repoPath, baseBranch)
+  return baseline ? compareWithBaseline(baseline, findings) : null
+}
+
+function reportFindings(report: BridgeScanReport): Partial<BaselineFindings> {
+  return collectBaselineFindings(report.config, {
+    circularDependencies: report.architecture.circularDependencies,
+    deadCode: report.architecture.deadCode,
+    architectureRules: report.architecture.rules,
+    patternFindings: report.security.patternFindings
+  })
+}
+
+export async function saveScanBaseline(
+  repoPath: string,
+  report: BridgeScanReport,
+  baseBranch?: string
+): Promise<ScanBaseline> {
+  const branch = baseBranch || await resolveBaseBranch(repoPath)
+  const previous = await loadBaseline(repoPath, branch)
+  const findings = reportFindings(report)
+
+  const baseline: ScanBaseline = {
+    version: 1,
+    branch,
+    commit: report.repository.commit,
+    generatedAt: report.generatedAt,
+    findings: {
+      circularDependencies: findings.circularDependencies || previous?.findings.circularDependencies || [],
+      deadFiles: findings.deadFiles || previous?.findings.deadFiles || [],
+      unusedExports: findings.unusedExports || previous?.findings.unusedExports || [],
+      securityFindings: findings.securityFindings || previous?.findings.securityFindings || [],
+      architectureViolations: findings.architectureViolations || previous?.findings.architectureViolations
+    }
+  }
+
+  await writeBaseline(repoPath, baseline)
+  return baseline
+}
+
+export async function refreshBaseBranchBaseline(repoPath: string, report: BridgeScanReport): Promise<boolean> {
+  const baseBranch = await resolveBaseBranch(repoPath)
+  if (!report.repository.branch || report.repository.branch !== baseBranch) {
+    return false
+  }
+  await saveScanBaseline(repoPath, report, baseBranch)
+  return true
+}
+
+export async function saveLatestScanBaseline(repoPath: string): Promise<ScanBaseline> {
+  let report: BridgeScanReport
+  try {
+    const raw = await fs.readFile(path.join(repoPath, '.bridge', 'latest-report.json'), 'utf-8')
+    report = JSON.parse(raw) as BridgeScanReport
+  } catch {
+    throw new Error('No scan report found. Run a full scan before saving a baseline.')
+  }
+  return await saveScanBaseline(repoPath, report)
+}
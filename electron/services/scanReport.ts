@@ -3,11 +3,14 @@ import path from 'path'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import type {
+  ArchitectureRulesReport,
   BundleAnalysisReport,
   CircularDependencyReport,
+  ComplexityReport,
   DeadCodeReport,
   DependencyReport,
   DocumentationDebtReport,
+  DuplicationReport,
   FullScanResult,
   OversizedComponent,
   TestCoverageReport,
@@ -18,6 +21,17 @@ import type { GateResult } from './gateEvaluator'
 import { evaluateGates } from './gateEvaluator'
 import type { ActionItem, TechDebtScore } from './techDebtScorer'
 import type { SecurityPatternFinding } from './securityPatterns'
+import { writeSarifReport } from './sarif'
+import type { PathFilterSummary } from '../../bridge-mcp/src/core/pathFilter.js'
+import { findRequiredPackageIssues, getRequiredPackages, requiredPackageSpec } from '../../bridge-mcp/src/core/requiredPackages.js'
+import type { SuppressionReport } from '../../bridge-mcp/src/core/suppressions.js'
+import { detectBuildCommand } from '../../bridge-mcp/src/core/repoAnalyzer.js'
+import {
+  collectBaselineFindings,
+  compareScanWithBaseline,
+  resolveBaseBranch,
+  type BaselineComparison
+} from './scanBaseline'
 
 const execAsync = promisify(exec)
 
@@ -45,6 +59,7 @@ export interface BridgeScanReport {
   architecture: {
     circularDependencies: CircularDependencyReport
     deadCode: DeadCodeReport
+    rules?: ArchitectureRulesReport
     bundleSize: BundleAnalysisReport
     oversizedFiles: OversizedComponent[]
   }
@@ -53,7 +68,15 @@ export interface BridgeScanReport {
     hasTests: boolean
     testCommand?: string
   }
+  build?: {
+    command: string | null
+  }
   documentation: DocumentationDebtReport
+  complexity?: ComplexityReport
+  duplication?: DuplicationReport
+  scanFilter?: PathFilterSummary
+  baseline?: BaselineComparison | null
+  suppressions?: SuppressionReport | null
   gates: {
     passed: boolean
     results: GateResult[]
@@ -153,8 +176,10 @@ function derivePolicies(
   )
   const bannedPresent = Array.from(banned).filter(pkg => installed.has(pkg))
 
-  const required = new Set((config.dependencies.requiredPackages || []).map(pkg => pkg.toLowerCase()))
-  const missingRequired = Array.from(required).filter(pkg => !installed.has(pkg))
+  const required = getRequiredPackages(config)
+  const missingRequired = dependencies.declaredDependencies
+    ? findRequiredPackageIssues(required, dependencies.declaredDependencies).map(requiredPackageSpec)
+    : required.filter(pkg => !installed.has(pkg.name.toLowerCase())).map(requiredPackageSpec)
 
   return {
     banned_present: bannedPresent,
@@ -171,12 +196,23 @@ export async function generateScanReport(
   extras: {
     patternFindings?: SecurityPatternFinding[]
     oversizedFiles?: OversizedComponent[]
+    generatedBy?: BridgeScanReport['generatedBy']
+    scanFilter?: PathFilterSummary
   } = {}
 ): Promise<BridgeScanReport> {
   const patternFindings = extras.patternFindings || []
   const oversizedFiles = extras.oversizedFiles || []
   const branch = await safeGitValue(repoPath, 'git rev-parse --abbrev-ref HEAD')
   const commit = await safeGitValue(repoPath, 'git rev-parse HEAD')
+  const baseBranch = await resolveBaseBranch(repoPath)
+  // The base branch itself is held to the absolute limits, not to its own previous scan.
+  const baseline = branch === baseBranch ? null : await compareScanWithBaseline(repoPath, baseBranch, collectBaselineFindings(config, {
+    circularDependencies: scanResults.circularDependencies,
+    deadCode: scanResults.deadCode,
+    architectureRules: scanResults.architectureRules,
+    patternFindings
+  }))
+  const build = { command: config.gates.build.command || await detectBuildCommand(repoPath) }
 
   const gatesResults = evaluateGates(config, {
     dependencies: scanResults.dependencies,
@@ -187,6 +223,7 @@ export async function generateScanReport(
     architecture: {
       circularDependencies: scanResults.circularDependencies,
       deadCode: scanResults.deadCode,
+      rules: scanResults.architectureRules,
       bundleSize: scanResults.bundleSize,
       oversizedFiles
     },
@@ -195,14 +232,17 @@ export async function generateScanReport(
       hasTests: Boolean(config.gates.tests.command),
       testCommand: config.gates.tests.command
     },
+    build,
     documentation: scanResults.documentation,
-    techDebt: techDebtScore
+    techDebt: techDebtScore,
+    baseline,
+    suppressions: scanResults.suppressions
   })
 
   const report: BridgeScanReport = {
     version: 1,
-    generatedAt: new Date().toISOString(),
-    generatedBy: 'bridge-desktop',
+    generatedAt: scanResults.scanDate,
+    generatedBy: extras.generatedBy || 'bridge-desktop',
     repository: {
       path: repoPath,
       name: path.basename(path.resolve(repoPath)),
@@ -223,6 +263,7 @@ export async function generateScanReport(
     architecture: {
       circularDependencies: scanResults.circularDependencies,
       deadCode: scanResults.deadCode,
+      rules: scanResults.architectureRules,
       bundleSize: scanResults.bundleSize,
       oversizedFiles
     },
@@ -231,7 +272,13 @@ export async function generateScanReport(
       hasTests: Boolean(config.gates.tests.command),
       testCommand: config.gates.tests.command
     },
+    build,
     documentation: scanResults.documentation,
+    complexity: scanResults.complexity,
+    duplication: scanResults.duplication,
+    scanFilter: extras.scanFilter,
+    baseline,
+    suppressions: scanResults.suppressions,
     gates: {
       passed: gatesResults.every(gate => gate.passed || gate.severity !== 'error'),
       results: gatesResults
@@ -254,7 +301,7 @@ export async function generateScanReport(
 export async function writeScanReportArtifacts(
   repoPath: string,
   report: BridgeScanReport
-): Promise<{ latestReportPath: string; latestScorePath: string; archivePath: string; configSnapshotPath: string }> {
+): Promise<{ latestReportPath: string; latestScorePath: string; archivePath: string; configSnapshotPath: string; sarifPath: string }> {
   const bridgeDir = path.join(repoPath, '.bridge')
   const reportsDir = path.join(bridgeDir, 'reports')
   await fs.mkdir(reportsDir, { recursive: true })
@@ -264,10 +311,12 @@ export async function writeScanReportArtifacts(
   const latestScorePath = path.join(bridgeDir, 'latest-score.json')
   const archivePath = path.join(reportsDir, `${timestampSafe}.json`)
   const configSnapshotPath = path.join(bridgeDir, 'config-snapshot.json')
+  const sarifPath = path.join(bridgeDir, 'latest-report.sarif')
 
   await fs.writeFile(latestReportPath, JSON.stringify(report, null, 2) + '\n', 'utf-8')
   await fs.writeFile(archivePath, JSON.stringify(report, null, 2) + '\n', 'utf-8')
   await fs.writeFile(configSnapshotPath, JSON.stringify(report.config, null, 2) + '\n', 'utf-8')
+  await writeSarifReport(report, sarifPath)
 
   // Keep score artifact tiny for agent consumption (< 2KB target).
   const compactDimensions = Object.fromEntries(
@@ -278,10 +327,19 @@ export async function writeScanReportArtifacts(
     }])
   )
 
+  const trendDetails = report.techDebt.trendDetails
   let minimalScore: Record<string, any> = {
+    generatedAt: report.generatedAt,
     total: Number(report.techDebt.total.toFixed(1)),
     grade: report.techDebt.grade,
     trend: report.techDebt.trend,
+    trendDetails: trendDetails
+      ? {
+          delta: trendDetails.delta,
+          samples: trendDetails.samples,
+          dimensionDeltas: trendDetails.dimensionDeltas
+        }
+      : undefined,
     dimensions: compactDimensions,
     topContributors: report.techDebt.topContributors.slice(0, 3).map(item => ({
       dimension: item.dimension,
@@ -300,6 +358,7 @@ export async function writeScanReportArtifacts(
   let serializedScore = JSON.stringify(minimalScore)
   if (Buffer.byteLength(serializedScore, 'utf-8') > 2000) {
     minimalScore = {
+      generatedAt: minimalScore.generatedAt,
       total: minimalScore.total,
       grade: minimalScore.grade,
       trend: minimalScore.trend,
@@ -324,6 +383,7 @@ export async function writeScanReportArtifacts(
     latestReportPath,
     latestScorePath,
     archivePath,
-    configSnapshotPath
+    configSnapshotPath,
+    sarifPath
   }
 }
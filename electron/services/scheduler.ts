@@ -21,6 +21,7 @@ export interface ScheduledJob {
   language: string
   createPR: boolean
   runTests: boolean
+  group?: string
   createdAt: string
 }
 
@@ -47,6 +48,7 @@ export interface ScheduleJobInput {
   language: string
   createPR: boolean
   runTests: boolean
+  group?: string
 }
 
 const JOBS_KEY = 'scheduled-jobs'
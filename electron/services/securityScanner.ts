@@ -2,7 +2,39 @@ import { exec, spawn, ChildProcess } from 'child_process'
 import { promisify } from 'util'
 import path from 'path'
 import fs from 'fs/promises'
-import { scanRepoForSecurityPatterns, type SecurityPatternFinding } from './securityPatterns'
+import {
+  loadImportedSarifFindings,
+  scanRepoForSecurityPatterns,
+  type SecurityPatternFinding
+} from './securityPatterns'
+import { isOfflineModeEnabled } from './appSettings'
+import { loadBridgeConfig } from './bridgeConfig'
+import {
+  clearAdvisoryDb,
+  importOsvAdvisories,
+  readAdvisoryDbInfo,
+  runOfflineAudit,
+  type AdvisoryDbInfo,
+  type AdvisoryEcosystem,
+  type AdvisoryImportResult,
+  type AdvisoryMatch
+} from '../../bridge-mcp/src/core/advisoryStore.js'
+import {
+  vulnerablePackagesFromAdvisoryMatches,
+  vulnerablePackagesFromNpmAudit,
+  type VulnerabilityReachability,
+  type VulnerabilityReachabilityFinding,
+  type VulnerablePackage
+} from '../../bridge-mcp/src/core/vulnerabilityReachability.js'
+import {
+  auditSuppressionFingerprints,
+  createSuppressionMatcher,
+  securitySuppressionFingerprint,
+  type SuppressionMatcher
+} from '../../bridge-mcp/src/core/suppressions.js'
+import { getVulnerabilityReachability } from './analysis'
+
+export type { AdvisoryDbInfo, AdvisoryImportResult }
 
 const execAsync = promisify(exec)
 
@@ -17,6 +49,10 @@ export interface SecurityFinding {
   owasp: string
   solution?: string
   fixedCode?: string
+  source?: string
+  reachability?: VulnerabilityReachability
+  chain?: string[]
+  fingerprints?: string[]
 }
 
 export interface ScanResult {
@@ -80,15 +116,20 @@ export async function runSecurityScan(
       message: 'Running TypeScript security pattern scanner...'
     })
 
-    const [tsPatternFindings, auditFindings] = await Promise.all([
-      scanRepoForSecurityPatterns(repoPath, { maxFindings: 250 }),
-      getNpmAuditSecurityFindings(repoPath)
+    const suppressions = createSuppressionMatcher((await loadBridgeConfig(repoPath)).suppressions)
+    const [tsPatternFindings, auditFindings, importedFindings] = await Promise.all([
+      scanRepoForSecurityPatterns(repoPath, { maxFindings: 250, suppressions }),
+      getDependencyAdvisoryFindings(repoPath, suppressions),
+      loadImportedSarifFindings(repoPath)
     ])
 
     const mergedFindings = dedupeFindings([
       ...baseResult.findings,
       ...tsPatternFindings.map(mapPatternFinding),
-      ...auditFindings
+      ...auditFindings,
+      ...importedFindings
+        .filter(finding => !suppressions.suppresses(securitySuppressionFingerprint(finding)))
+        .map(mapPatternFinding)
     ])
 
     const result: ScanResult = {
@@ -359,7 +400,9 @@ function mapPatternFinding(finding: SecurityPatternFinding): SecurityFinding {
     description: finding.description,
     cwe: finding.cwe || 'CWE-Unknown',
     owasp: finding.owasp || 'Unknown',
-    solution: finding.suggestion
+    solution: finding.suggestion,
+    fingerprints: [securitySuppressionFingerprint(finding)],
+    ...(finding.source ? { source: finding.source } : {})
   }
 }
 
@@ -375,14 +418,20 @@ function dedupeFindings(findings: SecurityFinding[]): SecurityFinding[] {
   return output
 }
 
-async function getNpmAuditSecurityFindings(repoPath: string): Promise<SecurityFinding[]> {
+async function getNpmAuditSecurityFindings(
+  repoPath: string
+): Promise<{ findings: SecurityFinding[]; packages: VulnerablePackage[] } | null> {
   try {
+    // npm audit exits 1 when it finds vulnerabilities; the report is still on stdout.
     const { stdout } = await execAsync('npm audit --json', {
       cwd: repoPath,
       timeout: 120000,
       maxBuffer: 20 * 1024 * 1024
-    })
+    }).catch((error: any) => ({ stdout: String(error?.stdout || '') }))
     const payload = JSON.parse(stdout || '{}')
+    if (!payload.vulnerabilities && !payload.advisories) {
+      return null
+    }
     const findings: SecurityFinding[] = []
 
     if (payload.vulnerabilities && typeof payload.vulnerabilities === 'object') {
@@ -418,12 +467,71 @@ async function getNpmAuditSecurityFindings(repoPath: string): Promise<SecurityFi
       }
     }
 
-    return dedupeFindings(findings)
+    return { findings: dedupeFindings(findings), packages: vulnerablePackagesFromNpmAudit(payload) }
   } catch {
-    return []
+    return null
+  }
+}
+
+function withReachability(finding: SecurityFinding, classified?: VulnerabilityReachabilityFinding): SecurityFinding {
+  return classified ? { ...finding, reachability: classified.reachability, chain: classified.chain } : finding
+}
+
+function mapAdvisoryMatch(match: AdvisoryMatch): SecurityFinding {
+  const fix = match.fixed ? ` Fixed in ${match.fixed}.` : ''
+  return {
+    file: match.lockfile,
+    line: 1,
+    issue: `dependency-advisory:${match.name}`,
+    severity: match.severity,
+    code: `${match.name}@${match.version}`,
+    description: `${match.id}${match.summary ? `: ${match.summary}` : ''} (${match.ecosystem}, local advisory database).${fix}`,
+    cwe: 'CWE-937',
+    owasp: 'A06:2021',
+    solution: match.fixed ? `Upgrade ${match.name} to ${match.fixed} or later.` : undefined,
+    fingerprints: auditSuppressionFingerprints({ ecosystem: match.ecosystem, name: match.name, advisories: [match.id] })
   }
 }
 
+async function getDependencyAdvisoryFindings(
+  repoPath: string,
+  suppressions: SuppressionMatcher
+): Promise<SecurityFinding[]> {
+  const registry = isOfflineModeEnabled() ? null : await getNpmAuditSecurityFindings(repoPath)
+  const ecosystems: AdvisoryEcosystem[] = registry ? ['PyPI', 'RubyGems', 'Hex'] : ['npm', 'PyPI', 'RubyGems', 'Hex']
+  const audit = await runOfflineAudit(repoPath, { ecosystems }).catch(() => null)
+  const matches = audit?.matches || []
+  const reachability = await getVulnerabilityReachability(repoPath, [
+    ...(registry?.packages || []),
+    ...vulnerablePackagesFromAdvisoryMatches(matches)
+  ])
+  const classified = new Map((reachability?.findings || []).map(finding => [`${finding.ecosystem}:${finding.name}`, finding]))
+  const registryPackages = new Map((registry?.packages || []).map(pkg => [pkg.name, pkg]))
+  return [
+    ...(registry?.findings || []).map(finding => {
+      const name = finding.issue.slice(finding.issue.indexOf(':') + 1)
+      const pkg = registryPackages.get(name)
+      return withReachability(
+        pkg ? { ...finding, fingerprints: auditSuppressionFingerprints(pkg) } : finding,
+        classified.get(`npm:${name}`)
+      )
+    }),
+    ...matches.map(match => withReachability(mapAdvisoryMatch(match), classified.get(`${match.ecosystem}:${match.name}`)))
+  ].filter(finding => !finding.fingerprints || !suppressions.suppresses(finding.fingerprints))
+}
+
+export async function getAdvisoryDatabaseInfo(): Promise<AdvisoryDbInfo> {
+  return readAdvisoryDbInfo()
+}
+
+export async function importAdvisoryDatabase(paths: string[]): Promise<AdvisoryImportResult> {
+  return importOsvAdvisories(paths)
+}
+
+export async function clearAdvisoryDatabase(): Promise<AdvisoryDbInfo> {
+  return clearAdvisoryDb()
+}
+
 export async function generateSecurityFix(finding: SecurityFinding): Promise<string | null> {
   // Try to use the AI fixer from agentic_fixer if available
   const available = await checkAgenticFixerAvailable()
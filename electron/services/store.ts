@@ -1,12 +1,19 @@
-import Store from 'electron-store'
-import { app } from 'electron'
+import Conf from 'conf'
+import type { App } from 'electron'
 import os from 'os'
 import path from 'path'
 import fs from 'fs'
 
+export function getElectronApp(): App | null {
+  if (!process.versions.electron) {
+    return null
+  }
+  return (require('electron') as typeof import('electron')).app
+}
+
 function resolveStoreCwd(): string {
   try {
-    const userData = app.getPath('userData')
+    const userData = getElectronApp()?.getPath('userData')
     if (userData) {
       fs.mkdirSync(userData, { recursive: true })
       return userData
@@ -20,11 +27,12 @@ function resolveStoreCwd(): string {
   return fallback
 }
 
-export function createBridgeStore<T extends Record<string, unknown> = Record<string, unknown>>(name: string): Store<T> {
-  return new Store<T>({
-    name,
+// electron-store is a thin Conf wrapper that only adds renderer IPC, which Bridge does not use;
+// using Conf directly lets the headless CLI create stores without Electron.
+export function createBridgeStore<T extends Record<string, unknown> = Record<string, unknown>>(name: string): Conf<T> {
+  return new Conf<T>({
+    configName: name,
     cwd: resolveStoreCwd(),
     clearInvalidConfig: true
   })
 }
-
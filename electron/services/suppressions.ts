@@ -0,0 +1,87 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { BRIDGE_CONFIG_FILE, loadBridgeConfig, validateConfig, type FindingSuppression } from './bridgeConfig'
+import type { BridgeScanReport } from './scanReport'
+import { createSuppressionMatcher, type SuppressionStatus } from '../../bridge-mcp/src/core/suppressions.js'
+
+export type { FindingSuppression, SuppressionStatus }
+
+export interface SuppressionRequest {
+  fingerprints: string[]
+  reason: string
+  owner?: string
+  expires?: string
+}
+
+async function readLatestMatches(repoPath: string): Promise<Map<string, number>> {
+  try {
+    const raw = await fs.readFile(path.join(repoPath, '.bridge', 'latest-report.json'), 'utf-8')
+    const report = JSON.parse(raw) as Partial<BridgeScanReport>
+    return new Map((report.suppressions?.entries || []).map(entry => [entry.fingerprint, entry.matched]))
+  } catch {
+    return new Map()
+  }
+}
+
+async function updateProjectSuppressions(
+  repoPath: string,
+  update: (current: FindingSuppression[]) => FindingSuppression[]
+): Promise<void> {
+  const configPath = path.join(repoPath, BRIDGE_CONFIG_FILE)
+  let project: Record<string, unknown> = {}
+  try {
+    project = JSON.parse(await fs.readFile(configPath, 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`${BRIDGE_CONFIG_FILE} could not be read: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const suppressions = update(Array.isArray(project.suppressions) ? project.suppressions as FindingSuppression[] : [])
+  const validation = validateConfig({ ...await loadBridgeConfig(repoPath), suppressions })
+  if (validation.errors.length > 0) {
+    throw new Error(`Invalid Bridge config: ${validation.errors.join('; ')}`)
+  }
+  if (suppressions.length > 0) {
+    project.suppressions = suppressions
+  } else {
+    delete project.suppressions
+  }
+  await fs.writeFile(configPath, JSON.stringify(project, null, 2) + '\n', 'utf-8')
+}
+
+export async function getSuppressions(repoPath: string): Promise<SuppressionStatus[]> {
+  const config = await loadBridgeConfig(repoPath)
+  const matches = await readLatestMatches(repoPath)
+  return createSuppressionMatcher(config.suppressions).report().entries.map(entry => ({
+    ...entry,
+    matched: matches.get(entry.fingerprint) ?? 0
+  }))
+}
+
+export async function addSuppression(repoPath: string, request: SuppressionRequest): Promise<SuppressionStatus[]> {
+  const fingerprints = Array.from(new Set(request.fingerprints.map(fingerprint => fingerprint.trim()).filter(Boolean)))
+  if (fingerprints.length === 0) {
+    throw new Error('This finding has no fingerprint and cannot be suppressed')
+  }
+  if (!request.reason.trim()) {
+    throw new Error('A suppression needs a reason')
+  }
+
+  const added: FindingSuppression[] = fingerprints.map(fingerprint => ({
+    fingerprint,
+    reason: request.reason.trim(),
+    ...(request.owner?.trim() ? { owner: request.owner.trim() } : {}),
+    ...(request.expires?.trim() ? { expires: request.expires.trim() } : {})
+  }))
+  await updateProjectSuppressions(repoPath, current => [
+    ...current.filter(entry => !fingerprints.includes(entry.fingerprint)),
+    ...added
+  ])
+  return getSuppressions(repoPath)
+}
+
+export async function removeSuppression(repoPath: string, fingerprint: string): Promise<SuppressionStatus[]> {
+  await updateProjectSuppressions(repoPath, current => current.filter(entry => entry.fingerprint !== fingerprint))
+  return getSuppressions(repoPath)
+}
@@ -9,8 +9,11 @@ import type {
   VulnerabilitySummary
 } from './analysis'
 import type { SecurityPatternFinding } from './securityPatterns'
+import type { DuplicationReport } from './duplication'
 import type { BridgeConfig } from './bridgeConfig'
 import { analyzeRepo } from '../../bridge-mcp/src/core/repoAnalyzer.js'
+import { loadScoreHistory, type ScoreTrend } from '../../bridge-mcp/src/core/history.js'
+import { pathFilterFromConfig } from '../../bridge-mcp/src/core/pathFilter.js'
 import {
   calculateScore,
   type ActionItem,
@@ -23,6 +26,7 @@ export type {
   ActionItem,
   DebtContributor,
   DimensionScore,
+  ScoreTrend,
   TechDebtScore
 }
 
@@ -49,6 +53,7 @@ export interface ScanData {
   oversizedComponents?: OversizedComponent[]
   securityPatterns?: SecurityPatternFinding[]
   codeHealth?: CodeHealthMetrics
+  duplication?: DuplicationReport
   repositoryInsights?: {
     hasLockfile: boolean
     lockfileDaysSinceUpdate?: number | null
@@ -75,9 +80,29 @@ export interface ScanData {
 export async function calculateTechDebtScore(
   repoPath: string,
   scanData: ScanData,
-  config: BridgeConfig
+  config: BridgeConfig,
+  scannedAt = new Date().toISOString()
 ): Promise<TechDebtScore> {
-  void scanData
-  const analysis = await analyzeRepo(repoPath)
-  return calculateScore(analysis, config)
+  const analysis = await analyzeRepo(repoPath, { pathFilter: pathFilterFromConfig(repoPath, config.scan) })
+  const imported = (scanData.securityPatterns || []).filter(finding => finding.source)
+  if (imported.length > 0) {
+    const count = (severity: SecurityPatternFinding['severity']) => imported.filter(finding => finding.severity === severity).length
+    analysis.importedFindings = {
+      critical: count('critical'),
+      high: count('high'),
+      medium: count('medium'),
+      low: count('low'),
+      tools: imported.map(finding => finding.source as string).filter((tool, index, tools) => tools.indexOf(tool) === index)
+    }
+  }
+  const duplication = scanData.duplication
+  if (duplication && !duplication.error) {
+    analysis.duplication = {
+      percentage: duplication.percentage,
+      clonePairs: duplication.cloneCount,
+      threshold: config.scoring.thresholds?.maxDuplicationPercent ?? 5
+    }
+  }
+  const history = await loadScoreHistory(repoPath, { before: scannedAt })
+  return calculateScore(analysis, config, history)
 }
@@ -29,6 +29,11 @@ const gradeColorMap: Record<TechDebtScore['grade'], string> = {
   F: '#ef4444'
 }
 
+const formatDelta = (delta?: number | null) => {
+  if (delta === undefined || delta === null) return null
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`
+}
+
 const trendMeta: Record<TechDebtScore['trend'], { arrow: string; label: string; color: string }> = {
   improving: { arrow: '↓', label: 'improving', color: 'var(--success)' },
   stable: { arrow: '→', label: 'stable', color: 'var(--text-secondary)' },
@@ -56,6 +61,8 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
   const debtScore = scanResult?.techDebtScore
   const grade = debtScore?.grade
   const trend = debtScore?.trend || 'unknown'
+  const trendDetails = debtScore?.trendDetails
+  const trendDelta = formatDelta(trendDetails?.delta)
 
   const navigateToScan = (tab: ScanTab, autoRun = false) => {
     setPreferredTab(tab)
@@ -114,10 +121,20 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
     return Object.entries(debtScore.dimensions).map(([name, dimension]) => ({
       name,
       score: dimension.score,
-      weighted: dimension.weightedScore
+      weighted: dimension.weightedScore,
+      delta: debtScore.trendDetails?.dimensionDeltas?.[name as keyof typeof debtScore.dimensions]
     }))
   }, [debtScore])
 
+  const overduePackages = useMemo(() => (scanResult?.dependencies.freshness || [])
+    .filter(pkg => pkg.lags.some(lag => lag.overdue))
+    .sort((a, b) => b.daysOverdue - a.daysOverdue || a.name.localeCompare(b.name)), [scanResult])
+  // Scheduled updates skip these: a major, or a package the update policy holds for review.
+  const overdueReviewNames = useMemo(() => new Set(overduePackages
+    .filter(pkg => pkg.lags.some(lag => lag.overdue && lag.updateType === 'major') ||
+      scanResult?.dependencies.outdated.some(outdated => outdated.name === pkg.name && outdated.policy === 'review'))
+    .map(pkg => pkg.name)), [overduePackages, scanResult])
+
   const handleActionFix = (item: ActionItem) => {
     if (item.dimension === 'dependencies' || item.command?.includes('npm')) {
       onNavigate('patch-batch')
@@ -158,6 +175,11 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
           </div>
           <div className="summary-sub" style={{ color: trendMeta[trend].color }}>
             {trendMeta[trend].arrow} {trendMeta[trend].label}
+            {trendDelta && trendDetails && (
+              <span style={{ color: 'var(--text-secondary)' }}>
+                {' '}· {trendDelta} vs last {trendDetails.samples} scan{trendDetails.samples === 1 ? '' : 's'}
+              </span>
+            )}
           </div>
         </div>
       </div>
@@ -225,7 +247,14 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                 <div key={item.name} className="bar-item">
                   <div className="bar-meta">
                     <span>{item.name}</span>
-                    <span>{item.score.toFixed(1)}</span>
+                    <span>
+                      {item.score.toFixed(1)}
+                      {item.delta !== undefined && item.delta !== 0 && (
+                        <span style={{ marginLeft: '6px', fontSize: '12px', color: item.delta < 0 ? 'var(--success)' : 'var(--error)' }}>
+                          {formatDelta(item.delta)}
+                        </span>
+                      )}
+                    </span>
                   </div>
                   <div className="bar-track">
                     <div className="bar-fill" style={{ width: `${Math.min(100, Math.max(0, item.score))}%` }} />
@@ -284,6 +313,43 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         </div>
       )}
 
+      {overduePackages.length > 0 && (
+        <div className="card" style={{ marginTop: '24px' }}>
+          <div className="card-header">
+            <h3 className="card-title">Overdue Dependencies ({overduePackages.length})</h3>
+            <button className="btn btn-secondary btn-sm" onClick={() => onNavigate('patch-batch')}>
+              Update Dependencies
+            </button>
+          </div>
+          <div className="issue-list">
+            {overduePackages.slice(0, 10).map(pkg => (
+              <div key={pkg.name} className="issue-item" style={{ justifyContent: 'space-between', gap: '12px' }}>
+                <div>
+                  <div style={{ fontWeight: 600 }}>{pkg.name} <span style={{ color: 'var(--text-secondary)', fontWeight: 400 }}>{pkg.current}</span></div>
+                  <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                    {pkg.lags.filter(lag => lag.overdue).map(lag => (
+                      `${lag.updateType} ${lag.newestVersion}: behind ${lag.daysBehind}d (max ${lag.maxAgeDays}d)`
+                    )).join(' · ')}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  {overdueReviewNames.has(pkg.name) && (
+                    <span className="badge badge-accent" title="Held for review by the update policy; scheduled updates skip it">Review</span>
+                  )}
+                  <span className="badge badge-warning">+{pkg.daysOverdue}d</span>
+                </div>
+              </div>
+            ))}
+            {overdueReviewNames.size > 0 && (
+              <div className="issue-item">{overdueReviewNames.size} need a manual update: scheduled updates only ship what the policy marks auto.</div>
+            )}
+            {overduePackages.length > 10 && (
+              <div className="issue-item">{overduePackages.length - 10} more past their maxAge limit.</div>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="dashboard-actions" style={{ marginTop: '24px' }}>
         <div className="card">
           <div className="card-header">
@@ -1,13 +1,17 @@
 import { useEffect, useRef } from 'react'
 import { DataSet, Network } from 'vis-network/standalone'
 import type { Edge, Node } from 'vis-network'
-import type { CircularDependency } from '../../types'
+import type { CircularDependency, ModuleGraph } from '../../types'
 
 interface CircularDepsGraphProps {
   dependencies: CircularDependency[]
+  graph?: ModuleGraph
 }
 
-export default function CircularDepsGraph({ dependencies }: CircularDepsGraphProps) {
+const CYCLE_COLOR = 'rgba(245, 167, 0, 0.6)'
+const MODULE_COLOR = 'rgba(120, 140, 170, 0.35)'
+
+export default function CircularDepsGraph({ dependencies, graph }: CircularDepsGraphProps) {
   const containerRef = useRef<HTMLDivElement | null>(null)
   const networkRef = useRef<Network | null>(null)
 
@@ -17,25 +21,55 @@ export default function CircularDepsGraph({ dependencies }: CircularDepsGraphPro
     const nodeSet = new Set<string>()
     const edges: Edge[] = []
 
-    for (const dep of dependencies) {
-      nodeSet.add(dep.from)
-      nodeSet.add(dep.to)
-      edges.push({
-        id: `${dep.from}->${dep.to}`,
-        from: dep.from,
-        to: dep.to,
-        arrows: 'to',
-        color: { color: 'rgba(245, 167, 0, 0.6)' }
-      })
+    if (graph) {
+      for (const edge of graph.edges) {
+        edges.push({
+          id: `${edge.from}->${edge.to}`,
+          from: edge.from,
+          to: edge.to,
+          arrows: 'to',
+          dashes: edge.kind === 'type' || edge.kind === 'dynamic',
+          color: { color: edge.inCycle ? CYCLE_COLOR : MODULE_COLOR }
+        })
+      }
+    } else {
+      for (const dep of dependencies) {
+        const cycle = dep.cycle.length > 1 ? dep.cycle : [dep.from, dep.to]
+        for (let index = 0; index < cycle.length - 1; index += 1) {
+          nodeSet.add(cycle[index])
+          nodeSet.add(cycle[index + 1])
+          const id = `${cycle[index]}->${cycle[index + 1]}`
+          if (edges.some(edge => edge.id === id)) continue
+          edges.push({
+            id,
+            from: cycle[index],
+            to: cycle[index + 1],
+            arrows: 'to',
+            color: { color: CYCLE_COLOR }
+          })
+        }
+      }
     }
 
     const nodes = new DataSet<Node>(
-      Array.from(nodeSet).map(node => ({
-        id: node,
-        label: node.split('/').pop() || node,
-        title: node,
-        shape: 'dot'
-      }))
+      graph
+        ? graph.nodes.map(node => ({
+            id: node.id,
+            label: node.id.split('/').pop() || node.id,
+            title: node.reachable ? node.id : `${node.id} (unreachable)`,
+            shape: 'dot',
+            size: node.inCycle ? 16 : 10,
+            opacity: node.reachable ? 1 : 0.4,
+            color: node.inCycle
+              ? undefined
+              : { background: MODULE_COLOR, border: 'rgba(120, 140, 170, 0.7)' }
+          }))
+        : Array.from(nodeSet).map(node => ({
+            id: node,
+            label: node.split('/').pop() || node,
+            title: node,
+            shape: 'dot'
+          }))
     )
 
     const edgeData = new DataSet<Edge>(edges)
@@ -55,6 +89,7 @@ export default function CircularDepsGraph({ dependencies }: CircularDepsGraphPro
             size: 16
           },
           edges: { smooth: true },
+          layout: { improvedLayout: !graph },
           physics: {
             stabilization: false,
             barnesHut: { springLength: 140, springConstant: 0.03 }
@@ -70,7 +105,7 @@ export default function CircularDepsGraph({ dependencies }: CircularDepsGraphPro
       networkRef.current?.destroy()
       networkRef.current = null
     }
-  }, [dependencies])
+  }, [dependencies, graph])
 
   return <div className="graph-container" ref={containerRef} />
 }
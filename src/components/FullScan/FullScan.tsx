@@ -2,18 +2,29 @@ import { useEffect, useMemo, useState } from 'react'
 import { useRepositories } from '../../contexts/RepositoryContext'
 import { useScanContext, type ScanTab } from '../../contexts/ScanContext'
 import { useAppSettings } from '../../contexts/AppSettingsContext'
-import type { CircularDependency, DeadCodeExport, FullScanResult } from '../../types'
+import type { BaselineFindings, CircularDependency, DeadCodeExport, FullScanResult } from '../../types'
 import CircularDepsGraph from './CircularDepsGraph'
 
 const TAB_LABELS: Record<ScanTab, string> = {
   overview: 'Overview',
   circular: 'Circular Dependencies',
   'dead-code': 'Dead Code',
+  architecture: 'Architecture Rules',
+  complexity: 'Complexity',
+  duplication: 'Duplicate Code',
   bundle: 'Bundle Analysis',
   coverage: 'Test Coverage',
   docs: 'Documentation'
 }
 
+const BASELINE_ROWS: Array<[keyof BaselineFindings, string]> = [
+  ['circularDependencies', 'circular dependencies'],
+  ['deadFiles', 'dead files'],
+  ['unusedExports', 'unused exports'],
+  ['securityFindings', 'security findings'],
+  ['architectureViolations', 'architecture rule violations']
+]
+
 const formatNumber = (value: number | null | undefined, fallback = '—') => {
   if (value === null || value === undefined || Number.isNaN(value)) return fallback
   return value.toFixed(1)
@@ -53,8 +64,10 @@ export default function FullScan() {
   const [result, setResult] = useState<FullScanResult | null>(null)
   const [scanError, setScanError] = useState<string | null>(null)
   const [selectedCycle, setSelectedCycle] = useState<CircularDependency | null>(null)
+  const [showFullGraph, setShowFullGraph] = useState(false)
   const [cleanupState, setCleanupState] = useState<{ running: boolean; message?: string; prUrl?: string; error?: string } | null>(null)
   const [removedExports, setRemovedExports] = useState<Set<string>>(new Set())
+  const [baselineState, setBaselineState] = useState<{ saving: boolean; message?: string; error?: string } | null>(null)
 
   useEffect(() => {
     if (selectedRepo) {
@@ -159,6 +172,18 @@ export default function FullScan() {
     }
   }
 
+  const handleSaveBaseline = async () => {
+    if (!selectedRepo) return
+
+    setBaselineState({ saving: true })
+    try {
+      const baseline = await window.bridge.saveScanBaseline(selectedRepo.path)
+      setBaselineState({ saving: false, message: `Saved as ${baseline.branch} baseline. Future scans only gate on new findings.` })
+    } catch (error) {
+      setBaselineState({ saving: false, error: error instanceof Error ? error.message : 'Failed to save baseline' })
+    }
+  }
+
   const handleRemoveExport = (exportEntry: DeadCodeExport) => {
     const key = `${exportEntry.file}:${exportEntry.exportName}`
     setRemovedExports(prev => {
@@ -177,6 +202,13 @@ export default function FullScan() {
     return result.deadCode.unusedExports.filter(exp => !removedExports.has(`${exp.file}:${exp.exportName}`))
   }, [result, removedExports])
 
+  const baseline = result?.scanReport?.baseline ?? null
+  const scanFilter = result?.scanReport?.scanFilter ?? null
+  const architectureRules = result?.architectureRules ?? null
+  const complexity = result?.complexity ?? null
+  const duplication = result?.duplication ?? null
+  const configuredRules = result?.config.architecture?.rules ?? []
+
   if (!settings.experimentalFeatures) {
     return (
       <div className="empty-state fade-in">
@@ -324,6 +356,24 @@ export default function FullScan() {
                   <span>Dead files</span>
                   <strong>{result.deadCode.deadFiles.length}</strong>
                 </div>
+                {result.architectureRules && (
+                  <div className="overview-row">
+                    <span>Architecture rule violations</span>
+                    <strong>{result.architectureRules.errorCount}</strong>
+                  </div>
+                )}
+                {result.duplication && !result.duplication.error && (
+                  <div className="overview-row">
+                    <span>Duplicated lines</span>
+                    <strong>{formatNumber(result.duplication.percentage)}%</strong>
+                  </div>
+                )}
+                {result.complexity && (
+                  <div className="overview-row">
+                    <span>Overly complex functions</span>
+                    <strong>{result.complexity.overThreshold}</strong>
+                  </div>
+                )}
                 <div className="overview-row">
                   <span>Bundle size</span>
                   <strong>{result.bundleSize.totalSizeFormatted}</strong>
@@ -351,10 +401,76 @@ export default function FullScan() {
                 {result.dependencies.vulnerabilities.high > 0 && (
                   <div className="alert warn">{result.dependencies.vulnerabilities.high} high vulnerabilities detected.</div>
                 )}
+                {(result.dependencies.reachability?.findings || [])
+                  .filter(finding => finding.reachability === 'reachable' && (finding.severity === 'critical' || finding.severity === 'high'))
+                  .slice(0, 3)
+                  .map(finding => (
+                    <div key={`${finding.ecosystem}:${finding.name}`} className="alert error">
+                      {finding.name} ({finding.severity}) is reachable from app code: {finding.chain.join(' → ')}
+                    </div>
+                  ))}
                 {!result.dependencies.error && !result.bundleSize.warning && result.dependencies.vulnerabilities.critical === 0 && result.dependencies.vulnerabilities.high === 0 && (
                   <div className="alert success">No major alerts detected.</div>
                 )}
               </div>
+
+              <div className="card">
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+                  <h3>Baseline</h3>
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={handleSaveBaseline}
+                    disabled={baselineState?.saving || !result.reportPaths}
+                  >
+                    {baselineState?.saving ? 'Saving...' : 'Save as baseline'}
+                  </button>
+                </div>
+                {baseline ? (
+                  <>
+                    <p style={{ color: 'var(--text-secondary)', fontSize: '13px', marginBottom: '8px' }}>
+                      Compared with {baseline.branch} baseline from {new Date(baseline.generatedAt).toLocaleString()}.
+                    </p>
+                    {BASELINE_ROWS.map(([key, label]) => (
+                      <div className="overview-row" key={key}>
+                        <span>New {label}</span>
+                        <strong>{baseline.newFindings[key]?.length ?? '—'}</strong>
+                      </div>
+                    ))}
+                    <div className="overview-row">
+                      <span>Resolved since baseline</span>
+                      <strong>{baseline.resolvedCount}</strong>
+                    </div>
+                  </>
+                ) : (
+                  <p style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>
+                    No baseline comparison. Scans of the base branch are held to the absolute limits; on other branches, save a base-branch baseline to gate only on findings introduced after it.
+                  </p>
+                )}
+                {baselineState?.message && (
+                  <div className="alert success" style={{ marginTop: '8px' }}>{baselineState.message}</div>
+                )}
+                {baselineState?.error && (
+                  <div className="alert error" style={{ marginTop: '8px' }}>{baselineState.error}</div>
+                )}
+              </div>
+
+              {scanFilter && (
+                <div className="card">
+                  <h3 style={{ marginBottom: '8px' }}>Scan Scope</h3>
+                  <div className="overview-row">
+                    <span>Include</span>
+                    <strong>{scanFilter.include.length > 0 ? scanFilter.include.join(', ') : 'Everything'}</strong>
+                  </div>
+                  <div className="overview-row">
+                    <span>Exclude</span>
+                    <strong>{scanFilter.exclude.join(', ')}</strong>
+                  </div>
+                  <div className="overview-row">
+                    <span>.gitignore</span>
+                    <strong>{scanFilter.gitignore ? `${scanFilter.gitignoreFiles.length} files honored` : 'Ignored'}</strong>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -363,19 +479,29 @@ export default function FullScan() {
               <div className="card" style={{ padding: '16px' }}>
                 <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '12px' }}>
                   <h3>Dependency Graph</h3>
-                  <span className="badge badge-accent">{result.circularDependencies.count} cycles</span>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    {result.circularDependencies.graph && (
+                      <button className="btn btn-ghost btn-sm" onClick={() => setShowFullGraph(value => !value)}>
+                        {showFullGraph ? 'Cycles only' : `Full graph (${result.circularDependencies.graph.nodes.length} modules)`}
+                      </button>
+                    )}
+                    <span className="badge badge-accent">{result.circularDependencies.count} cycles</span>
+                  </div>
                 </div>
                 {result.circularDependencies.error && (
                   <div className="alert warn" style={{ marginBottom: '12px' }}>
                     {result.circularDependencies.error}
                   </div>
                 )}
-                {result.circularDependencies.count === 0 ? (
+                {result.circularDependencies.count === 0 && !showFullGraph ? (
                   <div className="empty-state" style={{ padding: '32px 0' }}>
                     No circular dependencies detected.
                   </div>
                 ) : (
-                  <CircularDepsGraph dependencies={result.circularDependencies.dependencies} />
+                  <CircularDepsGraph
+                    dependencies={result.circularDependencies.dependencies}
+                    graph={showFullGraph ? result.circularDependencies.graph : undefined}
+                  />
                 )}
               </div>
 
@@ -431,6 +557,11 @@ export default function FullScan() {
                     {result.deadCode.error}
                   </div>
                 )}
+                {result.deadCode.warnings?.map(warning => (
+                  <div key={warning} className="alert warn" style={{ marginBottom: '12px' }}>
+                    {warning}
+                  </div>
+                ))}
 
                 {cleanupState?.message && (
                   <div className="alert success" style={{ marginBottom: '12px' }}>{cleanupState.message} {cleanupState.prUrl && <span className="badge">PR created</span>}</div>
@@ -483,6 +614,193 @@ export default function FullScan() {
             </div>
           )}
 
+          {activeTab === 'architecture' && (
+            <div className="scan-detail-grid">
+              <div className="card" style={{ padding: '16px' }}>
+                <div className="card-header" style={{ marginBottom: '12px' }}>
+                  <h3 className="card-title">Rule Violations</h3>
+                  {architectureRules && (
+                    <span className="badge badge-accent">
+                      {architectureRules.errorCount} errors, {architectureRules.warningCount} warnings
+                    </span>
+                  )}
+                </div>
+                {architectureRules?.error && (
+                  <div className="alert warn" style={{ marginBottom: '12px' }}>{architectureRules.error}</div>
+                )}
+                {!architectureRules ? (
+                  <div className="empty-state" style={{ padding: '24px 0' }}>
+                    No architecture rules configured. Add layering rules under architecture.rules in .bridge.json.
+                  </div>
+                ) : architectureRules.violations.length === 0 ? (
+                  <div className="empty-state" style={{ padding: '24px 0' }}>All imports follow the configured rules.</div>
+                ) : (
+                  <div className="list-stack">
+                    {architectureRules.violations.map(violation => (
+                      <div key={`${violation.rule}:${violation.from}:${violation.to}`} className="list-item">
+                        <div>
+                          <div className="list-title">{violation.from} → {violation.to}</div>
+                          <div className="list-sub">
+                            {violation.rule} · {violation.kind} import{violation.external ? ' (package)' : ''}
+                          </div>
+                        </div>
+                        <span className={`badge ${violation.severity === 'error' ? 'badge-danger' : 'badge-warning'}`}>
+                          {violation.severity}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="card" style={{ padding: '16px' }}>
+                <div className="card-header" style={{ marginBottom: '12px' }}>
+                  <h3 className="card-title">Rules</h3>
+                </div>
+                {configuredRules.length === 0 ? (
+                  <div className="empty-state" style={{ padding: '24px 0' }}>No rules defined.</div>
+                ) : (
+                  <div className="list-stack">
+                    {configuredRules.map(rule => (
+                      <div key={rule.name} className="list-item">
+                        <div>
+                          <div className="list-title">{rule.name}</div>
+                          <div className="list-sub">
+                            {rule.type === 'allow' ? 'Only allow' : 'Forbid'} {rule.from.join(', ')} → {rule.to.join(', ') || '(nothing)'}
+                          </div>
+                          {rule.description && (
+                            <div className="list-sub" style={{ color: 'var(--text-secondary)' }}>{rule.description}</div>
+                          )}
+                        </div>
+                        <strong>{architectureRules?.violations.filter(violation => violation.rule === rule.name).length ?? 0}</strong>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'complexity' && (
+            <div className="scan-detail-grid">
+              <div className="card" style={{ padding: '16px' }}>
+                <div className="card-header" style={{ marginBottom: '12px' }}>
+                  <h3 className="card-title">Complexity</h3>
+                  {complexity && (
+                    <span className={`badge ${complexity.overThreshold > 0 ? 'badge-warning' : 'badge-success'}`}>
+                      {complexity.overThreshold} over {complexity.threshold}
+                    </span>
+                  )}
+                </div>
+                {!complexity ? (
+                  <div className="empty-state" style={{ padding: '24px 0' }}>
+                    Complexity was not measured. Enable scan.features.codeSmells in .bridge.json.
+                  </div>
+                ) : (
+                  <>
+                    <div className="overview-row">
+                      <span>Functions analyzed</span>
+                      <strong>{complexity.functionCount}</strong>
+                    </div>
+                    <div className="overview-row">
+                      <span>Average cyclomatic complexity</span>
+                      <strong>{formatNumber(complexity.averageCyclomatic)}</strong>
+                    </div>
+                    <div className="overview-row">
+                      <span>Average cognitive complexity</span>
+                      <strong>{formatNumber(complexity.averageCognitive)}</strong>
+                    </div>
+                    <div className="overview-row">
+                      <span>Average complexity per file</span>
+                      <strong>{formatNumber(complexity.avgFileComplexity)}</strong>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="card" style={{ padding: '16px' }}>
+                <div className="card-header" style={{ marginBottom: '12px' }}>
+                  <h3 className="card-title">Most Complex Functions</h3>
+                </div>
+                {!complexity || complexity.worstOffenders.length === 0 ? (
+                  <div className="empty-state" style={{ padding: '24px 0' }}>No functions found.</div>
+                ) : (
+                  <div className="list-stack">
+                    {complexity.worstOffenders.map(fn => (
+                      <div key={`${fn.file}:${fn.line}:${fn.name}`} className="list-item">
+                        <div>
+                          <div className="list-title">{fn.name}</div>
+                          <div className="list-sub">
+                            {fn.file}:{fn.line} · cyclomatic {fn.cyclomatic}
+                          </div>
+                        </div>
+                        <span className={`badge ${fn.cognitive > complexity.threshold ? 'badge-warning' : 'badge-accent'}`}>
+                          {fn.cognitive}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'duplication' && (
+            <div className="list-stack">
+              <div className="card" style={{ padding: '16px' }}>
+                <div className="card-header" style={{ marginBottom: '12px' }}>
+                  <h3 className="card-title">Duplicate Code</h3>
+                  {duplication && !duplication.error && (
+                    <span className="badge badge-accent">{duplication.cloneCount} clone pairs</span>
+                  )}
+                </div>
+                {duplication?.error && (
+                  <div className="alert warn" style={{ marginBottom: '12px' }}>{duplication.error}</div>
+                )}
+                {!duplication ? (
+                  <div className="empty-state" style={{ padding: '24px 0' }}>
+                    Duplication was not measured. Enable scan.features.codeSmells in .bridge.json.
+                  </div>
+                ) : (
+                  <>
+                    <div className="overview-row">
+                      <span>Duplicated lines</span>
+                      <strong>{duplication.duplicatedLines} of {duplication.totalLines} ({formatNumber(duplication.percentage)}%)</strong>
+                    </div>
+                    <div className="overview-row">
+                      <span>Minimum clone length</span>
+                      <strong>{duplication.minTokens} tokens</strong>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {duplication && !duplication.error && duplication.clones.length === 0 && (
+                <div className="empty-state" style={{ padding: '24px 0' }}>No duplicated blocks found.</div>
+              )}
+              {duplication?.clones.map(clone => (
+                <div
+                  key={`${clone.first.file}:${clone.first.startLine}:${clone.second.file}:${clone.second.startLine}`}
+                  className="card"
+                  style={{ padding: '16px' }}
+                >
+                  <div className="card-header" style={{ marginBottom: '12px' }}>
+                    <h3 className="card-title">{clone.lines} lines</h3>
+                    <span className="badge badge-warning">{clone.tokens} tokens</span>
+                  </div>
+                  <div className="clone-pair">
+                    {[clone.first, clone.second].map((location, index) => (
+                      <div key={index}>
+                        <div className="list-sub">{location.file}:{location.startLine}-{location.endLine}</div>
+                        <pre className="clone-snippet">{location.snippet}</pre>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {activeTab === 'bundle' && (
             <div className="scan-detail-grid">
               <div className="card" style={{ padding: '16px' }}>
@@ -1,6 +1,19 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react'
 import { useRepositories } from '../../contexts/RepositoryContext'
-import type { BridgeConfig, BridgeProjectConfigResult, OutdatedPackage, PatchBatchResult } from '../../types'
+import type {
+  BridgeConfig,
+  BridgeProjectConfigResult,
+  DependencyUsage,
+  DependencyUsageReport,
+  GroupedUpdateResult,
+  LockfilePackageChange,
+  OutdatedPackage,
+  PackageMigrationResult,
+  PatchBatchResult,
+  RequiredPackageIssue,
+  RequiredPackageStatus,
+  UpgradeTrialReport
+} from '../../types'
 import Scheduler from '../Scheduler/Scheduler'
 
 export default function PatchBatch() {
@@ -11,6 +24,15 @@ export default function PatchBatch() {
   const [running, setRunning] = useState(false)
   const [progress, setProgress] = useState<{ message: string; step: number; total: number } | null>(null)
   const [result, setResult] = useState<PatchBatchResult | null>(null)
+  const [groupResult, setGroupResult] = useState<GroupedUpdateResult | null>(null)
+  const [trialReport, setTrialReport] = useState<UpgradeTrialReport | null>(null)
+  const [trialPackage, setTrialPackage] = useState<string | null>(null)
+  const [migrationResult, setMigrationResult] = useState<PackageMigrationResult | null>(null)
+  const [migratingPackage, setMigratingPackage] = useState<string | null>(null)
+  const [requiredStatus, setRequiredStatus] = useState<RequiredPackageStatus | null>(null)
+  const [addingRequired, setAddingRequired] = useState(false)
+  const [dependencyUsage, setDependencyUsage] = useState<DependencyUsageReport | null>(null)
+  const [expandedPackage, setExpandedPackage] = useState<string | null>(null)
   const [projectConfig, setProjectConfig] = useState<BridgeProjectConfigResult | null>(null)
   const [bridgeConfig, setBridgeConfig] = useState<BridgeConfig | null>(null)
 
@@ -38,8 +60,52 @@ export default function PatchBatch() {
   const remoteFirst = patchConfig?.remoteFirst ?? true
   const runTests = runTestsOnRun
   const updatePolicy = bridgeConfig?.dependencies.updatePolicy || { patch: 'auto', minor: 'auto', major: 'review' }
+  const dependencyGroups = bridgeConfig?.dependencies.groups || []
+  const policyOverrideCount = Object.keys(bridgeConfig?.dependencies.updatePolicyOverrides?.dependencyTypes || {}).length +
+    Object.keys(bridgeConfig?.dependencies.updatePolicyOverrides?.packages || {}).length
+  const minReleaseAgeDays = bridgeConfig?.dependencies.minReleaseAgeDays || 0
+  const releaseAgeOverrideCount = Object.keys(bridgeConfig?.dependencies.minReleaseAgeOverrides || {}).length
 
   const getPackageKey = (pkg: OutdatedPackage) => `${pkg.language}:${pkg.name}`
+  const isAutoSelected = (pkg: OutdatedPackage) => pkg.isNonBreaking && pkg.policy !== 'review'
+  // Every newer release is still inside the minimum release age, so there is nothing to install yet.
+  const isCoolingDown = (pkg: OutdatedPackage) => Boolean(pkg.cooldown) && pkg.latest === pkg.current
+  const describeHeldReleases = (pkg: OutdatedPackage) => (pkg.cooldown?.skipped || [])
+    .map(({ version, publishedAt }) => {
+      const published = Date.parse(publishedAt)
+      if (Number.isNaN(published)) return `${version} (publish time unknown)`
+      const days = Math.max(0, Math.floor((Date.now() - published) / (24 * 60 * 60 * 1000)))
+      return `${version} (published ${days === 0 ? 'today' : `${days}d ago`})`
+    })
+    .join(', ')
+  const formatSizeDelta = (bytes: number) => {
+    const sign = bytes > 0 ? '+' : bytes < 0 ? '-' : '±'
+    const value = Math.abs(bytes)
+    if (value >= 1_000_000) return `${sign}${(value / 1_000_000).toFixed(1)} MB`
+    if (value >= 1_000) return `${sign}${(value / 1_000).toFixed(1)} kB`
+    return `${sign}${value} B`
+  }
+  const describeLockfileChange = (change: LockfilePackageChange) => {
+    const versions = change.from && change.to
+      ? `${change.from} → ${change.to}`
+      : change.to ? `added ${change.to}` : `removed ${change.from}`
+    const size = change.sizeBefore !== undefined || change.sizeAfter !== undefined
+      ? ` · ${formatSizeDelta((change.sizeAfter ?? 0) - (change.sizeBefore ?? 0))}`
+      : ''
+    return `${versions}${size}`
+  }
+  const getPackageUsage = (pkg: OutdatedPackage): DependencyUsage[] => pkg.language === 'javascript'
+    ? (dependencyUsage?.dependencies || []).filter(dep => dep.name === pkg.name)
+    : []
+  const describeUsage = (usages: DependencyUsage[]) => {
+    const files = new Set(usages.flatMap(usage => usage.files)).size
+    if (files > 0) return `imported in ${files} file${files === 1 ? '' : 's'}`
+    const implicit = usages.find(usage => usage.implicitUse)?.implicitUse
+    if (implicit === 'script') return 'run from package.json scripts'
+    if (implicit === 'config') return 'referenced in config files'
+    if (implicit === 'types') return 'type definitions'
+    return usages.some(usage => usage.unused) ? 'never imported' : ''
+  }
   const estimateDependencyDebt = (list: OutdatedPackage[]) => {
     return list.reduce((sum, pkg) => {
       const updatePoints = pkg.updateType === 'patch' ? 1 : pkg.updateType === 'minor' ? 2 : pkg.updateType === 'major' ? 5 : 0
@@ -49,7 +115,7 @@ export default function PatchBatch() {
   }
 
   const nonBreakingPackages = useMemo(
-    () => packages.filter(pkg => pkg.isNonBreaking),
+    () => packages.filter(isAutoSelected),
     [packages]
   )
   const majorPackages = useMemo(
@@ -64,8 +130,8 @@ export default function PatchBatch() {
       unknown: 3
     }
     return [...packages].sort((a, b) => {
-      const aAuto = a.isNonBreaking ? 0 : 1
-      const bAuto = b.isNonBreaking ? 0 : 1
+      const aAuto = isAutoSelected(a) ? 0 : 1
+      const bAuto = isAutoSelected(b) ? 0 : 1
       if (aAuto !== bAuto) return aAuto - bAuto
       if (order[a.updateType] !== order[b.updateType]) {
         return order[a.updateType] - order[b.updateType]
@@ -78,6 +144,24 @@ export default function PatchBatch() {
     return outputEntries.filter(entry => entry.level === outputFilter)
   }, [outputEntries, outputFilter])
   const selectedPackageCount = nonBreakingPackages.length + selectedReviewPackages.size
+  const lockfileDiff = result?.lockfileDiff
+  const lockfileChanges = lockfileDiff ? [...lockfileDiff.changed, ...lockfileDiff.added, ...lockfileDiff.removed] : []
+  const newInstallScripts = lockfileChanges.filter(change => change.newInstallScript)
+  const unusedDependencies = (dependencyUsage?.dependencies || []).filter(dep => dep.unused)
+  const undeclaredDependencies = dependencyUsage?.undeclared || []
+  const trialEffortColor = trialReport?.effort === 'large'
+    ? 'var(--error)'
+    : trialReport?.effort === 'medium' ? 'var(--warning)' : 'var(--success)'
+  const requiredIssues = requiredStatus?.issues || []
+  const describeRequiredIssue = (issue: RequiredPackageIssue) => issue.problem === 'missing'
+    ? `Not declared${issue.type ? ` (expected in ${issue.type})` : ''}`
+    : issue.problem === 'type'
+      ? `In ${issue.declared?.field}, expected ${issue.type}`
+      : `Declared as ${issue.declared?.range}, expected ${issue.version}`
+  const packageMigrations = Object.entries(bridgeConfig?.dependencies.migrations || {})
+  const countImportSites = (name: string) => [...(dependencyUsage?.dependencies || []), ...(dependencyUsage?.undeclared || [])]
+    .filter(dep => dep.name === name)
+    .reduce((sum, dep) => sum + dep.sites.length, 0)
 
   const classifyOutputLevel = (message: string): 'info' | 'warn' | 'error' | 'success' => {
     const normalized = message.trim().toLowerCase()
@@ -126,6 +210,8 @@ export default function PatchBatch() {
       void loadOutdatedPackages()
       void loadRepoInfo()
       void detectTestCommand()
+      void loadDependencyUsage()
+      void loadRequiredPackages()
     }
   }, [selectedRepo])
 
@@ -164,6 +250,26 @@ export default function PatchBatch() {
     }
   }
 
+  const loadDependencyUsage = async () => {
+    if (!selectedRepo) return
+    setExpandedPackage(null)
+    try {
+      const usage = await window.bridge.getDependencyUsage(selectedRepo.path)
+      setDependencyUsage(usage.error ? null : usage)
+    } catch {
+      setDependencyUsage(null)
+    }
+  }
+
+  const loadRequiredPackages = async () => {
+    if (!selectedRepo) return
+    try {
+      setRequiredStatus(await window.bridge.getRequiredPackages(selectedRepo.path))
+    } catch {
+      setRequiredStatus(null)
+    }
+  }
+
   const loadProjectConfig = async () => {
     if (!selectedRepo) return
     try {
@@ -263,6 +369,8 @@ export default function PatchBatch() {
     setLoading(true)
     if (!options?.preserveResult) {
       setResult(null)
+      setTrialReport(null)
+      setMigrationResult(null)
     }
     setLoadError(null)
 
@@ -273,18 +381,12 @@ export default function PatchBatch() {
       ])
 
       setBridgeConfig(fullConfig)
-      const policy = fullConfig.dependencies.updatePolicy
-      const filtered = outdated.filter(pkg => {
-        if (pkg.updateType === 'patch' && policy.patch === 'ignore') return false
-        if (pkg.updateType === 'minor' && policy.minor === 'ignore') return false
-        if (pkg.updateType === 'major' && policy.major === 'ignore') return false
-        return true
-      })
+      const filtered = outdated.filter(pkg => pkg.policy !== 'ignore')
 
       setPackages(filtered)
 
       const autoSelectedMajors = filtered
-        .filter(pkg => !pkg.isNonBreaking && ((pkg.vulnerabilities?.critical || 0) > 0 || (pkg.vulnerabilities?.high || 0) > 0))
+        .filter(pkg => !isAutoSelected(pkg) && !isCoolingDown(pkg) && ((pkg.vulnerabilities?.critical || 0) > 0 || (pkg.vulnerabilities?.high || 0) > 0))
         .map(getPackageKey)
       setSelectedReviewPackages(new Set(autoSelectedMajors))
       return filtered
@@ -300,7 +402,7 @@ export default function PatchBatch() {
   }
 
   const toggleReviewPackage = (pkg: OutdatedPackage) => {
-    if (pkg.isNonBreaking) return
+    if (isAutoSelected(pkg) || isCoolingDown(pkg)) return
     const key = getPackageKey(pkg)
     const next = new Set(selectedReviewPackages)
     if (next.has(key)) {
@@ -338,6 +440,7 @@ export default function PatchBatch() {
     setRunning(true)
     setProgress(null)
     setResult(null)
+    setGroupResult(null)
     setDependencyDebtDelta(null)
     setOutputEntries([])
     const beforeDependencyDebt = estimateDependencyDebt(packages)
@@ -350,6 +453,7 @@ export default function PatchBatch() {
         runTests: runTestsOnRun,
         baseBranch: configuredBaseBranch,
         remoteFirst,
+        bisectOnFailure: patchConfig?.bisectOnFailure ?? false,
         selectedReviewPackages: packages
           .filter(pkg => selectedReviewPackages.has(getPackageKey(pkg)))
           .map(pkg => pkg.name),
@@ -383,6 +487,208 @@ export default function PatchBatch() {
     }
   }
 
+  const runUpgradeTrial = async (pkg: OutdatedPackage) => {
+    if (!selectedRepo) return
+
+    if (!selectedRepo.hasGit) {
+      setResult({ success: false, error: "Git not initialized - run 'git init' first." })
+      return
+    }
+
+    setRunning(true)
+    setTrialPackage(getPackageKey(pkg))
+    setProgress(null)
+    setTrialReport(null)
+    setOutputEntries([])
+
+    try {
+      const report = await window.bridge.runUpgradeTrial({
+        repoPath: selectedRepo.path,
+        packageName: pkg.name,
+        version: pkg.latest,
+        dev: pkg.type === 'devDependencies',
+        runTests: runTestsOnRun,
+        testCommand: testCommand.trim() || undefined,
+        baseBranch: configuredBaseBranch,
+        remoteFirst
+      })
+      setTrialReport(report)
+    } catch (error) {
+      setTrialReport({
+        success: false,
+        packageName: pkg.name,
+        fromVersion: pkg.current,
+        toVersion: pkg.latest,
+        durationMs: 0,
+        error: error instanceof Error ? error.message : 'Upgrade trial failed'
+      })
+    } finally {
+      setRunning(false)
+      setTrialPackage(null)
+      setProgress(null)
+    }
+  }
+
+  const runPackageMigration = async (from: string) => {
+    if (!selectedRepo) return
+
+    if (!selectedRepo.hasGit) {
+      setResult({ success: false, error: "Git not initialized - run 'git init' first." })
+      return
+    }
+
+    if (createPrEnabled) {
+      const ghStatus = await window.bridge.getGitHubCliStatus(selectedRepo.path)
+      if (!ghStatus.installed || !ghStatus.authenticated) {
+        setMigrationResult({
+          success: false,
+          from,
+          error: ghStatus.message || 'PR creation requires GitHub CLI. Install with `brew install gh` and run `gh auth login`.'
+        })
+        return
+      }
+    }
+
+    setRunning(true)
+    setMigratingPackage(from)
+    setProgress(null)
+    setMigrationResult(null)
+    setOutputEntries([])
+
+    try {
+      const nextResult = await window.bridge.runPackageMigration({
+        repoPath: selectedRepo.path,
+        packageName: from,
+        branchName: `${branchName}-migrate-${from.replace(/^@/, '').replace(/\//g, '-')}-${Date.now()}`,
+        createPR: createPrEnabled,
+        runTests: runTestsOnRun,
+        testCommand: testCommand.trim() || undefined,
+        baseBranch: configuredBaseBranch,
+        remoteFirst
+      })
+      setMigrationResult(nextResult)
+      if (nextResult.success) {
+        await loadDependencyUsage()
+        await loadRepoInfo()
+      }
+    } catch (error) {
+      setMigrationResult({
+        success: false,
+        from,
+        error: error instanceof Error ? error.message : 'Package migration failed'
+      })
+    } finally {
+      setRunning(false)
+      setMigratingPackage(null)
+      setProgress(null)
+    }
+  }
+
+  const runRequiredPackages = async () => {
+    if (!selectedRepo) return
+
+    if (!selectedRepo.hasGit) {
+      setResult({ success: false, error: "Git not initialized - run 'git init' first." })
+      return
+    }
+
+    if (createPrEnabled) {
+      const ghStatus = await window.bridge.getGitHubCliStatus(selectedRepo.path)
+      if (!ghStatus.installed || !ghStatus.authenticated) {
+        setResult({
+          success: false,
+          error: ghStatus.message || 'PR creation requires GitHub CLI. Install with `brew install gh` and run `gh auth login`.'
+        })
+        return
+      }
+    }
+
+    setRunning(true)
+    setAddingRequired(true)
+    setProgress(null)
+    setResult(null)
+    setOutputEntries([])
+
+    try {
+      const nextResult = await window.bridge.runRequiredPackages({
+        repoPath: selectedRepo.path,
+        branchName: `${branchName}-required-${Date.now()}`,
+        createPR: createPrEnabled,
+        runTests: runTestsOnRun,
+        testCommand: testCommand.trim() || undefined,
+        baseBranch: configuredBaseBranch,
+        remoteFirst
+      })
+      setResult(nextResult)
+      if (nextResult.success) {
+        await loadRepoInfo()
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Adding required packages failed'
+      })
+    } finally {
+      setRunning(false)
+      setAddingRequired(false)
+      setProgress(null)
+    }
+  }
+
+  const runGroupUpdates = async (groups?: Array<string | null>) => {
+    if (!selectedRepo) return
+
+    if (!selectedRepo.hasGit) {
+      setResult({ success: false, error: "Git not initialized - run 'git init' first." })
+      return
+    }
+
+    if (createPrEnabled) {
+      const ghStatus = await window.bridge.getGitHubCliStatus(selectedRepo.path)
+      if (!ghStatus.installed || !ghStatus.authenticated) {
+        setResult({
+          success: false,
+          error: ghStatus.message || 'PR creation requires GitHub CLI. Install with `brew install gh` and run `gh auth login`.'
+        })
+        return
+      }
+    }
+
+    setRunning(true)
+    setProgress(null)
+    setResult(null)
+    setGroupResult(null)
+    setDependencyDebtDelta(null)
+    setOutputEntries([])
+
+    try {
+      const nextResult = await window.bridge.runGroupedUpdate({
+        repoPath: selectedRepo.path,
+        createPR: createPrEnabled,
+        runTests: runTestsOnRun,
+        baseBranch: configuredBaseBranch,
+        remoteFirst,
+        bisectOnFailure: patchConfig?.bisectOnFailure ?? false,
+        groups,
+        testCommand: testCommand.trim() || undefined
+      })
+
+      setGroupResult(nextResult)
+      if (nextResult.runs.some(run => run.result.success)) {
+        await loadOutdatedPackages({ preserveResult: true })
+        await loadRepoInfo()
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Grouped update failed'
+      })
+    } finally {
+      setRunning(false)
+      setProgress(null)
+    }
+  }
+
   if (!selectedRepo) {
     return (
       <div className="empty-state fade-in">
@@ -459,6 +765,11 @@ export default function PatchBatch() {
             {bridgeConfig && (
               <div style={{ marginTop: '6px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
                 Update policy: patch {updatePolicy.patch}, minor {updatePolicy.minor}, major {updatePolicy.major}
+                {policyOverrideCount > 0 && ` (${policyOverrideCount} override${policyOverrideCount === 1 ? '' : 's'})`}
+                {(minReleaseAgeDays > 0 || releaseAgeOverrideCount > 0) && (
+                  <> · Minimum release age: {minReleaseAgeDays} day{minReleaseAgeDays === 1 ? '' : 's'}
+                    {releaseAgeOverrideCount > 0 && ` (${releaseAgeOverrideCount} override${releaseAgeOverrideCount === 1 ? '' : 's'})`}</>
+                )}
               </div>
             )}
             {projectConfig.errors.length > 0 && (
@@ -488,8 +799,27 @@ export default function PatchBatch() {
             Runs: pull latest → tests → clean install/update script → tests → commit → push.
           </p>
           <p style={{ color: 'var(--text-tertiary)', fontSize: '12px', marginBottom: '10px' }}>
-            Auto-selected packages are non-breaking updates within your current version ranges (`current → wanted`). Additional `current → latest` updates may require range changes and are left for manual review.
+            Auto-selected packages are non-breaking updates within your current version ranges (`current → wanted`) whose `.bridge.json` policy is `auto`; tick `review` rows to include them. Additional `current → latest` updates may require range changes and are left for manual review.
+            {minReleaseAgeDays > 0 && ` Versions published less than ${minReleaseAgeDays} days ago are skipped; wanted and latest show the newest releases old enough to adopt.`}
+            {dependencyUsage && ' Click a row to see where the package is imported.'}
           </p>
+          {(unusedDependencies.length > 0 || undeclaredDependencies.length > 0) && (
+            <div style={{ fontSize: '12px', marginBottom: '10px' }}>
+              {unusedDependencies.length > 0 && (
+                <div style={{ color: 'var(--warning)' }}>
+                  Declared but never imported: {unusedDependencies.map(dep => dep.manifest ? `${dep.manifest}/${dep.name}` : dep.name).join(', ')}
+                </div>
+              )}
+              {undeclaredDependencies.length > 0 && (
+                <div style={{ color: 'var(--error)' }}>
+                  Imported but not declared:{' '}
+                  {undeclaredDependencies
+                    .map(dep => `${dep.name} (${dep.sites[0].file}:${dep.sites[0].line}${dep.files.length > 1 ? ` +${dep.files.length - 1}` : ''})`)
+                    .join(', ')}
+                </div>
+              )}
+            </div>
+          )}
           {nonBreakingPackages.length === 0 && majorPackages.length > 0 && (
             <div style={{ color: 'var(--warning)', fontSize: '12px', marginBottom: '10px' }}>
               No patch/minor updates are available in this repo right now. Only major upgrades are available, so select them manually if you want to include them.
@@ -510,6 +840,7 @@ export default function PatchBatch() {
                     <th>Wanted</th>
                     <th>Latest</th>
                     <th>Update Type</th>
+                    <th>Policy</th>
                     <th>Type</th>
                     <th>Vulns</th>
                   </tr>
@@ -517,51 +848,140 @@ export default function PatchBatch() {
                 <tbody>
                   {sortedPackages.map(pkg => {
                     const key = getPackageKey(pkg)
-                    const isChecked = pkg.isNonBreaking || selectedReviewPackages.has(key)
-                    const isDisabled = pkg.isNonBreaking
+                    const isChecked = isAutoSelected(pkg) || selectedReviewPackages.has(key)
+                    const isDisabled = isAutoSelected(pkg) || isCoolingDown(pkg)
+                    const usages = getPackageUsage(pkg)
+                    const usageSites = usages.flatMap(usage => usage.sites)
+                    const usageSymbols = Array.from(new Set(usages.flatMap(usage => usage.symbols)))
+                    const usageSummary = describeUsage(usages)
                     return (
-                      <tr
-                        key={`all-${key}`}
-                        className={isChecked ? 'selected' : ''}
-                        onClick={() => {
-                          if (!isDisabled) {
-                            toggleReviewPackage(pkg)
-                          }
-                        }}
-                      >
-                        <td>
-                          <div className={`checkbox ${isChecked ? 'checked' : ''}`} style={isDisabled ? { opacity: 0.6 } : undefined}>
-                            {isChecked && (
-                              <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="#000" strokeWidth="3">
-                                <polyline points="20 6 9 17 4 12" />
-                              </svg>
+                      <Fragment key={`all-${key}`}>
+                        <tr
+                          className={isChecked ? 'selected' : ''}
+                          onClick={() => setExpandedPackage(prev => prev === key ? null : key)}
+                        >
+                          <td
+                            onClick={e => {
+                              e.stopPropagation()
+                              if (!isDisabled) {
+                                toggleReviewPackage(pkg)
+                              }
+                            }}
+                          >
+                            <div className={`checkbox ${isChecked ? 'checked' : ''}`} style={isDisabled ? { opacity: 0.6 } : undefined}>
+                              {isChecked && (
+                                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="#000" strokeWidth="3">
+                                  <polyline points="20 6 9 17 4 12" />
+                                </svg>
+                              )}
+                            </div>
+                          </td>
+                          <td>
+                            <div className="package-name-cell">
+                              <div className="package-name">{pkg.name}</div>
+                            </div>
+                            {usages.length > 0 && (
+                              <div style={{ color: usages.some(usage => usage.unused) ? 'var(--warning)' : 'var(--text-tertiary)', fontSize: '11px' }}>
+                                {usageSummary}
+                              </div>
                             )}
-                          </div>
-                        </td>
-                        <td>
-                          <div className="package-name-cell">
-                            <div className="package-name">{pkg.name}</div>
-                          </div>
-                        </td>
-                        <td>{pkg.current}</td>
-                        <td>{pkg.wanted}</td>
-                        <td className="version-new">{pkg.latest}</td>
-                        <td>
-                          <span className={`badge ${getUpdateTypeBadgeClass(pkg.updateType)}`}>
-                            {pkg.updateType}
-                          </span>
-                        </td>
-                        <td>{pkg.type === 'devDependencies' ? 'devDep' : 'dep'}</td>
-                        <td>
-                          {(pkg.vulnerabilities?.total || 0) > 0 ? (
-                            <span className="badge badge-warning">
-                              C{pkg.vulnerabilities?.critical || 0} H{pkg.vulnerabilities?.high || 0} M{pkg.vulnerabilities?.medium || 0} L{pkg.vulnerabilities?.low || 0}
+                          </td>
+                          <td>{pkg.current}</td>
+                          <td>{pkg.wanted}</td>
+                          <td className="version-new">
+                            {isCoolingDown(pkg) ? <span style={{ color: 'var(--text-tertiary)' }}>-</span> : pkg.latest}
+                            {(pkg.cooldown?.skipped.length || 0) > 0 && !pkg.cooldown?.unresolved && (
+                              <div
+                                style={{ color: 'var(--text-tertiary)', fontSize: '11px' }}
+                                title={`Skipped by the ${pkg.cooldown?.minReleaseAgeDays}-day minimum release age: ${describeHeldReleases(pkg)}`}
+                              >
+                                {pkg.cooldown?.skipped[0].version} cooling down
+                                {(pkg.cooldown?.skipped.length || 0) > 1 && ` (+${(pkg.cooldown?.skipped.length || 0) - 1})`}
+                              </div>
+                            )}
+                            {pkg.cooldown?.unresolved && (
+                              <div
+                                style={{ color: 'var(--warning)', fontSize: '11px' }}
+                                title={`Held at ${pkg.current}: the ${pkg.cooldown.minReleaseAgeDays}-day minimum release age could not be checked for ${describeHeldReleases(pkg)}`}
+                              >
+                                publish times unavailable
+                              </div>
+                            )}
+                          </td>
+                          <td>
+                            <span className={`badge ${getUpdateTypeBadgeClass(pkg.updateType)}`}>
+                              {pkg.updateType}
                             </span>
-                          ) : (
-                            <span style={{ color: 'var(--text-tertiary)' }}>0</span>
-                          )}
-                        </td>
-                      </tr>
+                            {pkg.updateType === 'major' && !isCoolingDown(pkg) && pkg.language === 'javascript' && (
+                              <button
+                                className="btn btn-secondary btn-sm"
+                                style={{ marginLeft: '6px' }}
+                                title={`Install ${pkg.name}@${pkg.latest} in a throwaway worktree and report new type errors and test failures`}
+                                onClick={e => {
+                                  e.stopPropagation()
+                                  void runUpgradeTrial(pkg)
+                                }}
+                                disabled={running || !selectedRepo.hasGit}
+                              >
+                                {trialPackage === key ? 'Trying...' : 'Trial'}
+                              </button>
+                            )}
+                          </td>
+                          <td>
+                            {pkg.policy ? (
+                              <span
+                                className={`badge ${pkg.policy === 'auto' ? 'badge-success' : 'badge-warning'}`}
+                                title={pkg.policySource ? `From ${pkg.policySource} in .bridge.json` : undefined}
+                              >
+                                {pkg.policy}
+                              </span>
+                            ) : (
+                              <span style={{ color: 'var(--text-tertiary)' }}>-</span>
+                            )}
+                          </td>
+                          <td>{pkg.type === 'devDependencies' ? 'devDep' : pkg.type === 'peerDependencies' ? 'peer' : 'dep'}</td>
+                          <td>
+                            {(pkg.vulnerabilities?.total || 0) > 0 ? (
+                              <span className="badge badge-warning">
+                                C{pkg.vulnerabilities?.critical || 0} H{pkg.vulnerabilities?.high || 0} M{pkg.vulnerabilities?.medium || 0} L{pkg.vulnerabilities?.low || 0}
+                              </span>
+                            ) : (
+                              <span style={{ color: 'var(--text-tertiary)' }}>0</span>
+                            )}
+                          </td>
+                        </tr>
+                        {expandedPackage === key && (
+                          <tr className="usage-row">
+                            <td colSpan={9} style={{ fontSize: '12px' }}>
+                              {!dependencyUsage ? (
+                                <span style={{ color: 'var(--text-tertiary)' }}>Import sites are unavailable for this repo.</span>
+                              ) : usageSites.length === 0 ? (
+                                <span style={{ color: 'var(--text-tertiary)' }}>
+                                  No source file imports {pkg.name}{usages.some(usage => usage.implicitUse) ? ` (${usageSummary})` : ''}.
+                                </span>
+                              ) : (
+                                <div>
+                                  {usageSymbols.length > 0 && (
+                                    <div style={{ marginBottom: '6px', color: 'var(--text-secondary)' }}>
+                                      Symbols: {usageSymbols.map(symbol => symbol === '*' ? '* (whole module)' : symbol).join(', ')}
+                                    </div>
+                                  )}
+                                  <div style={{ maxHeight: '200px', overflow: 'auto', fontFamily: 'var(--font-mono)' }}>
+                                    {usageSites.map(site => (
+                                      <div key={`${site.file}:${site.line}:${site.kind}:${site.specifier}`}>
+                                        {site.file}:{site.line}{' '}
+                                        <span style={{ color: 'var(--text-tertiary)' }}>
+                                          {site.kind} {site.specifier}{site.names.length > 0 ? ` {${site.names.join(', ')}}` : ''}
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
                     )
                   })}
                 </tbody>
@@ -570,6 +990,184 @@ export default function PatchBatch() {
           )}
         </div>
 
+        {dependencyGroups.length > 0 && (
+          <div className="card" style={{ marginBottom: '16px' }}>
+            <div className="card-header">
+              <h3 className="card-title">Dependency Groups</h3>
+              <button
+                className="btn btn-primary btn-sm"
+                onClick={() => void runGroupUpdates()}
+                disabled={running || !selectedRepo.hasGit}
+              >
+                {running ? 'Running...' : createPrEnabled ? 'Run All Groups + PRs' : 'Run All Groups'}
+              </button>
+            </div>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '13px', marginBottom: '10px' }}>
+              Each group from <code>.bridge.json</code> gets its own branch{createPrEnabled ? ' and PR' : ''}. Packages outside every group are updated on a separate branch.
+            </p>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              {dependencyGroups.map(group => (
+                <div key={group.name} className="list-item">
+                  <div>
+                    <div className="list-title">{group.name}</div>
+                    <div className="list-sub">
+                      {group.packages.join(', ')} · {group.updateTypes.join('/')}
+                      {group.schedule ? ` · ${group.schedule}` : ''}
+                    </div>
+                  </div>
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => void runGroupUpdates([group.name])}
+                    disabled={running || !selectedRepo.hasGit}
+                  >
+                    Run
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {requiredStatus && requiredStatus.required.length > 0 && (
+          <div className="card" style={{ marginBottom: '16px' }}>
+            <div className="card-header">
+              <h3 className="card-title">Required Packages</h3>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => void runRequiredPackages()}
+                disabled={running || !selectedRepo.hasGit || requiredIssues.length === 0}
+              >
+                {addingRequired ? 'Adding...' : `Add Missing [${requiredIssues.length}]${createPrEnabled ? ' + PR' : ''}`}
+              </button>
+            </div>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '13px', marginBottom: '10px' }}>
+              From <code>dependencies.requiredPackages</code> in <code>.bridge.json</code>.{' '}
+              {requiredIssues.length === 0
+                ? `All ${requiredStatus.required.length} required package${requiredStatus.required.length === 1 ? ' is' : 's are'} declared in package.json.`
+                : `Adding installs the packages below on their own branch${createPrEnabled ? ' and opens a PR' : ''} after validation.`}
+            </p>
+            {requiredIssues.length > 0 && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {requiredIssues.map(issue => (
+                  <div key={issue.name} className="list-item">
+                    <div>
+                      <div className="list-title">{issue.version ? `${issue.name}@${issue.version}` : issue.name}</div>
+                      <div className="list-sub">{describeRequiredIssue(issue)}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {packageMigrations.length > 0 && (
+          <div className="card" style={{ marginBottom: '16px' }}>
+            <div className="card-header">
+              <h3 className="card-title">Banned Package Migrations</h3>
+            </div>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '13px', marginBottom: '10px' }}>
+              From <code>dependencies.migrations</code> in <code>.bridge.json</code>. Each run rewrites import sites with a codemod where one exists, swaps the dependency on its own branch{createPrEnabled ? ' and opens a PR' : ''} listing the sites left for manual follow-up.
+            </p>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              {packageMigrations.map(([from, to]) => (
+                <div key={from} className="list-item">
+                  <div>
+                    <div className="list-title">{from} → {to}</div>
+                    {dependencyUsage && (
+                      <div className="list-sub">
+                        {countImportSites(from)} import site{countImportSites(from) === 1 ? '' : 's'}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => void runPackageMigration(from)}
+                    disabled={running || !selectedRepo.hasGit}
+                  >
+                    {migratingPackage === from ? 'Migrating...' : createPrEnabled ? 'Migrate + PR' : 'Migrate'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {migrationResult && (
+          <div
+            className="card"
+            style={{
+              marginBottom: '16px',
+              borderColor: migrationResult.success ? 'var(--success)' : 'var(--error)'
+            }}
+          >
+            <div style={{ fontWeight: 600, marginBottom: '8px' }}>
+              Migration: {migrationResult.from}{migrationResult.to ? ` → ${migrationResult.to}` : ''}
+            </div>
+            {migrationResult.error ? (
+              <div style={{ color: 'var(--error)', fontSize: '13px', marginBottom: '8px' }}>{migrationResult.error}</div>
+            ) : (
+              <div style={{ fontSize: '13px', marginBottom: '8px' }}>
+                {migrationResult.prUrl
+                  ? <a href={migrationResult.prUrl} target="_blank" rel="noopener noreferrer">{migrationResult.prUrl}</a>
+                  : `Committed on '${migrationResult.branchName}'`}
+                <span style={{ color: 'var(--text-secondary)' }}>
+                  {' '}· {migrationResult.removedPackage ? `${migrationResult.from} removed from package.json` : `${migrationResult.from} kept in package.json`}
+                  {migrationResult.installedPackage ? ` · ${migrationResult.to} installed` : ''}
+                </span>
+              </div>
+            )}
+            {migrationResult.rewritten && (
+              <details style={{ fontSize: '13px', marginBottom: '4px' }}>
+                <summary>{migrationResult.rewritten.length} site(s) rewritten</summary>
+                <pre style={{ whiteSpace: 'pre-wrap', maxHeight: '240px', overflow: 'auto', fontSize: '12px' }}>
+                  {migrationResult.rewritten.map(site => `${site.file}:${site.line} ${site.text}`).join('\n')}
+                </pre>
+              </details>
+            )}
+            {migrationResult.manual && migrationResult.manual.length > 0 && (
+              <details open style={{ fontSize: '13px' }}>
+                <summary style={{ color: 'var(--warning)' }}>{migrationResult.manual.length} site(s) need manual follow-up</summary>
+                <pre style={{ whiteSpace: 'pre-wrap', maxHeight: '240px', overflow: 'auto', fontSize: '12px' }}>
+                  {migrationResult.manual.map(site => `${site.file}:${site.line} ${site.reason}\n    ${site.text}`).join('\n')}
+                </pre>
+              </details>
+            )}
+          </div>
+        )}
+
+        {groupResult && (
+          <div
+            className="card"
+            style={{
+              marginBottom: '16px',
+              borderColor: groupResult.success ? 'var(--success)' : 'var(--error)'
+            }}
+          >
+            <div style={{ fontWeight: 600, marginBottom: '8px' }}>
+              {groupResult.error || (groupResult.runs.length === 0 ? 'No group had updates to apply.' : 'Grouped update results')}
+            </div>
+            {groupResult.runs.map(run => (
+              <div key={run.group ?? '(ungrouped)'} style={{ fontSize: '13px', marginBottom: '4px' }}>
+                <strong>{run.group ?? 'Ungrouped'}</strong>{' '}
+                {run.result.success ? (
+                  <span style={{ color: 'var(--success)' }}>
+                    {run.result.prUrl
+                      ? <a href={run.result.prUrl} target="_blank" rel="noopener noreferrer">{run.result.prUrl}</a>
+                      : `committed on '${run.result.branchName}'`}
+                    {' '}({run.result.updatedPackages?.length || 0} packages
+                    {run.result.lockfileDiff
+                      ? `, ${run.result.lockfileDiff.changed.length + run.result.lockfileDiff.added.length + run.result.lockfileDiff.removed.length} lockfile changes`
+                      : ''})
+                  </span>
+                ) : (
+                  <span style={{ color: 'var(--error)' }}>{run.result.error}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {result && (
           <div
             className="card"
@@ -610,6 +1208,143 @@ export default function PatchBatch() {
                 <div style={{ fontSize: '13px' }}>{result.error}</div>
               </div>
             )}
+            {result.culprits && result.culprits.length > 0 && (
+              <div style={{ marginTop: '12px' }}>
+                <div style={{ fontWeight: 600, marginBottom: '6px' }}>
+                  Held back after failing validation ({result.culprits.length})
+                </div>
+                {result.culprits.map(culprit => (
+                  <details key={culprit.name} style={{ fontSize: '13px', marginBottom: '4px' }}>
+                    <summary>
+                      <strong>{culprit.name}</strong>
+                      {culprit.failedCommand && <span style={{ color: 'var(--text-secondary)' }}> · fails {culprit.failedCommand}</span>}
+                    </summary>
+                    <pre style={{ whiteSpace: 'pre-wrap', maxHeight: '240px', overflow: 'auto', fontSize: '12px' }}>
+                      {culprit.output.trim() || 'No output captured.'}
+                    </pre>
+                  </details>
+                ))}
+              </div>
+            )}
+            {lockfileDiff && (
+              <div style={{ marginTop: '12px', fontSize: '13px' }}>
+                <div style={{ fontWeight: 600, marginBottom: '6px' }}>Lockfile changes ({lockfileDiff.lockfile})</div>
+                <div>
+                  {lockfileDiff.changed.length} changed, {lockfileDiff.added.length} added, {lockfileDiff.removed.length} removed
+                  {lockfileDiff.sizeDelta !== undefined && (
+                    <span style={{ color: 'var(--text-secondary)' }}>
+                      {' '}· tarballs {formatSizeDelta(lockfileDiff.sizeDelta)}
+                      {lockfileDiff.unsizedPackages ? ` (${lockfileDiff.unsizedPackages} not measured)` : ''}
+                    </span>
+                  )}
+                </div>
+                {newInstallScripts.length > 0 && (
+                  <div style={{ color: 'var(--warning)', marginTop: '4px' }}>
+                    New install scripts: {newInstallScripts.map(change => change.name).join(', ')}
+                  </div>
+                )}
+                {lockfileChanges.length > 0 && (
+                  <details style={{ marginTop: '4px' }}>
+                    <summary>Packages</summary>
+                    <div style={{ maxHeight: '240px', overflow: 'auto', fontSize: '12px' }}>
+                      {lockfileChanges.map(change => (
+                        <div key={`${change.name}-${change.from ?? ''}-${change.to ?? ''}`}>
+                          <strong>{change.name}</strong>{' '}
+                          <span style={{ color: 'var(--text-secondary)' }}>{describeLockfileChange(change)}</span>
+                          {change.newInstallScript && <span style={{ color: 'var(--warning)' }}> · install script</span>}
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {trialReport && (
+          <div
+            className="card"
+            style={{
+              marginBottom: '16px',
+              borderColor: trialReport.success ? trialEffortColor : 'var(--error)'
+            }}
+          >
+            <div style={{ fontWeight: 600, marginBottom: '8px' }}>
+              Upgrade trial: {trialReport.packageName} {trialReport.fromVersion ?? '?'} → {trialReport.toVersion}
+              {trialReport.effort && (
+                <span style={{ color: trialEffortColor }}> · {trialReport.effort} effort</span>
+              )}
+            </div>
+            <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '8px' }}>
+              Nothing was committed; the trial worktree has been removed. Took {Math.round(trialReport.durationMs / 1000)}s.
+            </div>
+            {trialReport.error && (
+              <div style={{ color: 'var(--error)', fontSize: '13px', marginBottom: '8px' }}>{trialReport.error}</div>
+            )}
+            {trialReport.typecheck && (
+              <div style={{ fontSize: '13px', marginBottom: '8px' }}>
+                <strong>Type check:</strong>{' '}
+                {trialReport.typecheck.ran ? (
+                  <span>
+                    {trialReport.typecheck.newErrorCount} new error(s), {trialReport.typecheck.fixedErrorCount} fixed
+                    <span style={{ color: 'var(--text-secondary)' }}>
+                      {' '}({trialReport.typecheck.baselineErrors} → {trialReport.typecheck.trialErrors} total)
+                    </span>
+                  </span>
+                ) : (
+                  <span style={{ color: 'var(--text-secondary)' }}>skipped ({trialReport.typecheck.skippedReason})</span>
+                )}
+                {trialReport.typecheck.affectedFiles.length > 0 && (
+                  <details style={{ marginTop: '4px' }}>
+                    <summary>{trialReport.typecheck.affectedFiles.length} affected file(s)</summary>
+                    <div style={{ maxHeight: '240px', overflow: 'auto', fontSize: '12px' }}>
+                      {trialReport.typecheck.affectedFiles.map(entry => (
+                        <div key={entry.file}>
+                          <strong>{entry.file}</strong>{' '}
+                          <span style={{ color: 'var(--text-secondary)' }}>{entry.errors} error(s)</span>
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                )}
+                {trialReport.typecheck.newErrors.length > 0 && (
+                  <details style={{ marginTop: '4px' }}>
+                    <summary>New errors</summary>
+                    <pre style={{ whiteSpace: 'pre-wrap', maxHeight: '240px', overflow: 'auto', fontSize: '12px' }}>
+                      {trialReport.typecheck.newErrors
+                        .map(error => `${error.file}:${error.line}:${error.column} ${error.code} ${error.message}`)
+                        .join('\n')}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            )}
+            {trialReport.validation && (
+              <div style={{ fontSize: '13px' }}>
+                <strong>Validation:</strong>{' '}
+                {!trialReport.validation.ran ? (
+                  <span style={{ color: 'var(--text-secondary)' }}>skipped ({trialReport.validation.skippedReason})</span>
+                ) : trialReport.validation.regressed ? (
+                  <span style={{ color: 'var(--error)' }}>regressed</span>
+                ) : trialReport.validation.trialPassed ? (
+                  <span style={{ color: 'var(--success)' }}>passes</span>
+                ) : (
+                  <span style={{ color: 'var(--warning)' }}>fails, as it already did before the upgrade</span>
+                )}
+                {trialReport.validation.reason && (
+                  <div style={{ color: 'var(--text-secondary)' }}>{trialReport.validation.reason}</div>
+                )}
+                {trialReport.validation.newFailures.length > 0 && (
+                  <details style={{ marginTop: '4px' }}>
+                    <summary>{trialReport.validation.newFailures.length} new failure(s)</summary>
+                    <pre style={{ whiteSpace: 'pre-wrap', maxHeight: '240px', overflow: 'auto', fontSize: '12px' }}>
+                      {trialReport.validation.newFailures.join('\n')}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            )}
           </div>
         )}
 
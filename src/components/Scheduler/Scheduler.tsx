@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useRepositories } from '../../contexts/RepositoryContext'
 import { useAppSettings } from '../../contexts/AppSettingsContext'
-import type { ScheduledJob, ScheduleFrequency, JobResult, SmartScanSchedule, ScheduledJobCreateInput } from '../../types'
+import type { ScheduledJob, ScheduleFrequency, JobResult, SmartScanSchedule, ScheduledJobCreateInput, DependencyGroup } from '../../types'
 
 const FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
   hourly: 'Hourly',
@@ -92,12 +92,31 @@ export default function Scheduler() {
   const [weeklyDays, setWeeklyDays] = useState<Set<number>>(new Set([new Date().getDay()]))
   const [monthlyDay, setMonthlyDay] = useState(new Date().getDate())
   const [smartRepo, setSmartRepo] = useState('')
+  const [group, setGroup] = useState('')
+  const [repoGroups, setRepoGroups] = useState<Record<string, DependencyGroup[]>>({})
 
   const availableRepos = useMemo(
     () => repositories.filter(repo => repo.exists && repo.hasGit),
     [repositories]
   )
 
+  const groupOptions = useMemo(() => {
+    const options = new Map<string, DependencyGroup>()
+    selectedRepos.forEach(repoPath => {
+      (repoGroups[repoPath] || []).forEach(entry => {
+        if (!options.has(entry.name)) options.set(entry.name, entry)
+      })
+    })
+    return Array.from(options.values())
+  }, [repoGroups, selectedRepos])
+
+  const reposWithGroup = useMemo(
+    () => availableRepos.filter(repo =>
+      selectedRepos.has(repo.path) && (!group || (repoGroups[repo.path] || []).some(entry => entry.name === group))
+    ),
+    [availableRepos, group, repoGroups, selectedRepos]
+  )
+
   const recurrenceSummary = useMemo(() => {
     const formattedTime = formatTimeOfDay(timeOfDay)
     switch (frequency) {
@@ -124,6 +143,23 @@ export default function Scheduler() {
     loadSmartSchedules()
   }, [])
 
+  useEffect(() => {
+    selectedRepos.forEach(repoPath => {
+      if (repoGroups[repoPath]) return
+      setRepoGroups(prev => ({ ...prev, [repoPath]: [] }))
+      window.bridge.loadBridgeConfig(repoPath)
+        .then(config => config.dependencies.groups || [])
+        .catch(() => [])
+        .then(groups => setRepoGroups(prev => ({ ...prev, [repoPath]: groups })))
+    })
+  }, [repoGroups, selectedRepos])
+
+  useEffect(() => {
+    if (group && !groupOptions.some(entry => entry.name === group)) {
+      setGroup('')
+    }
+  }, [group, groupOptions])
+
   useEffect(() => {
     const cleanup = window.bridge.onSmartScanStarted(({ repoName }) => {
       setSmartMessage(`Smart scan started for ${repoName}`)
@@ -159,6 +195,7 @@ export default function Scheduler() {
 
   const resetForm = () => {
     setSelectedRepos(new Set())
+    setGroup('')
     setFrequency('weekly')
     setStartDate(getDefaultStartDate())
     setTimeOfDay(getDefaultTimeOfDay())
@@ -173,8 +210,7 @@ export default function Scheduler() {
     const selectedWeeklyDays = Array.from(weeklyDays).sort((a, b) => a - b)
     const startAt = buildStartAtIso(startDate, timeOfDay)
 
-    const batchInputs: ScheduledJobCreateInput[] = availableRepos
-      .filter(repo => selectedRepos.has(repo.path))
+    const batchInputs: ScheduledJobCreateInput[] = reposWithGroup
       .map(repo => ({
         repoPath: repo.path,
         repoName: repo.name,
@@ -187,7 +223,8 @@ export default function Scheduler() {
         enabled: true,
         language: repo.languages?.[0] || 'javascript',
         createPR: false,
-        runTests
+        runTests,
+        group: group || undefined
       }))
 
     if (batchInputs.length === 0) return
@@ -214,6 +251,14 @@ export default function Scheduler() {
     })
   }
 
+  const selectGroup = (name: string) => {
+    setGroup(name)
+    const schedule = groupOptions.find(entry => entry.name === name)?.schedule
+    if (schedule) {
+      setFrequency(schedule)
+    }
+  }
+
   const toggleWeeklyDay = (day: number) => {
     setWeeklyDays(prev => {
       const next = new Set(prev)
@@ -409,6 +454,7 @@ export default function Scheduler() {
                       {job.enabled ? 'Active' : 'Paused'}
                     </span>
                     <span className="badge badge-accent">{FREQUENCY_LABELS[job.frequency]}</span>
+                    {job.group && <span className="badge">Group: {job.group}</span>}
                   </div>
                   <div style={{ fontSize: '13px', color: 'var(--text-secondary)', marginBottom: '6px' }}>
                     {job.repoPath}
@@ -558,6 +604,27 @@ export default function Scheduler() {
                 <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
                   Selected repositories: {selectedRepos.size}
                 </div>
+
+                {groupOptions.length > 0 && (
+                  <div style={{ marginTop: '12px' }}>
+                    <label style={{ display: 'block', marginBottom: '6px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+                      Dependency group
+                    </label>
+                    <select className="input" value={group} onChange={e => selectGroup(e.target.value)}>
+                      <option value="">All non-breaking updates</option>
+                      {groupOptions.map(entry => (
+                        <option key={entry.name} value={entry.name}>
+                          {entry.name} ({entry.packages.join(', ')})
+                        </option>
+                      ))}
+                    </select>
+                    {group && reposWithGroup.length < selectedRepos.size && (
+                      <div style={{ marginTop: '6px', fontSize: '12px', color: 'var(--warning)' }}>
+                        {selectedRepos.size - reposWithGroup.length} selected repositor{selectedRepos.size - reposWithGroup.length === 1 ? 'y does' : 'ies do'} not define this group and will be skipped.
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div>
@@ -666,9 +733,9 @@ export default function Scheduler() {
               <button
                 className="btn btn-primary"
                 onClick={addJob}
-                disabled={selectedRepos.size === 0}
+                disabled={reposWithGroup.length === 0}
               >
-                Create {selectedRepos.size || ''} Schedule{selectedRepos.size === 1 ? '' : 's'}
+                Create {reposWithGroup.length || ''} Schedule{reposWithGroup.length === 1 ? '' : 's'}
               </button>
             </div>
           </div>
@@ -1,7 +1,15 @@
 import { useState, useEffect } from 'react'
 import { useRepositories } from '../../contexts/RepositoryContext'
 import { useAppSettings } from '../../contexts/AppSettingsContext'
-import type { ScanResult, SecurityFinding, ScanProgress } from '../../types'
+import type {
+  AdvisoryDbInfo,
+  ScanResult,
+  SecurityFinding,
+  ScanProgress,
+  SarifImportSummary,
+  SuppressionStatus,
+  VulnerabilityReachability
+} from '../../types'
 
 const SEVERITY_COLORS = {
   critical: { bg: 'rgba(239, 68, 68, 0.15)', color: '#ef4444' },
@@ -10,6 +18,20 @@ const SEVERITY_COLORS = {
   low: { bg: 'rgba(34, 197, 94, 0.15)', color: '#22c55e' }
 }
 
+const REACHABILITY_LABELS: Record<VulnerabilityReachability, string> = {
+  reachable: 'Reachable from app code',
+  'dev-only': 'Dev only',
+  'transitive-unused': 'Transitive, unused',
+  unknown: 'Reachability unknown'
+}
+
+function formatAge(timestamp: string | null): string {
+  if (!timestamp) return 'unknown'
+  const days = Math.floor((Date.now() - new Date(timestamp).getTime()) / (24 * 60 * 60 * 1000))
+  if (days <= 0) return 'today'
+  return days === 1 ? '1 day ago' : `${days} days ago`
+}
+
 export default function Security() {
   const { selectedRepo } = useRepositories()
   const { settings } = useAppSettings()
@@ -20,11 +42,37 @@ export default function Security() {
   const [generatingFix, setGeneratingFix] = useState(false)
   const [filterSeverity, setFilterSeverity] = useState<string>('all')
   const [scannerAvailable, setScannerAvailable] = useState<boolean | null>(null)
+  const [sarifImports, setSarifImports] = useState<SarifImportSummary[]>([])
+  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [advisoryDb, setAdvisoryDb] = useState<AdvisoryDbInfo | null>(null)
+  const [importingAdvisories, setImportingAdvisories] = useState(false)
+  const [suppressions, setSuppressions] = useState<SuppressionStatus[]>([])
+  const [suppressForm, setSuppressForm] = useState({ reason: '', owner: '', expires: '' })
+  const [suppressing, setSuppressing] = useState(false)
 
   useEffect(() => {
     checkScanner()
+    window.bridge.getAdvisoryDbInfo()
+      .then(setAdvisoryDb)
+      .catch(error => console.error('Failed to load advisory database info:', error))
   }, [])
 
+  useEffect(() => {
+    setSarifImports([])
+    setStatusMessage(null)
+    if (!selectedRepo) return
+    window.bridge.getSarifImports(selectedRepo.path)
+      .then(setSarifImports)
+      .catch(error => console.error('Failed to load SARIF imports:', error))
+    window.bridge.getSuppressions(selectedRepo.path)
+      .then(setSuppressions)
+      .catch(error => console.error('Failed to load suppressions:', error))
+  }, [selectedRepo?.path])
+
+  useEffect(() => {
+    setSuppressForm({ reason: '', owner: '', expires: '' })
+  }, [selectedFinding])
+
   useEffect(() => {
     if (scanning) {
       const cleanup = window.bridge.onSecurityScanProgress(setProgress)
@@ -56,6 +104,110 @@ export default function Security() {
     }
   }
 
+  const importSarif = async () => {
+    if (!selectedRepo) return
+    try {
+      const imported = await window.bridge.importSarif(selectedRepo.path)
+      if (!imported) return
+      setSarifImports(await window.bridge.getSarifImports(selectedRepo.path))
+      const count = imported.reduce((sum, entry) => sum + entry.findingCount, 0)
+      setStatusMessage({
+        type: 'success',
+        text: `Imported ${count} findings from ${imported.map(entry => entry.tool).join(', ')}. Rescan to merge them into the results.`
+      })
+    } catch (error) {
+      setStatusMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to import SARIF file' })
+    }
+  }
+
+  const removeSarifImport = async (tool: string) => {
+    if (!selectedRepo) return
+    try {
+      setSarifImports(await window.bridge.removeSarifImport(selectedRepo.path, tool))
+      setStatusMessage(null)
+    } catch (error) {
+      setStatusMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to remove SARIF import' })
+    }
+  }
+
+  const exportSarif = async () => {
+    if (!selectedRepo) return
+    try {
+      const outputPath = await window.bridge.exportSarif(selectedRepo.path)
+      if (outputPath) {
+        setStatusMessage({ type: 'success', text: `Exported SARIF report to ${outputPath}` })
+      }
+    } catch (error) {
+      setStatusMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to export SARIF report' })
+    }
+  }
+
+  const importAdvisories = async () => {
+    setImportingAdvisories(true)
+    try {
+      const imported = await window.bridge.importOsvAdvisories()
+      if (!imported) return
+      setAdvisoryDb(imported.info)
+      setStatusMessage({
+        type: 'success',
+        text: `Imported ${imported.imported} advisories${imported.skipped ? ` (${imported.skipped} skipped)` : ''}. Rescan to match them against lockfiles.`
+      })
+    } catch (error) {
+      setStatusMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to import OSV advisories' })
+    } finally {
+      setImportingAdvisories(false)
+    }
+  }
+
+  const clearAdvisories = async () => {
+    try {
+      setAdvisoryDb(await window.bridge.clearAdvisoryDb())
+      setStatusMessage(null)
+    } catch (error) {
+      setStatusMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to clear advisory database' })
+    }
+  }
+
+  const suppressFinding = async (finding: SecurityFinding) => {
+    if (!selectedRepo || !finding.fingerprints) return
+    setSuppressing(true)
+    try {
+      setSuppressions(await window.bridge.addSuppression(selectedRepo.path, {
+        fingerprints: finding.fingerprints,
+        reason: suppressForm.reason,
+        owner: suppressForm.owner || undefined,
+        expires: suppressForm.expires || undefined
+      }))
+      setResult(current => current && {
+        ...current,
+        findings: current.findings.filter(item => item !== finding),
+        totalFindings: current.totalFindings - 1,
+        criticalCount: current.criticalCount - (finding.severity === 'critical' ? 1 : 0),
+        highCount: current.highCount - (finding.severity === 'high' ? 1 : 0),
+        mediumCount: current.mediumCount - (finding.severity === 'medium' ? 1 : 0),
+        lowCount: current.lowCount - (finding.severity === 'low' ? 1 : 0)
+      })
+      setSelectedFinding(null)
+      setStatusMessage({ type: 'success', text: 'Suppression saved to .bridge.json. Commit it so CI honors it too.' })
+    } catch (error) {
+      setStatusMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save suppression' })
+    } finally {
+      setSuppressing(false)
+    }
+  }
+
+  const removeSuppression = async (fingerprint: string) => {
+    if (!selectedRepo) return
+    try {
+      setSuppressions(await window.bridge.removeSuppression(selectedRepo.path, fingerprint))
+      setStatusMessage({ type: 'success', text: 'Suppression removed. Rescan to see the finding again.' })
+    } catch (error) {
+      setStatusMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to remove suppression' })
+    }
+  }
+
+  const expiredSuppressions = suppressions.filter(entry => entry.expired).length
+
   const generateFix = async (finding: SecurityFinding) => {
     setGeneratingFix(true)
     try {
@@ -108,26 +260,147 @@ export default function Security() {
               Scan for vulnerabilities: SQL injection, XSS, command injection, hardcoded secrets, and more.
             </p>
           </div>
-          <button
-            className="btn btn-primary"
-            onClick={runScan}
-            disabled={scanning}
-          >
-            {scanning ? (
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button className="btn btn-secondary" onClick={importSarif} disabled={scanning}>
+              Import SARIF
+            </button>
+            <button className="btn btn-secondary" onClick={exportSarif} disabled={scanning}>
+              Export SARIF
+            </button>
+            <button
+              className="btn btn-primary"
+              onClick={runScan}
+              disabled={scanning}
+            >
+              {scanning ? (
+                <>
+                  <div className="spinner" style={{ width: '14px', height: '14px', borderTopColor: '#000' }} />
+                  Scanning...
+                </>
+              ) : (
+                <>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+                  </svg>
+                  Scan Repository
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+
+        {statusMessage && (
+          <div className={`alert ${statusMessage.type}`} style={{ marginBottom: '16px' }}>
+            {statusMessage.text}
+          </div>
+        )}
+
+        {sarifImports.length > 0 && (
+          <div className="card" style={{ marginBottom: '16px' }}>
+            <div className="card-header">
+              <h3 className="card-title">Imported SARIF Results</h3>
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              {sarifImports.map(entry => (
+                <div key={entry.tool} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+                  <div>
+                    <span style={{ fontWeight: 500 }}>{entry.tool}</span>
+                    <span style={{ fontSize: '12px', color: 'var(--text-secondary)', marginLeft: '8px' }}>
+                      {entry.findingCount} findings · {new Date(entry.importedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <button className="btn btn-ghost btn-sm" onClick={() => removeSarifImport(entry.tool)}>
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {advisoryDb && (
+          <div className="card" style={{ marginBottom: '16px' }}>
+            <div className="card-header">
+              <h3 className="card-title">Offline Advisory Database</h3>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button className="btn btn-secondary btn-sm" onClick={importAdvisories} disabled={scanning || importingAdvisories}>
+                  {importingAdvisories ? 'Importing...' : 'Import OSV Dump'}
+                </button>
+                {advisoryDb.total > 0 && (
+                  <button className="btn btn-ghost btn-sm" onClick={clearAdvisories} disabled={scanning || importingAdvisories}>
+                    Clear
+                  </button>
+                )}
+              </div>
+            </div>
+            {advisoryDb.total > 0 ? (
               <>
-                <div className="spinner" style={{ width: '14px', height: '14px', borderTopColor: '#000' }} />
-                Scanning...
+                <div style={{ fontSize: '13px', marginBottom: '6px' }}>
+                  {advisoryDb.total} advisories · newest updated {formatAge(advisoryDb.newestModified)} · imported {formatAge(advisoryDb.importedAt)}
+                </div>
+                <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                  {Object.entries(advisoryDb.byEcosystem).map(([ecosystem, count]) => `${ecosystem} ${count}`).join(' · ')}
+                </div>
               </>
             ) : (
-              <>
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
-                </svg>
-                Scan Repository
-              </>
+              <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+                No advisories imported. Download OSV dumps (e.g. npm/all.zip from osv.dev), unzip them and import the folder.
+              </div>
             )}
-          </button>
-        </div>
+            <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+              {settings.offlineMode
+                ? 'Offline mode is on: npm audit is skipped and lockfiles are matched against this database.'
+                : 'Used for Python, Ruby and Elixir lockfiles, and for npm when the registry is unreachable. Turn on Offline Mode in Settings to always use it.'}
+            </div>
+          </div>
+        )}
+
+        {suppressions.length > 0 && (
+          <div className="card" style={{ marginBottom: '16px' }}>
+            <div className="card-header">
+              <h3 className="card-title">Suppressions</h3>
+              {expiredSuppressions > 0 && (
+                <span className="badge" style={{ background: SEVERITY_COLORS.medium.bg, color: SEVERITY_COLORS.medium.color }}>
+                  {expiredSuppressions} expired
+                </span>
+              )}
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              {suppressions.map(entry => (
+                <div
+                  key={entry.fingerprint}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'flex-start',
+                    justifyContent: 'space-between',
+                    gap: '12px',
+                    padding: '8px',
+                    borderRadius: '6px',
+                    background: entry.expired ? SEVERITY_COLORS.medium.bg : 'var(--bg-tertiary)'
+                  }}
+                >
+                  <div style={{ minWidth: 0 }}>
+                    <div style={{ fontSize: '13px', fontWeight: 500 }}>{entry.reason}</div>
+                    <div style={{ fontSize: '11px', fontFamily: 'monospace', color: 'var(--text-secondary)', wordBreak: 'break-all' }}>
+                      {entry.fingerprint}
+                    </div>
+                    <div style={{ fontSize: '12px', color: entry.expired ? SEVERITY_COLORS.medium.color : 'var(--text-tertiary)', marginTop: '2px' }}>
+                      {entry.owner ? `${entry.owner} · ` : ''}
+                      {entry.expires ? `${entry.expired ? 'expired' : 'expires'} ${entry.expires}` : 'no expiry'}
+                      {entry.expired ? ' · finding is reported again' : ` · ${entry.matched} matched in last full scan`}
+                    </div>
+                  </div>
+                  <button className="btn btn-ghost btn-sm" onClick={() => removeSuppression(entry.fingerprint)}>
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+              Stored in .bridge.json. Add <code>// bridge-ignore &lt;rule-id&gt;</code> next to a line to silence a single pattern match.
+            </div>
+          </div>
+        )}
 
         {scannerAvailable === false && (
           <div className="card" style={{ marginBottom: '16px', borderColor: 'var(--warning)', background: 'rgba(245, 158, 11, 0.1)' }}>
@@ -240,6 +513,17 @@ export default function Security() {
                             {finding.severity}
                           </span>
                           <span style={{ fontWeight: 500 }}>{finding.issue.replace(/-/g, ' ')}</span>
+                          {finding.source && (
+                            <span className="badge badge-accent" style={{ fontSize: '10px' }}>{finding.source}</span>
+                          )}
+                          {finding.reachability && (
+                            <span
+                              className={`badge ${finding.reachability === 'reachable' ? 'badge-danger' : ''}`}
+                              style={{ fontSize: '10px', background: finding.reachability === 'reachable' ? undefined : 'var(--bg-tertiary)' }}
+                            >
+                              {REACHABILITY_LABELS[finding.reachability]}
+                            </span>
+                          )}
                         </div>
                         <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '4px' }}>
                           {finding.file}:{finding.line}
@@ -307,6 +591,23 @@ export default function Security() {
                       <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>{selectedFinding.description}</div>
                     </div>
 
+                    {selectedFinding.reachability && (
+                      <div>
+                        <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '4px' }}>
+                          {REACHABILITY_LABELS[selectedFinding.reachability]}
+                        </div>
+                        {selectedFinding.chain && selectedFinding.chain.length > 0 ? (
+                          <ol style={{ margin: 0, paddingLeft: '18px', fontSize: '12px', fontFamily: 'var(--font-mono)' }}>
+                            {selectedFinding.chain.map((step, index) => (
+                              <li key={`${step}-${index}`}>{step}</li>
+                            ))}
+                          </ol>
+                        ) : (
+                          <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>No import chain to this package.</div>
+                        )}
+                      </div>
+                    )}
+
                     <div>
                       <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '4px' }}>Vulnerable Code</div>
                       <pre style={{
@@ -345,6 +646,41 @@ export default function Security() {
                       </div>
                     )}
 
+                    {selectedFinding.fingerprints && selectedFinding.fingerprints.length > 0 && (
+                      <div>
+                        <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '4px' }}>Accept Risk</div>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                          <input
+                            className="input"
+                            placeholder="Reason (required)"
+                            value={suppressForm.reason}
+                            onChange={e => setSuppressForm({ ...suppressForm, reason: e.target.value })}
+                          />
+                          <div style={{ display: 'flex', gap: '6px' }}>
+                            <input
+                              className="input"
+                              placeholder="Owner"
+                              value={suppressForm.owner}
+                              onChange={e => setSuppressForm({ ...suppressForm, owner: e.target.value })}
+                            />
+                            <input
+                              type="date"
+                              className="input"
+                              value={suppressForm.expires}
+                              onChange={e => setSuppressForm({ ...suppressForm, expires: e.target.value })}
+                            />
+                          </div>
+                          <button
+                            className="btn btn-secondary btn-sm"
+                            onClick={() => suppressFinding(selectedFinding)}
+                            disabled={suppressing || !suppressForm.reason.trim()}
+                          >
+                            {suppressing ? 'Saving...' : 'Suppress Finding'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
                     {scannerAvailable && !selectedFinding.fixedCode && (
                       <button
                         className="btn btn-primary"
@@ -113,6 +113,18 @@ export default function Settings() {
     }
   }
 
+  const toggleOfflineMode = async (enabled: boolean) => {
+    setSavingAppSettings(true)
+    try {
+      await saveAppSettings({ offlineMode: enabled })
+      setMessage('App settings saved.')
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to save app settings')
+    } finally {
+      setSavingAppSettings(false)
+    }
+  }
+
   const saveBridgeConfig = async () => {
     if (!bridgeConfigRepoPath) return
     setBridgeConfigMessage(null)
@@ -251,6 +263,20 @@ export default function Settings() {
           <div style={{ marginTop: '10px', color: 'var(--text-tertiary)', fontSize: '12px' }}>
             Default: disabled
           </div>
+          <label className="simple-checkbox" style={{ marginTop: '16px' }}>
+            <input
+              type="checkbox"
+              checked={appSettings.offlineMode}
+              onChange={(e) => toggleOfflineMode(e.target.checked)}
+              disabled={appSettingsLoading || savingAppSettings}
+            />
+            <span className="checkbox-label">
+              Offline mode
+            </span>
+          </label>
+          <div style={{ marginTop: '10px', color: 'var(--text-tertiary)', fontSize: '12px' }}>
+            Skips npm audit and checks lockfiles against the advisory database imported in the Security view.
+          </div>
           <div style={{ marginTop: '16px', color: 'var(--text-secondary)', fontSize: '13px' }}>
             First-run checklist: {appSettings.onboardingCompleted ? 'completed' : 'pending'}
           </div>
@@ -9,7 +9,8 @@ interface AppSettingsContextType {
 
 const defaultSettings: AppSettings = {
   experimentalFeatures: false,
-  onboardingCompleted: false
+  onboardingCompleted: false,
+  offlineMode: false
 }
 
 const AppSettingsContext = createContext<AppSettingsContextType | undefined>(undefined)
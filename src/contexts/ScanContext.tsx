@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useMemo, useState } from 'react'
 import type { FullScanResult } from '../types'
 
-export type ScanTab = 'overview' | 'circular' | 'dead-code' | 'bundle' | 'coverage' | 'docs'
+export type ScanTab = 'overview' | 'circular' | 'dead-code' | 'architecture' | 'complexity' | 'duplication' | 'bundle' | 'coverage' | 'docs'
 
 interface ScanContextType {
   scanResults: Record<string, FullScanResult>
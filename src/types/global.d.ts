@@ -8,8 +8,16 @@ import type {
   PatchBatchConfig,
   PatchBatchResult,
   NonBreakingUpdateConfig,
+  GroupedUpdateConfig,
+  GroupedUpdateResult,
   SecurityPatchConfig,
   SecurityPatchResult,
+  UpgradeTrialConfig,
+  UpgradeTrialReport,
+  PackageMigrationConfig,
+  RequiredPackagesConfig,
+  RequiredPackageStatus,
+  PackageMigrationResult,
   PushBranchResult,
   RepoInfo,
   ScheduledJob,
@@ -22,12 +30,19 @@ import type {
   FullScanResult,
   DeadCodeReport,
   DeadCodeExport,
+  DependencyUsageReport,
   BridgeConsoleSettings,
   AppSettings,
   GitHubCliStatus,
   BridgeProjectConfigResult,
   BridgeConfig,
-  TechDebtScore
+  TechDebtScore,
+  ScanBaseline,
+  SarifImportSummary,
+  AdvisoryDbInfo,
+  AdvisoryImportResult,
+  SuppressionStatus,
+  SuppressionRequest
 } from './index'
 
 declare global {
@@ -56,13 +71,20 @@ declare global {
       getFileStats: (repoPath: string) => Promise<FileSizeStats>
       getCleanupReport: (repoPath: string) => Promise<CleanupReport>
       detectDeadCode: (repoPath: string) => Promise<DeadCodeReport>
+      getDependencyUsage: (repoPath: string) => Promise<DependencyUsageReport>
       runFullScan: (repoPath: string) => Promise<FullScanResult>
       onFullScanProgress: (callback: (progress: { message: string; step: number; total: number }) => void) => () => void
+      saveScanBaseline: (repoPath: string) => Promise<ScanBaseline>
       deleteDeadFile: (repoPath: string, relativePath: string) => Promise<boolean>
       cleanupDeadCode: (payload: { repoPath: string; deadFiles: string[]; unusedExports: DeadCodeExport[]; createPr?: boolean }) => Promise<any>
       getOutdatedPackages: (repoPath: string, language?: Language) => Promise<OutdatedPackage[]>
       runPatchBatch: (config: PatchBatchConfig) => Promise<PatchBatchResult>
       runNonBreakingUpdate: (config: NonBreakingUpdateConfig) => Promise<PatchBatchResult>
+      runGroupedUpdate: (config: GroupedUpdateConfig) => Promise<GroupedUpdateResult>
+      runUpgradeTrial: (config: UpgradeTrialConfig) => Promise<UpgradeTrialReport>
+      runPackageMigration: (config: PackageMigrationConfig) => Promise<PackageMigrationResult>
+      getRequiredPackages: (repoPath: string) => Promise<RequiredPackageStatus>
+      runRequiredPackages: (config: RequiredPackagesConfig) => Promise<PatchBatchResult>
       runSecurityPatch: (config: SecurityPatchConfig) => Promise<SecurityPatchResult>
       pushBranch: (repoPath: string, branchName: string) => Promise<PushBranchResult>
       onPatchBatchProgress: (callback: (progress: { message: string; step: number; total: number }) => void) => () => void
@@ -89,6 +111,16 @@ declare global {
       runSecurityScan: (repoPath: string) => Promise<ScanResult>
       generateSecurityFix: (finding: SecurityFinding) => Promise<string | null>
       onSecurityScanProgress: (callback: (progress: ScanProgress) => void) => () => void
+      importSarif: (repoPath: string, sarifPath?: string) => Promise<SarifImportSummary[] | null>
+      getSarifImports: (repoPath: string) => Promise<SarifImportSummary[]>
+      removeSarifImport: (repoPath: string, tool: string) => Promise<SarifImportSummary[]>
+      exportSarif: (repoPath: string) => Promise<string | null>
+      getAdvisoryDbInfo: () => Promise<AdvisoryDbInfo>
+      importOsvAdvisories: (sourcePaths?: string[]) => Promise<AdvisoryImportResult | null>
+      clearAdvisoryDb: () => Promise<AdvisoryDbInfo>
+      getSuppressions: (repoPath: string) => Promise<SuppressionStatus[]>
+      addSuppression: (repoPath: string, request: SuppressionRequest) => Promise<SuppressionStatus[]>
+      removeSuppression: (repoPath: string, fingerprint: string) => Promise<SuppressionStatus[]>
       getBridgeConsoleSettings: () => Promise<BridgeConsoleSettings>
       saveBridgeConsoleSettings: (settings: BridgeConsoleSettings) => Promise<BridgeConsoleSettings>
       testBridgeConsoleConnection: (settings: BridgeConsoleSettings) => Promise<{ ok: boolean; message?: string }>
@@ -15,11 +15,18 @@ export interface OutdatedPackage {
   current: string
   wanted: string
   latest: string
-  type: 'dependencies' | 'devDependencies'
+  type: 'dependencies' | 'devDependencies' | 'peerDependencies'
   hasPatchUpdate: boolean
   isNonBreaking: boolean
   updateType: 'patch' | 'minor' | 'major' | 'unknown'
   language: Language
+  policy?: 'auto' | 'review' | 'ignore'
+  policySource?: string
+  cooldown?: {
+    minReleaseAgeDays: number
+    skipped: Array<{ version: string; publishedAt: string }>
+    unresolved?: boolean
+  }
   vulnerabilities?: {
     critical: number
     high: number
@@ -67,6 +74,7 @@ export interface PatchBatchConfig {
   testTimeoutMs?: number
   prTitle?: string
   prBody?: string
+  bisectOnFailure?: boolean
 }
 
 export interface NonBreakingUpdateConfig {
@@ -83,6 +91,33 @@ export interface NonBreakingUpdateConfig {
   testTimeoutMs?: number
   prTitle?: string
   prBody?: string
+  bisectOnFailure?: boolean
+  group?: string
+  priorityPackages?: string[]
+}
+
+export interface BisectionCulprit {
+  name: string
+  failedCommand?: string
+  output: string
+}
+
+export interface LockfilePackageChange {
+  name: string
+  from?: string
+  to?: string
+  sizeBefore?: number
+  sizeAfter?: number
+  newInstallScript?: boolean
+}
+
+export interface LockfileDiff {
+  lockfile: string
+  added: LockfilePackageChange[]
+  removed: LockfilePackageChange[]
+  changed: LockfilePackageChange[]
+  sizeDelta?: number
+  unsizedPackages?: number
 }
 
 export interface PatchBatchResult {
@@ -95,6 +130,139 @@ export interface PatchBatchResult {
   error?: string
   testsPassed?: boolean
   testOutput?: string
+  culprits?: BisectionCulprit[]
+  lockfileDiff?: LockfileDiff
+}
+
+export interface GroupedUpdateConfig {
+  repoPath: string
+  createPR: boolean
+  runTests: boolean
+  pushChanges?: boolean
+  baseBranch?: string
+  remoteFirst?: boolean
+  groups?: Array<string | null>
+  selectedReviewPackages?: string[]
+  testCommand?: string
+  testTimeoutMs?: number
+  bisectOnFailure?: boolean
+}
+
+export interface GroupedUpdateResult {
+  success: boolean
+  runs: Array<{ group: string | null; result: PatchBatchResult }>
+  error?: string
+}
+
+export interface UpgradeTrialConfig {
+  repoPath: string
+  packageName: string
+  version: string
+  dev?: boolean
+  runTests?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
+}
+
+export interface TypeCheckError {
+  file: string
+  line: number
+  column: number
+  code: string
+  message: string
+}
+
+export interface UpgradeTrialReport {
+  success: boolean
+  packageName: string
+  fromVersion?: string
+  toVersion: string
+  typecheck?: {
+    ran: boolean
+    skippedReason?: string
+    baselineErrors: number
+    trialErrors: number
+    newErrorCount: number
+    fixedErrorCount: number
+    newErrors: TypeCheckError[]
+    affectedFiles: Array<{ file: string; errors: number }>
+  }
+  validation?: {
+    ran: boolean
+    skippedReason?: string
+    baselinePassed: boolean
+    trialPassed: boolean
+    failedCommand?: string
+    regressed: boolean
+    reason?: string
+    newFailures: string[]
+  }
+  effort?: 'none' | 'small' | 'medium' | 'large'
+  durationMs: number
+  error?: string
+}
+
+export interface PackageMigrationConfig {
+  repoPath: string
+  packageName: string
+  branchName?: string
+  createPR?: boolean
+  runTests?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
+}
+
+export interface RequiredPackage {
+  name: string
+  version?: string
+  type?: 'dependencies' | 'devDependencies'
+}
+
+export interface RequiredPackageIssue extends RequiredPackage {
+  problem: 'missing' | 'version' | 'type'
+  declared?: DeclaredDependency
+}
+
+export interface RequiredPackageStatus {
+  required: RequiredPackage[]
+  issues: RequiredPackageIssue[]
+}
+
+export interface RequiredPackagesConfig {
+  repoPath: string
+  branchName?: string
+  createPR?: boolean
+  runTests?: boolean
+  testCommand?: string
+  testTimeoutMs?: number
+  baseBranch?: string
+  remoteFirst?: boolean
+}
+
+export interface MigrationSite {
+  file: string
+  line: number
+  text: string
+  reason?: string
+}
+
+export interface PackageMigrationResult {
+  success: boolean
+  from: string
+  to?: string
+  branchName?: string
+  prUrl?: string | null
+  rewritten?: MigrationSite[]
+  manual?: MigrationSite[]
+  removedPackage?: boolean
+  installedPackage?: boolean
+  testsPassed?: boolean
+  testOutput?: string
+  error?: string
 }
 
 export interface SecurityPatchConfig {
@@ -114,6 +282,7 @@ export interface BridgePatchConfig {
   branchPrefix?: string
   baseBranch?: string
   remoteFirst?: boolean
+  bisectOnFailure?: boolean
 }
 
 export interface BridgeProjectConfig {
@@ -187,6 +356,7 @@ export interface ScheduledJob {
   language: string
   createPR: boolean
   runTests: boolean
+  group?: string
   createdAt: string
 }
 
@@ -203,6 +373,7 @@ export interface ScheduledJobCreateInput {
   language: string
   createPR: boolean
   runTests: boolean
+  group?: string
 }
 
 export interface SmartScanSchedule {
@@ -237,6 +408,10 @@ export interface SecurityFinding {
   owasp: string
   solution?: string
   fixedCode?: string
+  source?: string
+  reachability?: VulnerabilityReachability
+  chain?: string[]
+  fingerprints?: string[]
 }
 
 export interface ScanResult {
@@ -265,24 +440,182 @@ export interface VulnerabilitySummary {
   medium: number
   low: number
   total: number
+  offline?: OfflineAuditSource
+}
+
+export interface DependencyLag {
+  updateType: 'patch' | 'minor' | 'major'
+  firstVersion: string
+  behindSince: string
+  newestVersion: string
+  daysBehind: number
+  maxAgeDays: number
+  overdue: boolean
+}
+
+export interface DependencyFreshness {
+  name: string
+  current: string
+  lags: DependencyLag[]
+  daysOverdue: number
 }
 
 export interface DependencyReport {
   outdated: OutdatedPackage[]
   vulnerabilities: VulnerabilitySummary
   installedPackages?: string[]
+  declaredDependencies?: DeclaredDependency[]
+  freshness?: DependencyFreshness[] | null
+  reachability?: VulnerabilityReachabilityReport | null
   error?: string
 }
 
+export type VulnerabilityReachability = 'reachable' | 'dev-only' | 'transitive-unused' | 'unknown'
+
+export interface VulnerabilityReachabilityFinding {
+  ecosystem: AdvisoryEcosystem
+  name: string
+  severity: 'critical' | 'high' | 'medium' | 'low'
+  advisories: string[]
+  reachability: VulnerabilityReachability
+  chain: string[]
+}
+
+export interface VulnerabilityReachabilityReport {
+  lockfile: string | null
+  findings: VulnerabilityReachabilityFinding[]
+}
+
+export interface DeclaredDependency {
+  name: string
+  range: string
+  field: 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies'
+}
+
 export interface CircularDependency {
   from: string
   to: string
   cycle: string[]
 }
 
+export interface ModuleGraphNode {
+  id: string
+  inCycle: boolean
+  reachable: boolean
+}
+
+export interface ModuleGraphEdge {
+  from: string
+  to: string
+  kind: 'static' | 'type' | 'dynamic' | 'require' | 'reexport'
+  inCycle: boolean
+}
+
+export interface ModuleGraph {
+  nodes: ModuleGraphNode[]
+  edges: ModuleGraphEdge[]
+}
+
 export interface CircularDependencyReport {
   count: number
   dependencies: CircularDependency[]
+  graph?: ModuleGraph
+  error?: string
+}
+
+export interface ArchitectureViolation {
+  rule: string
+  severity: 'error' | 'warning'
+  from: string
+  to: string
+  kind: ModuleGraphEdge['kind']
+  external: boolean
+}
+
+export interface ArchitectureRulesReport {
+  rules: number
+  violations: ArchitectureViolation[]
+  errorCount: number
+  warningCount: number
+  error?: string
+}
+
+export interface FunctionComplexity {
+  file: string
+  name: string
+  line: number
+  language: 'javascript' | 'python' | 'ruby'
+  cyclomatic: number
+  cognitive: number
+}
+
+export interface ComplexityReport {
+  filesAnalyzed: number
+  functionCount: number
+  averageCyclomatic: number
+  averageCognitive: number
+  avgFileComplexity: number
+  maxCyclomatic: number
+  maxCognitive: number
+  threshold: number
+  overThreshold: number
+  worstOffenders: FunctionComplexity[]
+}
+
+export interface CloneLocation {
+  file: string
+  startLine: number
+  endLine: number
+  snippet: string
+}
+
+export interface ClonePair {
+  tokens: number
+  lines: number
+  first: CloneLocation
+  second: CloneLocation
+}
+
+export interface DuplicationReport {
+  filesAnalyzed: number
+  totalLines: number
+  duplicatedLines: number
+  percentage: number
+  minTokens: number
+  cloneCount: number
+  clones: ClonePair[]
+  error?: string
+}
+
+export interface DependencyImportSite {
+  file: string
+  line: number
+  specifier: string
+  kind: 'static' | 'type' | 'dynamic' | 'require' | 'reexport'
+  names: string[]
+}
+
+export interface DependencyUsage {
+  name: string
+  manifest: string
+  field: 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies'
+  sites: DependencyImportSite[]
+  files: string[]
+  symbols: string[]
+  implicitUse?: 'script' | 'config' | 'types'
+  unused: boolean
+}
+
+export interface UndeclaredDependency {
+  name: string
+  manifest: string
+  sites: DependencyImportSite[]
+  files: string[]
+}
+
+export interface DependencyUsageReport {
+  dependencies: DependencyUsage[]
+  undeclared: UndeclaredDependency[]
   error?: string
 }
 
@@ -295,10 +628,7 @@ export interface DeadCodeReport {
   deadFiles: string[]
   unusedExports: DeadCodeExport[]
   totalDeadCodeCount: number
-  raw?: {
-    knip?: string
-    unimported?: string
-  }
+  warnings?: string[]
   error?: string
 }
 
@@ -332,6 +662,8 @@ export interface DocumentationDebtReport {
   readmeOutdated: boolean
   daysSinceUpdate: number
   undocumentedFunctions: number
+  readmeExists?: boolean
+  hasChangelog?: boolean
   error?: string
 }
 
@@ -342,6 +674,29 @@ export interface ConsoleUploadResult {
   error?: string
 }
 
+export interface ArchitectureRule {
+  name: string
+  description?: string
+  type: 'forbid' | 'allow'
+  from: string[]
+  to: string[]
+  severity: 'error' | 'warning'
+  includeTypeImports?: boolean
+}
+
+export interface UpdatePolicy {
+  patch: 'auto' | 'review' | 'ignore'
+  minor: 'auto' | 'review' | 'ignore'
+  major: 'review' | 'ignore'
+}
+
+export interface DependencyGroup {
+  name: string
+  packages: string[]
+  updateTypes: Array<'patch' | 'minor' | 'major'>
+  schedule?: ScheduleFrequency
+}
+
 export interface BridgeConfig {
   version: 1
   project: {
@@ -358,14 +713,22 @@ export interface BridgeConfig {
       minor: 'auto' | 'review' | 'ignore'
       major: 'review' | 'ignore'
     }
+    updatePolicyOverrides?: {
+      dependencyTypes?: Partial<Record<'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies', Partial<UpdatePolicy>>>
+      packages?: Record<string, Partial<UpdatePolicy>>
+    }
     bannedPackages?: string[]
-    requiredPackages?: string[]
+    requiredPackages?: Array<string | RequiredPackage>
     pinnedPackages?: Record<string, string>
+    migrations?: Record<string, string>
     maxAge?: {
       patch: number
       minor: number
       major: number
     }
+    minReleaseAgeDays?: number
+    minReleaseAgeOverrides?: Record<string, number>
+    groups?: DependencyGroup[]
     securityPolicy: {
       autoFixCritical: boolean
       autoFixHigh: boolean
@@ -401,12 +764,22 @@ export interface BridgeConfig {
       maxDeadFiles: number
       failOnNew: boolean
     }
+    architecture?: {
+      maxViolations: number
+      failOnNew: boolean
+    }
+    securityPatterns?: {
+      failOnNew: boolean
+    }
     documentation: {
       requireReadme: boolean
       requireChangelog: boolean
       maxDaysSinceReadmeUpdate?: number
     }
   }
+  architecture?: {
+    rules: ArchitectureRule[]
+  }
   agent: {
     context: string
     conventions?: string[]
@@ -430,13 +803,24 @@ export interface BridgeConfig {
       minTestCoverage?: number
       maxOversizedFiles?: number
       maxAvgFileComplexity?: number
+      maxFunctionComplexity?: number
+      maxDuplicationPercent?: number
       maxDebtScore?: number
     }
+    trend?: {
+      window: number
+      threshold: number
+    }
   }
   scan: {
     schedule?: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'manual'
     exclude?: string[]
     include?: string[]
+    gitignore?: boolean
+    entries?: string[]
+    duplication?: {
+      minTokens: number
+    }
     features: {
       dependencies: boolean
       security: boolean
@@ -454,9 +838,66 @@ export interface BridgeConfig {
     autoUpload: boolean
     uploadOn?: ('scan' | 'update' | 'schedule')[]
   }
+  suppressions?: FindingSuppression[]
+}
+
+export interface FindingSuppression {
+  fingerprint: string
+  reason: string
+  owner?: string
+  expires?: string
+}
+
+export interface SuppressionStatus extends FindingSuppression {
+  expired: boolean
+  matched: number
+}
+
+export interface SuppressionReport {
+  suppressed: number
+  entries: SuppressionStatus[]
+}
+
+export interface SuppressionRequest {
+  fingerprints: string[]
+  reason: string
+  owner?: string
+  expires?: string
+}
+
+export type AdvisoryEcosystem = 'npm' | 'PyPI' | 'RubyGems' | 'Hex'
+
+export interface OfflineAuditSource {
+  ecosystems: AdvisoryEcosystem[]
+  importedAt: string | null
+  newestModified: string | null
+}
+
+export interface AdvisoryDbInfo {
+  path: string
+  importedAt: string | null
+  newestModified: string | null
+  total: number
+  byEcosystem: Record<AdvisoryEcosystem, number>
+  sources: string[]
+}
+
+export interface AdvisoryImportResult {
+  imported: number
+  skipped: number
+  info: AdvisoryDbInfo
+}
+
+export interface SarifImportSummary {
+  tool: string
+  sourcePath: string
+  importedAt: string
+  findingCount: number
 }
 
 export interface SecurityPatternFinding {
+  ruleId?: string
+  source?: string
   file: string
   line: number
   column?: number
@@ -487,6 +928,7 @@ export interface DebtContributor {
 }
 
 export interface ActionItem {
+  id?: string
   priority: number
   title: string
   description: string
@@ -497,10 +939,23 @@ export interface ActionItem {
   command?: string
 }
 
+export interface ScoreTrend {
+  direction: 'improving' | 'stable' | 'declining' | 'unknown'
+  window: number
+  threshold: number
+  samples: number
+  baseline: number | null
+  delta: number | null
+  previousTotal: number | null
+  previousAt: string | null
+  dimensionDeltas: Partial<Record<'dependencies' | 'security' | 'architecture' | 'testing' | 'documentation' | 'codeHealth', number>>
+}
+
 export interface TechDebtScore {
   total: number
   grade: 'A' | 'B' | 'C' | 'D' | 'F'
   trend: 'improving' | 'stable' | 'declining' | 'unknown'
+  trendDetails?: ScoreTrend
   dimensions: {
     dependencies: DimensionScore
     security: DimensionScore
@@ -521,6 +976,37 @@ export interface GateResult {
   details?: Record<string, any>
 }
 
+export interface BaselineFindings {
+  circularDependencies: string[]
+  deadFiles: string[]
+  unusedExports: string[]
+  securityFindings: string[]
+  architectureViolations?: string[]
+}
+
+export interface ScanBaseline {
+  version: 1
+  branch: string
+  commit?: string
+  generatedAt: string
+  findings: BaselineFindings
+}
+
+export interface BaselineComparison {
+  branch: string
+  commit?: string
+  generatedAt: string
+  newFindings: Partial<BaselineFindings>
+  resolvedCount: number
+}
+
+export interface PathFilterSummary {
+  include: string[]
+  exclude: string[]
+  gitignore: boolean
+  gitignoreFiles: string[]
+}
+
 export interface BridgeScanReport {
   version: 1
   generatedAt: string
@@ -545,6 +1031,7 @@ export interface BridgeScanReport {
   architecture: {
     circularDependencies: CircularDependencyReport
     deadCode: DeadCodeReport
+    rules?: ArchitectureRulesReport
     bundleSize: BundleAnalysisReport
     oversizedFiles: OversizedComponent[]
   }
@@ -553,7 +1040,15 @@ export interface BridgeScanReport {
     hasTests: boolean
     testCommand?: string
   }
+  build?: {
+    command: string | null
+  }
   documentation: DocumentationDebtReport
+  complexity?: ComplexityReport
+  duplication?: DuplicationReport
+  scanFilter?: PathFilterSummary
+  baseline?: BaselineComparison | null
+  suppressions?: SuppressionReport | null
   gates: {
     passed: boolean
     results: GateResult[]
@@ -587,6 +1082,7 @@ export interface FullScanResult {
   dependencies: DependencyReport
   circularDependencies: CircularDependencyReport
   deadCode: DeadCodeReport
+  architectureRules?: ArchitectureRulesReport
   bundleSize: BundleAnalysisReport
   testCoverage: TestCoverageReport
   documentation: DocumentationDebtReport
@@ -603,6 +1099,8 @@ export interface FullScanResult {
     packageScriptsCount: number
     hasGitignore: boolean
   }
+  complexity?: ComplexityReport
+  duplication?: DuplicationReport
   techDebtScore: TechDebtScore
   scanReport?: BridgeScanReport
   reportPaths?: {
@@ -610,8 +1108,10 @@ export interface FullScanResult {
     latestScorePath: string
     archivePath: string
     configSnapshotPath: string
+    sarifPath: string
   }
   consoleUpload?: ConsoleUploadResult
+  suppressions?: SuppressionReport | null
   durationMs: number
 }
 
@@ -625,6 +1125,7 @@ export interface BridgeConsoleSettings {
 export interface AppSettings {
   experimentalFeatures: boolean
   onboardingCompleted: boolean
+  offlineMode: boolean
 }
 
 export type View = 'dashboard' | 'patch-batch' | 'scheduler' | 'security' | 'full-scan' | 'settings'
@@ -17,7 +17,22 @@ export default defineConfig({
           build: {
             outDir: 'dist-electron',
             rollupOptions: {
-              external: ['electron', 'electron-store', 'dependency-cruiser']
+              external: ['electron', 'conf']
+            }
+          }
+        }
+      },
+      {
+        entry: 'electron/cli.ts',
+        onstart() {},
+        vite: {
+          build: {
+            outDir: 'dist-electron',
+            rollupOptions: {
+              external: ['conf'],
+              output: {
+                banner: '#!/usr/bin/env node'
+              }
             }
           }
         }